@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { propertyDataCache, getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { getAllCacheStats } from "~/lib/analytics/AnalyticsCache";
+import type { ApiError } from "~/types/analytics";
+// Load the service singletons so their caches are registered for stats reporting
+import "~/lib/analytics/AnalyticsDataSync";
+import "~/lib/analytics/OptimizedAnalyticsService";
+
+/**
+ * GET /api/analytics/cache
+ * Hit/miss statistics for every registered analytics cache
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to view cache statistics",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      caches: getAllCacheStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in GET /api/analytics/cache:", error);
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: errorMessage,
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/analytics/cache
+ * Invalidate all cached property data for the signed-in user
+ */
+export async function DELETE(_request: NextRequest) {
+  try {
+    const session = await auth();
+    const cacheScope = getCacheScope(session);
+
+    if (!session?.user || !cacheScope) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to clear cached Analytics data",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const removed = propertyDataCache.invalidateScope(cacheScope);
+
+    return NextResponse.json({
+      success: true,
+      removedEntries: removed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in DELETE /api/analytics/cache:", error);
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: errorMessage,
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
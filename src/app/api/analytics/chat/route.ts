@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "~/server/auth";
 import type { ApiError } from "~/types/analytics";
-import type { ChatMessage } from "~/types/chat";
+import type { ChatMessage, DateRange } from "~/types/chat";
+import { parseDateRange, DateRangeError } from "~/lib/analytics/DateRangeResolver";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 
 // Request body interface
@@ -82,10 +83,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(error, { status: 400 });
     }
 
-    // Basic date range default
-    const dateRange = body.dateRange && body.dateRange.startDate && body.dateRange.endDate
-      ? body.dateRange
-      : { startDate: "7daysAgo", endDate: "today" };
+    // Date range defaults to the last 7 days; invalid values are rejected
+    let dateRange: DateRange;
+    try {
+      dateRange = parseDateRange(body.dateRange?.startDate, body.dateRange?.endDate);
+    } catch (dateError) {
+      if (!(dateError instanceof DateRangeError)) throw dateError;
+      const error: ApiError = {
+        error: "Invalid Date Range",
+        message: dateError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
 
     // Validate conversation history if provided
     let conversationHistory: ChatMessage[] = [];
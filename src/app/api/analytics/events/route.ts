@@ -1,6 +1,7 @@
 import { NextRequest } from "next/server";
 import { auth } from "~/server/auth";
 import { analyticsDataSync } from "~/lib/analytics/AnalyticsDataSync";
+import { parseDateRange, DateRangeError } from "~/lib/analytics/DateRangeResolver";
 import type { AnalyticsData } from "~/types/analytics";
 import type { DateRange } from "~/types/chat";
 
@@ -18,8 +19,16 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const propertyIds = searchParams.get("propertyIds")?.split(",") || [];
-    const startDate = searchParams.get("startDate") || "7daysAgo";
-    const endDate = searchParams.get("endDate") || "today";
+    let dateRange: DateRange;
+    try {
+      dateRange = parseDateRange(searchParams.get("startDate"), searchParams.get("endDate"));
+    } catch (error) {
+      if (error instanceof DateRangeError) {
+        return new Response(error.message, { status: 400 });
+      }
+      throw error;
+    }
+    const { startDate, endDate } = dateRange;
 
     // Create readable stream for SSE
     const stream = new ReadableStream({
@@ -38,8 +47,9 @@ export async function GET(request: NextRequest) {
 
         // Set up data update listener
         const dataUpdateListener = (propertyId: string, data: AnalyticsData, dateRange: DateRange) => {
-          // Only send updates for requested properties
-          if (propertyIds.length === 0 || propertyIds.includes(propertyId)) {
+          // Only send updates for requested properties and the requested date range
+          const isRequestedRange = dateRange.startDate === startDate && dateRange.endDate === endDate;
+          if (isRequestedRange && (propertyIds.length === 0 || propertyIds.includes(propertyId))) {
             sendEvent("dataUpdate", {
               propertyId,
               dateRange,
@@ -0,0 +1,157 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { propertyDataCache, getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import {
+  portfolioService,
+  MAX_PORTFOLIO_PROPERTIES,
+  PORTFOLIO_METRICS,
+} from "~/lib/analytics/PortfolioService";
+import { isValidTimeZone } from "~/lib/analytics/TimeZoneAlignment";
+import { filters } from "~/lib/analytics/FilterExpression";
+import { parseDateRange, resolveDateRange, DateRangeError } from "~/lib/analytics/DateRangeResolver";
+import { logger } from "~/lib/logger";
+import type { ApiError, PortfolioPropertySeries } from "~/types/analytics";
+
+// Properties fetched in parallel
+const PORTFOLIO_BATCH_SIZE = 5;
+
+/**
+ * GET /api/analytics/portfolio
+ * Daily sessions, new users and page views summed across properties.
+ * Query params: `propertyIds` (comma-separated, up to 25), `startDate`, `endDate`, `organicOnly`,
+ * `timeZone` (IANA name; aligns every property's days to it using hourly data, otherwise each
+ * property keeps its own calendar and mixed time zones come back with a warning).
+ * Properties whose time zone cannot be loaded are left out and listed as failed, since their days
+ * could not be aligned.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to access Analytics data",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    if (!session.accessToken || session.error === "RefreshAccessTokenError") {
+      const error: ApiError = {
+        error: "No Access Token",
+        message: "No valid access token found. Please re-authenticate.",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const propertyIds = Array.from(new Set(
+      (searchParams.get("propertyIds") ?? "").split(",").map((id) => id.trim()).filter(Boolean),
+    ));
+    const timeZoneParam = searchParams.get("timeZone");
+    const organicOnly = searchParams.get("organicOnly") === "1";
+
+    if (propertyIds.length === 0 || propertyIds.length > MAX_PORTFOLIO_PROPERTIES) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: `propertyIds must list between 1 and ${MAX_PORTFOLIO_PROPERTIES} property IDs`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    if (timeZoneParam && !isValidTimeZone(timeZoneParam)) {
+      const error: ApiError = {
+        error: "Invalid Time Zone",
+        message: `Unknown time zone "${timeZoneParam}"`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+    const reportingTimeZone = timeZoneParam ?? null;
+
+    let startDate: string;
+    let endDate: string;
+    try {
+      ({ startDate, endDate } = parseDateRange(
+        searchParams.get("startDate"),
+        searchParams.get("endDate"),
+        { startDate: "30daysAgo", endDate: "today" },
+      ));
+    } catch (dateError) {
+      if (!(dateError instanceof DateRangeError)) throw dateError;
+      const error: ApiError = {
+        error: "Invalid Date Range",
+        message: dateError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const dimensionFilter = organicOnly ? filters.string("sessionDefaultChannelGroup", "Organic Search") : undefined;
+    const cacheScope = getCacheScope(session);
+    const accessToken = session.accessToken;
+
+    // Each property's series is cached on its own, so invalidating one property refreshes its share
+    const fetchSeries = async (propertyId: string): Promise<PortfolioPropertySeries> => {
+      const timeZone = await propertyMetadataService.getTimeZone(accessToken, propertyId, cacheScope);
+      const range = resolveDateRange({ startDate, endDate }, reportingTimeZone ?? timeZone);
+      const baseKey = `portfolio|${range.startDate}|${range.endDate}|tz:${reportingTimeZone ?? ''}|organic:${organicOnly ? '1' : '0'}`;
+      if (cacheScope) {
+        const cached = propertyDataCache.get(cacheScope, propertyId, baseKey);
+        if (cached) return cached as PortfolioPropertySeries;
+      }
+
+      const series = await portfolioService.getPropertySeries(accessToken, propertyId, timeZone, range, {
+        reportingTimeZone,
+        dimensionFilter,
+      });
+      if (cacheScope) {
+        propertyDataCache.set(cacheScope, propertyId, baseKey, series);
+      }
+      return series;
+    };
+
+    const series: PortfolioPropertySeries[] = [];
+    const failedPropertyIds: string[] = [];
+    for (let i = 0; i < propertyIds.length; i += PORTFOLIO_BATCH_SIZE) {
+      const batch = propertyIds.slice(i, i + PORTFOLIO_BATCH_SIZE);
+      const results = await Promise.allSettled(batch.map(fetchSeries));
+      results.forEach((result, index) => {
+        const propertyId = batch[index] ?? "";
+        if (result.status === "fulfilled") {
+          series.push(result.value);
+        } else {
+          logger.warn(`[portfolio] Leaving out property ${propertyId}:`, result.reason);
+          failedPropertyIds.push(propertyId);
+        }
+      });
+    }
+
+    return NextResponse.json({
+      portfolio: portfolioService.mergeSeries(series, PORTFOLIO_METRICS, reportingTimeZone, failedPropertyIds),
+      dateRange: { startDate, endDate },
+      timestamp: new Date().toISOString(),
+      organicOnly,
+    });
+  } catch (error) {
+    console.error("Error in /api/analytics/portfolio:", error);
+
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: error instanceof Error ? error.message : "An unexpected error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
@@ -0,0 +1,149 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { propertyDataCache, getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import { cohortService, DEFAULT_COHORT_COUNTS, MAX_COHORTS } from "~/lib/analytics/CohortService";
+import {
+  filters,
+  parseFilterQuery,
+  FilterValidationError,
+  type FilterExpression,
+} from "~/lib/analytics/FilterExpression";
+import { getToday } from "~/lib/analytics/DateRangeResolver";
+import type { ApiError, CohortGranularity } from "~/types/analytics";
+
+const COHORT_GRANULARITIES: CohortGranularity[] = ["weekly", "monthly"];
+
+/**
+ * GET /api/analytics/properties/[id]/cohorts
+ * Retention of users grouped by first session date into weekly or monthly cohorts.
+ * Query params: `granularity` (weekly | monthly, default weekly), `cohorts` (number of cohorts,
+ * default 8 weekly / 6 monthly), `dimensionFilter`, `organicOnly`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to access Analytics data",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    if (!session.accessToken || session.error === "RefreshAccessTokenError") {
+      const error: ApiError = {
+        error: "No Access Token",
+        message: "No valid access token found. Please re-authenticate.",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const { id: propertyId } = await params;
+
+    if (!propertyId) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: "Property ID is required",
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const granularityParam = searchParams.get("granularity") ?? "weekly";
+    const cohortsParam = searchParams.get("cohorts");
+    const organicOnly = searchParams.get("organicOnly") === "1";
+    const dimensionFilterParam = searchParams.get("dimensionFilter");
+
+    const granularity = COHORT_GRANULARITIES.find((g) => g === granularityParam);
+    const cohortCount = cohortsParam ? Number(cohortsParam) : DEFAULT_COHORT_COUNTS[granularity ?? "weekly"];
+    if (!granularity || !Number.isInteger(cohortCount) || cohortCount < 1 || cohortCount > MAX_COHORTS) {
+      const error: ApiError = {
+        error: "Invalid Cohorts",
+        message: !granularity
+          ? `Invalid granularity "${granularityParam}", expected ${COHORT_GRANULARITIES.join(" or ")}`
+          : `cohorts must be a whole number between 1 and ${MAX_COHORTS}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    // Cohorts end with the last period completed in the property's time zone, so the cache key follows its "today"
+    const cacheScope = getCacheScope(session);
+    const timeZone = await propertyMetadataService.tryGetTimeZone(session.accessToken, propertyId, cacheScope);
+    const today = getToday(timeZone);
+    const baseKey = `cohorts|${granularity}|${cohortCount}|${today}|organic:${organicOnly ? '1' : '0'}|df:${dimensionFilterParam ?? ''}`;
+    if (cacheScope) {
+      const cached = propertyDataCache.get(cacheScope, propertyId, baseKey);
+      if (cached) {
+        return NextResponse.json(cached);
+      }
+    }
+
+    let dimensionFilter: FilterExpression | undefined;
+    try {
+      if (dimensionFilterParam) {
+        const metadata = await propertyMetadataService.tryGetMetadata(session.accessToken, propertyId, cacheScope);
+        dimensionFilter = parseFilterQuery(dimensionFilterParam, "dimension", propertyMetadataService.createFieldValidator(metadata));
+      }
+    } catch (filterError) {
+      if (!(filterError instanceof FilterValidationError)) throw filterError;
+      const error: ApiError = {
+        error: "Invalid Filter",
+        message: filterError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    if (organicOnly) {
+      const organic = filters.string("sessionDefaultChannelGroup", "Organic Search");
+      dimensionFilter = dimensionFilter ? filters.and(organic, dimensionFilter) : organic;
+    }
+
+    const report = await cohortService.getRetention(session.accessToken, propertyId, granularity, {
+      cohortCount,
+      timeZone,
+      dimensionFilter,
+    });
+
+    const responsePayload = {
+      propertyId,
+      cohorts: report,
+      timeZone,
+      timestamp: new Date().toISOString(),
+      organicOnly,
+      dimensionFilter: dimensionFilterParam,
+    };
+
+    if (cacheScope) {
+      propertyDataCache.set(cacheScope, propertyId, baseKey, responsePayload);
+    }
+
+    return NextResponse.json(responsePayload);
+  } catch (error) {
+    const { id } = await params;
+    console.error(`Error in /api/analytics/properties/${id}/cohorts:`, error);
+
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: error instanceof Error ? error.message : "An unexpected error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
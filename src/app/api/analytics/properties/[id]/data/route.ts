@@ -1,7 +1,39 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { auth } from "~/server/auth";
-import { googleAnalyticsService } from "~/lib/google-analytics";
-import type { ApiError } from "~/types/analytics";
+import { googleAnalyticsService, ANALYTICS_DATA_DIMENSIONS, type ReportRequest } from "~/lib/google-analytics";
+import { propertyDataCache, getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import { ecommerceService } from "~/lib/analytics/EcommerceService";
+import { currencyConverter } from "~/lib/analytics/CurrencyConverter";
+import {
+  filters,
+  parseFilterQuery,
+  FilterValidationError,
+  type FilterExpression,
+} from "~/lib/analytics/FilterExpression";
+import {
+  parseDateRange,
+  resolveCompareRange,
+  resolveDateRange,
+  isCompareMode,
+  getRangeLengthDays,
+  DateRangeError,
+  type CompareMode,
+} from "~/lib/analytics/DateRangeResolver";
+import { getDailyValues, observePeriod, testChange } from "~/lib/analytics/SignificanceTesting";
+import {
+  CURRENT_DATE_RANGE,
+  type ApiError,
+  type ChannelBreakdownRow,
+  type ChannelMetricChange,
+  type CompatibilityApiError,
+  type IncompatibleField,
+  type NamedDateRange,
+} from "~/types/analytics";
+import type { DateRange } from "~/types/chat";
+
+// Name of the comparison range in multi-range reports (see AnalyticsData.series)
+const PREVIOUS_DATE_RANGE = "previous";
 
 /**
  * GET /api/analytics/properties/[id]/data
@@ -58,14 +90,43 @@ export async function GET(
 
     // Get query parameters for date range and analysis options
     const { searchParams } = new URL(request.url);
-    const startDate = searchParams.get("startDate") ?? "30daysAgo";
-    const endDate = searchParams.get("endDate") ?? "today";
     const groupBy = searchParams.get("groupBy"); // e.g., "channel"
     const metricsParam = searchParams.get("metrics"); // comma-separated
-    const compare = searchParams.get("compare"); // "previous_period" | "previous_year"
+    const compareParam = searchParams.get("compare"); // "previous_period" | "previous_year" | "custom"
+    // Explicit comparison range for compare=custom
+    const compareStartDate = searchParams.get("compareStartDate");
+    const compareEndDate = searchParams.get("compareEndDate");
     const organicOnly = searchParams.get("organicOnly") === "1";
+    // Filters use the query-string syntax from FilterExpression, e.g. dimensionFilter=country==Germany,country==France
+    const dimensionFilterParam = searchParams.get("dimensionFilter");
+    const metricFilterParam = searchParams.get("metricFilter");
+    // Metrics whose Organic Search totals calculated metrics need (organic(...) in their expressions)
+    const organicMetrics = Array.from(new Set(
+      (searchParams.get("organicMetrics") ?? "").split(",").map((s) => s.trim()).filter(Boolean),
+    ));
 
-    // No additional CSV filters; only organicOnly supported for now
+    let startDate: string;
+    let endDate: string;
+    try {
+      ({ startDate, endDate } = parseDateRange(
+        searchParams.get("startDate"),
+        searchParams.get("endDate"),
+        { startDate: "30daysAgo", endDate: "today" },
+      ));
+      if (compareParam && !isCompareMode(compareParam)) {
+        throw new DateRangeError(`Unknown compare mode "${compareParam}". Use previous_period, previous_year or custom`);
+      }
+    } catch (dateError) {
+      if (!(dateError instanceof DateRangeError)) throw dateError;
+      const error: ApiError = {
+        error: "Invalid Date Range",
+        message: dateError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+    const compare: CompareMode | null = isCompareMode(compareParam) ? compareParam : null;
 
     // Metrics handling: default to sessions & users when grouping by channel
     const defaultMetrics = groupBy === "channel"
@@ -74,103 +135,177 @@ export async function GET(
     const parsedMetrics = metricsParam?.split(",").map(s => s.trim()).filter(Boolean) ?? [];
     const metrics = parsedMetrics.length > 0 ? parsedMetrics : defaultMetrics;
 
-    // Simple in-memory cache (module-scoped)
-    type CacheEntry = { data: any; expiresAt: number };
-    const TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-    // @ts-ignore module scoped singleton
-    globalThis.__ga_property_cache__ = globalThis.__ga_property_cache__ || new Map<string, CacheEntry>();
-    // @ts-ignore
-    const CACHE: Map<string, CacheEntry> = globalThis.__ga_property_cache__;
-
-    const baseKey = `${propertyId}|${startDate}|${endDate}|${(metrics || []).join(";")}|${groupBy || ''}|${compare || ''}|organic:${organicOnly ? '1' : '0'}`;
-    const now = Date.now();
-    const cached = CACHE.get(baseKey);
-    if (cached && cached.expiresAt > now) {
-      return NextResponse.json(cached.data);
+    // Per-user cache: entries are scoped to the signed-in identity so a hit never
+    // serves data fetched with another user's token. No identity means no caching.
+    const cacheScope = getCacheScope(session);
+    const baseKey = `${startDate}|${endDate}|${metrics.join(";")}|${groupBy ?? ''}|${compare ?? ''}${compare === 'custom' ? `:${compareStartDate}..${compareEndDate}` : ''}|organic:${organicOnly ? '1' : '0'}|df:${dimensionFilterParam ?? ''}|mf:${metricFilterParam ?? ''}|om:${organicMetrics.join(";")}`;
+    if (cacheScope) {
+      const cached = propertyDataCache.get(cacheScope, propertyId, baseKey);
+      if (cached) {
+        return NextResponse.json(cached);
+      }
     }
 
-    // Only organic-only filter supported
-    const dimensionFilter = organicOnly
-      ? {
-          filter: {
-            fieldName: "sessionDefaultChannelGroup",
-            stringFilter: { value: "Organic Search", matchType: "EXACT" },
-          },
-        } as any
-      : undefined;
+    // Validate metrics and filters against the property's metadata (custom definitions and key events included).
+    // If metadata cannot be loaded, the static GA4 field lists are used instead.
+    const metadata = await propertyMetadataService.tryGetMetadata(session.accessToken, propertyId, cacheScope);
+    const isValidField = propertyMetadataService.createFieldValidator(metadata);
 
-    const analyticsData = await googleAnalyticsService.getAnalyticsData(
-      session.accessToken,
-      propertyId,
-      startDate,
-      endDate,
-      metrics,
-      dimensionFilter,
-    );
+    const unknownMetrics = propertyMetadataService.findUnknownFields(metadata, [...metrics, ...organicMetrics], "metric");
+    if (unknownMetrics.length > 0) {
+      const error: ApiError = {
+        error: "Invalid Metrics",
+        message: `Unknown metrics for property ${propertyId}: ${unknownMetrics.join(", ")}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
 
-    // Optional: channel breakdown with deltas
-    let channelBreakdown: any[] | undefined;
-    if (groupBy === "channel") {
-      const dim = "sessionDefaultChannelGroup";
-
-      // No extra filters in channel breakdown for now
-      const dimensionFilter = undefined;
-
-      // Helper to resolve relative date ranges (supports GA keywords or ISO). For simplicity, when given GA keywords we reuse them.
-      const resolvePrevRange = (s: string, e: string, mode: string): { startDate: string; endDate: string } => {
-        // If GA relative keywords are used, calculate previous period length by making a best-effort simplistic approach:
-        // We'll not convert keywords; instead, for previous_period we rely on GA to accept explicit dates. If keywords are used, we fallback to same keywords (no-op compare).
-        // For robust behavior, expect explicit YYYY-MM-DD from the UI when compare is needed.
-        if (/^\d{4}-\d{2}-\d{2}$/.test(s) && /^\d{4}-\d{2}-\d{2}$/.test(e)) {
-          const sd = new Date(s);
-          const ed = new Date(e);
-          const msInDay = 24 * 60 * 60 * 1000;
-          const lenDays = Math.max(1, Math.round((ed.getTime() - sd.getTime()) / msInDay) + 1);
-          if (mode === "previous_period") {
-            const prevEnd = new Date(sd.getTime() - msInDay);
-            const prevStart = new Date(prevEnd.getTime() - (lenDays - 1) * msInDay);
-            const toISO = (d: Date) => d.toISOString().slice(0, 10);
-            return { startDate: toISO(prevStart), endDate: toISO(prevEnd) };
-          }
-          if (mode === "previous_year") {
-            const toISO = (d: Date) => d.toISOString().slice(0, 10);
-            const prevStart = new Date(sd);
-            prevStart.setFullYear(prevStart.getFullYear() - 1);
-            const prevEnd = new Date(ed);
-            prevEnd.setFullYear(prevEnd.getFullYear() - 1);
-            return { startDate: toISO(prevStart), endDate: toISO(prevEnd) };
-          }
-        }
-        // Fallback: reuse same range when unable to compute
-        return { startDate: s, endDate: e };
+    let dimensionFilter: FilterExpression | undefined;
+    let metricFilter: FilterExpression | undefined;
+    try {
+      dimensionFilter = dimensionFilterParam ? parseFilterQuery(dimensionFilterParam, "dimension", isValidField) : undefined;
+      metricFilter = metricFilterParam ? parseFilterQuery(metricFilterParam, "metric", isValidField) : undefined;
+    } catch (filterError) {
+      if (!(filterError instanceof FilterValidationError)) throw filterError;
+      const error: ApiError = {
+        error: "Invalid Filter",
+        message: filterError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
       };
+      return NextResponse.json(error, { status: 400 });
+    }
 
-      let currentPromise = googleAnalyticsService.runReport(session.accessToken, propertyId, {
-        startDate,
-        endDate,
-        dimensions: [dim],
+    // organicOnly=1 is kept as a shorthand for sessionDefaultChannelGroup==Organic Search
+    if (organicOnly) {
+      const organic = filters.string("sessionDefaultChannelGroup", "Organic Search");
+      dimensionFilter = dimensionFilter ? filters.and(organic, dimensionFilter) : organic;
+    }
+
+    // Dates are reported in the property's time zone. Comparisons resolve relative keywords (e.g. 30daysAgo)
+    // to concrete dates in it, so the current and previous ranges are computed from the same "today" GA uses
+    const timeZone = await propertyMetadataService.tryGetTimeZone(session.accessToken, propertyId, cacheScope);
+    let resolvedRange: DateRange | undefined;
+    let compareRange: DateRange | undefined;
+    if (compare) {
+      try {
+        resolvedRange = resolveDateRange({ startDate, endDate }, timeZone);
+        compareRange = resolveCompareRange(resolvedRange, compare, {
+          timeZone,
+          customRange: { startDate: compareStartDate ?? undefined, endDate: compareEndDate ?? undefined },
+        });
+      } catch (dateError) {
+        if (!(dateError instanceof DateRangeError)) throw dateError;
+        const error: ApiError = {
+          error: "Invalid Date Range",
+          message: dateError.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        };
+        return NextResponse.json(error, { status: 400 });
+      }
+    }
+    const reportRange = resolvedRange ?? { startDate, endDate };
+    // The comparison is a second named range of the same reports; GA returns both in one response
+    const compareDateRanges: NamedDateRange[] | undefined = compareRange
+      ? [{ name: PREVIOUS_DATE_RANGE, ...compareRange }]
+      : undefined;
+
+    // Totals report plus, when grouping by channel, the channel breakdown report (and with a comparison
+    // its daily values, for significance tests). All go to GA in a single batchRunReports call.
+    const reportRequests: ReportRequest[] = [
+      { ...reportRange, dimensions: ANALYTICS_DATA_DIMENSIONS, metrics, dimensionFilter, metricFilter, compareDateRanges },
+    ];
+
+    const channelDim = "sessionDefaultChannelGroup";
+    if (groupBy === "channel") {
+      // The breakdown applies the same filters as the main report
+      reportRequests.push({
+        ...reportRange,
+        dimensions: [channelDim],
         metrics,
-        limit: 100,
-        dimensionFilter: dimensionFilter as any,
+        dimensionFilter,
+        metricFilter,
+        compareDateRanges,
+        limit: 100 * (1 + (compareDateRanges?.length ?? 0)),
       });
-
-      let previousPromise: Promise<typeof currentPromise extends Promise<infer T> ? T : any> | undefined;
-      if (compare === "previous_period" || compare === "previous_year") {
-        const prevRange = resolvePrevRange(startDate, endDate, compare);
-        previousPromise = googleAnalyticsService.runReport(session.accessToken, propertyId, {
-          startDate: prevRange.startDate,
-          endDate: prevRange.endDate,
-          dimensions: [dim],
+      if (compareDateRanges) {
+        // Daily values only describe day to day variation; the metric filter applies to whole channels
+        // in the breakdown, so it is not applied per day
+        reportRequests.push({
+          ...reportRange,
+          dimensions: [channelDim, "date"],
           metrics,
-          limit: 100,
-          dimensionFilter: dimensionFilter as any,
+          dimensionFilter,
+          compareDateRanges,
         });
       }
+    }
+
+    // Check every distinct dimension/metric combination up front so incompatible fields
+    // come back as a structured 400 instead of a GA error from batchRunReports
+    const combinations = new Map(
+      reportRequests.map((r) => [r.dimensions.join(","), { dimensions: r.dimensions, metrics, dimensionFilter, metricFilter }]),
+    );
+    const accessToken = session.accessToken;
+    const incompatibleByName = new Map<string, IncompatibleField>();
+    const compatibilityChecks = await Promise.all(
+      Array.from(combinations.values()).map((combination) =>
+        propertyMetadataService.findIncompatibleFields(accessToken, propertyId, cacheScope, combination),
+      ),
+    );
+    compatibilityChecks.flat().forEach((field) => incompatibleByName.set(field.apiName, field));
+
+    if (incompatibleByName.size > 0) {
+      const incompatibleFields = Array.from(incompatibleByName.values());
+      const error: CompatibilityApiError = {
+        error: "Incompatible Fields",
+        message: `These dimensions/metrics cannot be queried together for property ${propertyId}: ${incompatibleFields.map((f) => f.apiName).join(", ")}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+        incompatibleFields,
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    // Organic Search totals for calculated metrics: without dimensions GA returns a single totals row
+    if (organicMetrics.length > 0) {
+      const organic = filters.string("sessionDefaultChannelGroup", "Organic Search");
+      reportRequests.push({
+        ...reportRange,
+        dimensions: [],
+        metrics: organicMetrics,
+        // With organicOnly the main filter already limits reports to Organic Search
+        dimensionFilter: organicOnly ? dimensionFilter : (dimensionFilter ? filters.and(organic, dimensionFilter) : organic),
+      });
+    }
+
+    const reports = await googleAnalyticsService.batchRunReports(
+      session.accessToken,
+      propertyId,
+      reportRequests,
+    );
+    const [analyticsData] = reports;
+    const breakdown = groupBy === "channel" ? reports[1] : undefined;
+    const dailyBreakdown = groupBy === "channel" && compareDateRanges ? reports[2] : undefined;
+    const organicReport = organicMetrics.length > 0 ? reports[reports.length - 1] : undefined;
+    const organicTotals = organicReport
+      ? Object.fromEntries(organicMetrics.map((name, i) => [name, Number(organicReport.rows[0]?.metricValues[i]?.value ?? 0) || 0]))
+      : undefined;
 
-      const [current, previous] = await Promise.all([currentPromise, previousPromise ?? Promise.resolve(undefined)]);
+    if (!analyticsData) {
+      throw new Error(`No report returned for property ${propertyId}`);
+    }
 
+    // Optional: channel breakdown with deltas and, with a comparison, their significance
+    let channelBreakdown: ChannelBreakdownRow[] | undefined;
+    if (groupBy === "channel" && breakdown) {
+      const current = breakdown.series?.[CURRENT_DATE_RANGE] ?? breakdown;
+      const previous = breakdown.series?.[PREVIOUS_DATE_RANGE];
       // Build maps { channel -> {metricName: value} }
-      const metricHeaders = current.metricHeaders.map(m => m.name);
+      const metricHeaders = breakdown.metricHeaders.map(m => m.name);
       const getChannelFromRow = (row: { dimensionValues: { value: string }[] }) => row.dimensionValues[0]?.value || "(unassigned)";
       const parseNumber = (v: string | undefined) => {
         if (!v) return 0;
@@ -196,37 +331,73 @@ export async function GET(
         }
       }
 
+      // Daily values of a channel's metric in one range of the daily breakdown
+      const currentDays = resolvedRange ? getRangeLengthDays(resolvedRange) : undefined;
+      const previousDays = compareRange ? getRangeLengthDays(compareRange) : undefined;
+      const getDaily = (rangeName: string, channel: string, metric: string) => {
+        const range = dailyBreakdown?.series?.[rangeName];
+        if (!dailyBreakdown || !range) return undefined;
+        return getDailyValues([{ ...dailyBreakdown, rows: range.rows.filter((r) => getChannelFromRow(r) === channel) }], metric);
+      };
+
       const channels = Array.from(new Set<string>([...currentMap.keys(), ...prevMap.keys()]));
       channelBreakdown = channels.map((channel) => {
         const cur = currentMap.get(channel) ?? {};
         const prev = prevMap.get(channel) ?? {};
-        const metricsObj: Record<string, { current: number; prev?: number; delta?: number; deltaPct?: number }>
-          = {};
+        const metricsObj: Record<string, ChannelMetricChange> = {};
         for (const m of metricHeaders) {
           const c = cur[m] ?? 0;
           const p = previous ? (prev[m] ?? 0) : undefined;
           const delta = p !== undefined ? c - p : undefined;
           const deltaPct = p !== undefined ? (p === 0 ? (c === 0 ? 0 : 100) : (delta! / p) * 100) : undefined;
-          metricsObj[m] = { current: c, prev: p, delta, deltaPct };
+          // Rates are tested over the channel's sessions or users in each range
+          const significance = p !== undefined
+            ? testChange(
+                m,
+                observePeriod(m, { ...cur, [m]: c }, getDaily(CURRENT_DATE_RANGE, channel, m), currentDays)!,
+                observePeriod(m, { ...prev, [m]: p }, getDaily(PREVIOUS_DATE_RANGE, channel, m), previousDays)!,
+              )
+            : undefined;
+          metricsObj[m] = { current: c, prev: p, delta, deltaPct, significance };
         }
         return { channel, metrics: metricsObj };
       });
     }
 
+    // Currency metrics (revenue) are reported in the property's currency
+    const currencyCode = analyticsData.metricHeaders.some((h) => h.type === "TYPE_CURRENCY")
+      ? await propertyMetadataService.tryGetCurrencyCode(session.accessToken, propertyId, cacheScope)
+      : null;
+
+    // Revenue converted into the reporting currency, so exports can total properties of different currencies
+    const revenue = ecommerceService.getSummary(analyticsData)?.purchaseRevenue;
+    const reportingRevenue = revenue !== undefined && currencyCode && currencyConverter.canConvert(currencyCode)
+      ? currencyConverter.toReportingCurrency(revenue, currencyCode)
+      : null;
+
     const responsePayload = {
       propertyId,
-      data: analyticsData,
+      data: { ...analyticsData, timeZone },
+      currencyCode,
+      reportingRevenue,
       dateRange: { startDate, endDate },
+      resolvedDateRange: resolvedRange,
+      compareDateRange: compareRange,
       timestamp: new Date().toISOString(),
       channelBreakdown,
+      organicTotals,
       compare,
       groupBy,
       metrics,
       organicOnly,
+      dimensionFilter: dimensionFilterParam,
+      metricFilter: metricFilterParam,
     };
 
-    // Cache the payload
-    CACHE.set(baseKey, { data: responsePayload, expiresAt: now + TTL_MS });
+    // Cache the payload for this user only
+    if (cacheScope) {
+      propertyDataCache.set(cacheScope, propertyId, baseKey, responsePayload);
+    }
 
     return NextResponse.json(responsePayload);
   } catch (error) {
@@ -255,3 +426,61 @@ export async function GET(
     return NextResponse.json(apiError, { status: 500 });
   }
 }
+
+/**
+ * DELETE /api/analytics/properties/[id]/data
+ * Invalidate the signed-in user's cached data for a specific property
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+    const cacheScope = getCacheScope(session);
+
+    if (!session?.user || !cacheScope) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to clear cached Analytics data",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const { id: propertyId } = await params;
+
+    if (!propertyId) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: "Property ID is required",
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const removed = propertyDataCache.invalidateProperty(cacheScope, propertyId);
+
+    return NextResponse.json({
+      success: true,
+      propertyId,
+      removedEntries: removed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const { id } = await params;
+    console.error(`Error in DELETE /api/analytics/properties/${id}/data:`, error);
+
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message:
+        error instanceof Error ? error.message : "An unexpected error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
@@ -0,0 +1,186 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { propertyDataCache, getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import { ecommerceService, DEFAULT_ITEM_LIMIT } from "~/lib/analytics/EcommerceService";
+import { currencyConverter, isCurrencyCode } from "~/lib/analytics/CurrencyConverter";
+import {
+  filters,
+  parseFilterQuery,
+  FilterValidationError,
+  type FilterExpression,
+} from "~/lib/analytics/FilterExpression";
+import { parseDateRange, DateRangeError } from "~/lib/analytics/DateRangeResolver";
+import type { ApiError } from "~/types/analytics";
+
+// Upper bound for the item report
+const MAX_ITEM_LIMIT = 500;
+
+/**
+ * GET /api/analytics/properties/[id]/ecommerce
+ * Revenue, transactions, conversion rate and average order value of a property, with daily revenue and top items.
+ * Amounts are in the property's currency, or converted to `currency` (ISO 4217) with the local rate table.
+ * Query params: `itemLimit` (default 50, max 500), `currency`, `startDate`, `endDate`, `dimensionFilter`, `organicOnly`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to access Analytics data",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    if (!session.accessToken || session.error === "RefreshAccessTokenError") {
+      const error: ApiError = {
+        error: "No Access Token",
+        message: "No valid access token found. Please re-authenticate.",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const { id: propertyId } = await params;
+
+    if (!propertyId) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: "Property ID is required",
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const itemLimitParam = searchParams.get("itemLimit");
+    const currencyParam = searchParams.get("currency");
+    const organicOnly = searchParams.get("organicOnly") === "1";
+    const dimensionFilterParam = searchParams.get("dimensionFilter");
+
+    const itemLimit = itemLimitParam ? Number(itemLimitParam) : DEFAULT_ITEM_LIMIT;
+    if (!Number.isInteger(itemLimit) || itemLimit < 1 || itemLimit > MAX_ITEM_LIMIT) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: `itemLimit must be a whole number between 1 and ${MAX_ITEM_LIMIT}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    if (currencyParam && !(isCurrencyCode(currencyParam) && currencyConverter.canConvert(currencyParam))) {
+      const error: ApiError = {
+        error: "Invalid Currency",
+        message: `No exchange rate for currency "${currencyParam}"`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    let startDate: string;
+    let endDate: string;
+    try {
+      ({ startDate, endDate } = parseDateRange(
+        searchParams.get("startDate"),
+        searchParams.get("endDate"),
+        { startDate: "30daysAgo", endDate: "today" },
+      ));
+    } catch (dateError) {
+      if (!(dateError instanceof DateRangeError)) throw dateError;
+      const error: ApiError = {
+        error: "Invalid Date Range",
+        message: dateError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const cacheScope = getCacheScope(session);
+    const baseKey = `ecommerce|${startDate}|${endDate}|items:${itemLimit}|cur:${currencyParam ?? ''}|organic:${organicOnly ? '1' : '0'}|df:${dimensionFilterParam ?? ''}`;
+    if (cacheScope) {
+      const cached = propertyDataCache.get(cacheScope, propertyId, baseKey);
+      if (cached) {
+        return NextResponse.json(cached);
+      }
+    }
+
+    let dimensionFilter: FilterExpression | undefined;
+    try {
+      if (dimensionFilterParam) {
+        const metadata = await propertyMetadataService.tryGetMetadata(session.accessToken, propertyId, cacheScope);
+        dimensionFilter = parseFilterQuery(dimensionFilterParam, "dimension", propertyMetadataService.createFieldValidator(metadata));
+      }
+    } catch (filterError) {
+      if (!(filterError instanceof FilterValidationError)) throw filterError;
+      const error: ApiError = {
+        error: "Invalid Filter",
+        message: filterError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    if (organicOnly) {
+      const organic = filters.string("sessionDefaultChannelGroup", "Organic Search");
+      dimensionFilter = dimensionFilter ? filters.and(organic, dimensionFilter) : organic;
+    }
+
+    const currencyCode = await propertyMetadataService.tryGetCurrencyCode(session.accessToken, propertyId, cacheScope);
+    if (currencyParam && currencyCode && !currencyConverter.canConvert(currencyCode, currencyParam)) {
+      const error: ApiError = {
+        error: "Invalid Currency",
+        message: `No exchange rate for the property currency ${currencyCode}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const report = await ecommerceService.getEcommerce(
+      session.accessToken,
+      propertyId,
+      { startDate, endDate },
+      { itemLimit, dimensionFilter, currencyCode: currencyCode ?? undefined, targetCurrency: currencyParam ?? undefined },
+    );
+
+    const responsePayload = {
+      propertyId,
+      ecommerce: report,
+      dateRange: { startDate, endDate },
+      timestamp: new Date().toISOString(),
+      organicOnly,
+      dimensionFilter: dimensionFilterParam,
+    };
+
+    if (cacheScope) {
+      propertyDataCache.set(cacheScope, propertyId, baseKey, responsePayload);
+    }
+
+    return NextResponse.json(responsePayload);
+  } catch (error) {
+    const { id } = await params;
+    console.error(`Error in /api/analytics/properties/${id}/ecommerce:`, error);
+
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: error instanceof Error ? error.message : "An unexpected error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
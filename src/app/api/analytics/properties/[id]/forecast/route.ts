@@ -0,0 +1,238 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { propertyDataCache, getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import { forecastService, DEFAULT_HISTORY_DAYS, MAX_HISTORY_DAYS } from "~/lib/analytics/ForecastService";
+import {
+  DEFAULT_FORECAST_HORIZON,
+  DEFAULT_FORECAST_LEVEL,
+  FORECAST_LEVELS,
+  FORECAST_METRICS,
+  MAX_FORECAST_HORIZON,
+  MIN_FORECAST_HISTORY,
+  ForecastError,
+  parseForecastTargets,
+} from "~/lib/analytics/Forecasting";
+import { getMetricDefinition } from "~/lib/analytics/MetricRegistry";
+import { resolveDate } from "~/lib/analytics/DateRangeResolver";
+import { getMetricInfo } from "~/lib/analytics/MetricDictionary";
+import {
+  filters,
+  parseFilterQuery,
+  FilterValidationError,
+  type FilterExpression,
+} from "~/lib/analytics/FilterExpression";
+import type { ApiError } from "~/types/analytics";
+
+/**
+ * GET /api/analytics/properties/[id]/forecast
+ * Daily forecast of sessions, active users and purchase revenue (or `metrics`) for the next `days` days, fitted on
+ * the last `historyDays` days up to yesterday, with prediction intervals. `targets` ("metric:value,...") compares
+ * each metric's projected total over the forecast days with a target and reports it as on or off track.
+ * Query params: `metrics`, `days` (default 30, max 90), `historyDays` (default 90, max 365), `level` (0.8, 0.9,
+ * 0.95 or 0.99), `targets`, `dimensionFilter`, `organicOnly`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to access Analytics data",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    if (!session.accessToken || session.error === "RefreshAccessTokenError") {
+      const error: ApiError = {
+        error: "No Access Token",
+        message: "No valid access token found. Please re-authenticate.",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const { id: propertyId } = await params;
+
+    if (!propertyId) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: "Property ID is required",
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const metricsParam = searchParams.get("metrics");
+    const daysParam = searchParams.get("days");
+    const historyDaysParam = searchParams.get("historyDays");
+    const levelParam = searchParams.get("level");
+    const targetsParam = searchParams.get("targets");
+    const organicOnly = searchParams.get("organicOnly") === "1";
+    const dimensionFilterParam = searchParams.get("dimensionFilter");
+
+    const horizon = daysParam ? Number(daysParam) : DEFAULT_FORECAST_HORIZON;
+    const historyDays = historyDaysParam ? Number(historyDaysParam) : DEFAULT_HISTORY_DAYS;
+    const level = levelParam ? Number(levelParam) : DEFAULT_FORECAST_LEVEL;
+    const rangeErrors = [
+      !Number.isInteger(horizon) || horizon < 1 || horizon > MAX_FORECAST_HORIZON
+        ? `days must be a whole number between 1 and ${MAX_FORECAST_HORIZON}`
+        : null,
+      !Number.isInteger(historyDays) || historyDays < MIN_FORECAST_HISTORY || historyDays > MAX_HISTORY_DAYS
+        ? `historyDays must be a whole number between ${MIN_FORECAST_HISTORY} and ${MAX_HISTORY_DAYS}`
+        : null,
+      FORECAST_LEVELS[String(level)] === undefined
+        ? `level must be one of ${Object.keys(FORECAST_LEVELS).join(", ")}`
+        : null,
+    ].filter(Boolean);
+    if (rangeErrors.length > 0) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: rangeErrors.join("; "),
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const parsedMetrics = metricsParam?.split(",").map((s) => s.trim()).filter(Boolean) ?? [];
+    const metrics = parsedMetrics.length > 0 ? Array.from(new Set(parsedMetrics)) : FORECAST_METRICS;
+
+    // Totals over the forecast days only make sense for metrics that add up across days
+    const nonAdditive = metrics.filter((metric) => getMetricDefinition(metric).aggregation !== "sum");
+    if (nonAdditive.length > 0) {
+      const error: ApiError = {
+        error: "Invalid Metrics",
+        message: `Only metrics that add up across days can be forecast, not: ${nonAdditive.join(", ")}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    let targets: Record<string, number>;
+    try {
+      targets = parseForecastTargets(targetsParam);
+    } catch (targetError) {
+      if (!(targetError instanceof ForecastError)) throw targetError;
+      const error: ApiError = {
+        error: "Invalid Targets",
+        message: targetError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const cacheScope = getCacheScope(session);
+    // History ends yesterday in the property's time zone; keying on that date keeps a cached forecast
+    // from outliving the day it was fitted on
+    const timeZone = await propertyMetadataService.tryGetTimeZone(session.accessToken, propertyId, cacheScope);
+    const historyEndDate = resolveDate("yesterday", timeZone);
+    const baseKey = `forecast|${historyEndDate}|${metrics.join(";")}|days:${horizon}|history:${historyDays}|level:${level}|targets:${targetsParam ?? ''}|organic:${organicOnly ? '1' : '0'}|df:${dimensionFilterParam ?? ''}`;
+    if (cacheScope) {
+      const cached = propertyDataCache.get(cacheScope, propertyId, baseKey);
+      if (cached) {
+        return NextResponse.json(cached);
+      }
+    }
+
+    const metadata = await propertyMetadataService.tryGetMetadata(session.accessToken, propertyId, cacheScope);
+    const unknownMetrics = propertyMetadataService.findUnknownFields(metadata, [...metrics, ...Object.keys(targets)], "metric");
+    const untargetable = Object.keys(targets).filter((metric) => !metrics.includes(metric));
+    if (unknownMetrics.length > 0 || untargetable.length > 0) {
+      const error: ApiError = {
+        error: "Invalid Metrics",
+        message: unknownMetrics.length > 0
+          ? `Unknown metrics for property ${propertyId}: ${unknownMetrics.join(", ")}`
+          : `Targets for metrics that are not forecast: ${untargetable.join(", ")}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    let dimensionFilter: FilterExpression | undefined;
+    try {
+      if (dimensionFilterParam) {
+        dimensionFilter = parseFilterQuery(dimensionFilterParam, "dimension", propertyMetadataService.createFieldValidator(metadata));
+      }
+    } catch (filterError) {
+      if (!(filterError instanceof FilterValidationError)) throw filterError;
+      const error: ApiError = {
+        error: "Invalid Filter",
+        message: filterError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    if (organicOnly) {
+      const organic = filters.string("sessionDefaultChannelGroup", "Organic Search");
+      dimensionFilter = dimensionFilter ? filters.and(organic, dimensionFilter) : organic;
+    }
+
+    // Revenue is reported in the property's currency
+    const currencyCode = metrics.some((metric) => getMetricInfo(metric).type === "currency")
+      ? await propertyMetadataService.tryGetCurrencyCode(session.accessToken, propertyId, cacheScope)
+      : null;
+
+    let forecast;
+    try {
+      forecast = await forecastService.getForecast(session.accessToken, propertyId, {
+        metrics,
+        horizon,
+        historyDays,
+        level,
+        targets,
+        dimensionFilter,
+        currencyCode: currencyCode ?? undefined,
+      });
+    } catch (forecastError) {
+      if (!(forecastError instanceof ForecastError)) throw forecastError;
+      const error: ApiError = {
+        error: "Insufficient History",
+        message: forecastError.message,
+        statusCode: 422,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 422 });
+    }
+
+    const responsePayload = {
+      propertyId,
+      forecast,
+      timestamp: new Date().toISOString(),
+      organicOnly,
+      dimensionFilter: dimensionFilterParam,
+    };
+
+    if (cacheScope) {
+      propertyDataCache.set(cacheScope, propertyId, baseKey, responsePayload);
+    }
+
+    return NextResponse.json(responsePayload);
+  } catch (error) {
+    const { id } = await params;
+    console.error(`Error in /api/analytics/properties/${id}/forecast:`, error);
+
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: error instanceof Error ? error.message : "An unexpected error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
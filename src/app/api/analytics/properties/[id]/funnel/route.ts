@@ -0,0 +1,175 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { propertyDataCache, getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import { funnelService, DEFAULT_PURCHASE_FUNNEL, MAX_FUNNEL_STEPS } from "~/lib/analytics/FunnelService";
+import {
+  filters,
+  parseFilterQuery,
+  FilterValidationError,
+  type FilterExpression,
+} from "~/lib/analytics/FilterExpression";
+import { parseDateRange, DateRangeError } from "~/lib/analytics/DateRangeResolver";
+import type { ApiError, FunnelDefinition } from "~/types/analytics";
+
+// GA4 event names: a letter followed by letters, digits or underscores
+const EVENT_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+
+/**
+ * GET /api/analytics/properties/[id]/funnel
+ * Funnel of a property with step conversion and drop-off rates.
+ * Query params: `steps` (comma-separated event names, default session_start,view_item,add_to_cart,purchase),
+ * `open=1` for an open funnel, `startDate`, `endDate`, `dimensionFilter`, `organicOnly`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to access Analytics data",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    if (!session.accessToken || session.error === "RefreshAccessTokenError") {
+      const error: ApiError = {
+        error: "No Access Token",
+        message: "No valid access token found. Please re-authenticate.",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const { id: propertyId } = await params;
+
+    if (!propertyId) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: "Property ID is required",
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const stepsParam = searchParams.get("steps");
+    const isOpenFunnel = searchParams.get("open") === "1";
+    const organicOnly = searchParams.get("organicOnly") === "1";
+    const dimensionFilterParam = searchParams.get("dimensionFilter");
+
+    const eventNames = stepsParam?.split(",").map((s) => s.trim()).filter(Boolean);
+    const funnel: FunnelDefinition = eventNames
+      ? { name: "Custom funnel", steps: eventNames.map((eventName) => ({ name: eventName, eventName })), isOpenFunnel }
+      : { ...DEFAULT_PURCHASE_FUNNEL, isOpenFunnel };
+
+    const invalidEvents = funnel.steps.filter((s) => !EVENT_NAME_PATTERN.test(s.eventName)).map((s) => s.eventName);
+    const invalidFunnel = funnel.steps.length < 2 || funnel.steps.length > MAX_FUNNEL_STEPS
+      ? `A funnel needs between 2 and ${MAX_FUNNEL_STEPS} steps`
+      : invalidEvents.length > 0
+        ? `Invalid event names: ${invalidEvents.join(", ")}`
+        : null;
+    if (invalidFunnel) {
+      const error: ApiError = {
+        error: "Invalid Funnel",
+        message: invalidFunnel,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    let startDate: string;
+    let endDate: string;
+    try {
+      ({ startDate, endDate } = parseDateRange(
+        searchParams.get("startDate"),
+        searchParams.get("endDate"),
+        { startDate: "30daysAgo", endDate: "today" },
+      ));
+    } catch (dateError) {
+      if (!(dateError instanceof DateRangeError)) throw dateError;
+      const error: ApiError = {
+        error: "Invalid Date Range",
+        message: dateError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const cacheScope = getCacheScope(session);
+    const baseKey = `funnel|${startDate}|${endDate}|${funnel.steps.map((s) => s.eventName).join(";")}|open:${isOpenFunnel ? '1' : '0'}|organic:${organicOnly ? '1' : '0'}|df:${dimensionFilterParam ?? ''}`;
+    if (cacheScope) {
+      const cached = propertyDataCache.get(cacheScope, propertyId, baseKey);
+      if (cached) {
+        return NextResponse.json(cached);
+      }
+    }
+
+    let dimensionFilter: FilterExpression | undefined;
+    try {
+      if (dimensionFilterParam) {
+        const metadata = await propertyMetadataService.tryGetMetadata(session.accessToken, propertyId, cacheScope);
+        dimensionFilter = parseFilterQuery(dimensionFilterParam, "dimension", propertyMetadataService.createFieldValidator(metadata));
+      }
+    } catch (filterError) {
+      if (!(filterError instanceof FilterValidationError)) throw filterError;
+      const error: ApiError = {
+        error: "Invalid Filter",
+        message: filterError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    if (organicOnly) {
+      const organic = filters.string("sessionDefaultChannelGroup", "Organic Search");
+      dimensionFilter = dimensionFilter ? filters.and(organic, dimensionFilter) : organic;
+    }
+
+    const report = await funnelService.getFunnel(
+      session.accessToken,
+      propertyId,
+      funnel,
+      { startDate, endDate },
+      { dimensionFilter },
+    );
+
+    const responsePayload = {
+      propertyId,
+      funnel: report,
+      dateRange: { startDate, endDate },
+      timestamp: new Date().toISOString(),
+      organicOnly,
+      dimensionFilter: dimensionFilterParam,
+    };
+
+    if (cacheScope) {
+      propertyDataCache.set(cacheScope, propertyId, baseKey, responsePayload);
+    }
+
+    return NextResponse.json(responsePayload);
+  } catch (error) {
+    const { id } = await params;
+    console.error(`Error in /api/analytics/properties/${id}/funnel:`, error);
+
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: error instanceof Error ? error.message : "An unexpected error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import type { ApiError } from "~/types/analytics";
+
+/**
+ * GET /api/analytics/properties/[id]/metadata
+ * Dimensions and metrics available to a property, including custom definitions and key events.
+ * Pass `refresh=1` to bypass the metadata cache.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to access Analytics metadata",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    if (!session.accessToken || session.error === "RefreshAccessTokenError") {
+      const error: ApiError = {
+        error: "No Access Token",
+        message: "No valid access token found. Please re-authenticate.",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const { id: propertyId } = await params;
+
+    if (!propertyId) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: "Property ID is required",
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const forceRefresh = new URL(request.url).searchParams.get("refresh") === "1";
+    const metadata = await propertyMetadataService.getMetadata(
+      session.accessToken,
+      propertyId,
+      getCacheScope(session),
+      forceRefresh,
+    );
+
+    return NextResponse.json({
+      propertyId,
+      metadata,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const { id } = await params;
+    console.error(`Error in /api/analytics/properties/${id}/metadata:`, error);
+
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: error instanceof Error ? error.message : "An unexpected error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
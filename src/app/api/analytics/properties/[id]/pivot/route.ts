@@ -0,0 +1,228 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import { googleAnalyticsService, MAX_PIVOT_CELLS, type PivotDefinition } from "~/lib/google-analytics";
+import { propertyDataCache, getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import {
+  filters,
+  parseFilterQuery,
+  FilterValidationError,
+  type FilterExpression,
+} from "~/lib/analytics/FilterExpression";
+import { parseDateRange, DateRangeError } from "~/lib/analytics/DateRangeResolver";
+import type { ApiError, CompatibilityApiError } from "~/types/analytics";
+
+const DEFAULT_ROW_DIMENSIONS = ["sessionDefaultChannelGroup"];
+const DEFAULT_COLUMN_DIMENSIONS = ["deviceCategory"];
+const DEFAULT_METRICS = ["sessions"];
+const DEFAULT_ROW_LIMIT = 25;
+const DEFAULT_COLUMN_LIMIT = 10;
+
+/**
+ * GET /api/analytics/properties/[id]/pivot
+ * Pivot table of a property, e.g. channel × device sessions.
+ * Query params: `rows`, `columns`, `metrics` (comma-separated), `rowLimit`, `columnLimit`,
+ * `startDate`, `endDate`, `dimensionFilter`, `metricFilter`, `organicOnly`.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      const error: ApiError = {
+        error: "Unauthorized",
+        message: "You must be logged in to access Analytics data",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    if (!session.accessToken || session.error === "RefreshAccessTokenError") {
+      const error: ApiError = {
+        error: "No Access Token",
+        message: "No valid access token found. Please re-authenticate.",
+        statusCode: 401,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 401 });
+    }
+
+    const { id: propertyId } = await params;
+
+    if (!propertyId) {
+      const error: ApiError = {
+        error: "Bad Request",
+        message: "Property ID is required",
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parseList = (name: string, fallback: string[]) => {
+      const value = searchParams.get(name);
+      return value === null ? fallback : value.split(",").map((s) => s.trim()).filter(Boolean);
+    };
+    const rowDimensions = parseList("rows", DEFAULT_ROW_DIMENSIONS);
+    const columnDimensions = parseList("columns", DEFAULT_COLUMN_DIMENSIONS);
+    const parsedMetrics = parseList("metrics", DEFAULT_METRICS);
+    const metrics = parsedMetrics.length > 0 ? parsedMetrics : DEFAULT_METRICS;
+    const rowLimit = Number(searchParams.get("rowLimit") ?? DEFAULT_ROW_LIMIT);
+    const columnLimit = Number(searchParams.get("columnLimit") ?? DEFAULT_COLUMN_LIMIT);
+    const organicOnly = searchParams.get("organicOnly") === "1";
+    const dimensionFilterParam = searchParams.get("dimensionFilter");
+    const metricFilterParam = searchParams.get("metricFilter");
+
+    const invalidPivot = rowDimensions.length === 0
+      ? "At least one row dimension is required"
+      : rowDimensions.some((d) => columnDimensions.includes(d))
+        ? "A dimension cannot be used for both rows and columns"
+        : ![rowLimit, columnLimit].every((n) => Number.isInteger(n) && n > 0)
+          ? "rowLimit and columnLimit must be positive integers"
+          : rowLimit * columnLimit > MAX_PIVOT_CELLS
+            ? `rowLimit × columnLimit must not exceed ${MAX_PIVOT_CELLS}`
+            : null;
+    if (invalidPivot) {
+      const error: ApiError = {
+        error: "Invalid Pivot",
+        message: invalidPivot,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    let startDate: string;
+    let endDate: string;
+    try {
+      ({ startDate, endDate } = parseDateRange(
+        searchParams.get("startDate"),
+        searchParams.get("endDate"),
+        { startDate: "30daysAgo", endDate: "today" },
+      ));
+    } catch (dateError) {
+      if (!(dateError instanceof DateRangeError)) throw dateError;
+      const error: ApiError = {
+        error: "Invalid Date Range",
+        message: dateError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    const cacheScope = getCacheScope(session);
+    const baseKey = `pivot|${startDate}|${endDate}|r:${rowDimensions.join(";")}:${rowLimit}|c:${columnDimensions.join(";")}:${columnLimit}|${metrics.join(";")}|organic:${organicOnly ? '1' : '0'}|df:${dimensionFilterParam ?? ''}|mf:${metricFilterParam ?? ''}`;
+    if (cacheScope) {
+      const cached = propertyDataCache.get(cacheScope, propertyId, baseKey);
+      if (cached) {
+        return NextResponse.json(cached);
+      }
+    }
+
+    const metadata = await propertyMetadataService.tryGetMetadata(session.accessToken, propertyId, cacheScope);
+    const isValidField = propertyMetadataService.createFieldValidator(metadata);
+    const dimensions = [...rowDimensions, ...columnDimensions];
+    const unknownFields = [
+      ...propertyMetadataService.findUnknownFields(metadata, dimensions, "dimension"),
+      ...propertyMetadataService.findUnknownFields(metadata, metrics, "metric"),
+    ];
+    if (unknownFields.length > 0) {
+      const error: ApiError = {
+        error: "Invalid Fields",
+        message: `Unknown dimensions or metrics for property ${propertyId}: ${unknownFields.join(", ")}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    let dimensionFilter: FilterExpression | undefined;
+    let metricFilter: FilterExpression | undefined;
+    try {
+      dimensionFilter = dimensionFilterParam ? parseFilterQuery(dimensionFilterParam, "dimension", isValidField) : undefined;
+      metricFilter = metricFilterParam ? parseFilterQuery(metricFilterParam, "metric", isValidField) : undefined;
+    } catch (filterError) {
+      if (!(filterError instanceof FilterValidationError)) throw filterError;
+      const error: ApiError = {
+        error: "Invalid Filter",
+        message: filterError.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    if (organicOnly) {
+      const organic = filters.string("sessionDefaultChannelGroup", "Organic Search");
+      dimensionFilter = dimensionFilter ? filters.and(organic, dimensionFilter) : organic;
+    }
+
+    const incompatibleFields = await propertyMetadataService.findIncompatibleFields(
+      session.accessToken,
+      propertyId,
+      cacheScope,
+      { dimensions, metrics, dimensionFilter, metricFilter },
+    );
+    if (incompatibleFields.length > 0) {
+      const error: CompatibilityApiError = {
+        error: "Incompatible Fields",
+        message: `These dimensions/metrics cannot be queried together for property ${propertyId}: ${incompatibleFields.map((f) => f.apiName).join(", ")}`,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+        incompatibleFields,
+      };
+      return NextResponse.json(error, { status: 400 });
+    }
+
+    // Rows and columns are ordered by the first metric; totals fill the table margins
+    const pivots: PivotDefinition[] = [
+      { fieldNames: rowDimensions, limit: rowLimit, orderByMetric: metrics[0], includeTotals: true },
+    ];
+    if (columnDimensions.length > 0) {
+      pivots.push({ fieldNames: columnDimensions, limit: columnLimit, orderByMetric: metrics[0], includeTotals: true });
+    }
+
+    const pivot = await googleAnalyticsService.runPivotReport(session.accessToken, propertyId, {
+      startDate,
+      endDate,
+      metrics,
+      pivots,
+      dimensionFilter,
+      metricFilter,
+    });
+
+    const responsePayload = {
+      propertyId,
+      pivot,
+      dateRange: { startDate, endDate },
+      timestamp: new Date().toISOString(),
+      organicOnly,
+      dimensionFilter: dimensionFilterParam,
+      metricFilter: metricFilterParam,
+    };
+
+    if (cacheScope) {
+      propertyDataCache.set(cacheScope, propertyId, baseKey, responsePayload);
+    }
+
+    return NextResponse.json(responsePayload);
+  } catch (error) {
+    const { id } = await params;
+    console.error(`Error in /api/analytics/properties/${id}/pivot:`, error);
+
+    const apiError: ApiError = {
+      error: "Internal Server Error",
+      message: error instanceof Error ? error.message : "An unexpected error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    };
+
+    return NextResponse.json(apiError, { status: 500 });
+  }
+}
@@ -93,7 +93,8 @@ export async function GET(request: NextRequest) {
       properties = properties.filter(property =>
         property.displayName.toLowerCase().includes(searchLower) ||
         property.propertyId.toLowerCase().includes(searchLower) ||
-        property.name.toLowerCase().includes(searchLower)
+        property.name.toLowerCase().includes(searchLower) ||
+        (property.accountDisplayName ?? "").toLowerCase().includes(searchLower)
       );
     }
 
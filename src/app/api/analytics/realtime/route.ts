@@ -0,0 +1,110 @@
+import { type NextRequest } from "next/server";
+import { auth } from "~/server/auth";
+import { realtimeAnalyticsService } from "~/lib/analytics/RealtimeAnalyticsService";
+
+const DEFAULT_INTERVAL_SECONDS = 30;
+const MIN_INTERVAL_SECONDS = 10;
+const MAX_INTERVAL_SECONDS = 300;
+
+/**
+ * GET /api/analytics/realtime?propertyId=123&interval=30
+ * Server-Sent Events stream of GA4 realtime snapshots (active users in the last 30 minutes
+ * by country, device and page), pushed every `interval` seconds
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const accessToken = session.accessToken;
+    if (!accessToken || session.error === "RefreshAccessTokenError") {
+      return new Response("No valid access token. Please sign in again.", { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const propertyId = searchParams.get("propertyId");
+    if (!propertyId) {
+      return new Response("propertyId is required", { status: 400 });
+    }
+
+    const requestedInterval = Number(searchParams.get("interval") ?? DEFAULT_INTERVAL_SECONDS);
+    const intervalSeconds = Number.isFinite(requestedInterval)
+      ? Math.min(MAX_INTERVAL_SECONDS, Math.max(MIN_INTERVAL_SECONDS, Math.round(requestedInterval)))
+      : DEFAULT_INTERVAL_SECONDS;
+
+    let cleanup: (() => void) | undefined;
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder();
+        let closed = false;
+        let polling = false;
+
+        const sendEvent = (event: string, data: unknown) => {
+          if (closed) return;
+          const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+          controller.enqueue(encoder.encode(message));
+        };
+
+        const poll = async () => {
+          // Skip a tick rather than stacking requests when GA is slow
+          if (polling || closed) return;
+          polling = true;
+          try {
+            const snapshot = await realtimeAnalyticsService.getSnapshot(accessToken, propertyId);
+            sendEvent("realtime", snapshot);
+          } catch (error) {
+            sendEvent("realtimeError", {
+              propertyId,
+              message: error instanceof Error ? error.message : String(error),
+              timestamp: new Date().toISOString(),
+            });
+          } finally {
+            polling = false;
+          }
+        };
+
+        sendEvent("connected", {
+          message: "Connected to realtime analytics stream",
+          propertyId,
+          intervalSeconds,
+          timestamp: new Date().toISOString(),
+        });
+
+        void poll();
+        const pollInterval = setInterval(() => void poll(), intervalSeconds * 1000);
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(pollInterval);
+          try {
+            controller.close();
+          } catch {
+            // Controller might already be closed
+          }
+        };
+
+        // Handle client disconnect
+        request.signal.addEventListener("abort", () => cleanup?.());
+      },
+
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Error in /api/analytics/realtime:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
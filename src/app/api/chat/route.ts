@@ -1,35 +1,216 @@
 import { NextResponse } from "next/server";
 import { auth } from "~/server/auth";
-import { googleAnalyticsService } from "~/lib/google-analytics";
-import type { AnalyticsData, AnalyticsProperty } from "~/types/analytics";
+import { googleAnalyticsService, ANALYTICS_DATA_METRICS } from "~/lib/google-analytics";
+import type { AnalyticsData, AnalyticsProperty, MetadataField } from "~/types/analytics";
 import { generateSummary } from "~/lib/gemini";
+import { createAnalyticsCache } from "~/lib/analytics/AnalyticsCache";
+import { getCacheScope } from "~/lib/analytics/PropertyDataCache";
+import {
+  parseDateRange,
+  resolveDateRange,
+  getRangeLengthDays,
+  addDays,
+  DateRangeError,
+} from "~/lib/analytics/DateRangeResolver";
+import { cohortService } from "~/lib/analytics/CohortService";
+import { ecommerceService } from "~/lib/analytics/EcommerceService";
+import { currencyConverter } from "~/lib/analytics/CurrencyConverter";
+import { propertyMetadataService } from "~/lib/analytics/PropertyMetadataService";
+import { aggregateMetricValues, toMetricSample } from "~/lib/analytics/MetricRegistry";
+import { filters } from "~/lib/analytics/FilterExpression";
+import { describeAnomaly, detectMetricAnomalies, DEFAULT_ANOMALY_METRICS } from "~/lib/analytics/AnomalyDetection";
+import { AnalyticsQueryProcessor } from "~/lib/analytics/AnalyticsQueryProcessor";
+import {
+  CalculatedMetricError,
+  aggregateCalculatedMetric,
+  compileCalculatedMetric,
+  getRequiredMetrics,
+  parseCalculatedMetricDefinitions,
+  toOrganicSample,
+  type CalculatedMetric,
+} from "~/lib/analytics/CalculatedMetrics";
 
-// Simple cache for property data (5 minute TTL)
-const propertyCache = new Map<string, { data: AnalyticsData; timestamp: number }>();
+// Per-user cache for property data (5 minute TTL)
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const propertyCache = createAnalyticsCache<AnalyticsData>({
+  namespace: "chat-property",
+  ttlMs: CACHE_TTL,
+  maxEntries: 500,
+});
 
-// Fast helper function for basic analytics
-function quickAnalyze(data: AnalyticsData, propertyName: string) {
+// Questions answered with weekly cohort retention in addition to the usual summary
+const RETENTION_QUESTION = /\b(retention|retain|retained|returning|come back|came back|cohorts?|churn)\b/i;
+
+// Unusual days reported per property, strongest first
+const MAX_UNUSUAL_DAYS = 3;
+
+// Days of daily history unusual days are judged against; every weekday needs to occur at least twice
+const ANOMALY_HISTORY_DAYS = 28;
+
+// Custom metrics a question can name; GA4 reports take at most 10 metrics
+const MAX_QUESTION_CUSTOM_METRICS = 10;
+
+// Page views per session, reported as "engagement"
+const ENGAGEMENT_METRIC = compileCalculatedMetric({
+  id: "engagement",
+  label: "Pages / Session",
+  expression: "screenPageViews / sessions",
+  format: "decimal",
+  aggregation: "recompute",
+});
+
+// Totals of extra metrics, e.g. those calculated metrics read through organic() (with `organicOnly`),
+// cached like property data
+async function getMetricTotals(
+  accessToken: string,
+  propertyId: string,
+  startDate: string,
+  endDate: string,
+  metrics: string[],
+  cacheScope: string | null,
+  organicOnly = false,
+): Promise<Record<string, number>> {
+  if (metrics.length === 0) return {};
+  const cacheKey = `${cacheScope}|${propertyId}-${startDate}-${endDate}|${organicOnly ? "organic" : "totals"}:${metrics.join(",")}`;
+  let data = cacheScope ? propertyCache.get(cacheKey) : undefined;
+  if (!data) {
+    data = await googleAnalyticsService.getAnalyticsData(
+      accessToken,
+      propertyId,
+      startDate,
+      endDate,
+      metrics,
+      organicOnly ? filters.string("sessionDefaultChannelGroup", "Organic Search") : undefined,
+    );
+    if (cacheScope) propertyCache.set(cacheKey, data);
+  }
+  const samples = data.rows.map((row) => toMetricSample(data.metricHeaders, row.metricValues));
+  return aggregateMetricValues(metrics, samples);
+}
+
+// Days of the question's range that were much higher or lower than expected. They are detected in a daily
+// history of at least ANOMALY_HISTORY_DAYS days up to the end of the range, since short ranges (7 days by
+// default) are too few points to judge a day by. Failures leave the days out rather than the answer.
+async function getUnusualDays(
+  accessToken: string,
+  propertyId: string,
+  startDate: string,
+  endDate: string,
+  currencyCode: string | null,
+  cacheScope: string | null,
+): Promise<string[]> {
+  try {
+    const timeZone = await propertyMetadataService.tryGetTimeZone(accessToken, propertyId, cacheScope);
+    const range = resolveDateRange({ startDate, endDate }, timeZone);
+    const historyStart = getRangeLengthDays(range) >= ANOMALY_HISTORY_DAYS
+      ? range.startDate
+      : addDays(range.endDate, 1 - ANOMALY_HISTORY_DAYS);
+    const cacheKey = `${cacheScope}|${propertyId}-${historyStart}-${range.endDate}|anomalies`;
+    let history = cacheScope ? propertyCache.get(cacheKey) : undefined;
+    if (!history) {
+      history = await googleAnalyticsService.runReport(accessToken, propertyId, {
+        startDate: historyStart,
+        endDate: range.endDate,
+        dimensions: ["date"],
+        metrics: DEFAULT_ANOMALY_METRICS,
+      });
+      if (cacheScope) propertyCache.set(cacheKey, history);
+    }
+
+    return detectMetricAnomalies(history)
+      .flatMap((report) => report.anomalies.map((anomaly) => ({ metric: report.metric, anomaly })))
+      .filter(({ anomaly }) => anomaly.date >= range.startDate)
+      .sort((a, b) => Math.abs(b.anomaly.score) - Math.abs(a.anomaly.score))
+      .slice(0, MAX_UNUSUAL_DAYS)
+      .map(({ metric, anomaly }) => describeAnomaly(metric, anomaly, currencyCode ?? undefined));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.warn(`Failed to check unusual days for property ${propertyId}: ${msg}`);
+    return [];
+  }
+}
+
+// Custom metrics and key events a question names, matched by the query processor against the property's metadata
+async function getQuestionCustomMetrics(
+  question: string,
+  accessToken: string,
+  propertyId: string,
+  cacheScope: string | null,
+): Promise<MetadataField[]> {
+  const metadata = await propertyMetadataService.tryGetMetadata(accessToken, propertyId, cacheScope);
+  if (!metadata) return [];
+  const processor = new AnalyticsQueryProcessor();
+  processor.setPropertyMetadata([metadata]);
+  const named = new Set(processor.extractEntities(question).metrics);
+  return propertyMetadataService
+    .getCustomMetrics(metadata)
+    .filter((field) => named.has(field.apiName))
+    .slice(0, MAX_QUESTION_CUSTOM_METRICS);
+}
+
+// Currency of a property's revenue, looked up only for properties with purchases
+async function getRevenueCurrency(
+  data: AnalyticsData,
+  accessToken: string,
+  propertyId: string,
+  cacheScope: string | null,
+): Promise<string | null> {
+  const ecommerce = ecommerceService.getSummary(data);
+  if (!ecommerce || ecommerce.transactions === 0) return null;
+  return propertyMetadataService.tryGetCurrencyCode(accessToken, propertyId, cacheScope);
+}
+
+// Fast helper function for basic analytics. Revenue is converted from `currencyCode` to the
+// reporting currency so properties can be compared; it stays as reported when no rate is known.
+// Calculated metrics cover all rows, with organic() parts taken from `organicTotals`.
+function quickAnalyze(
+  data: AnalyticsData,
+  propertyName: string,
+  currencyCode: string | null = null,
+  calculatedMetrics: CalculatedMetric[] = [],
+  organicTotals: Record<string, number> = {},
+  unusualDays: string[] = [],
+) {
   if (!data?.rows || !Array.isArray(data.rows) || data.rows.length === 0) {
     return { propertyName, hasData: false };
   }
 
-  let totalUsers = 0;
-  let totalSessions = 0;
-  let totalPageviews = 0;
-  let bounceRate = 0;
-
-  // Only analyze first 10 rows for speed
-  const sampleRows = data.rows.slice(0, 10);
-  sampleRows.forEach((row) => {
-    const values = row.metricValues ?? [];
-    if (values.length >= 5) {
-      totalUsers += parseInt(values[0]?.value ?? "0");
-      totalSessions += parseInt(values[2]?.value ?? "0");
-      totalPageviews += parseInt(values[3]?.value ?? "0");
-      bounceRate = Math.max(bounceRate, parseFloat(values[4]?.value ?? "0"));
+  // Only analyze first 10 rows for speed; bounce rate is weighted by each row's sessions
+  const samples = data.rows.slice(0, 10).map((row) => toMetricSample(data.metricHeaders, row.metricValues));
+  const sampled = aggregateMetricValues(["activeUsers", "sessions", "screenPageViews", "bounceRate"], samples);
+  const totalUsers = sampled.activeUsers ?? 0;
+  const totalSessions = sampled.sessions ?? 0;
+  const totalPageviews = sampled.screenPageViews ?? 0;
+  const bounceRate = sampled.bounceRate ?? 0;
+  const engagement = aggregateCalculatedMetric(ENGAGEMENT_METRIC, samples) ?? 0;
+
+  // Ecommerce totals cover all rows; only properties with purchases report them
+  const ecommerce = ecommerceService.getSummary(data);
+  const convertible = currencyCode !== null && currencyConverter.canConvert(currencyCode);
+  const toReporting = (amount: number) => (convertible ? currencyConverter.convert(amount, currencyCode) : amount);
+  const sales = ecommerce && ecommerce.transactions > 0
+    ? {
+      revenue: toReporting(ecommerce.purchaseRevenue).toFixed(2),
+      transactions: ecommerce.transactions,
+      conversionRate: ecommerce.conversionRate.toFixed(2),
+      averageOrderValue: toReporting(ecommerce.averageOrderValue).toFixed(2),
+      currency: convertible ? currencyConverter.getReportingCurrency() : (currencyCode ?? "unknown"),
     }
-  });
+    : {};
+
+  const allSamples = [
+    ...data.rows.map((row) => toMetricSample(data.metricHeaders, row.metricValues)),
+    toOrganicSample(organicTotals),
+  ];
+  const calculated = calculatedMetrics.length > 0
+    ? {
+      calculatedMetrics: Object.fromEntries(calculatedMetrics.map((metric) => {
+        const value = aggregateCalculatedMetric(metric, allSamples);
+        const reported = value !== undefined && metric.definition.format === "currency" ? toReporting(value) : value;
+        return [metric.definition.label, reported === undefined ? null : Number(reported.toFixed(2))];
+      })),
+    }
+    : {};
 
   return {
     propertyName,
@@ -38,7 +219,10 @@ function quickAnalyze(data: AnalyticsData, propertyName: string) {
     sessions: totalSessions,
     pageviews: totalPageviews,
     bounceRate: bounceRate.toFixed(1),
-    engagement: totalSessions > 0 ? (totalPageviews / totalSessions).toFixed(1) : "0"
+    engagement: engagement.toFixed(1),
+    ...sales,
+    ...calculated,
+    ...(unusualDays.length > 0 ? { unusualDays } : {}),
   };
 }
 
@@ -58,6 +242,8 @@ export async function POST(request: Request) {
       pageSize?: number;
       favouritesOnly?: boolean;
       favouritePropertyIds?: string[];
+      // Calculated metric definitions selected in the dashboard
+      calculatedMetrics?: unknown;
     };
 
     const question = body?.question ?? "";
@@ -66,19 +252,44 @@ export async function POST(request: Request) {
     }
 
     const propertyId = body.propertyId;
-    const startDate = body.startDate ?? "7daysAgo"; // Shorter default for speed
-    const endDate = body.endDate ?? "today";
+    let startDate: string;
+    let endDate: string;
+    try {
+      // Shorter default (7daysAgo..today) for speed
+      ({ startDate, endDate } = parseDateRange(body.startDate, body.endDate));
+    } catch (error) {
+      if (error instanceof DateRangeError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    let calculatedMetrics: CalculatedMetric[];
+    try {
+      calculatedMetrics = parseCalculatedMetricDefinitions(body.calculatedMetrics).map(compileCalculatedMetric);
+    } catch (error) {
+      if (error instanceof CalculatedMetricError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    // Base metrics of calculated metrics are requested after the usual ones
+    const required = getRequiredMetrics(calculatedMetrics, ANALYTICS_DATA_METRICS);
+    const customMetrics = calculatedMetrics.length > 0 ? required.metrics : undefined;
+    const metricsKey = customMetrics ? `|m:${customMetrics.join(",")}` : "";
+
+    // Without a stable identity the cache is bypassed so users never share entries
+    const cacheScope = getCacheScope(session);
 
   let gaContext: Record<string, unknown> = {};
     
     if (propertyId) {
       // Single property - check cache first
-      const cacheKey = `${propertyId}-${startDate}-${endDate}`;
-      const cached = propertyCache.get(cacheKey);
+      const cacheKey = `${cacheScope}|${propertyId}-${startDate}-${endDate}${metricsKey}`;
+      const cached = cacheScope ? propertyCache.get(cacheKey) : undefined;
       
       let data;
-      if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-        data = cached.data;
+      if (cached) {
+        data = cached;
       } else {
         if (!session || !session.accessToken) {
           return NextResponse.json({ error: "Missing access token" }, { status: 401 });
@@ -88,17 +299,67 @@ export async function POST(request: Request) {
           propertyId,
           startDate,
           endDate,
+          customMetrics,
         );
-        propertyCache.set(cacheKey, { data, timestamp: Date.now() });
+        if (cacheScope) propertyCache.set(cacheKey, data);
       }
       
-      const analysis = quickAnalyze(data, "Your Property");
+      const currencyCode = session.accessToken
+        ? await getRevenueCurrency(data, session.accessToken, propertyId, cacheScope)
+        : null;
+      const organicTotals = session.accessToken
+        ? await getMetricTotals(session.accessToken, propertyId, startDate, endDate, required.organicMetrics, cacheScope, true)
+        : {};
+      const unusualDays = session.accessToken
+        ? await getUnusualDays(session.accessToken, propertyId, startDate, endDate, currencyCode, cacheScope)
+        : [];
+      const analysis = quickAnalyze(data, "Your Property", currencyCode, calculatedMetrics, organicTotals, unusualDays);
       gaContext = {
         type: "single_property",
         propertyId,
         dateRange: { startDate, endDate },
         analysis,
       };
+
+      if (session.accessToken) {
+        try {
+          const questionMetrics = await getQuestionCustomMetrics(question, session.accessToken, propertyId, cacheScope);
+          if (questionMetrics.length > 0) {
+            const totals = await getMetricTotals(
+              session.accessToken,
+              propertyId,
+              startDate,
+              endDate,
+              questionMetrics.map((field) => field.apiName),
+              cacheScope,
+            );
+            gaContext.customMetrics = Object.fromEntries(
+              questionMetrics.map((field) => [field.uiName, Number((totals[field.apiName] ?? 0).toFixed(2))]),
+            );
+          }
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          console.warn(`Failed to fetch custom metrics for property ${propertyId}: ${msg}`);
+        }
+      }
+
+      if (session.accessToken && RETENTION_QUESTION.test(question)) {
+        try {
+          const timeZone = await propertyMetadataService.tryGetTimeZone(session.accessToken, propertyId, cacheScope);
+          const retention = await cohortService.getRetention(session.accessToken, propertyId, "weekly", { timeZone });
+          gaContext.weeklyRetention = {
+            averageRetentionPercent: retention.averageRetention.map((r) => (r === null ? null : Number(r.toFixed(1)))),
+            cohorts: retention.cohorts.map((c) => ({
+              firstSessionWeek: c.startDate,
+              users: c.users,
+              retentionPercent: c.retention.map((r) => (r === null ? null : Number(r.toFixed(1)))),
+            })),
+          };
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          console.warn(`Failed to fetch retention for property ${propertyId}: ${msg}`);
+        }
+      }
     } else {
       // Multi-property - support pagination and parallel fetch with concurrency limit
       const page = Number(body.page) || 1;
@@ -121,11 +382,11 @@ export async function POST(request: Request) {
       async function fetchBatch(batch: typeof pagedProperties) {
         await Promise.all(batch.map(async (property) => {
           try {
-            const cacheKey = `${property.propertyId}-${startDate}-${endDate}`;
-            const cached = propertyCache.get(cacheKey);
+            const cacheKey = `${cacheScope}|${property.propertyId}-${startDate}-${endDate}${metricsKey}`;
+            const cached = cacheScope ? propertyCache.get(cacheKey) : undefined;
             let data;
-            if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-              data = cached.data;
+            if (cached) {
+              data = cached;
             } else {
               if (!session || typeof session.accessToken !== 'string') {
                 throw new Error('Access token is missing or invalid');
@@ -135,10 +396,20 @@ export async function POST(request: Request) {
                   property.propertyId,
                   startDate,
                   endDate,
+                  customMetrics,
                 );
-              propertyCache.set(cacheKey, { data, timestamp: Date.now() });
+              if (cacheScope) propertyCache.set(cacheKey, data);
             }
-            const analysis = quickAnalyze(data, property.displayName);
+            const currencyCode = session?.accessToken
+              ? await getRevenueCurrency(data, session.accessToken, property.propertyId, cacheScope)
+              : null;
+            const organicTotals = session?.accessToken
+              ? await getMetricTotals(session.accessToken, property.propertyId, startDate, endDate, required.organicMetrics, cacheScope, true)
+              : {};
+            const unusualDays = session?.accessToken
+              ? await getUnusualDays(session.accessToken, property.propertyId, startDate, endDate, currencyCode, cacheScope)
+              : [];
+            const analysis = quickAnalyze(data, property.displayName, currencyCode, calculatedMetrics, organicTotals, unusualDays);
             if (analysis.hasData) {
               propertiesAnalysis.push({
                 propertyId: property.propertyId,
@@ -182,6 +453,11 @@ export async function POST(request: Request) {
       "- Tell them which one is winning and why",
       "- Use simple comparisons like 'more users' or 'better engagement'",
       "- Give one simple tip for improvement",
+      "Revenue and averageOrderValue are in the property's currency field; only compare revenue of properties with the same currency.",
+      "calculatedMetrics are the user's own metrics by name (null when they cannot be computed); monetary ones are in the currency field.",
+      "customMetrics are totals of the property's own custom metrics and key events the question asks about, by name.",
+      "unusualDays lists days that were much higher or lower than expected for that weekday; mention them when asked what changed.",
+      "For retention questions, weeklyRetention lists the % of each week's new users who came back in the weeks after (week 0 is always 100%).",
       "Keep responses under 3 sentences for kids' attention spans!",
       "Use numbers but explain what they mean simply.",
     ].join("\n");
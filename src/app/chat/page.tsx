@@ -2,12 +2,15 @@
 
 import { useState } from "react";
 import { useSession } from "next-auth/react";
+import { useCalculatedMetrics } from "~/components/CalculatedMetricsPanel";
 
 export default function ChatPage() {
   const { data: session, status } = useSession();
   const [question, setQuestion] = useState("");
   const [answer, setAnswer] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Calculated metrics selected in the dashboard are part of the chat context
+  const { selected: calculatedMetrics } = useCalculatedMetrics();
 
   if (status === "loading") {
     return <div className="p-6 bg-background text-foreground">Loading...</div>;
@@ -25,7 +28,7 @@ export default function ChatPage() {
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question }),
+        body: JSON.stringify({ question, calculatedMetrics: calculatedMetrics.map((metric) => metric.definition) }),
       });
       const data = (await res.json()) as { answer?: string; error?: string };
       if (!res.ok) throw new Error(data.error ?? "Request failed");
@@ -3,12 +3,21 @@
 /**
  * AnalyticsCharts
  * Renders charts (time series, device, countries) from an `AnalyticsData` response.
- * Props: `data`, `propertyName`, `onRefresh`.
+ * When the report has a comparison range (`data.series`), its users and sessions are overlaid as dashed lines.
+ * Days are in the property's time zone (`data.timeZone`), which is named next to the time series.
+ * Unusual days of users and sessions (see AnomalyDetection) are marked on the time series and listed below it.
+ * A `forecast` extends the time series with dashed projected users and sessions and the sessions' prediction
+ * interval, when it starts right after (or within) the charted days.
+ * Selected calculated metrics get an overview card each and a daily chart; those reading organic() parts
+ * use `organicTotals` and have no daily values.
+ * Props: `data`, `propertyName`, `onRefresh`, `calculatedMetrics`, `organicTotals`, `currencyCode`, `forecast`.
  */
 import { useMemo, useState } from "react";
 import {
   LineChart,
   Line,
+  ComposedChart,
+  Area,
   BarChart,
   Bar,
   PieChart,
@@ -19,14 +28,29 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceDot,
   ResponsiveContainer,
 } from "recharts";
-import type { AnalyticsData } from "~/types/analytics";
+import { CURRENT_DATE_RANGE, type AnalyticsData, type NamedDateRange, type PropertyForecast } from "~/types/analytics";
+import { formatMetricValue, formatValueAs, getMetricLabel } from "~/lib/analytics/MetricDictionary";
+import { toMetricSample, type MetricSample } from "~/lib/analytics/MetricRegistry";
+import { aggregateCalculatedMetric, toOrganicSample, type CalculatedMetric } from "~/lib/analytics/CalculatedMetrics";
+import { describeAnomaly, detectMetricAnomalies } from "~/lib/analytics/AnomalyDetection";
+
+// Series checked for unusual days, with the colour of their line in the time series
+const ANOMALY_SERIES = [
+  { metric: "activeUsers", color: "rgb(var(--chart-1))" },
+  { metric: "sessions", color: "rgb(var(--chart-3))" },
+];
 
 interface AnalyticsChartsProps {
   data: unknown;
   propertyName: string;
   onRefresh?: () => void;
+  calculatedMetrics?: CalculatedMetric[];
+  organicTotals?: Record<string, number>;
+  currencyCode?: string;
+  forecast?: PropertyForecast;
 }
 
 interface TimeSeriesEntry {
@@ -39,6 +63,18 @@ interface TimeSeriesEntry {
   sessionDuration: number;
   count: number;
   formattedDate: string;
+  // Same day of the comparison range, aligned by offset from the range start
+  previousActiveUsers?: number;
+  previousSessions?: number;
+}
+
+// Projected values on a time series day; days past the report carry only these
+interface ForecastEntry {
+  formattedDate: string;
+  forecastActiveUsers?: number;
+  forecastSessions?: number;
+  // Prediction interval of sessions, drawn as a band
+  forecastSessionsRange?: [number, number];
 }
 
 interface DeviceEntry {
@@ -77,13 +113,62 @@ function isAnalyticsData(data: unknown): data is AnalyticsData {
   );
 }
 
+// Days between a GA date (YYYYMMDD) and the start of its range (YYYY-MM-DD); null for relative range dates
+function getDayOffset(gaDate: string, rangeStart: string): number | null {
+  const date = Date.parse(`${gaDate.slice(0, 4)}-${gaDate.slice(4, 6)}-${gaDate.slice(6, 8)}T00:00:00Z`);
+  const start = Date.parse(`${rangeStart}T00:00:00Z`);
+  if (Number.isNaN(date) || Number.isNaN(start)) return null;
+  return Math.round((date - start) / (24 * 60 * 60 * 1000));
+}
+
 export function AnalyticsCharts({
   data,
   propertyName,
   onRefresh,
+  calculatedMetrics = [],
+  organicTotals,
+  currencyCode,
+  forecast,
 }: AnalyticsChartsProps) {
   const [chartsVisible, setChartsVisible] = useState(true);
 
+  // Unusual days need about two weeks of data; shorter ranges have none
+  const anomalies = useMemo(() => {
+    if (!isAnalyticsData(data)) return [];
+    const reports = detectMetricAnomalies(data, ANOMALY_SERIES.map((series) => series.metric));
+    return reports.flatMap((report) => report.anomalies.map((anomaly) => ({
+      ...anomaly,
+      metric: report.metric,
+      color: ANOMALY_SERIES.find((series) => series.metric === report.metric)?.color,
+      description: describeAnomaly(report.metric, anomaly),
+    })));
+  }, [data]);
+
+  // Calculated metrics over the whole range and per day, combined by each metric's aggregation rule
+  const calculatedData = useMemo(() => {
+    if (!isAnalyticsData(data) || calculatedMetrics.length === 0) return { totals: [], daily: [], dailyMetrics: [] };
+    const samplesByDate = new Map<string, MetricSample[]>();
+    const samples = data.rows.map((row) => {
+      const sample = toMetricSample(data.metricHeaders, row.metricValues);
+      const date = row.dimensionValues[0]?.value ?? "";
+      samplesByDate.set(date, [...(samplesByDate.get(date) ?? []), sample]);
+      return sample;
+    });
+    const totals = calculatedMetrics.map((metric) => ({
+      metric,
+      value: aggregateCalculatedMetric(metric, [...samples, toOrganicSample(organicTotals)]),
+    }));
+    // Organic parts are only known for the whole range
+    const dailyMetrics = calculatedMetrics.filter((metric) => metric.organicMetrics.length === 0);
+    const daily = dailyMetrics.length === 0 ? [] : Array.from(samplesByDate.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, daySamples]) => ({
+        formattedDate: date.length === 8 ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date,
+        ...Object.fromEntries(dailyMetrics.map((metric) => [metric.name, aggregateCalculatedMetric(metric, daySamples)])),
+      }));
+    return { totals, daily, dailyMetrics };
+  }, [data, calculatedMetrics, organicTotals]);
+
   // Process data for different chart types
   const chartData = useMemo(() => {
     if (!isAnalyticsData(data) || !data.rows || data.rows.length === 0) {
@@ -92,6 +177,7 @@ export function AnalyticsCharts({
         deviceData: [],
         countryData: [],
         metricsOverview: [],
+        comparisonRange: null,
         totals: {
           activeUsers: 0,
           newUsers: 0,
@@ -183,6 +269,31 @@ export function AnalyticsCharts({
       }))
       .sort((a, b) => a.date.localeCompare(b.date));
 
+    // Overlay the first comparison range, matching days by their offset from each range's start
+    let comparisonRange: NamedDateRange | null = null;
+    const currentRange = data.series?.[CURRENT_DATE_RANGE]?.dateRange;
+    const comparison = Object.values(data.series ?? {}).find((s) => s.dateRange.name !== CURRENT_DATE_RANGE);
+    if (currentRange && comparison) {
+      const previousByOffset = new Map<number, { activeUsers: number; sessions: number }>();
+      comparison.rows.forEach((row) => {
+        const offset = getDayOffset(row.dimensionValues[0]?.value ?? "", comparison.dateRange.startDate);
+        if (offset === null) return;
+        const previous = previousByOffset.get(offset) ?? { activeUsers: 0, sessions: 0 };
+        previous.activeUsers += parseInt(row.metricValues[0]?.value ?? "0");
+        previous.sessions += parseInt(row.metricValues[2]?.value ?? "0");
+        previousByOffset.set(offset, previous);
+      });
+
+      timeSeriesData.forEach((entry) => {
+        const offset = getDayOffset(entry.date, currentRange.startDate);
+        if (offset === null) return;
+        const previous = previousByOffset.get(offset);
+        entry.previousActiveUsers = previous?.activeUsers ?? 0;
+        entry.previousSessions = previous?.sessions ?? 0;
+      });
+      comparisonRange = comparison.dateRange;
+    }
+
     const deviceData = Array.from(deviceMap.values())
       .sort((a, b) => b.activeUsers - a.activeUsers)
       .slice(0, 10);
@@ -222,10 +333,10 @@ export function AnalyticsCharts({
       rowCount > 0 ? totalSessionDuration / rowCount : 0;
 
     const metricsOverview = [
-      { name: "Active Users", value: totalActiveUsers },
-      { name: "New Users", value: totalNewUsers },
-      { name: "Sessions", value: totalSessions },
-      { name: "Screen Page Views", value: totalPageviews },
+      { name: getMetricLabel("activeUsers"), value: totalActiveUsers },
+      { name: getMetricLabel("newUsers"), value: totalNewUsers },
+      { name: getMetricLabel("sessions"), value: totalSessions },
+      { name: getMetricLabel("screenPageViews"), value: totalPageviews },
     ];
 
     return {
@@ -233,6 +344,7 @@ export function AnalyticsCharts({
       deviceData,
       countryData,
       metricsOverview,
+      comparisonRange,
       totals: {
         activeUsers: totalActiveUsers,
         newUsers: totalNewUsers,
@@ -244,6 +356,36 @@ export function AnalyticsCharts({
     };
   }, [data]);
 
+  // Time series extended with the forecast. The dashed lines start from the last charted day before the
+  // forecast so they join the actual lines; forecasts starting after a gap are not drawn.
+  const forecastSeries = useMemo(() => {
+    const series: (Partial<TimeSeriesEntry> & ForecastEntry)[] = chartData.timeSeriesData.map((entry) => ({ ...entry }));
+    const users = forecast?.forecasts.find((f) => f.metric === "activeUsers");
+    const sessions = forecast?.forecasts.find((f) => f.metric === "sessions");
+    const firstDay = (users ?? sessions)?.points[0]?.date;
+    const lastCharted = series[series.length - 1]?.formattedDate;
+    if (!forecast || !firstDay || !lastCharted || Date.parse(firstDay) - Date.parse(lastCharted) > 24 * 60 * 60 * 1000) {
+      return { series, drawn: false };
+    }
+
+    const anchor = [...series].reverse().find((entry) => entry.formattedDate < firstDay);
+    if (anchor) {
+      anchor.forecastActiveUsers = users ? anchor.activeUsers : undefined;
+      anchor.forecastSessions = sessions ? anchor.sessions : undefined;
+    }
+    const byDate = new Map(series.map((entry) => [entry.formattedDate, entry]));
+    const dates = (users ?? sessions)?.points.map((point) => point.date) ?? [];
+    dates.forEach((date, i) => {
+      const entry = byDate.get(date) ?? { formattedDate: date };
+      const sessionsPoint = sessions?.points[i];
+      entry.forecastActiveUsers = users?.points[i]?.value;
+      entry.forecastSessions = sessionsPoint?.value;
+      entry.forecastSessionsRange = sessionsPoint ? [sessionsPoint.lower, sessionsPoint.upper] : undefined;
+      if (!byDate.has(date)) series.push(entry);
+    });
+    return { series, drawn: true };
+  }, [chartData.timeSeriesData, forecast]);
+
   // This component should not render if there's no data (handled by parent)
   if (!isAnalyticsData(data) || !data.rows || data.rows.length === 0) {
     return (
@@ -295,44 +437,58 @@ export function AnalyticsCharts({
           </div>
         </div>
 
+        {data.truncated && (
+          <div className="mb-4 rounded-md border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs text-yellow-800 dark:border-yellow-800 dark:bg-yellow-950/50 dark:text-yellow-300">
+            Report truncated: showing {data.rows.length.toLocaleString()} of {data.rowCount.toLocaleString()} rows, so the figures below may under-report.
+          </div>
+        )}
+
         {/* Overview Cards */}
         <div className="mb-6 grid grid-cols-2 gap-3 md:grid-cols-3">
           <div className="rounded-lg bg-blue-50 dark:bg-blue-950/50 p-3 border border-blue-200 dark:border-blue-800">
             <div className="text-xl font-bold text-blue-600 dark:text-blue-400">
               {chartData.totals.activeUsers.toLocaleString()}
             </div>
-            <div className="text-xs text-blue-800 dark:text-blue-300">Active Users</div>
+            <div className="text-xs text-blue-800 dark:text-blue-300">{getMetricLabel("activeUsers")}</div>
           </div>
           <div className="rounded-lg bg-green-50 dark:bg-green-950/50 p-3 border border-green-200 dark:border-green-800">
             <div className="text-xl font-bold text-green-600 dark:text-green-400">
               {chartData.totals.newUsers.toLocaleString()}
             </div>
-            <div className="text-xs text-green-800 dark:text-green-300">New Users</div>
+            <div className="text-xs text-green-800 dark:text-green-300">{getMetricLabel("newUsers")}</div>
           </div>
           <div className="rounded-lg bg-purple-50 dark:bg-purple-950/50 p-3 border border-purple-200 dark:border-purple-800">
             <div className="text-xl font-bold text-purple-600 dark:text-purple-400">
               {chartData.totals.sessions.toLocaleString()}
             </div>
-            <div className="text-xs text-purple-800 dark:text-purple-300">Sessions</div>
+            <div className="text-xs text-purple-800 dark:text-purple-300">{getMetricLabel("sessions")}</div>
           </div>
           <div className="rounded-lg bg-yellow-50 dark:bg-yellow-950/50 p-3 border border-yellow-200 dark:border-yellow-800">
             <div className="text-xl font-bold text-yellow-600 dark:text-yellow-400">
               {chartData.totals.pageviews.toLocaleString()}
             </div>
-            <div className="text-xs text-yellow-800 dark:text-yellow-300">Page Views</div>
+            <div className="text-xs text-yellow-800 dark:text-yellow-300">{getMetricLabel("screenPageViews")}</div>
           </div>
           <div className="rounded-lg bg-orange-50 dark:bg-orange-950/50 p-3 border border-orange-200 dark:border-orange-800">
             <div className="text-xl font-bold text-orange-600 dark:text-orange-400">
-              {chartData.totals.bounceRate.toFixed(1)}%
+              {formatMetricValue("bounceRate", chartData.totals.bounceRate)}
             </div>
-            <div className="text-xs text-orange-800 dark:text-orange-300">Bounce Rate</div>
+            <div className="text-xs text-orange-800 dark:text-orange-300">{getMetricLabel("bounceRate")}</div>
           </div>
           <div className="rounded-lg bg-indigo-50 dark:bg-indigo-950/50 p-3 border border-indigo-200 dark:border-indigo-800">
             <div className="text-xl font-bold text-indigo-600 dark:text-indigo-400">
-              {Math.round(chartData.totals.sessionDuration)}s
+              {formatMetricValue("averageSessionDuration", chartData.totals.sessionDuration)}
             </div>
-            <div className="text-xs text-indigo-800 dark:text-indigo-300">Avg. Session</div>
+            <div className="text-xs text-indigo-800 dark:text-indigo-300">{getMetricLabel("averageSessionDuration")}</div>
           </div>
+          {calculatedData.totals.map(({ metric, value }) => (
+            <div key={metric.name} className="rounded-lg bg-muted p-3 border border-border" title={metric.definition.expression}>
+              <div className="text-xl font-bold text-foreground">
+                {value === undefined ? "--" : formatValueAs(metric.definition.format, value, currencyCode)}
+              </div>
+              <div className="text-xs text-muted-foreground">{metric.definition.label}</div>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -343,9 +499,24 @@ export function AnalyticsCharts({
             <div>
               <h4 className="text-sm mb-2 font-medium text-foreground">
                 Users & Sessions Over Time
+                {chartData.comparisonRange && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    vs {chartData.comparisonRange.startDate} – {chartData.comparisonRange.endDate} (dashed)
+                  </span>
+                )}
+                {data.timeZone && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    Dates in {data.timeZone}
+                  </span>
+                )}
+                {forecastSeries.drawn && forecast && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    Forecast for {forecast.horizon} days (dashed)
+                  </span>
+                )}
               </h4>
               <ResponsiveContainer width="100%" height={200}>
-                <LineChart data={chartData.timeSeriesData} className="text-foreground">
+                <ComposedChart data={forecastSeries.series} className="text-foreground">
                   <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" />
                   <XAxis
                     dataKey="formattedDate"
@@ -373,10 +544,12 @@ export function AnalyticsCharts({
                         return String(value);
                       }
                     }}
-                    formatter={(value: number, name: string) => [
-                      typeof value === "number"
-                        ? value.toLocaleString()
-                        : String(value),
+                    formatter={(value: number | [number, number], name: string) => [
+                      Array.isArray(value)
+                        ? `${Math.round(value[0]).toLocaleString()} – ${Math.round(value[1]).toLocaleString()}`
+                        : typeof value === "number"
+                          ? Math.round(value).toLocaleString()
+                          : String(value),
                       name,
                     ]}
                   />
@@ -386,7 +559,7 @@ export function AnalyticsCharts({
                     dataKey="activeUsers"
                     stroke="rgb(var(--chart-1))"
                     strokeWidth={2}
-                    name="Active Users"
+                    name={getMetricLabel("activeUsers")}
                     dot={false}
                   />
                   <Line
@@ -394,7 +567,7 @@ export function AnalyticsCharts({
                     dataKey="newUsers"
                     stroke="rgb(var(--chart-2))"
                     strokeWidth={2}
-                    name="New Users"
+                    name={getMetricLabel("newUsers")}
                     dot={false}
                   />
                   <Line
@@ -402,9 +575,128 @@ export function AnalyticsCharts({
                     dataKey="sessions"
                     stroke="rgb(var(--chart-3))"
                     strokeWidth={2}
-                    name="Sessions"
+                    name={getMetricLabel("sessions")}
                     dot={false}
                   />
+                  {chartData.comparisonRange && (
+                    <Line
+                      type="monotone"
+                      dataKey="previousActiveUsers"
+                      stroke="rgb(var(--chart-1))"
+                      strokeWidth={1.5}
+                      strokeDasharray="4 4"
+                      name={`${getMetricLabel("activeUsers")} (previous)`}
+                      dot={false}
+                    />
+                  )}
+                  {chartData.comparisonRange && (
+                    <Line
+                      type="monotone"
+                      dataKey="previousSessions"
+                      stroke="rgb(var(--chart-3))"
+                      strokeWidth={1.5}
+                      strokeDasharray="4 4"
+                      name={`${getMetricLabel("sessions")} (previous)`}
+                      dot={false}
+                    />
+                  )}
+                  {anomalies
+                    .filter((anomaly) => chartData.timeSeriesData.some((entry) => entry.formattedDate === anomaly.date))
+                    .map((anomaly) => (
+                      <ReferenceDot
+                        key={`${anomaly.metric}-${anomaly.date}`}
+                        x={anomaly.date}
+                        y={anomaly.value}
+                        r={anomaly.severity === "high" ? 6 : 4}
+                        fill="rgb(var(--destructive))"
+                        stroke={anomaly.color}
+                        strokeWidth={2}
+                      />
+                    ))}
+                  {forecastSeries.drawn && (
+                    <Area
+                      type="monotone"
+                      dataKey="forecastSessionsRange"
+                      stroke="none"
+                      fill="rgb(var(--chart-3))"
+                      fillOpacity={0.15}
+                      name={`${getMetricLabel("sessions")} forecast range`}
+                      legendType="none"
+                      connectNulls={false}
+                    />
+                  )}
+                  {forecastSeries.drawn && (
+                    <Line
+                      type="monotone"
+                      dataKey="forecastActiveUsers"
+                      stroke="rgb(var(--chart-1))"
+                      strokeWidth={2}
+                      strokeDasharray="6 3"
+                      name={`${getMetricLabel("activeUsers")} (forecast)`}
+                      dot={false}
+                    />
+                  )}
+                  {forecastSeries.drawn && (
+                    <Line
+                      type="monotone"
+                      dataKey="forecastSessions"
+                      stroke="rgb(var(--chart-3))"
+                      strokeWidth={2}
+                      strokeDasharray="6 3"
+                      name={`${getMetricLabel("sessions")} (forecast)`}
+                      dot={false}
+                    />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+              {anomalies.length > 0 && (
+                <div className="mt-2 space-y-1 text-xs">
+                  <div className="font-medium text-foreground">Unusual days</div>
+                  {anomalies.map((anomaly) => (
+                    <div key={`${anomaly.metric}-${anomaly.date}`} className="text-muted-foreground">
+                      <span className={anomaly.severity === "high" ? "text-destructive" : "text-foreground"}>●</span>{" "}
+                      {anomaly.description}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Calculated Metrics Over Time */}
+          {calculatedData.daily.length > 0 && (
+            <div>
+              <h4 className="text-sm mb-2 font-medium text-foreground">Calculated Metrics Over Time</h4>
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={calculatedData.daily} className="text-foreground">
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" />
+                  <XAxis dataKey="formattedDate" tick={{ fontSize: 10, fill: "rgb(var(--muted-foreground))" }} />
+                  <YAxis tick={{ fontSize: 10, fill: "rgb(var(--muted-foreground))" }} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "rgb(var(--card))",
+                      border: "1px solid rgb(var(--border))",
+                      borderRadius: "8px",
+                      color: "rgb(var(--card-foreground))"
+                    }}
+                    formatter={(value: number, name: string, item: { dataKey?: unknown }) => {
+                      const metric = calculatedData.dailyMetrics.find((m) => m.name === item.dataKey);
+                      return [metric ? formatValueAs(metric.definition.format, value, currencyCode) : String(value), name];
+                    }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: '10px', color: "rgb(var(--foreground))" }} />
+                  {calculatedData.dailyMetrics.map((metric, index) => (
+                    <Line
+                      key={metric.name}
+                      type="monotone"
+                      dataKey={metric.name}
+                      stroke={`rgb(var(--chart-${(index % 6) + 1}))`}
+                      strokeWidth={2}
+                      name={metric.definition.label}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
                 </LineChart>
               </ResponsiveContainer>
             </div>
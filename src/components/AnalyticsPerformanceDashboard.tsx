@@ -2,13 +2,15 @@
 
 /**
  * AnalyticsPerformanceDashboard
- * Shows an overview of property performance using `optimizedAnalyticsService`.
+ * Shows an overview of property performance using `optimizedAnalyticsService`,
+ * plus the remaining GA4 token quota of each fetched property.
  * Props: `accessToken`, `dateRange`, optional `className`.
  */
 import React, { useState, useEffect } from 'react';
 import { optimizedAnalyticsService } from '~/lib/analytics/OptimizedAnalyticsService';
 import { propertyFilterService } from '~/lib/analytics/PropertyFilterService';
 import type { PropertyPerformanceData, BatchFetchResult } from '~/lib/analytics/OptimizedAnalyticsService';
+import type { PropertyQuotaSnapshot } from '~/types/analytics';
 import type { DateRange } from '~/types/chat';
 
 interface PerformanceDashboardProps {
@@ -78,6 +80,12 @@ export function AnalyticsPerformanceDashboard({
     return 'bg-gray-100 border-gray-300';
   };
 
+  const getQuotaColor = (snapshot: PropertyQuotaSnapshot): string => {
+    if (snapshot.exhausted) return 'bg-red-500';
+    if (snapshot.throttleDelayMs > 0) return 'bg-yellow-500';
+    return 'bg-green-500';
+  };
+
   const getPerformanceIcon = (data: PropertyPerformanceData): string => {
     if (data.isHighPerformer) return '🚀';
     if (data.organicUsers >= 500) return '📈';
@@ -267,6 +275,45 @@ export function AnalyticsPerformanceDashboard({
               ({performanceData.cacheHits} hits, {performanceData.cacheMisses} misses)
             </div>
           </div>
+
+          {/* Quota */}
+          <div className="mt-6 p-4 bg-card rounded border border-border">
+            <h3 className="font-semibold mb-2 text-foreground">GA4 Quota</h3>
+            {performanceData.throttledMs > 0 && (
+              <div className="text-sm text-yellow-700 dark:text-yellow-400 mb-2">
+                Requests were slowed by {formatTime(performanceData.throttledMs)} to stay within property quotas.
+              </div>
+            )}
+            {performanceData.quota.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No quota reported yet (all data served from cache).</div>
+            ) : (
+              <div className="space-y-3">
+                {performanceData.quota.map((snapshot) => {
+                  const hourlyPct = snapshot.hourlyCapacity > 0
+                    ? Math.round((snapshot.availableHourlyTokens / snapshot.hourlyCapacity) * 100)
+                    : 0;
+                  const daily = snapshot.quota.tokensPerDay;
+                  return (
+                    <div key={snapshot.propertyId}>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-foreground">{snapshot.propertyId}</span>
+                        <span className="text-muted-foreground">
+                          {formatNumber(snapshot.availableHourlyTokens)} / {formatNumber(snapshot.hourlyCapacity)} tokens this hour
+                          {daily && ` • ${formatNumber(daily.remaining)} left today`}
+                          {snapshot.exhausted
+                            ? ' • exhausted'
+                            : snapshot.throttleDelayMs > 0 && ` • throttled ${formatTime(snapshot.throttleDelayMs)}/request`}
+                        </span>
+                      </div>
+                      <div className="h-2 mt-1 rounded bg-muted overflow-hidden">
+                        <div className={`h-full ${getQuotaColor(snapshot)}`} style={{ width: `${hourlyPct}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
         </>
       )}
     </div>
@@ -0,0 +1,313 @@
+"use client";
+
+/**
+ * CalculatedMetricsPanel
+ * Lets users define calculated metrics (an arithmetic expression over base metrics, a display format and an
+ * aggregation rule) and pick which of them the dashboard tables, charts, CSV export and chat include.
+ * Definitions and the selection are kept in localStorage through `useCalculatedMetrics`.
+ * Custom metrics and key events from the GA4 metadata of `metadata` can be added to the expression.
+ * Props: definitions, selectedIds, onAdd, onRemove, onToggle, metadata, metadataLoading, className
+ */
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type {
+  CalculatedMetricAggregation,
+  CalculatedMetricDefinition,
+  MetadataField,
+  PropertyMetadata,
+} from "~/types/analytics";
+import {
+  CALCULATED_METRIC_PRESETS,
+  MAX_CALCULATED_METRICS,
+  CalculatedMetricError,
+  compileCalculatedMetric,
+  parseCalculatedMetricDefinitions,
+  type CalculatedMetric,
+} from "~/lib/analytics/CalculatedMetrics";
+
+const LS_KEYS = {
+  definitions: "ga4:ui:calculated-metrics",
+  selected: "ga4:ui:calculated-metrics-selected",
+} as const;
+
+const FORMAT_OPTIONS: { value: CalculatedMetricDefinition["format"]; label: string }[] = [
+  { value: "decimal", label: "Decimal" },
+  { value: "number", label: "Whole number" },
+  { value: "percent", label: "Percent" },
+  { value: "duration", label: "Duration (seconds)" },
+  { value: "currency", label: "Currency" },
+];
+
+const AGGREGATION_OPTIONS: { value: CalculatedMetricAggregation; label: string }[] = [
+  { value: "recompute", label: "Recompute from combined base metrics" },
+  { value: "sum", label: "Sum the values" },
+  { value: "sessionWeighted", label: "Average weighted by sessions" },
+  { value: "userWeighted", label: "Average weighted by users" },
+];
+
+/**
+ * Stored calculated metrics and the compiled ones currently selected
+ */
+export function useCalculatedMetrics() {
+  const [definitions, setDefinitions] = useState<CalculatedMetricDefinition[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    try {
+      const ls = globalThis?.localStorage;
+      if (!ls) return;
+      const rawDefinitions = ls.getItem(LS_KEYS.definitions);
+      const rawSelected = ls.getItem(LS_KEYS.selected);
+      const stored = rawDefinitions ? parseCalculatedMetricDefinitions(JSON.parse(rawDefinitions)) : [];
+      const ids = new Set(stored.map((d) => d.id));
+      setDefinitions(stored);
+      if (rawSelected) setSelectedIds((JSON.parse(rawSelected) as string[]).filter((id) => ids.has(id)));
+    } catch {
+      // Unreadable or invalid definitions are dropped
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    try {
+      const ls = globalThis?.localStorage;
+      if (!ls) return;
+      ls.setItem(LS_KEYS.definitions, JSON.stringify(definitions));
+      ls.setItem(LS_KEYS.selected, JSON.stringify(selectedIds));
+    } catch {
+      // ignore
+    }
+  }, [loaded, definitions, selectedIds]);
+
+  const selected = useMemo<CalculatedMetric[]>(
+    () => definitions.filter((d) => selectedIds.includes(d.id)).map(compileCalculatedMetric),
+    [definitions, selectedIds],
+  );
+
+  const add = useCallback((definition: CalculatedMetricDefinition) => {
+    setDefinitions((prev) => [...prev, definition]);
+    setSelectedIds((prev) => [...prev, definition.id]);
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setDefinitions((prev) => prev.filter((d) => d.id !== id));
+    setSelectedIds((prev) => prev.filter((s) => s !== id));
+  }, []);
+
+  const toggle = useCallback((id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+  }, []);
+
+  return { definitions, selectedIds, selected, add, remove, toggle };
+}
+
+// Identifier from a label, e.g. "Revenue / User" -> "revenueUser", made unique among `taken`
+function toMetricId(label: string, taken: string[]): string {
+  const words = label.replace(/[^A-Za-z0-9 ]/g, " ").trim().split(/\s+/).filter(Boolean);
+  const camel = words.map((w, i) => (i === 0 ? w.toLowerCase() : w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())).join("");
+  const base = (/^[A-Za-z]/.test(camel) ? camel : `metric${camel}`).slice(0, 36);
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}${n}`;
+  return id;
+}
+
+export function CalculatedMetricsPanel({
+  definitions,
+  selectedIds,
+  onAdd,
+  onRemove,
+  onToggle,
+  metadata = [],
+  metadataLoading = false,
+  className = "",
+}: {
+  definitions: CalculatedMetricDefinition[];
+  selectedIds: string[];
+  onAdd: (definition: CalculatedMetricDefinition) => void;
+  onRemove: (id: string) => void;
+  onToggle: (id: string) => void;
+  metadata?: PropertyMetadata[];
+  metadataLoading?: boolean;
+  className?: string;
+}) {
+  const [label, setLabel] = useState("");
+  const [expression, setExpression] = useState("");
+  const [format, setFormat] = useState<CalculatedMetricDefinition["format"]>("decimal");
+  const [aggregation, setAggregation] = useState<CalculatedMetricAggregation>("recompute");
+  const [error, setError] = useState<string | null>(null);
+
+  const atLimit = definitions.length >= MAX_CALCULATED_METRICS;
+  const takenIds = definitions.map((d) => d.id);
+  const presets = CALCULATED_METRIC_PRESETS.filter((p) => !definitions.some((d) => d.expression === p.expression));
+
+  // Custom metrics and key events across the loaded properties, deduplicated by API name
+  const customMetrics = useMemo(() => {
+    const byName = new Map<string, MetadataField>();
+    metadata.forEach((m) =>
+      m.metrics
+        .filter((field) => field.customDefinition || field.keyEvent)
+        .forEach((field) => byName.set(field.apiName, field)),
+    );
+    return Array.from(byName.values()).sort((a, b) => a.uiName.localeCompare(b.uiName));
+  }, [metadata]);
+
+  const insertMetric = (apiName: string) => {
+    setExpression((prev) => (prev.trim() ? `${prev.trim()} ${apiName}` : apiName));
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (atLimit) return;
+    const definition: CalculatedMetricDefinition = {
+      id: toMetricId(label || expression, takenIds),
+      label: label.trim() || expression.trim(),
+      expression,
+      format,
+      aggregation,
+    };
+    try {
+      compileCalculatedMetric(definition);
+    } catch (compileError) {
+      if (!(compileError instanceof CalculatedMetricError)) throw compileError;
+      setError(compileError.message);
+      return;
+    }
+    onAdd(definition);
+    setLabel("");
+    setExpression("");
+    setError(null);
+  };
+
+  const addPreset = (preset: CalculatedMetricDefinition) => {
+    if (atLimit) return;
+    onAdd({ ...preset, id: toMetricId(preset.id, takenIds) });
+  };
+
+  return (
+    <div className={`card-elevated rounded-lg p-4 ${className}`}>
+      <h3 className="text-lg font-medium text-foreground">Calculated metrics</h3>
+      <p className="mt-1 text-xs text-muted-foreground">
+        Combine metrics with + - * / and parentheses, e.g. <code>screenPageViews / sessions</code>.
+        Use <code>organic(sessions)</code> for the Organic Search part of a metric.
+      </p>
+
+      {definitions.length > 0 && (
+        <ul className="mt-3 divide-y divide-border rounded-md border border-border">
+          {definitions.map((definition) => (
+            <li key={definition.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <label className="flex min-w-0 items-center gap-2 text-foreground">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(definition.id)}
+                  onChange={() => onToggle(definition.id)}
+                  className="h-4 w-4 rounded border-input text-primary focus:ring-ring"
+                />
+                <span className="font-medium">{definition.label}</span>
+                <code className="truncate text-xs text-muted-foreground">{definition.expression}</code>
+              </label>
+              <button
+                type="button"
+                onClick={() => onRemove(definition.id)}
+                className="text-xs text-muted-foreground hover:text-destructive"
+                aria-label={`Delete ${definition.label}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {presets.length > 0 && !atLimit && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-muted-foreground">Add:</span>
+          {presets.map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => addPreset(preset)}
+              className="rounded-md border border-border px-2 py-1 text-foreground hover:bg-accent transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {atLimit ? (
+        <p className="mt-3 text-xs text-muted-foreground">
+          Up to {MAX_CALCULATED_METRICS} calculated metrics can be saved; delete one to add another.
+        </p>
+      ) : (
+        <form onSubmit={submit} className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-2">
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Name, e.g. Pages / Session"
+            maxLength={60}
+            className="rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground placeholder:text-muted-foreground focus:border-ring focus:ring-ring"
+          />
+          <input
+            value={expression}
+            onChange={(e) => setExpression(e.target.value)}
+            placeholder="Expression, e.g. screenPageViews / sessions"
+            className="rounded-md border border-input bg-background px-2 py-1 font-mono text-sm text-foreground placeholder:text-muted-foreground focus:border-ring focus:ring-ring"
+            aria-label="Expression"
+          />
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as CalculatedMetricDefinition["format"])}
+            className="rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground focus:border-ring focus:ring-ring"
+            aria-label="Format"
+          >
+            {FORMAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={aggregation}
+            onChange={(e) => setAggregation(e.target.value as CalculatedMetricAggregation)}
+            className="rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground focus:border-ring focus:ring-ring"
+            aria-label="Combine across properties and rows"
+          >
+            {AGGREGATION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {(metadataLoading || customMetrics.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-xs sm:col-span-2">
+              <span className="text-muted-foreground">Custom metrics &amp; key events:</span>
+              {metadataLoading && <span className="text-muted-foreground">Loading property metadata...</span>}
+              {customMetrics.map((field) => (
+                <button
+                  key={field.apiName}
+                  type="button"
+                  onClick={() => insertMetric(field.apiName)}
+                  title={field.description || field.apiName}
+                  className="rounded-md border border-border px-2 py-1 text-foreground hover:bg-accent transition-colors"
+                >
+                  {field.uiName}
+                  {field.keyEvent && (
+                    <span className="ml-1 text-[10px] px-1 rounded bg-secondary text-secondary-foreground">key event</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-3 sm:col-span-2">
+            <button
+              type="submit"
+              disabled={!expression.trim()}
+              className="rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50 transition-colors"
+            >
+              Add metric
+            </button>
+            {error && <span className="text-xs text-destructive">{error}</span>}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -2,23 +2,17 @@
 
 /**
  * ChannelBreakdown
- * Renders a table showing session/channel breakdown for a property.
- * Props: propertyId, startDate, endDate, compareMode, filters, className
+ * Renders a table showing session/channel breakdown for a property. With a comparison, changes are
+ * coloured only when a significance test finds them unlikely to be noise (p < 0.05).
+ * Props: propertyId, startDate, endDate, compareMode, compareRange (for compareMode "custom"), filters, className
  */
 import React, { useMemo } from "react";
 import useSWR from "swr";
-
-interface ChannelMetric {
-  current: number;
-  prev?: number;
-  delta?: number;
-  deltaPct?: number;
-}
-
-interface ChannelRow {
-  channel: string;
-  metrics: Record<string, ChannelMetric>;
-}
+import { filters, encodeFilterQuery, type FilterExpression } from "~/lib/analytics/FilterExpression";
+import type { CompareMode } from "~/lib/analytics/DateRangeResolver";
+import { MEDIUM_SIGNIFICANCE_P, describeSignificance } from "~/lib/analytics/SignificanceTesting";
+import type { ChannelBreakdownRow, ChannelMetricChange } from "~/types/analytics";
+import type { DateRange } from "~/types/chat";
 
 const fetcher = async (url: string) => {
   const res = await fetch(url);
@@ -35,11 +29,17 @@ function fmtPct(n?: number) {
   return `${n.toFixed(1)}%`;
 }
 
+// Untested changes (older cached responses) count as significant
+function isSignificant(m?: ChannelMetricChange) {
+  return !m?.significance || (!m.significance.insufficientData && m.significance.pValue < MEDIUM_SIGNIFICANCE_P);
+}
+
 export function ChannelBreakdown({
   propertyId,
   startDate,
   endDate,
   compareMode,
+  compareRange,
   channelGroups = [],
   sourceMediums = [],
   countries = [],
@@ -49,26 +49,38 @@ export function ChannelBreakdown({
   propertyId: string;
   startDate: string;
   endDate: string;
-  compareMode?: "previous_period" | "previous_year" | "none";
+  compareMode?: CompareMode | "none";
+  compareRange?: DateRange;
   channelGroups?: string[];
   sourceMediums?: string[];
   countries?: string[];
   devices?: string[];
   className?: string;
 }) {
-  const compareParam = compareMode && compareMode !== "none" ? `&compare=${compareMode}` : "";
+  const compareParam = compareMode && compareMode !== "none"
+    ? `&compare=${compareMode}${compareMode === "custom" && compareRange
+      ? `&compareStartDate=${encodeURIComponent(compareRange.startDate)}&compareEndDate=${encodeURIComponent(compareRange.endDate)}`
+      : ""}`
+    : "";
+  const dimensionFilter = useMemo(() => {
+    const conditions = [
+      channelGroups.length ? filters.inList("sessionDefaultChannelGroup", channelGroups) : undefined,
+      sourceMediums.length ? filters.inList("sessionSourceMedium", sourceMediums) : undefined,
+      countries.length ? filters.inList("country", countries) : undefined,
+      devices.length ? filters.inList("deviceCategory", devices) : undefined,
+    ].filter((c): c is FilterExpression => c !== undefined);
+    if (conditions.length === 0) return "";
+    return encodeFilterQuery(conditions.length === 1 ? conditions[0]! : filters.and(...conditions));
+  }, [channelGroups, sourceMediums, countries, devices]);
   const qs = [
     `startDate=${encodeURIComponent(startDate)}`,
     `endDate=${encodeURIComponent(endDate)}`,
     `groupBy=channel`,
     `metrics=sessions,totalUsers`,
     compareParam.replace(/^&/, ""),
-    channelGroups.length ? `channelGroups=${encodeURIComponent(channelGroups.join(","))}` : "",
-    sourceMediums.length ? `sourceMediums=${encodeURIComponent(sourceMediums.join(","))}` : "",
-    countries.length ? `countries=${encodeURIComponent(countries.join(","))}` : "",
-    devices.length ? `devices=${encodeURIComponent(devices.join(","))}` : "",
+    dimensionFilter ? `dimensionFilter=${encodeURIComponent(dimensionFilter)}` : "",
   ].filter(Boolean).join("&");
-  const cacheKey = `channel-${propertyId}-${startDate}-${endDate}-${compareMode ?? "none"}-cg:${channelGroups.join("|")}-sm:${sourceMediums.join("|")}-co:${countries.join("|")}-de:${devices.join("|")}`;
+  const cacheKey = `channel-${propertyId}-${startDate}-${endDate}-${compareMode ?? "none"}${compareRange ? `:${compareRange.startDate}..${compareRange.endDate}` : ""}-cg:${channelGroups.join("|")}-sm:${sourceMediums.join("|")}-co:${countries.join("|")}-de:${devices.join("|")}`;
   const { data, error, isLoading } = useSWR(
     cacheKey,
     () => fetcher(`/api/analytics/properties/${propertyId}/data?${qs}`),
@@ -79,8 +91,8 @@ export function ChannelBreakdown({
     }
   );
 
-  const rows: ChannelRow[] = useMemo(() => {
-    const list: ChannelRow[] = (data?.channelBreakdown as ChannelRow[]) || [];
+  const rows: ChannelBreakdownRow[] = useMemo(() => {
+    const list: ChannelBreakdownRow[] = (data?.channelBreakdown as ChannelBreakdownRow[]) || [];
     // Order channels by current sessions desc
     return [...list].sort((a, b) => (b.metrics.sessions?.current ?? 0) - (a.metrics.sessions?.current ?? 0));
   }, [data]);
@@ -92,10 +104,12 @@ export function ChannelBreakdown({
       "Sessions Prev",
       "Sessions Delta",
       "Sessions Delta %",
+      "Sessions p-value",
       "Users Current",
       "Users Prev",
       "Users Delta",
       "Users Delta %",
+      "Users p-value",
     ];
     const esc = (v: any) => {
       if (v === null || v === undefined) return "";
@@ -104,18 +118,20 @@ export function ChannelBreakdown({
     };
     const lines = [headers.join(",")];
     for (const r of rows) {
-      const s = r.metrics.sessions || {} as ChannelMetric;
-      const u = r.metrics.totalUsers || {} as ChannelMetric;
+      const s = r.metrics.sessions || {} as ChannelMetricChange;
+      const u = r.metrics.totalUsers || {} as ChannelMetricChange;
       lines.push([
         esc(r.channel || "(unassigned)"),
         esc(s.current ?? 0),
         esc(s.prev ?? ""),
         esc(s.delta ?? ""),
         esc(s.deltaPct !== undefined && isFinite(s.deltaPct) ? `${s.deltaPct.toFixed(2)}%` : ""),
+        esc(s.significance && !s.significance.insufficientData ? s.significance.pValue.toPrecision(3) : ""),
         esc(u.current ?? 0),
         esc(u.prev ?? ""),
         esc(u.delta ?? ""),
         esc(u.deltaPct !== undefined && isFinite(u.deltaPct) ? `${u.deltaPct.toFixed(2)}%` : ""),
+        esc(u.significance && !u.significance.insufficientData ? u.significance.pValue.toPrecision(3) : ""),
       ].join(","));
     }
     const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8;" });
@@ -200,7 +216,13 @@ export function ChannelBreakdown({
             {rows.map((r) => {
               const s = r.metrics.sessions;
               const u = r.metrics.totalUsers;
-              const deltaColor = (d?: number) => d === undefined ? "text-muted-foreground" : d > 0 ? "text-green-600 dark:text-green-400" : d < 0 ? "text-red-600 dark:text-red-400" : "text-muted-foreground";
+              // Changes that may be noise stay muted
+              const deltaColor = (m?: ChannelMetricChange) => {
+                const d = m?.delta;
+                if (d === undefined || !isSignificant(m)) return "text-muted-foreground";
+                return d > 0 ? "text-green-600 dark:text-green-400" : d < 0 ? "text-red-600 dark:text-red-400" : "text-muted-foreground";
+              };
+              const significanceTitle = (m?: ChannelMetricChange) => m?.significance ? describeSignificance(m.significance) : undefined;
               return (
                 <tr key={r.channel}>
                   <td className="px-4 py-2 text-sm text-foreground">{r.channel || "(unassigned)"}</td>
@@ -208,16 +230,16 @@ export function ChannelBreakdown({
                   {compareMode && compareMode !== "none" && (
                     <>
                       <td className="px-4 py-2 text-sm text-right text-muted-foreground">{fmtNumber(s?.prev)}</td>
-                      <td className={`px-4 py-2 text-sm text-right ${deltaColor(s?.delta)}`}>{fmtNumber(s?.delta)}</td>
-                      <td className={`px-4 py-2 text-sm text-right ${deltaColor(s?.delta)}`}>{fmtPct(s?.deltaPct)}</td>
+                      <td className={`px-4 py-2 text-sm text-right ${deltaColor(s)}`} title={significanceTitle(s)}>{fmtNumber(s?.delta)}</td>
+                      <td className={`px-4 py-2 text-sm text-right ${deltaColor(s)}`} title={significanceTitle(s)}>{fmtPct(s?.deltaPct)}</td>
                     </>
                   )}
                   <td className="px-4 py-2 text-sm text-right text-foreground">{fmtNumber(u?.current)}</td>
                   {compareMode && compareMode !== "none" && (
                     <>
                       <td className="px-4 py-2 text-sm text-right text-muted-foreground">{fmtNumber(u?.prev)}</td>
-                      <td className={`px-4 py-2 text-sm text-right ${deltaColor(u?.delta)}`}>{fmtNumber(u?.delta)}</td>
-                      <td className={`px-4 py-2 text-sm text-right ${deltaColor(u?.delta)}`}>{fmtPct(u?.deltaPct)}</td>
+                      <td className={`px-4 py-2 text-sm text-right ${deltaColor(u)}`} title={significanceTitle(u)}>{fmtNumber(u?.delta)}</td>
+                      <td className={`px-4 py-2 text-sm text-right ${deltaColor(u)}`} title={significanceTitle(u)}>{fmtPct(u?.deltaPct)}</td>
                     </>
                   )}
                 </tr>
@@ -226,6 +248,12 @@ export function ChannelBreakdown({
           </tbody>
         </table>
       </div>
+      {compareMode && compareMode !== "none" && (
+        <p className="px-4 py-2 border-t border-border text-xs text-muted-foreground">
+          Changes are coloured when they are statistically significant (p &lt; {MEDIUM_SIGNIFICANCE_P}); muted changes may be
+          noise. Hover a change for its p-value and test.
+        </p>
+      )}
     </div>
   );
 }
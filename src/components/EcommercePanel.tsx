@@ -0,0 +1,201 @@
+"use client";
+
+/**
+ * EcommercePanel
+ * Revenue, transactions, ecommerce conversion rate (transactions per session) and average order value
+ * of a property, with daily revenue and the top items by revenue. Items can be exported to CSV.
+ * Amounts are shown in the property's currency, or converted to `currency` with the server's exchange-rate table.
+ * Props: propertyId, startDate, endDate, organicOnly, currency, className
+ */
+import React from "react";
+import useSWR from "swr";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { EcommerceReportData } from "~/types/analytics";
+import { formatValue } from "./_excelHelpers";
+
+interface EcommerceResponse {
+  ecommerce: EcommerceReportData;
+}
+
+const fetcher = async (url: string): Promise<EcommerceResponse> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+  return res.json() as Promise<EcommerceResponse>;
+};
+
+// Plain amounts when the property's currency is unknown
+function fmtAmount(n: number, currencyCode?: string) {
+  return currencyCode
+    ? formatValue("purchaseRevenue", n, currencyCode)
+    : n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// GA dates are YYYYMMDD
+function fmtDate(gaDate: string) {
+  return gaDate.length === 8 ? `${gaDate.slice(4, 6)}/${gaDate.slice(6, 8)}` : gaDate;
+}
+
+export function EcommercePanel({
+  propertyId,
+  startDate,
+  endDate,
+  organicOnly = false,
+  currency,
+  className = "",
+}: {
+  propertyId: string;
+  startDate: string;
+  endDate: string;
+  organicOnly?: boolean;
+  currency?: string;
+  className?: string;
+}) {
+  const qs = [
+    `startDate=${encodeURIComponent(startDate)}`,
+    `endDate=${encodeURIComponent(endDate)}`,
+    currency ? `currency=${encodeURIComponent(currency)}` : "",
+    organicOnly ? "organicOnly=1" : "",
+  ].filter(Boolean).join("&");
+  const { data, error, isLoading } = useSWR<EcommerceResponse, Error>(
+    `ecommerce-${propertyId}-${qs}`,
+    () => fetcher(`/api/analytics/properties/${propertyId}/ecommerce?${qs}`),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      errorRetryCount: 0,
+    }
+  );
+  const report = data?.ecommerce;
+  const currencyCode = report?.currencyCode;
+
+  function downloadCsv() {
+    if (!report) return;
+    const esc = (v: string | number) => {
+      const s = String(v).replace(/"/g, '""');
+      return /[",\n]/.test(s) ? `"${s}"` : s;
+    };
+    const lines = [
+      ["Item", "Category", `Item Revenue${currencyCode ? ` (${currencyCode})` : ""}`, "Items Purchased", "Items Viewed"].join(","),
+      ...report.items.map((item) =>
+        [item.itemName, item.itemCategory, item.itemRevenue, item.itemsPurchased, item.itemsViewed].map(esc).join(","),
+      ),
+    ];
+    const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `ecommerce-items-${propertyId}-${startDate}-${endDate}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = <div className="p-4"><div className="animate-pulse h-40 bg-muted rounded"></div></div>;
+  } else if (error) {
+    body = <div className="p-4 text-sm text-destructive">Failed to load ecommerce data: {error.message}</div>;
+  } else if (!report || (report.summary.transactions === 0 && report.items.length === 0)) {
+    body = <div className="p-4 text-sm text-muted-foreground">No purchases recorded in the selected range.</div>;
+  } else {
+    const { summary } = report;
+    const cards = [
+      { label: "Revenue", value: fmtAmount(summary.purchaseRevenue, currencyCode) },
+      { label: "Transactions", value: summary.transactions.toLocaleString() },
+      { label: "Conversion Rate", value: `${summary.conversionRate.toFixed(2)}%` },
+      { label: "Avg. Order Value", value: fmtAmount(summary.averageOrderValue, currencyCode) },
+      { label: "Items Purchased", value: summary.itemsPurchased.toLocaleString() },
+    ];
+    const th = "px-3 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider";
+    body = (
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+          {cards.map((card) => (
+            <div key={card.label} className="rounded-md border border-border p-2">
+              <div className="text-xs text-muted-foreground">{card.label}</div>
+              <div className="text-sm font-semibold text-foreground">{card.value}</div>
+            </div>
+          ))}
+        </div>
+        <ResponsiveContainer width="100%" height={160}>
+          <BarChart data={report.daily} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" />
+            <XAxis dataKey="date" tickFormatter={fmtDate} tick={{ fontSize: 10, fill: "rgb(var(--muted-foreground))" }} />
+            <YAxis tick={{ fontSize: 10, fill: "rgb(var(--muted-foreground))" }} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "rgb(var(--card))",
+                border: "1px solid rgb(var(--border))",
+                borderRadius: "8px",
+                color: "rgb(var(--card-foreground))"
+              }}
+              labelFormatter={(label: string) => fmtDate(label)}
+              formatter={(value: number) => [fmtAmount(value, currencyCode), "Revenue"]}
+            />
+            <Bar dataKey="purchaseRevenue" fill="rgb(var(--chart-1))" />
+          </BarChart>
+        </ResponsiveContainer>
+        {report.items.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className={`${th} text-left`}>Item</th>
+                  <th className={`${th} text-left`}>Category</th>
+                  <th className={th}>Revenue</th>
+                  <th className={th}>Purchased</th>
+                  <th className={th}>Viewed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {report.items.map((item) => (
+                  <tr key={`${item.itemName}|${item.itemCategory}`}>
+                    <td className="px-3 py-2 text-sm text-foreground">{item.itemName || "(not set)"}</td>
+                    <td className="px-3 py-2 text-sm text-muted-foreground">{item.itemCategory || "(not set)"}</td>
+                    <td className="px-3 py-2 text-sm text-right text-foreground">{fmtAmount(item.itemRevenue, currencyCode)}</td>
+                    <td className="px-3 py-2 text-sm text-right text-foreground">{item.itemsPurchased.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-sm text-right text-foreground">{item.itemsViewed.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.convertedFrom && (
+              <div className="px-3 py-2 text-xs text-muted-foreground">
+                Converted from {report.convertedFrom.currencyCode} at exchange rates of {report.convertedFrom.exchangeRateDate}.
+              </div>
+            )}
+            {report.itemCount > report.items.length && (
+              <div className="px-3 py-2 text-xs text-muted-foreground">
+                Showing the top {report.items.length} of {report.itemCount.toLocaleString()} items.
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-lg border border-border bg-card ${className}`}>
+      <div className="px-4 py-3 border-b border-border flex items-center justify-between gap-2">
+        <h4 className="font-semibold text-foreground">Ecommerce</h4>
+        <button
+          onClick={downloadCsv}
+          disabled={!report?.items.length}
+          className="inline-flex items-center rounded-md border border-border px-2.5 py-1.5 text-xs font-medium text-foreground hover:bg-accent transition-colors disabled:opacity-50"
+          title="Download items CSV"
+        >
+          Download CSV
+        </button>
+      </div>
+      {body}
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 "use client";
 
 import React from 'react';
-import type { AnalyticsProperty } from "~/types/analytics";
+import type { AnalyticsProperty, PropertyDataResponse } from "~/types/analytics";
 import useSWR from "swr";
 import { defaultMetrics, getMetricColors, getMetricLabel, formatValue } from "./_excelHelpers";
+import { aggregateMetricValues, toMetricSample } from "~/lib/analytics/MetricRegistry";
+import { formatValueAs } from "~/lib/analytics/MetricDictionary";
+import {
+  aggregateCalculatedMetric,
+  getRequiredMetrics,
+  toOrganicSample,
+  type CalculatedMetric,
+} from "~/lib/analytics/CalculatedMetrics";
 
 // Lightweight fetcher used internally (keeps parity with dashboard hook behavior)
 async function fetcher<T>(url: string): Promise<T> {
@@ -12,38 +20,41 @@ async function fetcher<T>(url: string): Promise<T> {
   return res.json() as Promise<T>;
 }
 
-function usePropertyData(property: AnalyticsProperty, startDate: string, endDate: string, refreshKey: number, organicOnly: boolean) {
-  const metricsQuery = defaultMetrics.join(',');
-  const { data, error, isLoading } = useSWR(
-    `${property.propertyId}-${startDate}-${endDate}-${refreshKey}-org:${organicOnly ? '1' : '0'}`,
-    () => fetcher(`/api/analytics/properties/${property.propertyId}/data?startDate=${startDate}&endDate=${endDate}&metrics=${metricsQuery}${organicOnly ? '&organicOnly=1' : ''}`),
+function usePropertyData(property: AnalyticsProperty, startDate: string, endDate: string, refreshKey: number, organicOnly: boolean, calculatedMetrics: CalculatedMetric[]) {
+  const required = getRequiredMetrics(calculatedMetrics, defaultMetrics);
+  const metricsQuery = required.metrics.join(',');
+  const organicQuery = required.organicMetrics.length > 0 ? `&organicMetrics=${required.organicMetrics.join(',')}` : '';
+  const { data, error, isLoading } = useSWR<PropertyDataResponse, Error>(
+    `${property.propertyId}-${startDate}-${endDate}-${refreshKey}-org:${organicOnly ? '1' : '0'}-m:${metricsQuery}-om:${required.organicMetrics.join(',')}`,
+    () => fetcher<PropertyDataResponse>(`/api/analytics/properties/${property.propertyId}/data?startDate=${startDate}&endDate=${endDate}&metrics=${metricsQuery}${organicOnly ? '&organicOnly=1' : ''}${organicQuery}`),
     { revalidateOnFocus: false, revalidateOnReconnect: false, revalidateIfStale: false }
   );
 
-  return { data: data as any, error: error as any, isLoading: Boolean(isLoading) };
+  return { data, error, isLoading: Boolean(isLoading) };
 }
 
-function extractMetrics(resp?: any): Record<string, number> {
+function extractMetrics(response: PropertyDataResponse | undefined, calculatedMetrics: CalculatedMetric[]): Record<string, number> {
   const metrics: Record<string, number> = {};
   defaultMetrics.forEach(m => (metrics[m] = 0));
 
-  if (!resp?.data?.rows || !Array.isArray(resp.data.rows)) return metrics;
+  const data = response?.data;
+  if (!data?.rows || !Array.isArray(data.rows)) return metrics;
 
-  for (const row of resp.data.rows) {
-    const values = row.metricValues ?? [];
-    defaultMetrics.forEach((metric, idx) => {
-      if (values[idx]?.value !== undefined) {
-        const val = Number(values[idx].value) || 0;
-        if (metric === 'bounceRate') metrics[metric] = Math.max(metrics[metric] ?? 0, val);
-        else metrics[metric] = (metrics[metric] ?? 0) + val;
-      }
-    });
-  }
-
-  return metrics;
+  // Rows are combined as the metric registry declares: counts summed, rates and durations weighted by sessions
+  const headers = data.metricHeaders && data.metricHeaders.length > 0
+    ? data.metricHeaders
+    : defaultMetrics.map(name => ({ name }));
+  const samples = data.rows.map(row => toMetricSample(headers, row.metricValues));
+  // Calculated metrics are left out when they cannot be computed, e.g. on division by zero
+  const withOrganic = [...samples, toOrganicSample(response?.organicTotals)];
+  calculatedMetrics.forEach((metric) => {
+    const value = aggregateCalculatedMetric(metric, withOrganic);
+    if (value !== undefined) metrics[metric.name] = value;
+  });
+  return { ...metrics, ...aggregateMetricValues(defaultMetrics, samples) };
 }
 
-function PropertyRow({ property, startDate, endDate, refreshKey, isSelected, onClick, isFavorite, onToggleFavorite, organicOnly }: {
+function PropertyRow({ property, startDate, endDate, refreshKey, isSelected, onClick, isFavorite, onToggleFavorite, organicOnly, calculatedMetrics }: {
   property: AnalyticsProperty;
   startDate: string;
   endDate: string;
@@ -53,14 +64,17 @@ function PropertyRow({ property, startDate, endDate, refreshKey, isSelected, onC
   isFavorite: boolean;
   onToggleFavorite: () => void;
   organicOnly: boolean;
+  calculatedMetrics: CalculatedMetric[];
 }) {
-  const { data, error, isLoading } = usePropertyData(property, startDate, endDate, refreshKey, organicOnly);
-  const metrics = extractMetrics(data);
+  const { data, error, isLoading } = usePropertyData(property, startDate, endDate, refreshKey, organicOnly, calculatedMetrics);
+  const metrics = extractMetrics(data, calculatedMetrics);
+  const currencyCode = data?.currencyCode ?? undefined;
 
   if (isLoading) return (
     <tr className="animate-pulse">
       <td className="px-6 py-4 whitespace-nowrap"><div className="h-4 bg-muted rounded w-3/4"></div></td>
       {defaultMetrics.map(m => <td key={m} className="px-6 py-4 whitespace-nowrap"><div className="h-4 bg-muted rounded w-1/2"></div></td>)}
+      {calculatedMetrics.map(m => <td key={m.name} className="px-6 py-4 whitespace-nowrap"><div className="h-4 bg-muted rounded w-1/2"></div></td>)}
     </tr>
   );
 
@@ -68,6 +82,7 @@ function PropertyRow({ property, startDate, endDate, refreshKey, isSelected, onC
     <tr>
       <td className="px-6 py-4 whitespace-nowrap text-sm text-destructive">{property.displayName} - Error loading</td>
       {defaultMetrics.map(metric => <td key={metric} className="px-6 py-4 whitespace-nowrap text-sm text-destructive/70">--</td>)}
+      {calculatedMetrics.map(metric => <td key={metric.name} className="px-6 py-4 whitespace-nowrap text-sm text-destructive/70">--</td>)}
     </tr>
   );
 
@@ -85,11 +100,15 @@ function PropertyRow({ property, startDate, endDate, refreshKey, isSelected, onC
         const colors = getMetricColors(metric);
         return (<td key={metric} className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${colors.number}`}>{formatValue(metric, metrics[metric] ?? 0)}</td>);
       })}
+      {calculatedMetrics.map(metric => {
+        const value = metrics[metric.name];
+        return (<td key={metric.name} className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-foreground">{value === undefined ? '--' : formatValueAs(metric.definition.format, value, currencyCode)}</td>);
+      })}
     </tr>
   );
 }
 
-export function ExcelTable({ properties, startDate, endDate, refreshKey, selectedPropertyIndex, onPropertySelect, favorites, onToggleFavorite, organicOnly }: {
+export function ExcelTable({ properties, startDate, endDate, refreshKey, selectedPropertyIndex, onPropertySelect, favorites, onToggleFavorite, organicOnly, calculatedMetrics = [] }: {
   properties: AnalyticsProperty[];
   startDate: string;
   endDate: string;
@@ -99,6 +118,7 @@ export function ExcelTable({ properties, startDate, endDate, refreshKey, selecte
   favorites: Set<string>;
   onToggleFavorite: (propertyId: string) => void;
   organicOnly: boolean;
+  calculatedMetrics?: CalculatedMetric[];
 }) {
   return (
     <div className="bg-card border border-border rounded-lg shadow-lg overflow-hidden">
@@ -111,11 +131,14 @@ export function ExcelTable({ properties, startDate, endDate, refreshKey, selecte
                 const colors = getMetricColors(metric);
                 return (<th key={metric} className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider sticky top-0 bg-muted/50 z-20 ${colors.label} ${colors.border} border-l min-w-[120px]`}>{getMetricLabel(metric)}</th>);
               })}
+              {calculatedMetrics.map(metric => (
+                <th key={metric.name} title={metric.definition.expression} className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider sticky top-0 bg-muted/50 z-20 text-muted-foreground border-border border-l min-w-[120px]">{metric.definition.label}</th>
+              ))}
             </tr>
           </thead>
           <tbody className="bg-card divide-y divide-border">
             {properties.map((property, index) => (
-              <PropertyRow key={property.propertyId} property={property} startDate={startDate} endDate={endDate} refreshKey={refreshKey} isSelected={index === selectedPropertyIndex} onClick={() => onPropertySelect(index)} isFavorite={favorites.has(property.propertyId)} onToggleFavorite={() => onToggleFavorite(property.propertyId)} organicOnly={organicOnly} />
+              <PropertyRow key={property.propertyId} property={property} startDate={startDate} endDate={endDate} refreshKey={refreshKey} isSelected={index === selectedPropertyIndex} onClick={() => onPropertySelect(index)} isFavorite={favorites.has(property.propertyId)} onToggleFavorite={() => onToggleFavorite(property.propertyId)} organicOnly={organicOnly} calculatedMetrics={calculatedMetrics} />
             ))}
           </tbody>
         </table>
@@ -0,0 +1,239 @@
+"use client";
+
+/**
+ * ForecastPanel
+ * Projected totals of sessions, active users and revenue over the next days with their prediction intervals,
+ * and an on track / off track status against a target per metric. Targets are kept per property in
+ * localStorage; the forecast itself comes from `useForecast`, which the time series chart shares.
+ * Props: propertyId, forecast, error, isLoading, days, onDaysChange, className
+ */
+import React, { useCallback, useEffect, useState } from "react";
+import useSWR from "swr";
+import type { MetricForecast, PropertyForecast } from "~/types/analytics";
+import { evaluateTarget } from "~/lib/analytics/Forecasting";
+import { formatMetricValue, getMetricLabel } from "~/lib/analytics/MetricDictionary";
+
+const LS_TARGETS_KEY = "ga4:ui:forecast-targets";
+
+// Horizons offered in the panel; the API accepts up to 90 days
+export const FORECAST_DAY_OPTIONS = [7, 14, 30, 60, 90];
+
+interface ForecastResponse {
+  forecast: PropertyForecast;
+}
+
+const fetcher = async (url: string): Promise<ForecastResponse> => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    // Too little history comes back as a 422 with an explanation
+    const body = (await res.json().catch(() => null)) as { message?: string } | null;
+    throw new Error(body?.message ?? `HTTP ${res.status}: ${res.statusText}`);
+  }
+  return res.json() as Promise<ForecastResponse>;
+};
+
+/**
+ * Forecast of a property for the next `days` days; nothing is fetched until `enabled`
+ */
+export function useForecast(propertyId: string, days: number, organicOnly: boolean, enabled: boolean) {
+  const qs = [`days=${days}`, organicOnly ? "organicOnly=1" : ""].filter(Boolean).join("&");
+  const { data, error, isLoading } = useSWR<ForecastResponse, Error>(
+    enabled ? `forecast-${propertyId}-${qs}` : null,
+    () => fetcher(`/api/analytics/properties/${propertyId}/forecast?${qs}`),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      errorRetryCount: 0,
+    }
+  );
+  return { forecast: data?.forecast, error, isLoading };
+}
+
+// Stored targets of every property
+function readStoredTargets(): Record<string, Record<string, number>> {
+  const raw = globalThis?.localStorage?.getItem(LS_TARGETS_KEY);
+  return raw ? (JSON.parse(raw) as Record<string, Record<string, number>>) : {};
+}
+
+// Targets of one property by metric, kept in a localStorage entry shared by all properties
+function useForecastTargets(propertyId: string) {
+  const [targets, setTargets] = useState<Record<string, number>>({});
+  // Property whose targets are loaded; nothing is written back before they are
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      setTargets(readStoredTargets()[propertyId] ?? {});
+    } catch {
+      // ignore
+    } finally {
+      setLoadedFor(propertyId);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    if (loadedFor !== propertyId) return;
+    try {
+      globalThis?.localStorage?.setItem(LS_TARGETS_KEY, JSON.stringify({ ...readStoredTargets(), [propertyId]: targets }));
+    } catch {
+      // ignore
+    }
+  }, [loadedFor, propertyId, targets]);
+
+  const setTarget = useCallback((metric: string, value: number | null) => {
+    setTargets((prev) => {
+      const next = { ...prev };
+      if (value === null) delete next[metric];
+      else next[metric] = value;
+      return next;
+    });
+  }, []);
+
+  return { targets, setTarget };
+}
+
+function ForecastRow({
+  forecast,
+  target,
+  onTargetChange,
+  currencyCode,
+}: {
+  forecast: MetricForecast;
+  target: number | undefined;
+  onTargetChange: (value: number | null) => void;
+  currencyCode?: string;
+}) {
+  const [draft, setDraft] = useState(target === undefined ? "" : String(target));
+  useEffect(() => setDraft(target === undefined ? "" : String(target)), [target]);
+
+  const fmt = (value: number) => formatMetricValue(forecast.metric, value, currencyCode);
+  const status = target === undefined ? null : evaluateTarget(forecast, target);
+
+  const commit = () => {
+    const value = Number(draft);
+    if (draft.trim() === "") onTargetChange(null);
+    else if (Number.isFinite(value) && value >= 0) onTargetChange(value);
+    else setDraft(target === undefined ? "" : String(target));
+  };
+
+  return (
+    <tr>
+      <td className="px-3 py-2 text-sm text-foreground">{getMetricLabel(forecast.metric)}</td>
+      <td className="px-3 py-2 text-sm text-right font-medium text-foreground">{fmt(forecast.total)}</td>
+      <td className="px-3 py-2 text-sm text-right text-muted-foreground">
+        {fmt(forecast.totalLower)} – {fmt(forecast.totalUpper)}
+      </td>
+      <td className="px-3 py-2 text-right">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === "Enter") commit(); }}
+          inputMode="decimal"
+          placeholder="Target"
+          aria-label={`${getMetricLabel(forecast.metric)} target`}
+          className="w-28 rounded-md border border-input bg-background px-2 py-1 text-right text-sm text-foreground placeholder:text-muted-foreground focus:border-ring focus:ring-ring"
+        />
+      </td>
+      <td className="px-3 py-2 text-sm">
+        {status && (
+          <span
+            className={status.status === "on_track" ? "text-green-600 dark:text-green-400" : "text-destructive"}
+            title={status.confident
+              ? "The target is outside the prediction interval of the total"
+              : "The target is within the prediction interval of the total, so the status may still change"}
+          >
+            {status.status === "on_track" ? "On track" : "Off track"}
+            {!status.confident && <span className="text-muted-foreground"> (close)</span>}
+          </span>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export function ForecastPanel({
+  propertyId,
+  forecast,
+  error,
+  isLoading = false,
+  days,
+  onDaysChange,
+  className = "",
+}: {
+  propertyId: string;
+  forecast?: PropertyForecast;
+  error?: Error;
+  isLoading?: boolean;
+  days: number;
+  onDaysChange: (days: number) => void;
+  className?: string;
+}) {
+  const { targets, setTarget } = useForecastTargets(propertyId);
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = <div className="p-4"><div className="animate-pulse h-24 bg-muted rounded"></div></div>;
+  } else if (error) {
+    body = <div className="p-4 text-sm text-destructive">Failed to load forecast: {error.message}</div>;
+  } else if (!forecast) {
+    body = null;
+  } else {
+    const th = "px-3 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider";
+    const level = Math.round((forecast.forecasts[0]?.level ?? 0.95) * 100);
+    body = (
+      <div className="p-4 space-y-2">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className={`${th} text-left`}>Metric</th>
+                <th className={th}>Projected total</th>
+                <th className={th}>{level}% interval</th>
+                <th className={th}>Target</th>
+                <th className={`${th} text-left`}>Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {forecast.forecasts.map((metricForecast) => (
+                <ForecastRow
+                  key={metricForecast.metric}
+                  forecast={metricForecast}
+                  target={targets[metricForecast.metric]}
+                  onTargetChange={(value) => setTarget(metricForecast.metric, value)}
+                  currencyCode={forecast.currencyCode}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Totals are sums of daily values over the {forecast.horizon} days after {forecast.historyEndDate}, projected from
+          the previous {forecast.forecasts[0]?.historyPoints ?? 0} days
+          {forecast.forecasts[0]?.seasonal ? " with their weekly pattern" : ""}. Targets apply to the same days.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-lg border border-border bg-card ${className}`}>
+      <div className="px-4 py-3 border-b border-border flex items-center justify-between gap-2">
+        <h4 className="font-semibold text-foreground">Forecast</h4>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          Next
+          <select
+            value={days}
+            onChange={(e) => onDaysChange(Number(e.target.value))}
+            className="rounded-md border border-input bg-background px-2 py-1 text-xs text-foreground focus:border-ring focus:ring-ring"
+          >
+            {FORECAST_DAY_OPTIONS.map((option) => (
+              <option key={option} value={option}>{option} days</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {body}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+/**
+ * FunnelChart
+ * Visualizes a property funnel (e.g. session_start → view_item → add_to_cart → purchase) with
+ * users per step, step conversion and drop-off. Steps are event names and can be edited in place.
+ * Props: propertyId, startDate, endDate, organicOnly, steps (event names), className
+ */
+import React, { useState } from "react";
+import useSWR from "swr";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { FunnelReportData } from "~/types/analytics";
+
+interface FunnelResponse {
+  funnel: FunnelReportData;
+}
+
+const DEFAULT_STEPS = ["session_start", "view_item", "add_to_cart", "purchase"];
+
+const fetcher = async (url: string): Promise<FunnelResponse> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+  return res.json() as Promise<FunnelResponse>;
+};
+
+function fmtPct(n: number) {
+  return `${n.toFixed(1)}%`;
+}
+
+export function FunnelChart({
+  propertyId,
+  startDate,
+  endDate,
+  organicOnly = false,
+  steps: initialSteps = DEFAULT_STEPS,
+  className = "",
+}: {
+  propertyId: string;
+  startDate: string;
+  endDate: string;
+  organicOnly?: boolean;
+  steps?: string[];
+  className?: string;
+}) {
+  const [steps, setSteps] = useState(initialSteps);
+  const [stepsInput, setStepsInput] = useState(initialSteps.join(", "));
+  const [isOpenFunnel, setIsOpenFunnel] = useState(false);
+
+  const qs = [
+    `startDate=${encodeURIComponent(startDate)}`,
+    `endDate=${encodeURIComponent(endDate)}`,
+    `steps=${encodeURIComponent(steps.join(","))}`,
+    isOpenFunnel ? "open=1" : "",
+    organicOnly ? "organicOnly=1" : "",
+  ].filter(Boolean).join("&");
+  const { data, error, isLoading } = useSWR<FunnelResponse, Error>(
+    `funnel-${propertyId}-${qs}`,
+    () => fetcher(`/api/analytics/properties/${propertyId}/funnel?${qs}`),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      errorRetryCount: 0,
+    }
+  );
+  const report = data?.funnel;
+
+  const applySteps = () => {
+    const next = stepsInput.split(/[,→>]/).map((s) => s.trim()).filter(Boolean);
+    if (next.length >= 2 && next.join(",") !== steps.join(",")) setSteps(next);
+  };
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = <div className="animate-pulse h-40 bg-muted rounded"></div>;
+  } else if (error) {
+    body = <div className="text-sm text-destructive">Failed to load funnel: {error.message}</div>;
+  } else if (!report || (report.steps[0]?.activeUsers ?? 0) === 0) {
+    body = <div className="text-sm text-muted-foreground">No users reached the first step in the selected range.</div>;
+  } else {
+    body = (
+      <>
+        <ResponsiveContainer width="100%" height={200}>
+          <BarChart data={report.steps} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" />
+            <XAxis dataKey="name" tick={{ fontSize: 10, fill: "rgb(var(--muted-foreground))" }} />
+            <YAxis tick={{ fontSize: 10, fill: "rgb(var(--muted-foreground))" }} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "rgb(var(--card))",
+                border: "1px solid rgb(var(--border))",
+                borderRadius: "8px",
+                color: "rgb(var(--card-foreground))"
+              }}
+              formatter={(value: number) => [value.toLocaleString(), "Users"]}
+            />
+            <Bar dataKey="activeUsers" fill="rgb(var(--chart-1))" />
+          </BarChart>
+        </ResponsiveContainer>
+        <div className="mt-3 grid gap-2" style={{ gridTemplateColumns: `repeat(${report.steps.length}, minmax(0, 1fr))` }}>
+          {report.steps.map((step, i) => (
+            <div key={`${step.eventName}-${i}`} className="rounded-md border border-border p-2 text-xs">
+              <div className="font-medium text-foreground truncate" title={step.eventName}>{i + 1}. {step.name}</div>
+              <div className="text-foreground">{step.activeUsers.toLocaleString()} users</div>
+              <div className="text-muted-foreground">{fmtPct(step.conversionRate)} of start</div>
+              {i > 0 && (
+                <div className="text-red-600 dark:text-red-400">
+                  −{step.dropOff.toLocaleString()} ({fmtPct(step.dropOffRate)} drop-off)
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="mt-2 text-xs text-muted-foreground">
+          Overall conversion {fmtPct(report.overallConversionRate)}
+          {report.source === "event_counts" && " • approximated from event user counts (GA funnel report unavailable)"}
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <div className={`rounded-lg border border-border bg-card ${className}`}>
+      <div className="px-4 py-3 border-b border-border flex flex-wrap items-center gap-2">
+        <h4 className="font-semibold text-foreground mr-2">Funnel</h4>
+        <input
+          value={stepsInput}
+          onChange={(e) => setStepsInput(e.target.value)}
+          onBlur={applySteps}
+          onKeyDown={(e) => { if (e.key === "Enter") applySteps(); }}
+          className="flex-1 min-w-48 rounded-md border border-input bg-background px-2 py-1 text-xs text-foreground focus:border-ring focus:ring-ring"
+          aria-label="Funnel steps (event names)"
+          placeholder="session_start, view_item, add_to_cart, purchase"
+        />
+        <label className="flex items-center gap-1 text-xs text-foreground">
+          <input
+            type="checkbox"
+            checked={isOpenFunnel}
+            onChange={(e) => setIsOpenFunnel(e.target.checked)}
+            className="h-3.5 w-3.5 rounded border-input text-primary focus:ring-ring"
+          />
+          Open funnel
+        </label>
+      </div>
+      <div className="p-4">{body}</div>
+    </div>
+  );
+}
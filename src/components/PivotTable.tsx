@@ -0,0 +1,203 @@
+"use client";
+
+/**
+ * PivotTable
+ * Renders a GA4 pivot report (e.g. channel × device sessions) with row/column totals and CSV export.
+ * Rows, columns and metric can be switched in place.
+ * Props: propertyId, startDate, endDate, organicOnly, rowDimension, columnDimension, metric, className
+ */
+import React, { useState } from "react";
+import useSWR from "swr";
+import type { PivotReportData } from "~/types/analytics";
+import { getMetricLabel } from "~/lib/analytics/MetricDictionary";
+
+interface PivotResponse {
+  pivot: PivotReportData;
+}
+
+const PIVOT_DIMENSIONS = [
+  { value: "sessionDefaultChannelGroup", label: "Channel" },
+  { value: "deviceCategory", label: "Device" },
+  { value: "country", label: "Country" },
+  { value: "sessionSourceMedium", label: "Source / Medium" },
+  { value: "newVsReturning", label: "New vs Returning" },
+];
+
+const PIVOT_METRICS = ["sessions", "totalUsers", "screenPageViews", "engagedSessions"].map((value) => ({
+  value,
+  label: getMetricLabel(value),
+}));
+
+const fetcher = async (url: string): Promise<PivotResponse> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+  return res.json() as Promise<PivotResponse>;
+};
+
+function fmtCell(n: number | null | undefined) {
+  return n === null || n === undefined ? "--" : n.toLocaleString();
+}
+
+function labelFor(value: string) {
+  return PIVOT_DIMENSIONS.find((d) => d.value === value)?.label ?? value;
+}
+
+export function PivotTable({
+  propertyId,
+  startDate,
+  endDate,
+  organicOnly = false,
+  rowDimension: initialRowDimension = "sessionDefaultChannelGroup",
+  columnDimension: initialColumnDimension = "deviceCategory",
+  metric: initialMetric = "sessions",
+  className = "",
+}: {
+  propertyId: string;
+  startDate: string;
+  endDate: string;
+  organicOnly?: boolean;
+  rowDimension?: string;
+  columnDimension?: string;
+  metric?: string;
+  className?: string;
+}) {
+  const [rowDimension, setRowDimension] = useState(initialRowDimension);
+  const [columnDimension, setColumnDimension] = useState(initialColumnDimension);
+  const [metric, setMetric] = useState(initialMetric);
+
+  const qs = [
+    `startDate=${encodeURIComponent(startDate)}`,
+    `endDate=${encodeURIComponent(endDate)}`,
+    `rows=${encodeURIComponent(rowDimension)}`,
+    `columns=${encodeURIComponent(columnDimension)}`,
+    `metrics=${encodeURIComponent(metric)}`,
+    organicOnly ? "organicOnly=1" : "",
+  ].filter(Boolean).join("&");
+  const { data, error, isLoading } = useSWR<PivotResponse, Error>(
+    `pivot-${propertyId}-${qs}`,
+    () => fetcher(`/api/analytics/properties/${propertyId}/pivot?${qs}`),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      errorRetryCount: 0,
+    }
+  );
+  const pivot = data?.pivot;
+
+  function downloadCsv() {
+    if (!pivot) return;
+    const esc = (v: string | number | null | undefined) => {
+      if (v === null || v === undefined) return "";
+      const s = String(v).replace(/"/g, '""');
+      return /[",\n]/.test(s) ? `"${s}"` : s;
+    };
+    const lines = [
+      [labelFor(rowDimension), ...pivot.columns.map((c) => c.join(" / ")), "Total"].map(esc).join(","),
+      ...pivot.rows.map((r) => [r.key.join(" / "), ...r.cells.map((c) => c[0]), r.totals[0]].map(esc).join(",")),
+      ["Total", ...pivot.columnTotals.map((c) => c[0]), pivot.grandTotals[0]].map(esc).join(","),
+    ];
+    const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `pivot-${propertyId}-${rowDimension}-${columnDimension}-${metric}-${startDate}-${endDate}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const selectClass = "rounded-md border border-input bg-background px-2 py-1 text-xs text-foreground focus:border-ring focus:ring-ring";
+  const controls = (
+    <div className="px-4 py-3 border-b border-border flex flex-wrap items-center justify-between gap-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <select value={rowDimension} onChange={(e) => setRowDimension(e.target.value)} className={selectClass} aria-label="Rows">
+          {PIVOT_DIMENSIONS.filter((d) => d.value !== columnDimension).map((d) => (
+            <option key={d.value} value={d.value}>{d.label}</option>
+          ))}
+        </select>
+        <span>×</span>
+        <select value={columnDimension} onChange={(e) => setColumnDimension(e.target.value)} className={selectClass} aria-label="Columns">
+          {PIVOT_DIMENSIONS.filter((d) => d.value !== rowDimension).map((d) => (
+            <option key={d.value} value={d.value}>{d.label}</option>
+          ))}
+        </select>
+        <select value={metric} onChange={(e) => setMetric(e.target.value)} className={selectClass} aria-label="Metric">
+          {PIVOT_METRICS.map((m) => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      </div>
+      <button
+        onClick={downloadCsv}
+        disabled={!pivot?.rows.length}
+        className="inline-flex items-center rounded-md border border-border px-2.5 py-1.5 text-xs font-medium text-foreground hover:bg-accent transition-colors disabled:opacity-50"
+        title="Download CSV"
+      >
+        Download CSV
+      </button>
+    </div>
+  );
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = (
+      <div className="p-4 space-y-2">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <div key={i} className="animate-pulse h-4 bg-muted rounded"></div>
+        ))}
+      </div>
+    );
+  } else if (error) {
+    body = <div className="p-4 text-sm text-destructive">Failed to load pivot table: {error.message}</div>;
+  } else if (!pivot?.rows.length) {
+    body = <div className="p-4 text-sm text-muted-foreground">No data available for the selected range.</div>;
+  } else {
+    const th = "px-3 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider";
+    body = (
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-border">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className={`${th} text-left`}>{labelFor(rowDimension)}</th>
+              {pivot.columns.map((column) => (
+                <th key={column.join("|")} className={th}>{column.join(" / ") || "(not set)"}</th>
+              ))}
+              <th className={th}>Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {pivot.rows.map((row) => (
+              <tr key={row.key.join("|")}>
+                <td className="px-3 py-2 text-sm text-foreground">{row.key.join(" / ") || "(not set)"}</td>
+                {row.cells.map((cell, i) => (
+                  <td key={i} className="px-3 py-2 text-sm text-right text-foreground">{fmtCell(cell[0])}</td>
+                ))}
+                <td className="px-3 py-2 text-sm text-right font-medium text-foreground">{fmtCell(row.totals[0])}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-muted/50">
+            <tr>
+              <td className="px-3 py-2 text-sm font-medium text-foreground">Total</td>
+              {pivot.columnTotals.map((total, i) => (
+                <td key={i} className="px-3 py-2 text-sm text-right font-medium text-foreground">{fmtCell(total[0])}</td>
+              ))}
+              <td className="px-3 py-2 text-sm text-right font-semibold text-foreground">{fmtCell(pivot.grandTotals[0])}</td>
+            </tr>
+          </tfoot>
+        </table>
+        {pivot.rowCount > pivot.rows.length && (
+          <div className="px-3 py-2 text-xs text-muted-foreground">
+            Showing the top {pivot.rows.length} of {pivot.rowCount.toLocaleString()} rows.
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-lg border border-border bg-card ${className}`}>
+      {controls}
+      {body}
+    </div>
+  );
+}
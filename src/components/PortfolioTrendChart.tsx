@@ -0,0 +1,186 @@
+"use client";
+
+/**
+ * PortfolioTrendChart
+ * Daily sessions, new users and page views summed across the visible properties. Properties report days in
+ * their own time zones; choosing a reporting time zone aligns them with hourly data, otherwise days are merged
+ * by calendar date and a warning lists the differing time zones.
+ * Props: properties, startDate, endDate, organicOnly, refreshKey, className
+ */
+import React, { useMemo, useState } from "react";
+import useSWR from "swr";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { AnalyticsProperty, PortfolioTrendData } from "~/types/analytics";
+import { getMetricLabel } from "./_excelHelpers";
+
+interface PortfolioResponse {
+  portfolio: PortfolioTrendData;
+}
+
+// Same limit as the portfolio API
+const MAX_PROPERTIES = 25;
+
+const fetcher = async (url: string): Promise<PortfolioResponse> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+  return res.json() as Promise<PortfolioResponse>;
+};
+
+function getBrowserTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+export function PortfolioTrendChart({
+  properties,
+  startDate,
+  endDate,
+  organicOnly = false,
+  refreshKey = 0,
+  className = "",
+}: {
+  properties: AnalyticsProperty[];
+  startDate: string;
+  endDate: string;
+  organicOnly?: boolean;
+  refreshKey?: number;
+  className?: string;
+}) {
+  // One report per property spends GA quota, so the trend is opt-in
+  const [enabled, setEnabled] = useState(false);
+  // Empty keeps each property's own calendar
+  const [timeZone, setTimeZone] = useState("");
+
+  const propertyIds = properties.slice(0, MAX_PROPERTIES).map((p) => p.propertyId);
+  const qs = [
+    `propertyIds=${encodeURIComponent(propertyIds.join(","))}`,
+    `startDate=${encodeURIComponent(startDate)}`,
+    `endDate=${encodeURIComponent(endDate)}`,
+    timeZone ? `timeZone=${encodeURIComponent(timeZone)}` : "",
+    organicOnly ? "organicOnly=1" : "",
+  ].filter(Boolean).join("&");
+  const { data, error, isLoading } = useSWR<PortfolioResponse, Error>(
+    enabled && propertyIds.length > 0 ? `portfolio-${qs}-${refreshKey}` : null,
+    () => fetcher(`/api/analytics/portfolio?${qs}`),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      errorRetryCount: 0,
+    }
+  );
+  const report = data?.portfolio;
+
+  // UTC, the browser's zone and every zone the properties report in
+  const timeZoneOptions = useMemo(() => {
+    const zones = new Set<string>(["UTC"]);
+    const browserTimeZone = getBrowserTimeZone();
+    if (browserTimeZone) zones.add(browserTimeZone);
+    report?.properties.forEach((p) => zones.add(p.timeZone));
+    if (timeZone) zones.add(timeZone);
+    return Array.from(zones).sort();
+  }, [report, timeZone]);
+
+  const chartData = useMemo(
+    () => (report?.points ?? []).map((point) => ({ date: point.date, ...point.values })),
+    [report],
+  );
+
+  let body: React.ReactNode;
+  if (!enabled) {
+    body = null;
+  } else if (isLoading) {
+    body = <div className="mt-4 animate-pulse h-48 bg-muted rounded"></div>;
+  } else if (error) {
+    body = <div className="mt-4 text-sm text-destructive">Failed to load the portfolio trend: {error.message}</div>;
+  } else if (!report || report.points.length === 0) {
+    body = <div className="mt-4 text-sm text-muted-foreground">No data for these properties in the selected range.</div>;
+  } else {
+    const alignedCount = report.properties.filter((p) => p.aligned).length;
+    body = (
+      <div className="mt-4 space-y-3">
+        {report.warning && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 px-3 py-2 text-xs text-yellow-800 dark:border-yellow-800 dark:bg-yellow-950/50 dark:text-yellow-300">
+            {report.warning}
+          </div>
+        )}
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={chartData} className="text-foreground">
+            <CartesianGrid strokeDasharray="3 3" stroke="rgb(var(--border))" />
+            <XAxis dataKey="date" tick={{ fontSize: 10, fill: "rgb(var(--muted-foreground))" }} />
+            <YAxis tick={{ fontSize: 10, fill: "rgb(var(--muted-foreground))" }} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "rgb(var(--card))",
+                border: "1px solid rgb(var(--border))",
+                borderRadius: "8px",
+                color: "rgb(var(--card-foreground))"
+              }}
+              formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+            />
+            <Legend wrapperStyle={{ fontSize: '10px', color: "rgb(var(--foreground))" }} />
+            {report.metrics.map((metric, index) => (
+              <Line
+                key={metric}
+                type="monotone"
+                dataKey={metric}
+                stroke={`rgb(var(--chart-${(index % 6) + 1}))`}
+                strokeWidth={2}
+                name={getMetricLabel(metric)}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+        <div className="text-xs text-muted-foreground">
+          {report.reportingTimeZone
+            ? `Days in ${report.reportingTimeZone}; ${alignedCount} of ${report.properties.length} properties aligned from hourly data.`
+            : "Days are each property's own calendar days."}
+          {properties.length > MAX_PROPERTIES && ` Showing the first ${MAX_PROPERTIES} of ${properties.length} properties.`}
+          {report.failedPropertyIds.length > 0 && ` ${report.failedPropertyIds.length} properties failed to load and are left out.`}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`card-elevated rounded-lg p-4 ${className}`}>
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <h3 className="text-lg font-medium text-foreground">Portfolio trend</h3>
+        <div className="flex items-center gap-2">
+          {enabled && (
+            <select
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              className="rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground focus:border-ring focus:ring-ring"
+              aria-label="Reporting time zone"
+            >
+              <option value="">Each property&apos;s time zone</option>
+              {timeZoneOptions.map((zone) => (
+                <option key={zone} value={zone}>Align to {zone}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => setEnabled((prev) => !prev)}
+            className="inline-flex items-center rounded-md border border-border px-2.5 py-1.5 text-xs font-medium text-foreground hover:bg-accent transition-colors"
+          >
+            {enabled ? "Hide" : "Show"} trend
+          </button>
+        </div>
+      </div>
+      {body}
+    </div>
+  );
+}
@@ -5,8 +5,27 @@ import { useEffect, useState } from "react";
 import useSWR from "swr";
 import { AnalyticsCharts } from "./AnalyticsCharts";
 import { ExcelTable } from "./ExcelTable";
-import { defaultMetrics, getMetricColors, getMetricLabel, formatValue } from "./_excelHelpers";
-import type { AnalyticsProperty, AnalyticsData } from "~/types/analytics";
+import { PivotTable } from "./PivotTable";
+import { FunnelChart } from "./FunnelChart";
+import { RetentionHeatmap } from "./RetentionHeatmap";
+import { EcommercePanel } from "./EcommercePanel";
+import { ForecastPanel, useForecast } from "./ForecastPanel";
+import { RealtimePanel } from "./RealtimePanel";
+import { PortfolioTrendChart } from "./PortfolioTrendChart";
+import { CalculatedMetricsPanel, useCalculatedMetrics } from "./CalculatedMetricsPanel";
+import { defaultMetrics, getMetricCsvHeader } from "./_excelHelpers";
+import type { AnalyticsProperty, MonetaryValue, PropertyDataResponse } from "~/types/analytics";
+import type { CompareMode } from "~/lib/analytics/DateRangeResolver";
+import { DEFAULT_FORECAST_HORIZON } from "~/lib/analytics/Forecasting";
+import { usePropertyMetadata } from "~/lib/hooks/usePropertyMetadata";
+import { aggregateMetric, aggregateMetricValues, toMetricSample, type MetricSample } from "~/lib/analytics/MetricRegistry";
+import {
+  addCalculatedValues,
+  aggregateCalculatedMetric,
+  getRequiredMetrics,
+  toOrganicSample,
+  type CalculatedMetric,
+} from "~/lib/analytics/CalculatedMetrics";
 
 // Local storage keys for persisting UI choices
 const LS_KEYS = {
@@ -17,57 +36,24 @@ const LS_KEYS = {
   favorites: "ga4:ui:favorites",
   favoritesOnly: "ga4:ui:favorites-only",
   organicOnly: "ga4:ui:organic-only",
+  compareMode: "ga4:ui:compare-mode",
 } as const;
 
+// Comparison overlay for the chart view; custom ranges are only available through the API
+type ChartCompareMode = Exclude<CompareMode, "custom"> | "none";
+
+const CHART_COMPARE_OPTIONS: { value: ChartCompareMode; label: string }[] = [
+  { value: "none", label: "No comparison" },
+  { value: "previous_period", label: "Previous period" },
+  { value: "previous_year", label: "Previous year" },
+];
+
 // Note: default metrics are imported from _excelHelpers to keep a single source of truth for table/chart.
 
 const PROPERTY_DATA_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
-// Helper to color metrics beautifully
-const getMetricColors = (metricKey: string) => {
-  switch (metricKey) {
-    case 'sessions':
-      return { number: 'text-green-700', label: 'text-green-500', bg: 'bg-green-50', border: 'border-green-200' };
-    case 'activeUsers':
-      return { number: 'text-blue-700', label: 'text-blue-500', bg: 'bg-blue-50', border: 'border-blue-200' };
-    case 'newUsers':
-      return { number: 'text-indigo-700', label: 'text-indigo-500', bg: 'bg-indigo-50', border: 'border-indigo-200' };
-    case 'screenPageViews':
-      return { number: 'text-teal-700', label: 'text-teal-500', bg: 'bg-teal-50', border: 'border-teal-200' };
-    case 'bounceRate':
-      return { number: 'text-orange-700', label: 'text-orange-500', bg: 'bg-orange-50', border: 'border-orange-200' };
-    case 'averageSessionDuration':
-      return { number: 'text-purple-700', label: 'text-purple-500', bg: 'bg-purple-50', border: 'border-purple-200' };
-    default:
-      return { number: 'text-gray-900', label: 'text-gray-500', bg: 'bg-gray-50', border: 'border-gray-200' };
-  }
-};
-
-const getMetricLabel = (key: string) => {
-  const labels: Record<string, string> = {
-    activeUsers: 'Active Users',
-    newUsers: 'New Users',
-    sessions: 'Sessions',
-    screenPageViews: 'Pageviews',
-    bounceRate: 'Bounce Rate',
-    averageSessionDuration: 'Avg. Session Duration'
-  };
-  return labels[key] ?? key;
-};
-
-
-// API response type for property data endpoint
-interface PropertyDataResponse {
-  propertyId: string;
-  data: AnalyticsData;
-  dateRange: { startDate: string; endDate: string };
-  timestamp: string;
-  channelBreakdown?: unknown;
-  compare?: string;
-  groupBy?: string;
-  metrics: string[];
-  organicOnly: boolean;
-}
+// Properties whose custom metrics and key events the calculated metrics panel offers
+const MAX_METADATA_PROPERTIES = 5;
 
 // Single property data hook with 24-hour cache (matches API policy)
 function usePropertyData(
@@ -76,11 +62,17 @@ function usePropertyData(
   endDate: string,
   refreshKey: number,
   organicOnly: boolean,
+  compareMode: ChartCompareMode = "none",
+  calculatedMetrics: CalculatedMetric[] = [],
 ) {
-  const metricsQuery = defaultMetrics.join(',');
+  // Base metrics of calculated metrics come after the defaults, which the charts read by position
+  const required = getRequiredMetrics(calculatedMetrics, defaultMetrics);
+  const metricsQuery = required.metrics.join(',');
+  const compareQuery = compareMode !== "none" ? `&compare=${compareMode}` : '';
+  const organicQuery = required.organicMetrics.length > 0 ? `&organicMetrics=${required.organicMetrics.join(',')}` : '';
   const { data, error, isLoading } = useSWR<PropertyDataResponse>(
-    `${property.propertyId}-${startDate}-${endDate}-${refreshKey}-org:${organicOnly ? '1' : '0'}`,
-    () => fetch(`/api/analytics/properties/${property.propertyId}/data?startDate=${startDate}&endDate=${endDate}&metrics=${metricsQuery}${organicOnly ? '&organicOnly=1' : ''}`).then(r => r.json()),
+    `${property.propertyId}-${startDate}-${endDate}-${refreshKey}-org:${organicOnly ? '1' : '0'}-cmp:${compareMode}-m:${metricsQuery}-om:${required.organicMetrics.join(',')}`,
+    () => fetch(`/api/analytics/properties/${property.propertyId}/data?startDate=${startDate}&endDate=${endDate}&metrics=${metricsQuery}${organicOnly ? '&organicOnly=1' : ''}${compareQuery}${organicQuery}`).then(r => r.json()),
     {
       revalidateOnFocus: false,
       revalidateOnReconnect: false,
@@ -107,6 +99,8 @@ function PropertyAnalytics({
   isFavorite,
   onToggleFavorite,
   organicOnly,
+  compareMode,
+  calculatedMetrics,
 }: {
   property: AnalyticsProperty;
   startDate: string;
@@ -116,6 +110,8 @@ function PropertyAnalytics({
   isFavorite: boolean;
   onToggleFavorite: () => void;
   organicOnly: boolean;
+  compareMode: ChartCompareMode;
+  calculatedMetrics: CalculatedMetric[];
 }) {
   const { data, error, isLoading } = usePropertyData(
     property,
@@ -123,8 +119,19 @@ function PropertyAnalytics({
     endDate,
     refreshKey,
     organicOnly,
+    compareMode,
+    calculatedMetrics,
   );
   const dataObj = data;
+  // The pivot table, funnel, retention heatmap, ecommerce panel and forecast are fetched only once they are opened
+  const [showPivot, setShowPivot] = useState(false);
+  const [showFunnel, setShowFunnel] = useState(false);
+  const [showRetention, setShowRetention] = useState(false);
+  const [showEcommerce, setShowEcommerce] = useState(false);
+  const [showForecast, setShowForecast] = useState(false);
+  const [forecastDays, setForecastDays] = useState(DEFAULT_FORECAST_HORIZON);
+  // Shared by the forecast panel and the dashed extension of the time series
+  const forecast = useForecast(property.propertyId, forecastDays, organicOnly, showForecast);
 
   if (isLoading) {
     return (
@@ -196,6 +203,9 @@ function PropertyAnalytics({
       <div className="flex items-center justify-between p-4">
         <h3 className="text-lg font-medium text-foreground">
           {property.displayName} <span className="text-xs text-muted-foreground">({property.propertyId})</span>
+          {property.accountDisplayName && (
+            <span className="block text-xs font-normal text-muted-foreground">{property.accountDisplayName}</span>
+          )}
         </h3>
         <button
           type="button"
@@ -214,7 +224,93 @@ function PropertyAnalytics({
           data={dataObj.data}
           propertyName={`${property.displayName} (${property.propertyId})`}
           onRefresh={() => {}}
+          calculatedMetrics={calculatedMetrics}
+          organicTotals={dataObj.organicTotals}
+          currencyCode={dataObj.currencyCode ?? undefined}
+          forecast={showForecast ? forecast.forecast : undefined}
         />
+        <div className="mt-4 flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setShowPivot(!showPivot)}
+            className="inline-flex items-center rounded-md border border-border bg-card px-2.5 py-1.5 text-xs leading-4 font-medium text-foreground shadow-sm hover:bg-accent focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:outline-none"
+          >
+            {showPivot ? "Hide" : "Show"} Pivot Table
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowFunnel(!showFunnel)}
+            className="inline-flex items-center rounded-md border border-border bg-card px-2.5 py-1.5 text-xs leading-4 font-medium text-foreground shadow-sm hover:bg-accent focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:outline-none"
+          >
+            {showFunnel ? "Hide" : "Show"} Funnel
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowRetention(!showRetention)}
+            className="inline-flex items-center rounded-md border border-border bg-card px-2.5 py-1.5 text-xs leading-4 font-medium text-foreground shadow-sm hover:bg-accent focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:outline-none"
+          >
+            {showRetention ? "Hide" : "Show"} Retention
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowEcommerce(!showEcommerce)}
+            className="inline-flex items-center rounded-md border border-border bg-card px-2.5 py-1.5 text-xs leading-4 font-medium text-foreground shadow-sm hover:bg-accent focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:outline-none"
+          >
+            {showEcommerce ? "Hide" : "Show"} Ecommerce
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowForecast(!showForecast)}
+            className="inline-flex items-center rounded-md border border-border bg-card px-2.5 py-1.5 text-xs leading-4 font-medium text-foreground shadow-sm hover:bg-accent focus:ring-2 focus:ring-ring focus:ring-offset-2 focus:outline-none"
+          >
+            {showForecast ? "Hide" : "Show"} Forecast
+          </button>
+        </div>
+        {showForecast && (
+          <ForecastPanel
+            propertyId={property.propertyId}
+            forecast={forecast.forecast}
+            error={forecast.error}
+            isLoading={forecast.isLoading}
+            days={forecastDays}
+            onDaysChange={setForecastDays}
+            className="mt-3"
+          />
+        )}
+        {showEcommerce && (
+          <EcommercePanel
+            propertyId={property.propertyId}
+            startDate={startDate}
+            endDate={endDate}
+            organicOnly={organicOnly}
+            className="mt-3"
+          />
+        )}
+        {showRetention && (
+          <RetentionHeatmap
+            propertyId={property.propertyId}
+            organicOnly={organicOnly}
+            className="mt-3"
+          />
+        )}
+        {showFunnel && (
+          <FunnelChart
+            propertyId={property.propertyId}
+            startDate={startDate}
+            endDate={endDate}
+            organicOnly={organicOnly}
+            className="mt-3"
+          />
+        )}
+        {showPivot && (
+          <PivotTable
+            propertyId={property.propertyId}
+            startDate={startDate}
+            endDate={endDate}
+            organicOnly={organicOnly}
+            className="mt-3"
+          />
+        )}
       </div>
     </div>
   );
@@ -243,13 +339,17 @@ export function PropertyAnalyticsDashboard({
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
   const [organicOnly, setOrganicOnly] = useState<boolean>(false);
+  const [compareMode, setCompareMode] = useState<ChartCompareMode>("none");
   const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [showCalculatedMetrics, setShowCalculatedMetrics] = useState<boolean>(false);
+  const calculated = useCalculatedMetrics();
 
   // Filter properties based on search
   const filteredProperties = properties.filter(
     (property) =>
       property.displayName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      property.propertyId.toLowerCase().includes(searchTerm.toLowerCase())
+      property.propertyId.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (property.accountDisplayName ?? "").toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   // Optional favorites-only filter
@@ -337,10 +437,16 @@ export function PropertyAnalyticsDashboard({
   }, [properties, dateRange.startDate, dateRange.endDate, organicOnly]);
 
   // Manual refresh function to invalidate the 24-hour cache window
-  const forceRefresh = () => {
+  const forceRefresh = async () => {
     const cacheKey = `activity-${dateRange.startDate}-${dateRange.endDate}-${organicOnly ? '1' : '0'}`;
     localStorage.removeItem(cacheKey);
     localStorage.removeItem(`${cacheKey}-expiry`);
+    // Also drop this user's server-side cache so the refetch hits GA
+    try {
+      await fetch('/api/analytics/cache', { method: 'DELETE' });
+    } catch {
+      // Server cache will expire on its own
+    }
     setRefreshKey(prev => prev + 1);
   };
 
@@ -353,20 +459,22 @@ export function PropertyAnalyticsDashboard({
       const headers = [
         'Property ID',
         'Display Name',
-        'Active Users',
-        'New Users', 
-        'Sessions',
-        'Pageviews',
-        'Bounce Rate (%)',
-        'Avg Session Duration (s)',
+        ...[...defaultMetrics, 'purchaseRevenue', 'transactions', 'conversionRate', 'averageOrderValue'].map(getMetricCsvHeader),
+        ...calculated.selected.map((metric) => metric.definition.label),
+        'Currency',
         'Activity Status',
         'Export Status'
       ];
 
       const rows: string[] = [headers.join(',')];
+      // Metric values of each exported property, combined into the Total row
+      const exported: Array<{ sample: MetricSample; currencyCode: string; reportingRevenue?: MonetaryValue | null }> = [];
       let successCount = 0;
       let failCount = 0;
       
+      const formatCalculated = (value: number | undefined) =>
+        value === undefined ? '' : String(Math.round(value * 100) / 100);
+
       const escapeCSV = (val: unknown) => {
         const str = String(val ?? '');
         return str.includes(',') || str.includes('"') || str.includes('\n') 
@@ -382,12 +490,14 @@ export function PropertyAnalyticsDashboard({
         await Promise.allSettled(
           batch.map(async (property) => {
             try {
-              const metricsQuery = defaultMetrics.join(',');
+              const required = getRequiredMetrics(calculated.selected, [...defaultMetrics, 'purchaseRevenue', 'transactions']);
+              const metricsQuery = required.metrics.join(',');
+              const organicQuery = required.organicMetrics.length > 0 ? `&organicMetrics=${required.organicMetrics.join(',')}` : '';
               const controller = new AbortController();
               const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
               
               const res = await fetch(
-                `/api/analytics/properties/${property.propertyId}/data?startDate=${dateRange.startDate}&endDate=${dateRange.endDate}&metrics=${metricsQuery}${organicOnly ? '&organicOnly=1' : ''}`,
+                `/api/analytics/properties/${property.propertyId}/data?startDate=${dateRange.startDate}&endDate=${dateRange.endDate}&metrics=${metricsQuery}${organicOnly ? '&organicOnly=1' : ''}${organicQuery}`,
                 { signal: controller.signal }
               );
               
@@ -403,42 +513,49 @@ export function PropertyAnalyticsDashboard({
               const totals: Array<{ value?: string }> = json?.data?.totals?.[0]?.metricValues || [];
               const rowsData: Array<{ metricValues?: Array<{ value?: string }> }> = json?.data?.rows || [];
 
-              const getMetricValue = (metricName: string): string => {
+              const getMetricValue = (metricName: string): number => {
                 const idx = metricHeaders.indexOf(metricName);
                 // If we have totals and a valid index, use it when non-empty
                 if (idx >= 0) {
                   const v = Number(totals[idx]?.value);
                   if (Number.isFinite(v) && (v !== 0 || rowsData.length === 0)) {
-                    return String(v);
+                    return v;
                   }
                 }
-                // Fallback: aggregate from rows
-                let agg = 0;
-                for (const r of rowsData) {
-                  const v = Number(r?.metricValues?.[idx]?.value);
-                  if (Number.isFinite(v)) {
-                    if (metricName === 'bounceRate') {
-                      // Use max as a simple, non-weighted fallback for rate metrics
-                      agg = Math.max(agg, v);
-                    } else {
-                      agg += v;
-                    }
-                  }
-                }
-                return String(agg || 0);
+                // Fallback: aggregate from rows as the metric registry declares (rates weighted by sessions)
+                const headers = metricHeaders.map((name) => ({ name }));
+                return aggregateMetric(metricName, rowsData.map((r) => toMetricSample(headers, r?.metricValues))) ?? 0;
+              };
+
+              const sample: MetricSample = {
+                ...Object.fromEntries(required.metrics.map((name) => [name, getMetricValue(name)])),
+                ...toOrganicSample((json as PropertyDataResponse | undefined)?.organicTotals),
               };
+              const calculatedValues = addCalculatedValues(sample, calculated.selected);
+              const currencyCode = (json as PropertyDataResponse | undefined)?.currencyCode ?? '';
+              exported.push({ sample, currencyCode, reportingRevenue: (json as PropertyDataResponse | undefined)?.reportingRevenue });
+
+              // Conversion rate is transactions per 100 sessions; order value is revenue per transaction
+              const revenue = sample.purchaseRevenue ?? 0;
+              const transactions = sample.transactions ?? 0;
 
               const row = [
                 escapeCSV(property.propertyId),
                 escapeCSV(property.displayName),
-                escapeCSV(getMetricValue('activeUsers')),
-                escapeCSV(getMetricValue('newUsers')),
-                escapeCSV(getMetricValue('sessions')),
-                escapeCSV(getMetricValue('screenPageViews')),
-                escapeCSV(getMetricValue('bounceRate')),
-                escapeCSV(getMetricValue('averageSessionDuration')),
+                escapeCSV(sample.activeUsers),
+                escapeCSV(sample.newUsers),
+                escapeCSV(sample.sessions),
+                escapeCSV(sample.screenPageViews),
+                escapeCSV(sample.bounceRate),
+                escapeCSV(sample.averageSessionDuration),
+                escapeCSV(revenue.toFixed(2)),
+                escapeCSV(transactions),
+                escapeCSV((aggregateMetric('conversionRate', [sample]) ?? 0).toFixed(2)),
+                escapeCSV((aggregateMetric('averageOrderValue', [sample]) ?? 0).toFixed(2)),
+                ...calculated.selected.map((metric) => escapeCSV(formatCalculated(calculatedValues[metric.name]))),
+                escapeCSV(currencyCode),
                 escapeCSV((activityScores[property.propertyId] ?? 0) > 0 ? 'Active' : 'Inactive'),
-                escapeCSV('Success')
+                escapeCSV((json as PropertyDataResponse | undefined)?.data?.truncated ? 'Success (rows truncated)' : 'Success')
               ];
               
               rows.push(row.join(','));
@@ -455,6 +572,12 @@ export function PropertyAnalyticsDashboard({
                 escapeCSV('Error'),
                 escapeCSV('Error'),
                 escapeCSV('Error'),
+                escapeCSV('Error'),
+                escapeCSV('Error'),
+                escapeCSV('Error'),
+                escapeCSV('Error'),
+                ...calculated.selected.map(() => escapeCSV('Error')),
+                escapeCSV(''),
                 escapeCSV('Unknown'),
                 escapeCSV(`Failed: ${errorMsg}`)
               ];
@@ -475,6 +598,42 @@ export function PropertyAnalyticsDashboard({
         return;
       }
 
+      // Counts are summed and rates weighted by sessions; revenue is summed as converted by the server
+      // into the reporting currency, leaving out properties whose currency has no exchange rate
+      if (exported.length > 1) {
+        const samples = exported.map((e) => e.sample);
+        const total = aggregateMetricValues([...defaultMetrics, 'transactions', 'conversionRate'], samples);
+        const converted = exported.filter((e) => e.reportingRevenue);
+        const unconvertedCount = exported.filter((e) => !e.reportingRevenue && (e.sample.purchaseRevenue ?? 0) > 0).length;
+        const reportingCurrency = converted[0]?.reportingRevenue?.currencyCode ?? '';
+        const totalRevenue = converted.reduce((sum, e) => sum + (e.reportingRevenue?.amount ?? 0), 0);
+        const convertedTransactions = converted.reduce((sum, e) => sum + (e.sample.transactions ?? 0), 0);
+        // Monetary calculated metrics are combined unconverted, so only when all properties report in the reporting currency
+        const inReportingCurrency = exported.every((e) => !e.currencyCode || e.currencyCode === reportingCurrency);
+        const format = (value: number | undefined, digits?: number) =>
+          value === undefined ? '' : digits === undefined ? String(Math.round(value * 100) / 100) : value.toFixed(digits);
+        rows.push([
+          escapeCSV('Total'),
+          escapeCSV(`${exported.length} properties`),
+          ...defaultMetrics.map((name) => escapeCSV(format(total[name]))),
+          escapeCSV(format(totalRevenue, 2)),
+          escapeCSV(format(total.transactions)),
+          escapeCSV(format(total.conversionRate, 2)),
+          escapeCSV(convertedTransactions > 0 ? format(totalRevenue / convertedTransactions, 2) : ''),
+          // Calculated metrics combine by their own rule
+          ...calculated.selected.map((metric) => escapeCSV(
+            inReportingCurrency || metric.definition.format !== 'currency'
+              ? formatCalculated(aggregateCalculatedMetric(metric, samples))
+              : '',
+          )),
+          escapeCSV(unconvertedCount > 0
+            ? `${reportingCurrency} (excludes ${unconvertedCount} properties without an exchange rate)`
+            : reportingCurrency),
+          escapeCSV(''),
+          escapeCSV(''),
+        ].join(','));
+      }
+
       const csvContent = rows.join('\n');
       const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
       const link = document.createElement('a');
@@ -519,6 +678,11 @@ export function PropertyAnalyticsDashboard({
     return a.displayName.localeCompare(b.displayName);
   });
 
+  // Custom metrics and key events of the first few properties, loaded once the calculated metrics panel is open
+  const { metadata, isLoading: metadataLoading } = usePropertyMetadata(
+    showCalculatedMetrics ? sortedProperties.slice(0, MAX_METADATA_PROPERTIES).map((p) => p.propertyId) : [],
+  );
+
   // Load persisted UI preferences on mount
   useEffect(() => {
     try {
@@ -531,6 +695,7 @@ export function PropertyAnalyticsDashboard({
       const rawFavs = ls.getItem(LS_KEYS.favorites);
       const rawFavOnly = ls.getItem(LS_KEYS.favoritesOnly);
       const rawOrganic = ls.getItem(LS_KEYS.organicOnly);
+      const rawCompare = ls.getItem(LS_KEYS.compareMode);
       
 
       if (rawLimit) setLimit(Number(rawLimit));
@@ -539,6 +704,8 @@ export function PropertyAnalyticsDashboard({
       if (rawSort) setSortByActivity(rawSort === "1");
       if (rawFavOnly) setFavoritesOnly(rawFavOnly === "1");
       if (rawOrganic) setOrganicOnly(rawOrganic === "1");
+      const savedCompare = CHART_COMPARE_OPTIONS.find((o) => o.value === rawCompare);
+      if (savedCompare) setCompareMode(savedCompare.value);
       if (rawFavs) {
         const arr = JSON.parse(rawFavs) as string[];
         setFavorites(new Set(arr));
@@ -561,10 +728,11 @@ export function PropertyAnalyticsDashboard({
       ls.setItem(LS_KEYS.favoritesOnly, favoritesOnly ? "1" : "0");
       ls.setItem(LS_KEYS.favorites, JSON.stringify(Array.from(favorites)));
       ls.setItem(LS_KEYS.organicOnly, organicOnly ? "1" : "0");
+      ls.setItem(LS_KEYS.compareMode, compareMode);
     } catch {
       // ignore
     }
-  }, [limit, compactMode, hideFailedDashboards, sortByActivity, favoritesOnly, favorites, organicOnly]);
+  }, [limit, compactMode, hideFailedDashboards, sortByActivity, favoritesOnly, favorites, organicOnly, compareMode]);
 
   // Favorite handlers
   const toggleFavorite = (propertyId: string) => {
@@ -626,7 +794,7 @@ export function PropertyAnalyticsDashboard({
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="block w-full rounded-md border-input bg-background pl-10 pr-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:border-ring focus:ring-ring"
-              placeholder="Search brands or properties..."
+              placeholder="Search brands, accounts or properties..."
             />
             {searchTerm && (
               <button
@@ -742,6 +910,24 @@ export function PropertyAnalyticsDashboard({
                     </label>
                   </div>
 
+                  {!compactMode && (
+                    <div className="flex items-center gap-2">
+                      <label htmlFor="chart-compare" className="text-sm text-foreground">
+                        Compare charts with
+                      </label>
+                      <select
+                        id="chart-compare"
+                        value={compareMode}
+                        onChange={(e) => setCompareMode(e.target.value as ChartCompareMode)}
+                        className="rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground focus:border-ring focus:ring-ring"
+                      >
+                        {CHART_COMPARE_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-4 text-xs text-muted-foreground">
                       <div>
@@ -773,6 +959,14 @@ export function PropertyAnalyticsDashboard({
                         Refresh
                       </button>
                       
+                      <button
+                        onClick={() => setShowCalculatedMetrics((prev) => !prev)}
+                        className="inline-flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-muted-foreground bg-card border border-border rounded-md hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                        title="Define metrics calculated from other metrics"
+                      >
+                        Calculated metrics{calculated.selected.length > 0 ? ` (${calculated.selected.length})` : ''}
+                      </button>
+
                       <button
                         onClick={exportAllData}
                         disabled={sortedProperties.length === 0 || isExporting}
@@ -799,6 +993,36 @@ export function PropertyAnalyticsDashboard({
           </div>
         </div>
 
+        {showCalculatedMetrics && (
+          <div className="mb-8 px-4 sm:px-0">
+            <CalculatedMetricsPanel
+              definitions={calculated.definitions}
+              selectedIds={calculated.selectedIds}
+              onAdd={calculated.add}
+              onRemove={calculated.remove}
+              onToggle={calculated.toggle}
+              metadata={metadata}
+              metadataLoading={metadataLoading}
+            />
+          </div>
+        )}
+
+        {/* Live */}
+        <div className="mb-8 px-4 sm:px-0">
+          <RealtimePanel properties={sortedProperties} />
+        </div>
+
+        {/* Portfolio */}
+        <div className="mb-8 px-4 sm:px-0">
+          <PortfolioTrendChart
+            properties={sortedProperties}
+            startDate={dateRange.startDate}
+            endDate={dateRange.endDate}
+            organicOnly={organicOnly}
+            refreshKey={refreshKey}
+          />
+        </div>
+
         {/* Main Content */}
         <div className="px-4 sm:px-0">
           {compactMode ? (
@@ -812,6 +1036,7 @@ export function PropertyAnalyticsDashboard({
               favorites={favorites}
               onToggleFavorite={toggleFavorite}
               organicOnly={organicOnly}
+              calculatedMetrics={calculated.selected}
             />
           ) : (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -826,6 +1051,8 @@ export function PropertyAnalyticsDashboard({
                   isFavorite={favorites.has(property.propertyId)}
                   onToggleFavorite={() => toggleFavorite(property.propertyId)}
                   organicOnly={organicOnly}
+                  compareMode={compareMode}
+                  calculatedMetrics={calculated.selected}
                 />
               ))}
             </div>
@@ -0,0 +1,134 @@
+"use client";
+
+/**
+ * RealtimePanel
+ * Live view of active users in the last 30 minutes for one property, by country, device and page.
+ * Props: properties (selectable), intervalSeconds, className
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import { useRealtimeAnalytics } from "~/lib/hooks/useRealtimeAnalytics";
+import type { AnalyticsProperty, RealtimeBreakdownItem } from "~/types/analytics";
+
+function BreakdownList({ title, items }: { title: string; items: RealtimeBreakdownItem[] }) {
+  const max = Math.max(1, ...items.map(i => i.activeUsers));
+  return (
+    <div>
+      <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">{title}</h4>
+      {items.length === 0 ? (
+        <div className="text-xs text-muted-foreground">No active users</div>
+      ) : (
+        <ul className="space-y-1.5">
+          {items.map((item) => (
+            <li key={item.name} className="text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-foreground" title={item.name}>{item.name}</span>
+                <span className="tabular-nums text-muted-foreground">{item.activeUsers.toLocaleString()}</span>
+              </div>
+              <div className="mt-0.5 h-1 rounded bg-muted">
+                <div className="h-1 rounded bg-primary" style={{ width: `${(item.activeUsers / max) * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function RealtimePanel({
+  properties,
+  intervalSeconds = 30,
+  className = "",
+}: {
+  properties: AnalyticsProperty[];
+  intervalSeconds?: number;
+  className?: string;
+}) {
+  // Live polling spends GA realtime quota, so it is opt-in
+  const [enabled, setEnabled] = useState(false);
+  const [propertyId, setPropertyId] = useState<string | undefined>(properties[0]?.propertyId);
+
+  // Keep the selection valid when the visible property list changes
+  useEffect(() => {
+    if (!properties.some(p => p.propertyId === propertyId)) {
+      setPropertyId(properties[0]?.propertyId);
+    }
+  }, [properties, propertyId]);
+
+  // Group the picker by GA account
+  const accountGroups = useMemo(() => {
+    const groups = new Map<string, AnalyticsProperty[]>();
+    for (const p of properties) {
+      const account = p.accountDisplayName ?? "Other";
+      groups.set(account, [...(groups.get(account) ?? []), p]);
+    }
+    return Array.from(groups.entries());
+  }, [properties]);
+
+  const { connected, snapshot, error } = useRealtimeAnalytics(propertyId, { enabled, intervalSeconds });
+
+  return (
+    <div className={`card-elevated rounded-lg p-4 ${className}`}>
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <span
+            className={`inline-block h-2.5 w-2.5 rounded-full ${enabled && connected ? "animate-pulse bg-green-500" : "bg-muted-foreground/40"}`}
+            aria-hidden="true"
+          />
+          <h3 className="text-lg font-medium text-foreground">Live (last 30 minutes)</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={propertyId ?? ""}
+            onChange={(e) => setPropertyId(e.target.value)}
+            className="max-w-xs rounded-md border-input bg-background text-sm text-foreground focus:border-ring focus:ring-ring"
+            aria-label="Property for live view"
+          >
+            {accountGroups.map(([account, group]) => (
+              <optgroup key={account} label={account}>
+                {group.map((p) => (
+                  <option key={p.propertyId} value={p.propertyId}>{p.displayName}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setEnabled(prev => !prev)}
+            className={`rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+              enabled
+                ? "bg-primary text-primary-foreground hover:bg-primary/90"
+                : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+            }`}
+          >
+            {enabled ? "Stop" : "Go live"}
+          </button>
+        </div>
+      </div>
+
+      {enabled && (
+        <div className="mt-4">
+          {error && <div className="mb-3 text-sm text-destructive">{error}</div>}
+          {!snapshot ? (
+            <div className="animate-pulse text-sm text-muted-foreground">Waiting for realtime data...</div>
+          ) : (
+            <>
+              <div className="mb-4 flex items-baseline gap-2">
+                <span className="text-3xl font-bold text-foreground tabular-nums">{snapshot.activeUsers.toLocaleString()}</span>
+                <span className="text-sm text-muted-foreground">active users</span>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  Updated {new Date(snapshot.timestamp).toLocaleTimeString()} · every {intervalSeconds}s
+                </span>
+              </div>
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+                <BreakdownList title="Countries" items={snapshot.byCountry} />
+                <BreakdownList title="Devices" items={snapshot.byDevice} />
+                <BreakdownList title="Pages" items={snapshot.byPage} />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+/**
+ * RetentionHeatmap
+ * Retention triangle for weekly or monthly cohorts (users grouped by first session date): each row is a cohort,
+ * each column the share of its users active N periods later, shaded by retention. Periods that have not
+ * completed yet are left blank.
+ * Props: propertyId, organicOnly, granularity, className
+ */
+import React, { useState } from "react";
+import useSWR from "swr";
+import type { CohortGranularity, CohortReportData } from "~/types/analytics";
+
+interface CohortResponse {
+  cohorts: CohortReportData;
+}
+
+const fetcher = async (url: string): Promise<CohortResponse> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+  return res.json() as Promise<CohortResponse>;
+};
+
+function fmtPct(n: number | null | undefined) {
+  return n === null || n === undefined ? "" : `${n.toFixed(1)}%`;
+}
+
+// Period 0 is always 100%, so later periods are shaded relative to the best retention after it
+function cellStyle(value: number | null | undefined, max: number): React.CSSProperties | undefined {
+  if (value === null || value === undefined) return undefined;
+  const alpha = max > 0 ? Math.min(1, value / max) : 0;
+  return { backgroundColor: `rgb(var(--chart-1) / ${(0.1 + alpha * 0.7).toFixed(2)})` };
+}
+
+export function RetentionHeatmap({
+  propertyId,
+  organicOnly = false,
+  granularity: initialGranularity = "weekly",
+  className = "",
+}: {
+  propertyId: string;
+  organicOnly?: boolean;
+  granularity?: CohortGranularity;
+  className?: string;
+}) {
+  const [granularity, setGranularity] = useState<CohortGranularity>(initialGranularity);
+
+  const qs = [
+    `granularity=${granularity}`,
+    organicOnly ? "organicOnly=1" : "",
+  ].filter(Boolean).join("&");
+  const { data, error, isLoading } = useSWR<CohortResponse, Error>(
+    `cohorts-${propertyId}-${qs}`,
+    () => fetcher(`/api/analytics/properties/${propertyId}/cohorts?${qs}`),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      errorRetryCount: 0,
+    }
+  );
+  const report = data?.cohorts;
+  const periodLabel = granularity === "weekly" ? "Week" : "Month";
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = (
+      <div className="p-4 space-y-2">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <div key={i} className="animate-pulse h-4 bg-muted rounded"></div>
+        ))}
+      </div>
+    );
+  } else if (error) {
+    body = <div className="p-4 text-sm text-destructive">Failed to load retention: {error.message}</div>;
+  } else if (!report?.cohorts.some((c) => c.users > 0)) {
+    body = <div className="p-4 text-sm text-muted-foreground">No cohort data available for this property.</div>;
+  } else {
+    const max = Math.max(0, ...report.cohorts.flatMap((c) => c.retention.slice(1).map((r) => r ?? 0)));
+    const th = "px-3 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider";
+    const periods = Array.from({ length: report.periods + 1 }, (_, n) => n);
+    body = (
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-border">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className={`${th} text-left`}>Cohort</th>
+              <th className={th}>Users</th>
+              {periods.map((n) => (
+                <th key={n} className={th}>{periodLabel} {n}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {report.cohorts.map((cohort) => (
+              <tr key={cohort.name}>
+                <td className="px-3 py-2 text-sm text-foreground whitespace-nowrap" title={`${cohort.startDate} – ${cohort.endDate}`}>
+                  {cohort.name}
+                </td>
+                <td className="px-3 py-2 text-sm text-right text-foreground">{cohort.users.toLocaleString()}</td>
+                {cohort.retention.map((value, n) => (
+                  <td
+                    key={n}
+                    className="px-3 py-2 text-sm text-right text-foreground"
+                    style={n === 0 ? undefined : cellStyle(value, max)}
+                    title={value === null ? undefined : `${(cohort.activeUsers[n] ?? 0).toLocaleString()} active users`}
+                  >
+                    {fmtPct(value)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-muted/50">
+            <tr>
+              <td className="px-3 py-2 text-sm font-medium text-foreground">Average</td>
+              <td className="px-3 py-2 text-sm text-right font-medium text-foreground">
+                {report.cohorts.reduce((sum, c) => sum + c.users, 0).toLocaleString()}
+              </td>
+              {report.averageRetention.map((value, n) => (
+                <td key={n} className="px-3 py-2 text-sm text-right font-medium text-foreground">{fmtPct(value)}</td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-lg border border-border bg-card ${className}`}>
+      <div className="px-4 py-3 border-b border-border flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-semibold text-foreground">Retention by first session</h4>
+        <select
+          value={granularity}
+          onChange={(e) => setGranularity(e.target.value as CohortGranularity)}
+          className="rounded-md border border-input bg-background px-2 py-1 text-xs text-foreground focus:border-ring focus:ring-ring"
+          aria-label="Cohort granularity"
+        >
+          <option value="weekly">Weekly cohorts</option>
+          <option value="monthly">Monthly cohorts</option>
+        </select>
+      </div>
+      {body}
+    </div>
+  );
+}
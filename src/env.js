@@ -21,6 +21,17 @@ export const env = createEnv({
     GOOGLE_ANALYTICS_ACCOUNT_ID: z.string().optional(),
     GEMINI_API_KEY:
       process.env.NODE_ENV === "production" ? z.string() : z.string().optional(),
+    // Server-side cache lifetime for property data responses (seconds)
+    PROPERTY_DATA_CACHE_TTL_SECONDS: z.coerce.number().int().positive().optional(),
+    // Analytics cache storage: in-process memory or JSON files under ANALYTICS_CACHE_DIR
+    ANALYTICS_CACHE_BACKEND: z.enum(["memory", "file"]).default("memory"),
+    ANALYTICS_CACHE_DIR: z.string().optional(),
+    // Ceiling for auto-paginated report rows; larger results are marked as truncated
+    ANALYTICS_REPORT_MAX_ROWS: z.coerce.number().int().positive().optional(),
+    // Currency (ISO 4217) that revenue summed across properties is converted to
+    REPORTING_CURRENCY: z.string().regex(/^[A-Z]{3}$/).default("USD"),
+    // JSON exchange-rate table replacing the bundled one ({ base, date, rates })
+    EXCHANGE_RATES_FILE: z.string().optional(),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
@@ -51,6 +62,12 @@ export const env = createEnv({
     GOOGLE_SERVICE_ACCOUNT_EMAIL: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
     GOOGLE_ANALYTICS_ACCOUNT_ID: process.env.GOOGLE_ANALYTICS_ACCOUNT_ID,
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+    PROPERTY_DATA_CACHE_TTL_SECONDS: process.env.PROPERTY_DATA_CACHE_TTL_SECONDS,
+    ANALYTICS_CACHE_BACKEND: process.env.ANALYTICS_CACHE_BACKEND,
+    ANALYTICS_CACHE_DIR: process.env.ANALYTICS_CACHE_DIR,
+    ANALYTICS_REPORT_MAX_ROWS: process.env.ANALYTICS_REPORT_MAX_ROWS,
+    REPORTING_CURRENCY: process.env.REPORTING_CURRENCY,
+    EXCHANGE_RATES_FILE: process.env.EXCHANGE_RATES_FILE,
     NODE_ENV: process.env.NODE_ENV,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
@@ -0,0 +1,76 @@
+// Unit tests for GoogleAnalyticsService
+
+import { GoogleAnalyticsServiceImpl, type ReportRequest } from '../google-analytics';
+
+const mockRunReport = jest.fn();
+
+jest.mock('googleapis', () => ({
+  google: {
+    analyticsadmin: jest.fn(() => ({})),
+    analyticsdata: jest.fn(() => ({
+      properties: { runReport: (...args: unknown[]) => mockRunReport(...args) },
+    })),
+    auth: {
+      OAuth2: jest.fn().mockImplementation(() => ({ setCredentials: jest.fn() })),
+      GoogleAuth: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('~/env.js', () => ({ env: {} }));
+
+const params: ReportRequest = {
+  startDate: '2024-01-01',
+  endDate: '2024-01-07',
+  dimensions: ['date'],
+  metrics: ['sessions'],
+};
+
+describe('GoogleAnalyticsServiceImpl', () => {
+  let service: GoogleAnalyticsServiceImpl;
+
+  beforeEach(() => {
+    mockRunReport.mockReset();
+    mockRunReport.mockResolvedValue({
+      data: {
+        dimensionHeaders: [{ name: 'date' }],
+        metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+        rows: [{ dimensionValues: [{ value: '20240101' }], metricValues: [{ value: '10' }] }],
+        rowCount: 1,
+      },
+    });
+    service = new GoogleAnalyticsServiceImpl();
+  });
+
+  describe('runReport', () => {
+    it('should share one GA call between identical concurrent reports', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => service.runReport('token', 'prop1', params)),
+      );
+
+      expect(mockRunReport).toHaveBeenCalledTimes(1);
+      expect(results[4]).toEqual(results[0]);
+      // Each caller maps the shared response itself
+      expect(results[4]).not.toBe(results[0]);
+      expect(service.getInFlightReportCount()).toBe(0);
+    });
+
+    it('should not merge reports of different tokens or requests', async () => {
+      await Promise.all([
+        service.runReport('token', 'prop1', params),
+        service.runReport('other-token', 'prop1', params),
+        service.runReport('token', 'prop2', params),
+        service.runReport('token', 'prop1', { ...params, metrics: ['activeUsers'] }),
+      ]);
+
+      expect(mockRunReport).toHaveBeenCalledTimes(4);
+    });
+
+    it('should call GA again once the previous identical report has finished', async () => {
+      await service.runReport('token', 'prop1', params);
+      await service.runReport('token', 'prop1', params);
+
+      expect(mockRunReport).toHaveBeenCalledTimes(2);
+    });
+  });
+});
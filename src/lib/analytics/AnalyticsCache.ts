@@ -0,0 +1,438 @@
+// Analytics Cache
+// Shared cache abstraction used by every analytics call site: LRU + TTL eviction,
+// stale-while-revalidate, hit/miss statistics and pluggable storage backends
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { env } from "~/env.js";
+import { logger } from "~/lib/logger";
+
+// Stored entry shape (shared by all backends)
+export interface AnalyticsCacheEntry<T> {
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+  staleUntil: number;
+  tags: string[];
+}
+
+export interface AnalyticsCacheStats {
+  namespace: string;
+  backend: AnalyticsCacheBackendType;
+  size: number;
+  maxSize: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+  oldestEntry: number | null;
+  newestEntry: number | null;
+}
+
+export interface AnalyticsCacheOptions {
+  namespace: string;
+  ttlMs: number;
+  // Extra window after expiry during which a stale value may be served while it is refreshed
+  staleTtlMs?: number;
+  maxEntries?: number;
+  backend?: AnalyticsCacheBackendType;
+}
+
+export interface CacheWriteOptions {
+  ttlMs?: number;
+  tags?: string[];
+}
+
+export interface CacheLoadOptions extends CacheWriteOptions {
+  forceRefresh?: boolean;
+}
+
+export interface CacheLoadResult<T> {
+  value: T;
+  fromCache: boolean;
+  stale: boolean;
+}
+
+export type AnalyticsCacheBackendType = "memory" | "file";
+
+/**
+ * Storage backend contract. Backends keep keys in least-recently-used order:
+ * `get` marks a key as recently used and `oldestKey` returns the eviction candidate.
+ */
+export interface AnalyticsCacheBackend<T> {
+  readonly type: AnalyticsCacheBackendType;
+  get(key: string): AnalyticsCacheEntry<T> | undefined;
+  peek(key: string): AnalyticsCacheEntry<T> | undefined;
+  set(key: string, entry: AnalyticsCacheEntry<T>): void;
+  delete(key: string): boolean;
+  entries(): IterableIterator<[string, AnalyticsCacheEntry<T>]>;
+  oldestKey(): string | undefined;
+  size(): number;
+  clear(): void;
+}
+
+/**
+ * In-process backend. Map insertion order doubles as LRU order.
+ */
+export class MemoryCacheBackend<T> implements AnalyticsCacheBackend<T> {
+  readonly type: AnalyticsCacheBackendType = "memory";
+  protected store = new Map<string, AnalyticsCacheEntry<T>>();
+
+  get(key: string): AnalyticsCacheEntry<T> | undefined {
+    const entry = this.store.get(key);
+    if (entry) {
+      // Re-insert to move the key to the most recently used position
+      this.store.delete(key);
+      this.store.set(key, entry);
+    }
+    return entry;
+  }
+
+  peek(key: string): AnalyticsCacheEntry<T> | undefined {
+    return this.store.get(key);
+  }
+
+  set(key: string, entry: AnalyticsCacheEntry<T>): void {
+    this.store.delete(key);
+    this.store.set(key, entry);
+  }
+
+  delete(key: string): boolean {
+    return this.store.delete(key);
+  }
+
+  entries(): IterableIterator<[string, AnalyticsCacheEntry<T>]> {
+    return this.store.entries();
+  }
+
+  oldestKey(): string | undefined {
+    return this.store.keys().next().value;
+  }
+
+  size(): number {
+    return this.store.size;
+  }
+
+  clear(): void {
+    this.store.clear();
+  }
+}
+
+/**
+ * Memory backend persisted to a JSON file per namespace so entries survive restarts.
+ * Writes are debounced; values must be JSON-serializable.
+ */
+export class FileCacheBackend<T> extends MemoryCacheBackend<T> {
+  override readonly type: AnalyticsCacheBackendType = "file";
+  private readonly filePath: string;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly FLUSH_DELAY = 1000; // 1 second
+
+  constructor(directory: string, namespace: string) {
+    super();
+    this.filePath = join(directory, `${namespace}.json`);
+    this.load(directory);
+  }
+
+  override set(key: string, entry: AnalyticsCacheEntry<T>): void {
+    super.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  override delete(key: string): boolean {
+    const removed = super.delete(key);
+    if (removed) this.scheduleFlush();
+    return removed;
+  }
+
+  override clear(): void {
+    super.clear();
+    this.scheduleFlush();
+  }
+
+  /**
+   * Write pending changes to disk immediately
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    try {
+      const tmpPath = `${this.filePath}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify({ version: 1, entries: Array.from(this.store.entries()) }));
+      renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      logger.warn(`[cache] Failed to persist ${this.filePath}:`, error);
+    }
+  }
+
+  private load(directory: string): void {
+    try {
+      if (!existsSync(directory)) {
+        mkdirSync(directory, { recursive: true });
+      }
+      if (!existsSync(this.filePath)) return;
+
+      const parsed = JSON.parse(readFileSync(this.filePath, "utf8")) as {
+        version?: number;
+        entries?: Array<[string, AnalyticsCacheEntry<T>]>;
+      };
+      const now = Date.now();
+      for (const [key, entry] of parsed.entries ?? []) {
+        if (entry.staleUntil > now) {
+          this.store.set(key, entry);
+        }
+      }
+    } catch (error) {
+      logger.warn(`[cache] Ignoring unreadable cache file ${this.filePath}:`, error);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), this.FLUSH_DELAY);
+    // Never keep the process alive just to persist the cache
+    this.flushTimer.unref?.();
+  }
+}
+
+export class AnalyticsCache<T> {
+  readonly namespace: string;
+  private readonly backend: AnalyticsCacheBackend<T>;
+  private readonly ttlMs: number;
+  private readonly staleTtlMs: number;
+  private readonly maxEntries: number;
+  private readonly revalidating = new Map<string, Promise<T>>();
+
+  // Statistics
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: AnalyticsCacheOptions, backend: AnalyticsCacheBackend<T>) {
+    this.namespace = options.namespace;
+    this.backend = backend;
+    this.ttlMs = options.ttlMs;
+    this.staleTtlMs = options.staleTtlMs ?? 0;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Get a fresh value. Stale or expired entries count as a miss.
+   */
+  get(key: string): T | undefined {
+    const entry = this.readEntry(key);
+    if (entry && !this.isStale(entry)) {
+      this.hits++;
+      return entry.value;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Get a value that is fresh or still inside the stale window
+   */
+  getWithStaleness(key: string): { value: T; stale: boolean } | undefined {
+    const entry = this.readEntry(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    const stale = this.isStale(entry);
+    if (stale) this.staleHits++;
+    else this.hits++;
+    return { value: entry.value, stale };
+  }
+
+  /**
+   * Read an entry regardless of age without touching statistics or LRU order.
+   * Useful as a last-resort fallback when a refresh fails.
+   */
+  peek(key: string): AnalyticsCacheEntry<T> | undefined {
+    return this.backend.peek(key);
+  }
+
+  set(key: string, value: T, options: CacheWriteOptions = {}): void {
+    const now = Date.now();
+    const ttl = options.ttlMs ?? this.ttlMs;
+    const entry: AnalyticsCacheEntry<T> = {
+      value,
+      createdAt: now,
+      expiresAt: now + ttl,
+      staleUntil: now + ttl + this.staleTtlMs,
+      tags: options.tags ?? [],
+    };
+
+    this.backend.set(key, entry);
+    this.enforceCapacity();
+  }
+
+  /**
+   * Return a cached value or load it. Stale values are returned immediately
+   * while a single background refresh per key updates the entry.
+   */
+  async getOrLoad(
+    key: string,
+    loader: () => Promise<T>,
+    options: CacheLoadOptions = {},
+  ): Promise<CacheLoadResult<T>> {
+    if (!options.forceRefresh) {
+      const cached = this.getWithStaleness(key);
+      if (cached) {
+        if (cached.stale) {
+          this.revalidate(key, loader, options);
+        }
+        return { value: cached.value, fromCache: true, stale: cached.stale };
+      }
+    }
+
+    const value = await loader();
+    this.set(key, value, options);
+    return { value, fromCache: false, stale: false };
+  }
+
+  delete(key: string): boolean {
+    return this.backend.delete(key);
+  }
+
+  /**
+   * Remove every entry carrying the given tag. Returns the number of entries removed.
+   */
+  invalidateTag(tag: string): number {
+    return this.invalidateWhere(entry => entry.tags.includes(tag));
+  }
+
+  invalidateWhere(predicate: (entry: AnalyticsCacheEntry<T>, key: string) => boolean): number {
+    const keysToDelete: string[] = [];
+    for (const [key, entry] of this.backend.entries()) {
+      if (predicate(entry, key)) keysToDelete.push(key);
+    }
+    keysToDelete.forEach(key => this.backend.delete(key));
+    return keysToDelete.length;
+  }
+
+  clear(): void {
+    this.backend.clear();
+  }
+
+  getTtlMs(): number {
+    return this.ttlMs;
+  }
+
+  getStats(): AnalyticsCacheStats {
+    let oldestEntry: number | null = null;
+    let newestEntry: number | null = null;
+    for (const [, entry] of this.backend.entries()) {
+      if (oldestEntry === null || entry.createdAt < oldestEntry) oldestEntry = entry.createdAt;
+      if (newestEntry === null || entry.createdAt > newestEntry) newestEntry = entry.createdAt;
+    }
+
+    const lookups = this.hits + this.staleHits + this.misses;
+    return {
+      namespace: this.namespace,
+      backend: this.backend.type,
+      size: this.backend.size(),
+      maxSize: this.maxEntries,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? (this.hits + this.staleHits) / lookups : 0,
+      oldestEntry,
+      newestEntry,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.staleHits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  // Private helper methods
+
+  private readEntry(key: string): AnalyticsCacheEntry<T> | undefined {
+    const entry = this.backend.get(key);
+    if (!entry) return undefined;
+
+    if (entry.staleUntil <= Date.now()) {
+      this.backend.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private isStale(entry: AnalyticsCacheEntry<T>): boolean {
+    return entry.expiresAt <= Date.now();
+  }
+
+  private revalidate(key: string, loader: () => Promise<T>, options: CacheWriteOptions): void {
+    if (this.revalidating.has(key)) return;
+
+    const refresh = loader()
+      .then((value) => {
+        this.set(key, value, options);
+        return value;
+      })
+      .finally(() => {
+        this.revalidating.delete(key);
+      });
+
+    this.revalidating.set(key, refresh);
+    refresh.catch((error) => {
+      logger.warn(`[cache:${this.namespace}] Background refresh failed for ${key}:`, error);
+    });
+  }
+
+  private enforceCapacity(): void {
+    if (this.backend.size() <= this.maxEntries) return;
+
+    // Drop entries that are past their stale window first
+    const now = Date.now();
+    this.invalidateWhere(entry => entry.staleUntil <= now);
+
+    // Then evict least recently used entries
+    while (this.backend.size() > this.maxEntries) {
+      const oldestKey = this.backend.oldestKey();
+      if (oldestKey === undefined) break;
+      this.backend.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+}
+
+// Registry of named caches so statistics can be reported app-wide
+const registry = new Map<string, AnalyticsCache<unknown>>();
+
+const DEFAULT_CACHE_DIR = ".cache/analytics";
+
+/**
+ * Create (and register) a cache using the backend configured through
+ * ANALYTICS_CACHE_BACKEND / ANALYTICS_CACHE_DIR unless one is given explicitly.
+ */
+export function createAnalyticsCache<T>(options: AnalyticsCacheOptions): AnalyticsCache<T> {
+  const backendType = options.backend ?? env.ANALYTICS_CACHE_BACKEND ?? "memory";
+  const backend: AnalyticsCacheBackend<T> = backendType === "file"
+    ? new FileCacheBackend<T>(env.ANALYTICS_CACHE_DIR ?? DEFAULT_CACHE_DIR, options.namespace)
+    : new MemoryCacheBackend<T>();
+
+  const cache = new AnalyticsCache<T>(options, backend);
+  registry.set(options.namespace, cache as AnalyticsCache<unknown>);
+  return cache;
+}
+
+/**
+ * Statistics for every registered cache, keyed by namespace
+ */
+export function getAllCacheStats(): Record<string, AnalyticsCacheStats> {
+  const stats: Record<string, AnalyticsCacheStats> = {};
+  registry.forEach((cache, namespace) => {
+    stats[namespace] = cache.getStats();
+  });
+  return stats;
+}
@@ -1,9 +1,9 @@
 // Analytics Context Manager - Aggregates and formats analytics data for AI consumption
 
-import type { 
-  AnalyticsProperty, 
-  AnalyticsData, 
-  AnalyticsRow 
+import { 
+  CURRENT_DATE_RANGE,
+  type AnalyticsProperty, 
+  type AnalyticsData 
 } from "~/types/analytics";
 import type {
   AnalyticsContext,
@@ -12,13 +12,25 @@ import type {
   MetricSummary,
   AggregatedMetrics,
   TrendAnalysis,
+  AnomalyInsight,
   ComparisonData,
   ComparisonItem,
   DateRange,
   TrendDirection
 } from "~/types/chat";
+import { logger } from "~/lib/logger";
+import { currencyConverter, type CurrencyConverter } from "./CurrencyConverter";
+import { getMixedTimeZones } from "./TimeZoneAlignment";
+import { aggregateMetric, getMetricDefinition, toMetricSample, type MetricSample } from "./MetricRegistry";
+import { describeAnomaly, detectMetricAnomalies } from "./AnomalyDetection";
+import { getDailyValues, testChange } from "./SignificanceTesting";
+
+// Anomalies passed to the assistant, strongest first
+const MAX_CONTEXT_ANOMALIES = 10;
 
 export class AnalyticsContextManager implements ContextManager {
+
+  constructor(private readonly converter: CurrencyConverter = currencyConverter) {}
   
   /**
    * Builds comprehensive analytics context for AI consumption
@@ -30,10 +42,13 @@ export class AnalyticsContextManager implements ContextManager {
     userQuery: string
   ): AnalyticsContext {
     const propertySummaries = this.buildPropertySummaries(properties, analyticsData);
-    const aggregatedData = this.aggregateMetrics(analyticsData);
+    const currencies = Object.fromEntries(properties.map(property => [property.propertyId, this.getCurrencyCode(property)]));
+    const timeZones = Object.fromEntries(properties.map(property => [property.propertyId, property.timeZone]));
+    const aggregatedData = this.aggregateMetrics(analyticsData, currencies, timeZones);
     const metricSummaries = this.buildMetricSummaries(analyticsData, propertySummaries);
-    const trends = this.calculateTrends(analyticsData);
+    const trends = this.calculateTrends(analyticsData, this.getPreviousPeriodData(analyticsData));
     const comparisons = this.generateComparisons(properties, analyticsData);
+    const anomalies = this.detectAnomalies(properties, analyticsData);
 
     return {
       properties: propertySummaries,
@@ -41,72 +56,114 @@ export class AnalyticsContextManager implements ContextManager {
       metrics: metricSummaries,
       aggregatedData,
       trends,
-      comparisons
+      comparisons,
+      anomalies: anomalies.length > 0 ? anomalies : undefined
     };
   }
 
   /**
-   * Aggregates metrics across all properties
+   * Finds unusual days in each property's daily series (see AnomalyDetection), keeping the strongest
+   */
+  detectAnomalies(
+    properties: AnalyticsProperty[],
+    analyticsData: Record<string, AnalyticsData>
+  ): AnomalyInsight[] {
+    const insights = properties.flatMap(property => {
+      const data = analyticsData[property.propertyId];
+      if (!data) return [];
+      return detectMetricAnomalies(data).flatMap(report => report.anomalies.map(anomaly => ({
+        ...anomaly,
+        propertyId: property.propertyId,
+        propertyName: property.displayName,
+        metric: report.metric,
+        description: `${property.displayName}: ${describeAnomaly(report.metric, anomaly, this.getCurrencyCode(property))}`
+      })));
+    });
+
+    return insights
+      .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+      .slice(0, MAX_CONTEXT_ANOMALIES);
+  }
+
+  /**
+   * Aggregates metrics across all properties, combining each metric as the metric registry declares:
+   * counts are summed, bounce rate and session duration are weighted by sessions, and conversion rate
+   * and average order value are recomputed from summed transactions, sessions and revenue.
+   * Revenue is converted from each property's currency (`currencies`, by property ID) to the reporting
+   * currency; revenue of properties without a known currency or in currencies without an exchange
+   * rate is left out and the properties are listed in `revenueExcludedPropertyIds`.
+   * Totals of properties in different time zones (`data.timeZone`, else `timeZones` by property ID)
+   * cover different hours of the same dates; those zones are listed in `mixedTimeZones`.
    */
-  aggregateMetrics(analyticsData: Record<string, AnalyticsData>): AggregatedMetrics {
-    let totalUsers = 0;
-    let totalSessions = 0;
-    let totalPageViews = 0;
-    let totalBounceRate = 0;
-    let totalSessionDuration = 0;
-    let totalRevenue = 0;
-    let propertyCount = 0;
+  aggregateMetrics(
+    analyticsData: Record<string, AnalyticsData>,
+    currencies: Record<string, string | undefined> = {},
+    timeZones: Record<string, string | undefined> = {}
+  ): AggregatedMetrics {
+    const reportingCurrency = this.converter.getReportingCurrency();
+    const samples: MetricSample[] = [];
+    const revenueExcludedPropertyIds: string[] = [];
+    const propertyTimeZones: (string | undefined)[] = [];
 
     for (const [propertyId, data] of Object.entries(analyticsData)) {
       if (!data.totals || data.totals.length === 0) continue;
-      
-      propertyCount++;
-      const totalsRow = data.totals[0];
-      const metricHeaders = data.metricHeaders;
-
-      // Extract metrics based on header names
-      metricHeaders.forEach((header, index) => {
-        const value = parseFloat(totalsRow?.metricValues[index]?.value || '0');
-        
-        switch (header.name) {
-          case 'activeUsers':
-          case 'totalUsers':
-            totalUsers += value;
-            break;
-          case 'sessions':
-            totalSessions += value;
-            break;
-          case 'screenPageViews':
-          case 'pageViews':
-            totalPageViews += value;
-            break;
-          case 'bounceRate':
-            totalBounceRate += value;
-            break;
-          case 'averageSessionDuration':
-            totalSessionDuration += value;
-            break;
-          case 'transactionRevenue':
-          case 'totalRevenue':
-            totalRevenue += value;
-            break;
-        }
-      });
+
+      propertyTimeZones.push(data.timeZone ?? timeZones[propertyId]);
+      const totals = toMetricSample(data.metricHeaders, data.totals[0]?.metricValues);
+
+      // One value per property under the registry's names; older reports use the aliases
+      const sample: MetricSample = { ...totals };
+      const users = totals.activeUsers ?? totals.totalUsers;
+      const pageViews = totals.screenPageViews ?? totals.pageViews;
+      const revenue = totals.purchaseRevenue ?? totals.transactionRevenue ?? totals.totalRevenue;
+      if (users !== undefined) sample.activeUsers = users;
+      if (pageViews !== undefined) sample.screenPageViews = pageViews;
+      delete sample.purchaseRevenue;
+
+      const currencyCode = currencies[propertyId];
+      if (revenue !== undefined && currencyCode !== undefined && this.converter.canConvert(currencyCode, reportingCurrency)) {
+        sample.purchaseRevenue = this.converter.convert(revenue, currencyCode, reportingCurrency);
+      } else if ((revenue ?? 0) > 0) {
+        logger.warn(`[context] No exchange rate for ${currencyCode ?? 'an unknown currency'}, leaving out revenue of property ${propertyId}`);
+        revenueExcludedPropertyIds.push(propertyId);
+      }
+      samples.push(sample);
+    }
+
+    const mixedTimeZones = getMixedTimeZones(propertyTimeZones);
+    if (mixedTimeZones.length > 0) {
+      logger.warn(`[context] Aggregating properties in different time zones: ${mixedTimeZones.join(', ')}`);
     }
 
+    // Ecommerce rates only cover the properties that report transactions (and, for order value, revenue)
+    const ecommerceSamples = samples.filter(sample => sample.transactions !== undefined);
+    const revenueSamples = ecommerceSamples.filter(sample => sample.purchaseRevenue !== undefined);
+    const totalRevenue = aggregateMetric('purchaseRevenue', samples) ?? 0;
+    const totalTransactions = aggregateMetric('transactions', samples) ?? 0;
+    const conversionRate = aggregateMetric('conversionRate', ecommerceSamples) ?? 0;
+    const averageOrderValue = aggregateMetric('averageOrderValue', revenueSamples) ?? 0;
+
     return {
-      totalUsers,
-      totalSessions,
-      totalPageViews,
-      averageBounceRate: propertyCount > 0 ? totalBounceRate / propertyCount : 0,
-      averageSessionDuration: propertyCount > 0 ? totalSessionDuration / propertyCount : 0,
+      totalUsers: aggregateMetric('activeUsers', samples) ?? 0,
+      totalSessions: aggregateMetric('sessions', samples) ?? 0,
+      totalPageViews: aggregateMetric('screenPageViews', samples) ?? 0,
+      averageBounceRate: aggregateMetric('bounceRate', samples) ?? 0,
+      averageSessionDuration: aggregateMetric('averageSessionDuration', samples) ?? 0,
       totalRevenue: totalRevenue > 0 ? totalRevenue : undefined,
-      conversionRate: totalSessions > 0 ? (totalRevenue / totalSessions) * 100 : undefined
+      totalTransactions: totalTransactions > 0 ? totalTransactions : undefined,
+      conversionRate: conversionRate > 0 ? conversionRate : undefined,
+      averageOrderValue: averageOrderValue > 0 ? averageOrderValue : undefined,
+      currencyCode: reportingCurrency,
+      revenueExcludedPropertyIds: revenueExcludedPropertyIds.length > 0 ? revenueExcludedPropertyIds : undefined,
+      mixedTimeZones: mixedTimeZones.length > 0 ? mixedTimeZones : undefined
     };
   }
 
   /**
-   * Calculates trends for metrics (simplified version without historical data)
+   * Calculates trends for metrics: changes from the previous period when there is one, each with a
+   * significance from a statistical test (see SignificanceTesting) rather than its size; otherwise
+   * benchmarks of the current data. Daily rows (a date dimension) let the tests account for day to day
+   * variation.
    */
   calculateTrends(
     currentData: Record<string, AnalyticsData>,
@@ -124,25 +181,31 @@ export class AnalyticsContextManager implements ContextManager {
     const previousMetrics = this.aggregateMetrics(previousData);
 
     const metricComparisons = [
-      { name: 'Users', current: currentMetrics.totalUsers, previous: previousMetrics.totalUsers },
-      { name: 'Sessions', current: currentMetrics.totalSessions, previous: previousMetrics.totalSessions },
-      { name: 'Page Views', current: currentMetrics.totalPageViews, previous: previousMetrics.totalPageViews },
-      { name: 'Bounce Rate', current: currentMetrics.averageBounceRate, previous: previousMetrics.averageBounceRate },
-      { name: 'Session Duration', current: currentMetrics.averageSessionDuration, previous: previousMetrics.averageSessionDuration }
+      { name: 'Users', metric: 'activeUsers', current: currentMetrics.totalUsers, previous: previousMetrics.totalUsers },
+      { name: 'Sessions', metric: 'sessions', current: currentMetrics.totalSessions, previous: previousMetrics.totalSessions },
+      { name: 'Page Views', metric: 'screenPageViews', current: currentMetrics.totalPageViews, previous: previousMetrics.totalPageViews },
+      { name: 'Bounce Rate', metric: 'bounceRate', current: currentMetrics.averageBounceRate, previous: previousMetrics.averageBounceRate },
+      { name: 'Session Duration', metric: 'averageSessionDuration', current: currentMetrics.averageSessionDuration, previous: previousMetrics.averageSessionDuration }
     ];
 
-    metricComparisons.forEach(({ name, current, previous }) => {
+    metricComparisons.forEach(({ name, metric, current, previous }) => {
       if (previous === 0) return;
       
       const changePercent = ((current - previous) / previous) * 100;
       const direction: TrendDirection = changePercent > 5 ? 'up' : changePercent < -5 ? 'down' : 'stable';
-      const significance = Math.abs(changePercent) > 20 ? 'high' : Math.abs(changePercent) > 10 ? 'medium' : 'low';
+      // Rates are tested over the sessions they were measured on
+      const { significance, ...test } = testChange(
+        metric,
+        { value: current, trials: currentMetrics.totalSessions, daily: getDailyValues(Object.values(currentData), metric) },
+        { value: previous, trials: previousMetrics.totalSessions, daily: getDailyValues(Object.values(previousData), metric) }
+      );
       
       trends.push({
         metric: name,
         direction,
         changePercent: Math.abs(changePercent),
         significance,
+        ...test,
         description: this.generateTrendDescription(name, direction, changePercent)
       });
     });
@@ -174,6 +237,13 @@ export class AnalyticsContextManager implements ContextManager {
     return comparisons;
   }
 
+  /**
+   * The property's currency, unless it is unknown (not loaded, or empty in the property details)
+   */
+  private getCurrencyCode(property: AnalyticsProperty): string | undefined {
+    return property.currencyCode === "" ? undefined : property.currencyCode;
+  }
+
   /**
    * Builds property summaries with key metrics and trends
    */
@@ -189,6 +259,7 @@ export class AnalyticsContextManager implements ContextManager {
       return {
         propertyId: property.propertyId,
         displayName: property.displayName,
+        currencyCode: this.getCurrencyCode(property),
         metrics,
         trends
       };
@@ -223,8 +294,11 @@ export class AnalyticsContextManager implements ContextManager {
         }
       });
 
-      const total = values.reduce((sum, val) => sum + val, 0);
-      const average = values.length > 0 ? total / values.length : 0;
+      // Counts add up across properties; rates and averages are combined as the metric registry
+      // declares (e.g. weighted by sessions), so their total and average are the same portfolio value
+      const total = aggregateMetric(metricName, propertySummaries.map(property => property.metrics)) ?? 0;
+      const isCount = getMetricDefinition(metricName).aggregation === 'sum';
+      const average = isCount ? (values.length > 0 ? total / values.length : 0) : total;
       
       // Sort to find top performers
       propertyValues.sort((a, b) => b.value - a.value);
@@ -294,6 +368,19 @@ export class AnalyticsContextManager implements ContextManager {
     return trends;
   }
 
+  /**
+   * The comparison range of each property's report (see AnalyticsData.series), by property ID;
+   * undefined unless every report has one, so both periods cover the same properties
+   */
+  private getPreviousPeriodData(analyticsData: Record<string, AnalyticsData>): Record<string, AnalyticsData> | undefined {
+    const previous = Object.entries(analyticsData).flatMap(([propertyId, data]) => {
+      const series = Object.entries(data.series ?? {}).find(([name]) => name !== CURRENT_DATE_RANGE)?.[1];
+      return series ? [[propertyId, { ...data, rows: series.rows, totals: series.totals, series: undefined }] as const] : [];
+    });
+    const propertyCount = Object.keys(analyticsData).length;
+    return propertyCount > 0 && previous.length === propertyCount ? Object.fromEntries(previous) : undefined;
+  }
+
   /**
    * Analyzes patterns from current data when no historical data is available
    */
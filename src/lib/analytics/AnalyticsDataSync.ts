@@ -2,13 +2,13 @@
 // Handles data caching, synchronization, and real-time updates for the chat interface
 
 import { googleAnalyticsService } from "~/lib/google-analytics";
+import { createAnalyticsCache, type AnalyticsCacheStats } from "./AnalyticsCache";
 import type { AnalyticsProperty, AnalyticsData } from "~/types/analytics";
 import type { DateRange } from "~/types/chat";
 
 // Cache entry interface
 interface CacheEntry {
   data: AnalyticsData;
-  timestamp: number;
   propertyId: string;
   dateRange: DateRange;
   hash: string;
@@ -28,17 +28,24 @@ interface DataUpdateListener {
 }
 
 export class AnalyticsDataSync {
-  private cache = new Map<string, CacheEntry>();
   private syncStatus = new Map<string, SyncStatus>();
   private listeners = new Set<DataUpdateListener>();
   private syncIntervals = new Map<string, NodeJS.Timeout>();
   
   // Configuration
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly STALE_TTL = 10 * 60 * 1000; // serve stale for up to 10 more minutes while refreshing
   private readonly SYNC_INTERVAL = 2 * 60 * 1000; // 2 minutes for auto-sync
   private readonly MAX_CACHE_SIZE = 1000;
   private readonly BATCH_SIZE = 5; // Max concurrent requests
 
+  private cache = createAnalyticsCache<CacheEntry>({
+    namespace: "data-sync",
+    ttlMs: this.CACHE_TTL,
+    staleTtlMs: this.STALE_TTL,
+    maxEntries: this.MAX_CACHE_SIZE,
+  });
+
   /**
    * Get analytics data with caching and real-time sync
    */
@@ -49,18 +56,41 @@ export class AnalyticsDataSync {
     forceRefresh = false
   ): Promise<AnalyticsData> {
     const cacheKey = this.generateCacheKey(propertyId, dateRange);
-    const cached = this.cache.get(cacheKey);
 
-    // Return cached data if valid and not forcing refresh
-    if (!forceRefresh && cached && this.isCacheValid(cached)) {
-      return cached.data;
+    try {
+      // Fresh hits return immediately; stale hits return and refresh in the background
+      const { value } = await this.cache.getOrLoad(
+        cacheKey,
+        () => this.fetchAndNotify(accessToken, propertyId, dateRange),
+        { forceRefresh, tags: [propertyId] }
+      );
+      return value.data;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // Return cached data if available, even if past its stale window
+      const cached = this.cache.peek(cacheKey);
+      if (cached) {
+        console.warn(`Using stale cache for ${propertyId} due to fetch error:`, errorMessage);
+        return cached.value.data;
+      }
+
+      throw error;
     }
+  }
 
+  /**
+   * Fetch fresh data from GA, tracking sync status and notifying listeners
+   */
+  private async fetchAndNotify(
+    accessToken: string,
+    propertyId: string,
+    dateRange: DateRange
+  ): Promise<CacheEntry> {
     // Update sync status
     this.updateSyncStatus(propertyId, 'syncing');
 
     try {
-      // Fetch fresh data
       const data = await googleAnalyticsService.getAnalyticsData(
         accessToken,
         propertyId,
@@ -68,32 +98,20 @@ export class AnalyticsDataSync {
         dateRange.endDate
       );
 
-      // Cache the data
-      const cacheEntry: CacheEntry = {
-        data,
-        timestamp: Date.now(),
-        propertyId,
-        dateRange,
-        hash: this.generateDataHash(data)
-      };
-
-      this.setCache(cacheKey, cacheEntry);
       this.updateSyncStatus(propertyId, 'success');
 
       // Notify listeners of data update
       this.notifyListeners(propertyId, data, dateRange);
 
-      return data;
+      return {
+        data,
+        propertyId,
+        dateRange,
+        hash: this.generateDataHash(data)
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.updateSyncStatus(propertyId, 'error', errorMessage);
-      
-      // Return cached data if available, even if stale
-      if (cached) {
-        console.warn(`Using stale cache for ${propertyId} due to fetch error:`, errorMessage);
-        return cached.data;
-      }
-      
       throw error;
     }
   }
@@ -207,10 +225,7 @@ export class AnalyticsDataSync {
   clearCache(propertyIds?: string[]): void {
     if (propertyIds) {
       propertyIds.forEach(propertyId => {
-        const keysToDelete = Array.from(this.cache.keys()).filter(key => 
-          key.includes(propertyId)
-        );
-        keysToDelete.forEach(key => this.cache.delete(key));
+        this.cache.invalidateTag(propertyId);
       });
     } else {
       this.cache.clear();
@@ -220,23 +235,8 @@ export class AnalyticsDataSync {
   /**
    * Get cache statistics
    */
-  getCacheStats(): {
-    size: number;
-    maxSize: number;
-    hitRate: number;
-    oldestEntry: number | null;
-    newestEntry: number | null;
-  } {
-    const entries = Array.from(this.cache.values());
-    const timestamps = entries.map(entry => entry.timestamp);
-    
-    return {
-      size: this.cache.size,
-      maxSize: this.MAX_CACHE_SIZE,
-      hitRate: 0, // Would need to track hits/misses for accurate calculation
-      oldestEntry: timestamps.length > 0 ? Math.min(...timestamps) : null,
-      newestEntry: timestamps.length > 0 ? Math.max(...timestamps) : null
-    };
+  getCacheStats(): AnalyticsCacheStats {
+    return this.cache.getStats();
   }
 
   /**
@@ -248,7 +248,7 @@ export class AnalyticsDataSync {
     dateRange: DateRange
   ): Promise<boolean> {
     const cacheKey = this.generateCacheKey(propertyId, dateRange);
-    const cached = this.cache.get(cacheKey);
+    const cached = this.cache.peek(cacheKey);
     
     if (!cached) return true;
 
@@ -261,7 +261,7 @@ export class AnalyticsDataSync {
       );
       
       const freshHash = this.generateDataHash(freshData);
-      return freshHash !== cached.hash;
+      return freshHash !== cached.value.hash;
     } catch (error) {
       console.warn(`Failed to check data changes for ${propertyId}:`, error);
       return false; // Assume no change if we can't fetch
@@ -286,36 +286,6 @@ export class AnalyticsDataSync {
     return Buffer.from(hashInput).toString('base64').slice(0, 16);
   }
 
-  private isCacheValid(entry: CacheEntry): boolean {
-    return Date.now() - entry.timestamp < this.CACHE_TTL;
-  }
-
-  private setCache(key: string, entry: CacheEntry): void {
-    // Implement LRU eviction if cache is full
-    if (this.cache.size >= this.MAX_CACHE_SIZE) {
-      const oldestKey = this.findOldestCacheKey();
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
-      }
-    }
-    
-    this.cache.set(key, entry);
-  }
-
-  private findOldestCacheKey(): string | null {
-    let oldestKey: string | null = null;
-    let oldestTimestamp = Date.now();
-    
-    this.cache.forEach((entry, key) => {
-      if (entry.timestamp < oldestTimestamp) {
-        oldestTimestamp = entry.timestamp;
-        oldestKey = key;
-      }
-    });
-    
-    return oldestKey;
-  }
-
   private updateSyncStatus(propertyId: string, status: SyncStatus['status'], error?: string): void {
     this.syncStatus.set(propertyId, {
       propertyId,
@@ -8,6 +8,7 @@ import type {
   RawAIResponse,
   ChatError
 } from "../../types/chat.js";
+import { describeSignificance } from "./SignificanceTesting";
 
 /**
  * Analytics-specific Gemini AI service that extends the base Gemini functionality
@@ -115,7 +116,11 @@ IMPORTANT: Always respond with valid JSON only. Do not include any text outside
     ).join('\n');
 
     const trendsInfo = context.trends.map(trend =>
-      `- ${trend.metric}: ${trend.direction} ${trend.changePercent}% (${trend.significance} significance) - ${trend.description}`
+      `- ${trend.metric}: ${trend.direction} ${trend.changePercent}% (${describeSignificance(trend)}) - ${trend.description}`
+    ).join('\n');
+
+    const anomaliesInfo = (context.anomalies ?? []).map(anomaly =>
+      `- ${anomaly.description}, robust z-score ${anomaly.score.toFixed(1)} (${anomaly.severity} severity)`
     ).join('\n');
 
     const comparisonsInfo = context.comparisons.map(comp => {
@@ -138,15 +143,21 @@ AGGREGATED METRICS:
 - Total Page Views: ${context.aggregatedData.totalPageViews}
 - Average Bounce Rate: ${context.aggregatedData.averageBounceRate}%
 - Average Session Duration: ${context.aggregatedData.averageSessionDuration}s
-${context.aggregatedData.totalRevenue ? `- Total Revenue: $${context.aggregatedData.totalRevenue}` : ''}
+${context.aggregatedData.totalRevenue ? `- Total Revenue: ${context.aggregatedData.totalRevenue} ${context.aggregatedData.currencyCode ?? 'USD'}` : ''}
+${context.aggregatedData.totalTransactions ? `- Transactions: ${context.aggregatedData.totalTransactions}` : ''}
 ${context.aggregatedData.conversionRate ? `- Conversion Rate: ${context.aggregatedData.conversionRate}%` : ''}
+${context.aggregatedData.averageOrderValue ? `- Average Order Value: ${context.aggregatedData.averageOrderValue} ${context.aggregatedData.currencyCode ?? 'USD'}` : ''}
+${context.aggregatedData.mixedTimeZones ? `- Note: properties report dates in different time zones (${context.aggregatedData.mixedTimeZones.join(', ')}); daily figures are not on one calendar` : ''}
 
 METRIC SUMMARIES:
 ${metricsInfo}
 
-TREND ANALYSIS:
+TREND ANALYSIS (significance of period changes comes from a statistical test; treat low significance as noise):
 ${trendsInfo}
 
+ANOMALIES:
+${anomaliesInfo || 'None detected'}
+
 COMPARISONS:
 ${comparisonsInfo}`;
   }
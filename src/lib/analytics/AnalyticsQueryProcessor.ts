@@ -8,23 +8,18 @@ import type {
   AnalyticsContext,
   ChatMessage
 } from "../../types/chat";
-import type { AnalyticsData } from "../../types/analytics";
+import type { AnalyticsData, MetadataField, PropertyMetadata } from "../../types/analytics";
+import { formatDuration, formatMetricValue, getMetricLabel, getMetricSynonymEntries } from "./MetricDictionary";
+import { describeSignificance } from "./SignificanceTesting";
 
 export class AnalyticsQueryProcessor implements QueryProcessor {
   
-  // Common metric keywords and their variations
-  private readonly metricKeywords = new Map<string, string[]>([
-    ['users', ['users', 'user', 'visitors', 'visitor', 'people', 'audience']],
-    ['sessions', ['sessions', 'session', 'visits', 'visit']],
-    ['pageViews', ['pageviews', 'page views', 'views', 'page view', 'screens']],
-    ['bounceRate', ['bounce rate', 'bounce', 'bounces', 'bounce %']],
-    ['sessionDuration', ['session duration', 'time on site', 'session time', 'duration', 'time spent']],
-    ['revenue', ['revenue', 'sales', 'money', 'earnings', 'income', 'transactions']],
-    ['conversions', ['conversions', 'conversion', 'goals', 'goal', 'converts']],
-    ['engagementRate', ['engagement', 'engagement rate', 'engaged users', 'engagement %']],
-    ['newUsers', ['new users', 'new visitors', 'first time users', 'new people']],
-    ['returningUsers', ['returning users', 'repeat users', 'return visitors', 'loyal users']]
-  ]);
+  // Metric names and the words users call them by, from the metric dictionary
+  private readonly metricKeywords = new Map<string, string[]>(getMetricSynonymEntries());
+
+  // Keywords for custom metrics, key events and custom dimensions, registered from property metadata
+  private customMetricKeywords = new Map<string, string[]>();
+  private customDimensionKeywords = new Map<string, string[]>();
 
   // Time reference patterns
   private readonly timePatterns = [
@@ -47,6 +42,24 @@ export class AnalyticsQueryProcessor implements QueryProcessor {
     { pattern: /\b(trend|trending|over time|change|growth|decline)\b/i, type: 'trend' as const }
   ];
 
+  /**
+   * Register the custom metrics, key events and custom dimensions of the given properties
+   * so queries can refer to them by name. Replaces previously registered metadata.
+   */
+  setPropertyMetadata(metadata: PropertyMetadata[]): void {
+    this.customMetricKeywords.clear();
+    this.customDimensionKeywords.clear();
+
+    for (const property of metadata) {
+      property.metrics
+        .filter(field => field.customDefinition || field.keyEvent)
+        .forEach(field => this.customMetricKeywords.set(field.apiName, this.getFieldKeywords(field)));
+      property.dimensions
+        .filter(field => field.customDefinition)
+        .forEach(field => this.customDimensionKeywords.set(field.apiName, this.getFieldKeywords(field)));
+    }
+  }
+
   /**
    * Main method to process a user query
    */
@@ -101,7 +114,7 @@ export class AnalyticsQueryProcessor implements QueryProcessor {
     }
 
     // Check for specific metric inquiries
-    const hasMetricKeywords = Array.from(this.metricKeywords.values()).some(variations =>
+    const hasMetricKeywords = this.getAllMetricKeywords().some(([, variations]) =>
       variations.some(variation => lowerQuery.includes(variation))
     );
 
@@ -120,12 +133,14 @@ export class AnalyticsQueryProcessor implements QueryProcessor {
     const entities: ExtractedEntities = {
       brands: [],
       metrics: [],
+      dimensions: [],
       timeReferences: [],
       comparisonType: undefined
     };
 
-    // Extract metrics
+    // Extract metrics and custom dimensions
     entities.metrics = this.extractMetrics(query);
+    entities.dimensions = this.matchKeywords(query, Array.from(this.customDimensionKeywords.entries()));
 
     // Extract time references
     entities.timeReferences = this.extractTimeReferences(query);
@@ -176,7 +191,7 @@ export class AnalyticsQueryProcessor implements QueryProcessor {
         const keyMetrics = Object.entries(prop.metrics)
           .filter(([_, value]) => typeof value === 'number' && value > 0)
           .slice(0, 5) // Top 5 metrics
-          .map(([metric, value]) => `${metric}: ${this.formatMetricValue(metric, value as number)}`)
+          .map(([metric, value]) => `${getMetricLabel(metric)}: ${formatMetricValue(metric, value)}`)
           .join(', ');
         if (keyMetrics) {
           sections.push(`  Key metrics: ${keyMetrics}`);
@@ -192,21 +207,43 @@ export class AnalyticsQueryProcessor implements QueryProcessor {
     sections.push(`Total Sessions: ${aggregated.totalSessions.toLocaleString()}`);
     sections.push(`Total Page Views: ${aggregated.totalPageViews.toLocaleString()}`);
     sections.push(`Average Bounce Rate: ${aggregated.averageBounceRate.toFixed(1)}%`);
-    sections.push(`Average Session Duration: ${this.formatDuration(aggregated.averageSessionDuration)}`);
+    sections.push(`Average Session Duration: ${formatDuration(aggregated.averageSessionDuration)}`);
     
+    const currency = aggregated.currencyCode ?? 'USD';
     if (aggregated.totalRevenue) {
-      sections.push(`Total Revenue: $${aggregated.totalRevenue.toLocaleString()}`);
+      sections.push(`Total Revenue: ${aggregated.totalRevenue.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${currency}`);
+    }
+    if (aggregated.totalTransactions) {
+      sections.push(`Transactions: ${aggregated.totalTransactions.toLocaleString()}`);
     }
     if (aggregated.conversionRate) {
-      sections.push(`Conversion Rate: ${aggregated.conversionRate.toFixed(2)}%`);
+      sections.push(`Conversion Rate: ${aggregated.conversionRate.toFixed(2)}% (transactions per session)`);
+    }
+    if (aggregated.averageOrderValue) {
+      sections.push(`Average Order Value: ${aggregated.averageOrderValue.toFixed(2)} ${currency}`);
+    }
+    if (aggregated.revenueExcludedPropertyIds) {
+      sections.push(`Revenue excludes properties without an exchange rate: ${aggregated.revenueExcludedPropertyIds.join(', ')}`);
+    }
+    if (aggregated.mixedTimeZones) {
+      sections.push(`Note: properties report dates in different time zones (${aggregated.mixedTimeZones.join(', ')}), so the same date covers different hours per property`);
     }
     sections.push("");
 
     // Add trends if available
     if (context.trends.length > 0) {
-      sections.push("TRENDS:");
+      sections.push("TRENDS (significance of period changes comes from a statistical test; treat low significance as noise):");
       context.trends.forEach(trend => {
-        sections.push(`- ${trend.description} (${trend.significance} significance)`);
+        sections.push(`- ${trend.description} (${describeSignificance(trend)})`);
+      });
+      sections.push("");
+    }
+
+    // Add unusual days if any were found
+    if (context.anomalies && context.anomalies.length > 0) {
+      sections.push("ANOMALIES (days outside the expected range for their weekday and recent level):");
+      context.anomalies.forEach(anomaly => {
+        sections.push(`- ${anomaly.description} (${anomaly.severity} severity)`);
       });
       sections.push("");
     }
@@ -241,16 +278,28 @@ export class AnalyticsQueryProcessor implements QueryProcessor {
    * Extracts metric names from the query
    */
   private extractMetrics(query: string): string[] {
+    return this.matchKeywords(query, this.getAllMetricKeywords());
+  }
+
+  private matchKeywords(query: string, keywords: [string, string[]][]): string[] {
     const lowerQuery = query.toLowerCase();
-    const foundMetrics: string[] = [];
+    return keywords
+      .filter(([, variations]) => variations.some(variation => lowerQuery.includes(variation)))
+      .map(([name]) => name);
+  }
 
-    Array.from(this.metricKeywords.entries()).forEach(([metricName, variations]) => {
-      if (variations.some(variation => lowerQuery.includes(variation))) {
-        foundMetrics.push(metricName);
-      }
-    });
+  private getAllMetricKeywords(): [string, string[]][] {
+    return [...this.metricKeywords.entries(), ...this.customMetricKeywords.entries()];
+  }
 
-    return foundMetrics;
+  /**
+   * Keyword variations for a metadata field: its UI name and the readable part of its API name
+   * (e.g. "customEvent:plan_type" -> "plan type", "keyEvents:purchase" -> "purchase")
+   */
+  private getFieldKeywords(field: MetadataField): string[] {
+    const suffix = (field.apiName.split(':').pop() ?? field.apiName).toLowerCase();
+    const variations = [field.uiName.toLowerCase(), suffix, suffix.replace(/_/g, ' ')];
+    return Array.from(new Set(variations)).filter(v => v.length >= 3);
   }
 
   /**
@@ -363,44 +412,4 @@ export class AnalyticsQueryProcessor implements QueryProcessor {
     // on having access to the raw AnalyticsData objects
     return [];
   }
-
-  /**
-   * Formats metric values for display
-   */
-  private formatMetricValue(metric: string, value: number): string {
-    if (metric.toLowerCase().includes('rate') || metric.toLowerCase().includes('bounce')) {
-      return `${value.toFixed(1)}%`;
-    }
-    
-    if (metric.toLowerCase().includes('duration') || metric.toLowerCase().includes('time')) {
-      return this.formatDuration(value);
-    }
-    
-    if (metric.toLowerCase().includes('revenue') || metric.toLowerCase().includes('money')) {
-      return `$${value.toLocaleString()}`;
-    }
-    
-    return value.toLocaleString();
-  }
-
-  /**
-   * Formats duration in seconds to human readable format
-   */
-  private formatDuration(seconds: number): string {
-    if (seconds < 60) {
-      return `${Math.round(seconds)}s`;
-    }
-    
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = Math.round(seconds % 60);
-    
-    if (minutes < 60) {
-      return remainingSeconds > 0 ? `${minutes}m ${remainingSeconds}s` : `${minutes}m`;
-    }
-    
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    
-    return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
-  }
-}
\ No newline at end of file
+}
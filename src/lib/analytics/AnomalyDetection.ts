@@ -0,0 +1,186 @@
+// Anomaly detection
+// Flags unusual days in daily metric series. A day's expected value is the local level of the series (the
+// median of the surrounding days once weekday effects are taken out) plus the typical effect of its weekday.
+// Days whose deviation from it is more than `threshold` robust z-scores (deviation / scaled median absolute
+// deviation) are flagged. Medians keep a few extreme days from distorting the baseline they are judged by.
+
+import type { AnalyticsData, MetricAnomaly, MetricAnomalyReport } from "~/types/analytics";
+import { formatMetricValue, getMetricInfo } from "./MetricDictionary";
+import { aggregateMetric, getMetricDefinition, toMetricSample, type MetricSample } from "./MetricRegistry";
+
+// One day of a metric (date is YYYY-MM-DD)
+export interface DailyPoint {
+  date: string;
+  value: number;
+}
+
+export interface AnomalyDetectionOptions {
+  // Robust z-score from which a day is flagged; 3.5 is the usual cut-off for MAD-based scores
+  threshold?: number;
+  // Shorter series are not analyzed
+  minPoints?: number;
+  // Days on each side that make up a day's local level
+  window?: number;
+}
+
+// Metrics analyzed for the dashboard and the assistant unless others are given
+export const DEFAULT_ANOMALY_METRICS = ["activeUsers", "sessions", "screenPageViews", "bounceRate"];
+
+const DEFAULT_OPTIONS: Required<AnomalyDetectionOptions> = { threshold: 3.5, minPoints: 14, window: 7 };
+
+// Scores from this far out are high severity
+const HIGH_SEVERITY_SCORE = 5;
+
+// Scale a median (or mean) absolute deviation to a standard deviation for normally distributed data
+const MAD_TO_SD = 1.4826;
+const MEAN_AD_TO_SD = 1.2533;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily values of a metric from a report with a `date` dimension, rows of the same day combined as
+ * the metric registry declares. Days without rows count as zero for count metrics and are left out
+ * for rates and averages.
+ */
+export function buildDailySeries(data: AnalyticsData, metric: string): DailyPoint[] {
+  const dateIndex = data.dimensionHeaders.findIndex((header) => header.name === "date");
+  if (dateIndex < 0 || !data.metricHeaders.some((header) => header.name === metric)) return [];
+
+  const samplesByDate = new Map<string, MetricSample[]>();
+  data.rows.forEach((row) => {
+    const date = toIsoDate(row.dimensionValues[dateIndex]?.value ?? "");
+    if (!date) return;
+    samplesByDate.set(date, [...(samplesByDate.get(date) ?? []), toMetricSample(data.metricHeaders, row.metricValues)]);
+  });
+
+  const points: DailyPoint[] = [];
+  samplesByDate.forEach((samples, date) => {
+    const value = aggregateMetric(metric, samples);
+    if (value !== undefined) points.push({ date, value });
+  });
+  points.sort((a, b) => a.date.localeCompare(b.date));
+
+  return getMetricDefinition(metric).aggregation === "sum" ? fillMissingDays(points) : points;
+}
+
+/**
+ * Flag unusual days of a daily series (sorted by date). Weekday effects are estimated when every
+ * weekday occurs at least twice; series shorter than `minPoints` return no anomalies.
+ */
+export function detectAnomalies(
+  points: DailyPoint[],
+  options: AnomalyDetectionOptions = {},
+): { seasonal: boolean; anomalies: MetricAnomaly[] } {
+  const { threshold, minPoints, window } = { ...DEFAULT_OPTIONS, ...options };
+  if (points.length < minPoints) return { seasonal: false, anomalies: [] };
+
+  const values = points.map((point) => point.value);
+  const weekdays = points.map((point) => new Date(`${point.date}T00:00:00Z`).getUTCDay());
+
+  // Weekday effect: how far that weekday's days typically sit from the series median
+  const overall = median(values);
+  const deviationsByWeekday = new Map<number, number[]>();
+  values.forEach((value, i) => {
+    const weekday = weekdays[i] ?? 0;
+    deviationsByWeekday.set(weekday, [...(deviationsByWeekday.get(weekday) ?? []), value - overall]);
+  });
+  const seasonal = deviationsByWeekday.size === 7
+    && Array.from(deviationsByWeekday.values()).every((deviations) => deviations.length >= 2);
+  const effects = new Map<number, number>();
+  if (seasonal) deviationsByWeekday.forEach((deviations, weekday) => effects.set(weekday, median(deviations)));
+  const effectOf = (i: number) => effects.get(weekdays[i] ?? 0) ?? 0;
+
+  // Local level from the neighbouring days, leaving the day itself out
+  const adjusted = values.map((value, i) => value - effectOf(i));
+  const levels = adjusted.map((_, i) => median([
+    ...adjusted.slice(Math.max(0, i - window), i),
+    ...adjusted.slice(i + 1, i + 1 + window),
+  ]));
+  const residuals = adjusted.map((value, i) => value - (levels[i] ?? 0));
+
+  // Robust spread of the residuals; the mean absolute deviation covers series where most days match exactly
+  const center = median(residuals);
+  const absoluteDeviations = residuals.map((residual) => Math.abs(residual - center));
+  let scale = MAD_TO_SD * median(absoluteDeviations);
+  if (scale === 0) scale = MEAN_AD_TO_SD * mean(absoluteDeviations);
+  if (scale === 0) return { seasonal, anomalies: [] };
+
+  const anomalies: MetricAnomaly[] = [];
+  points.forEach((point, i) => {
+    const score = ((residuals[i] ?? 0) - center) / scale;
+    if (Math.abs(score) < threshold) return;
+    const expected = (levels[i] ?? 0) + effectOf(i) + center;
+    anomalies.push({
+      date: point.date,
+      value: point.value,
+      expected: Math.max(0, expected),
+      lower: Math.max(0, expected - threshold * scale),
+      upper: expected + threshold * scale,
+      score,
+      direction: score > 0 ? "spike" : "drop",
+      severity: Math.abs(score) >= HIGH_SEVERITY_SCORE ? "high" : "medium",
+    });
+  });
+  return { seasonal, anomalies };
+}
+
+/**
+ * Anomaly reports of several metrics of one property's report; metrics the report lacks are left out
+ */
+export function detectMetricAnomalies(
+  data: AnalyticsData,
+  metrics: string[] = DEFAULT_ANOMALY_METRICS,
+  options: AnomalyDetectionOptions = {},
+): MetricAnomalyReport[] {
+  return metrics
+    .filter((metric) => data.metricHeaders.some((header) => header.name === metric))
+    .map((metric) => {
+      const points = buildDailySeries(data, metric);
+      return { metric, pointsAnalyzed: points.length, ...detectAnomalies(points, options) };
+    });
+}
+
+/**
+ * One-line description, e.g. "Sessions on 2024-03-05: 2,400, expected 1,000–1,500 (spike)"
+ */
+export function describeAnomaly(metric: string, anomaly: MetricAnomaly, currencyCode?: string): string {
+  const info = getMetricInfo(metric);
+  const format = (value: number) => formatMetricValue(metric, info.format === "number" ? Math.round(value) : value, currencyCode);
+  return `${info.label} on ${anomaly.date}: ${format(anomaly.value)}, expected ${format(anomaly.lower)}–${format(anomaly.upper)} (${anomaly.direction})`;
+}
+
+// Private helpers
+
+// GA dates are YYYYMMDD; YYYY-MM-DD is passed through
+function toIsoDate(value: string): string | null {
+  if (/^\d{8}$/.test(value)) return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+function fillMissingDays(points: DailyPoint[]): DailyPoint[] {
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) return points;
+
+  const byDate = new Map(points.map((point) => [point.date, point.value]));
+  const filled: DailyPoint[] = [];
+  const end = Date.parse(`${last.date}T00:00:00Z`);
+  for (let day = Date.parse(`${first.date}T00:00:00Z`); day <= end; day += DAY_MS) {
+    const date = new Date(day).toISOString().slice(0, 10);
+    filled.push({ date, value: byDate.get(date) ?? 0 });
+  }
+  return filled;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? (sorted[middle] ?? 0)
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
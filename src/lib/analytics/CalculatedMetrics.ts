@@ -0,0 +1,317 @@
+// Calculated metrics
+// User-defined metrics computed from base metrics with a small arithmetic language: numbers, metric
+// names, + - * /, parentheses and organic(metric) for a metric's Organic Search part. Expressions are
+// parsed into a tree and evaluated without eval, so a stored definition can only do arithmetic.
+
+import { aggregateMetric, getMetricDefinition, type MetricSample } from "./MetricRegistry";
+import type { CalculatedMetricAggregation, CalculatedMetricDefinition } from "~/types/analytics";
+
+export const CALCULATED_METRIC_PREFIX = "calc:";
+export const MAX_CALCULATED_METRICS = 10;
+export const MAX_EXPRESSION_LENGTH = 200;
+// GA4 returns at most this many metrics per report
+export const MAX_REPORT_METRICS = 10;
+
+const CALCULATED_METRIC_FORMATS: CalculatedMetricDefinition["format"][] = ["number", "decimal", "percent", "duration", "currency"];
+const CALCULATED_METRIC_AGGREGATIONS: CalculatedMetricAggregation[] = ["recompute", "sum", "sessionWeighted", "userWeighted"];
+const ID_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+// Metric API names, including custom ones such as customEvent:video_seconds
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*(:[A-Za-z0-9_]+)?/;
+const NUMBER = /^(\d+(\.\d*)?|\.\d+)/;
+
+// Ready-made definitions users can add with one click
+export const CALCULATED_METRIC_PRESETS: CalculatedMetricDefinition[] = [
+  { id: "pagesPerSession", label: "Pages / Session", expression: "screenPageViews / sessions", format: "decimal", aggregation: "recompute" },
+  { id: "newUserShare", label: "New User Share", expression: "newUsers / activeUsers * 100", format: "percent", aggregation: "recompute" },
+  { id: "revenuePerUser", label: "Revenue / User", expression: "purchaseRevenue / activeUsers", format: "currency", aggregation: "recompute" },
+  { id: "organicSessionShare", label: "Organic Share of Sessions", expression: "organic(sessions) / sessions * 100", format: "percent", aggregation: "recompute" },
+];
+
+export class CalculatedMetricError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalculatedMetricError";
+  }
+}
+
+type ExpressionNode =
+  | { type: "number"; value: number }
+  // `key` is the sample key: the metric name, or organic(name) for its Organic Search part
+  | { type: "metric"; key: string; name: string; organic: boolean }
+  | { type: "negate"; operand: ExpressionNode }
+  | { type: "binary"; operator: "+" | "-" | "*" | "/"; left: ExpressionNode; right: ExpressionNode };
+
+export interface CalculatedMetric {
+  definition: CalculatedMetricDefinition;
+  // Name the metric is selected by, e.g. "calc:pagesPerSession"
+  name: string;
+  // Base metrics the expression reads directly and through organic()
+  baseMetrics: string[];
+  organicMetrics: string[];
+  // Undefined when a base metric is missing or a division is by zero
+  evaluate(sample: MetricSample): number | undefined;
+}
+
+export function getCalculatedMetricName(id: string): string {
+  return `${CALCULATED_METRIC_PREFIX}${id}`;
+}
+
+export function isCalculatedMetricName(name: string): boolean {
+  return name.startsWith(CALCULATED_METRIC_PREFIX);
+}
+
+/**
+ * Sample key of a metric's Organic Search part, filled from the data route's organicTotals
+ */
+export function organicMetricKey(name: string): string {
+  return `organic(${name})`;
+}
+
+/**
+ * Parse and check a definition. Throws CalculatedMetricError with a message fit for the user.
+ */
+export function compileCalculatedMetric(definition: CalculatedMetricDefinition): CalculatedMetric {
+  const root = parseExpression(definition.expression);
+  const metrics = collectMetrics(root);
+  return {
+    definition,
+    name: getCalculatedMetricName(definition.id),
+    baseMetrics: Array.from(new Set(metrics.filter((m) => !m.organic).map((m) => m.name))),
+    organicMetrics: Array.from(new Set(metrics.filter((m) => m.organic).map((m) => m.name))),
+    evaluate: (sample) => {
+      const value = evaluateNode(root, sample);
+      return value !== undefined && Number.isFinite(value) ? value : undefined;
+    },
+  };
+}
+
+/**
+ * Validate untrusted definitions (request bodies, browser storage). Throws CalculatedMetricError.
+ */
+export function parseCalculatedMetricDefinitions(value: unknown): CalculatedMetricDefinition[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new CalculatedMetricError("Calculated metrics must be a list");
+  if (value.length > MAX_CALCULATED_METRICS) {
+    throw new CalculatedMetricError(`At most ${MAX_CALCULATED_METRICS} calculated metrics are allowed`);
+  }
+
+  const ids = new Set<string>();
+  return value.map((item: unknown) => {
+    const raw = (item ?? {}) as Record<string, unknown>;
+    const id = typeof raw.id === "string" ? raw.id : "";
+    if (!ID_PATTERN.test(id)) {
+      throw new CalculatedMetricError(`Invalid calculated metric id "${id}": use letters, digits and underscores`);
+    }
+    if (ids.has(id)) throw new CalculatedMetricError(`Duplicate calculated metric id "${id}"`);
+    ids.add(id);
+
+    const format = CALCULATED_METRIC_FORMATS.find((f) => f === raw.format) ?? "decimal";
+    const aggregation = CALCULATED_METRIC_AGGREGATIONS.find((a) => a === raw.aggregation) ?? "recompute";
+    const definition: CalculatedMetricDefinition = {
+      id,
+      label: typeof raw.label === "string" && raw.label.trim() ? raw.label.trim().slice(0, 60) : id,
+      expression: typeof raw.expression === "string" ? raw.expression : "",
+      format,
+      aggregation,
+    };
+    compileCalculatedMetric(definition);
+    return definition;
+  });
+}
+
+/**
+ * Metrics to request for these calculated metrics: `baseMetrics` first, then the calculated metrics'
+ * base metrics, and the metrics whose Organic Search part they read. Both lists stay within GA's
+ * per-report limit; calculated metrics whose parts did not fit evaluate to undefined.
+ */
+export function getRequiredMetrics(
+  metrics: CalculatedMetric[],
+  baseMetrics: string[] = [],
+): { metrics: string[]; organicMetrics: string[] } {
+  return {
+    metrics: Array.from(new Set([...baseMetrics, ...metrics.flatMap((m) => m.baseMetrics)])).slice(0, MAX_REPORT_METRICS),
+    organicMetrics: Array.from(new Set(metrics.flatMap((m) => m.organicMetrics))).slice(0, MAX_REPORT_METRICS),
+  };
+}
+
+/**
+ * Sample holding Organic Search totals (the data route's organicTotals) under their organic() keys,
+ * to be combined with a report's rows
+ */
+export function toOrganicSample(organicTotals: Record<string, number> | undefined): MetricSample {
+  return Object.fromEntries(Object.entries(organicTotals ?? {}).map(([name, value]) => [organicMetricKey(name), value]));
+}
+
+/**
+ * Add the calculated metrics' values to a sample, leaving out those that cannot be computed
+ */
+export function addCalculatedValues(sample: MetricSample, metrics: CalculatedMetric[]): MetricSample {
+  const result = { ...sample };
+  for (const metric of metrics) {
+    const value = metric.evaluate(sample);
+    if (value !== undefined) result[metric.name] = value;
+  }
+  return result;
+}
+
+/**
+ * Combine a calculated metric across properties or rows following its aggregation rule
+ */
+export function aggregateCalculatedMetric(metric: CalculatedMetric, samples: MetricSample[]): number | undefined {
+  if (metric.definition.aggregation === "recompute") {
+    const combined: MetricSample = {};
+    const keys = [
+      ...metric.baseMetrics.map((name) => ({ key: name, name })),
+      ...metric.organicMetrics.map((name) => ({ key: organicMetricKey(name), name })),
+    ];
+    for (const { key, name } of keys) {
+      // Organic parts combine like the metric they are part of
+      const value = aggregateMetric(key, samples, getMetricDefinition(name));
+      if (value !== undefined) combined[key] = value;
+    }
+    return metric.evaluate(combined);
+  }
+
+  const withValues = samples.map((sample) => addCalculatedValues(sample, [metric]));
+  return aggregateMetric(metric.name, withValues, { aggregation: metric.definition.aggregation });
+}
+
+// Private helpers
+
+type Token = { type: "number"; value: number } | { type: "identifier"; value: string } | { type: "symbol"; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let rest = expression.trim();
+  while (rest.length > 0) {
+    const number = NUMBER.exec(rest);
+    const identifier = number ? null : IDENTIFIER.exec(rest);
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]) });
+      rest = rest.slice(number[0].length);
+    } else if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0] });
+      rest = rest.slice(identifier[0].length);
+    } else if ("+-*/()".includes(rest.charAt(0))) {
+      tokens.push({ type: "symbol", value: rest.charAt(0) });
+      rest = rest.slice(1);
+    } else {
+      throw new CalculatedMetricError(`Unexpected "${rest.charAt(0)}" in expression`);
+    }
+    rest = rest.trimStart();
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent over: expression = term (("+" | "-") term)*; term = factor (("*" | "/") factor)*;
+ * factor = "-" factor | number | metric | "organic(" metric ")" | "(" expression ")"
+ */
+function parseExpression(expression: string): ExpressionNode {
+  if (!expression.trim()) throw new CalculatedMetricError("Expression is empty");
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new CalculatedMetricError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(expression);
+  let position = 0;
+  const peek = () => tokens[position];
+  const expectSymbol = (symbol: string) => {
+    const token = tokens[position];
+    if (token?.type !== "symbol" || token.value !== symbol) {
+      throw new CalculatedMetricError(`Expected "${symbol}" in expression`);
+    }
+    position++;
+  };
+
+  const parseMetric = (name: string, organic: boolean): ExpressionNode => {
+    if (isCalculatedMetricName(name)) {
+      throw new CalculatedMetricError(`Calculated metrics cannot use other calculated metrics (${name})`);
+    }
+    // Names such as "constructor" or "__proto__" would read inherited properties of a sample
+    if (name in Object.prototype) throw new CalculatedMetricError(`"${name}" is not a metric name`);
+    return { type: "metric", key: organic ? organicMetricKey(name) : name, name, organic };
+  };
+
+  const parseFactor = (): ExpressionNode => {
+    const token = peek();
+    if (!token) throw new CalculatedMetricError("Expression ends unexpectedly");
+    position++;
+
+    if (token.type === "number") return { type: "number", value: token.value };
+    if (token.type === "identifier") {
+      const next = peek();
+      if (next?.type !== "symbol" || next.value !== "(") return parseMetric(token.value, false);
+      if (token.value !== "organic") throw new CalculatedMetricError(`Unknown function "${token.value}"`);
+      expectSymbol("(");
+      const argument = peek();
+      if (argument?.type !== "identifier") throw new CalculatedMetricError("organic() takes a metric name");
+      position++;
+      expectSymbol(")");
+      return parseMetric(argument.value, true);
+    }
+    if (token.value === "-") return { type: "negate", operand: parseFactor() };
+    if (token.value === "(") {
+      const inner = parseSum();
+      expectSymbol(")");
+      return inner;
+    }
+    throw new CalculatedMetricError(`Unexpected "${token.value}" in expression`);
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseFactor();
+    for (let token = peek(); token?.type === "symbol" && (token.value === "*" || token.value === "/"); token = peek()) {
+      position++;
+      node = { type: "binary", operator: token.value, left: node, right: parseFactor() };
+    }
+    return node;
+  };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    for (let token = peek(); token?.type === "symbol" && (token.value === "+" || token.value === "-"); token = peek()) {
+      position++;
+      node = { type: "binary", operator: token.value, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const root = parseSum();
+  if (position < tokens.length) {
+    throw new CalculatedMetricError(`Unexpected "${String(tokens[position]?.value)}" in expression`);
+  }
+  if (collectMetrics(root).length === 0) throw new CalculatedMetricError("Expression uses no metrics");
+  return root;
+}
+
+function collectMetrics(node: ExpressionNode): Array<{ name: string; organic: boolean }> {
+  switch (node.type) {
+    case "number": return [];
+    case "metric": return [{ name: node.name, organic: node.organic }];
+    case "negate": return collectMetrics(node.operand);
+    case "binary": return [...collectMetrics(node.left), ...collectMetrics(node.right)];
+  }
+}
+
+function evaluateNode(node: ExpressionNode, sample: MetricSample): number | undefined {
+  switch (node.type) {
+    case "number": return node.value;
+    case "metric": return Object.hasOwn(sample, node.key) ? sample[node.key] : undefined;
+    case "negate": {
+      const value = evaluateNode(node.operand, sample);
+      return value === undefined ? undefined : -value;
+    }
+    case "binary": {
+      const left = evaluateNode(node.left, sample);
+      const right = evaluateNode(node.right, sample);
+      if (left === undefined || right === undefined) return undefined;
+      switch (node.operator) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/": return right === 0 ? undefined : left / right;
+      }
+    }
+  }
+}
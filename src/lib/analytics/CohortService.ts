@@ -0,0 +1,146 @@
+// Cohort retention service
+// Groups users into weekly or monthly cohorts by first session date and turns GA4 cohort reports
+// into a retention triangle: per cohort, the share of its users active in each following period.
+
+import { googleAnalyticsService } from "~/lib/google-analytics";
+import { addDays, getToday, DEFAULT_TIME_ZONE } from "./DateRangeResolver";
+import type { FilterExpression } from "./FilterExpression";
+import type {
+  AnalyticsData,
+  CohortGranularity,
+  CohortReportData,
+  CohortRetentionRow,
+  NamedDateRange,
+} from "~/types/analytics";
+
+// Upper bound on cohorts per report, keeping the triangle readable and the report small
+export const MAX_COHORTS = 12;
+
+export const DEFAULT_COHORT_COUNTS: Record<CohortGranularity, number> = {
+  weekly: 8,
+  monthly: 6,
+};
+
+export interface CohortOptions {
+  // Number of cohorts, oldest first; defaults to DEFAULT_COHORT_COUNTS
+  cohortCount?: number;
+  // Property time zone, used to decide which periods have completed
+  timeZone?: string;
+  dimensionFilter?: FilterExpression;
+  now?: Date;
+}
+
+export class CohortService {
+  /**
+   * Retention triangle for the most recent completed weeks (Sunday to Saturday) or calendar months
+   */
+  async getRetention(
+    accessToken: string,
+    propertyId: string,
+    granularity: CohortGranularity,
+    options: CohortOptions = {},
+  ): Promise<CohortReportData> {
+    const count = options.cohortCount ?? DEFAULT_COHORT_COUNTS[granularity];
+    const cohorts = this.buildCohorts(granularity, count, getToday(options.timeZone ?? DEFAULT_TIME_ZONE, options.now));
+
+    const table = await googleAnalyticsService.runCohortReport(accessToken, propertyId, {
+      cohorts,
+      granularity,
+      endOffset: cohorts.length - 1,
+      dimensionFilter: options.dimensionFilter,
+    });
+    return this.buildReport(granularity, cohorts, table);
+  }
+
+  /**
+   * The `count` completed weeks or months before `today`, oldest first, named after their first day
+   */
+  buildCohorts(granularity: CohortGranularity, count: number, today: string): NamedDateRange[] {
+    if (!Number.isInteger(count) || count < 1 || count > MAX_COHORTS) {
+      throw new Error(`Cohort count must be between 1 and ${MAX_COHORTS}`);
+    }
+
+    return Array.from({ length: count }, (_, i) => {
+      const periodsBack = count - i;
+      if (granularity === "weekly") {
+        const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+        const endDate = addDays(today, -(weekday + 1) - 7 * (periodsBack - 1));
+        const startDate = addDays(endDate, -6);
+        return { name: startDate, startDate, endDate };
+      }
+      const startDate = this.getMonthStart(today, -periodsBack);
+      const endDate = addDays(this.getMonthStart(today, -periodsBack + 1), -1);
+      return { name: startDate, startDate, endDate };
+    });
+  }
+
+  /**
+   * Build the retention triangle from a cohort report over `cohorts` (oldest first).
+   * Cohort i can only have completed periods 0..(cohorts.length - 1 - i).
+   */
+  buildReport(granularity: CohortGranularity, cohorts: NamedDateRange[], table: AnalyticsData): CohortReportData {
+    const activeIndex = table.metricHeaders.findIndex((h) => h.name === "cohortActiveUsers");
+    const totalIndex = table.metricHeaders.findIndex((h) => h.name === "cohortTotalUsers");
+    if (activeIndex < 0) {
+      throw new Error("Cohort report returned no cohortActiveUsers metric");
+    }
+
+    const activeByCohort = new Map<string, Map<number, number>>();
+    const usersByCohort = new Map<string, number>();
+    for (const row of table.rows) {
+      const name = row.dimensionValues[0]?.value ?? "";
+      const period = Number(row.dimensionValues[1]?.value ?? NaN);
+      if (!Number.isInteger(period)) continue;
+
+      const active = activeByCohort.get(name) ?? new Map<number, number>();
+      active.set(period, Number(row.metricValues[activeIndex]?.value ?? 0));
+      activeByCohort.set(name, active);
+      if (totalIndex >= 0) {
+        const total = Number(row.metricValues[totalIndex]?.value ?? 0);
+        usersByCohort.set(name, Math.max(usersByCohort.get(name) ?? 0, total));
+      }
+    }
+
+    const periods = cohorts.length - 1;
+    const rows: CohortRetentionRow[] = cohorts.map((cohort, i) => {
+      const active = activeByCohort.get(cohort.name);
+      // Without cohortTotalUsers the cohort size is its activity in the first period
+      const users = usersByCohort.get(cohort.name) ?? active?.get(0) ?? 0;
+      const activeUsers = Array.from({ length: periods + 1 }, (_, n) =>
+        n <= periods - i ? (active?.get(n) ?? 0) : null,
+      );
+      return {
+        ...cohort,
+        users,
+        activeUsers,
+        retention: activeUsers.map((value) => (value === null ? null : this.percent(value, users))),
+      };
+    });
+
+    const averageRetention = Array.from({ length: periods + 1 }, (_, n) => {
+      const reached = rows.filter((row) => row.activeUsers[n] !== null);
+      if (reached.length === 0) return null;
+      const active = reached.reduce((sum, row) => sum + (row.activeUsers[n] ?? 0), 0);
+      const users = reached.reduce((sum, row) => sum + row.users, 0);
+      return this.percent(active, users);
+    });
+
+    return { granularity, periods, cohorts: rows, averageRetention };
+  }
+
+  // Private helper methods
+
+  private getMonthStart(isoDate: string, monthOffset: number): string {
+    const [year = 0, month = 1] = isoDate.split("-").map(Number);
+    const index = year * 12 + (month - 1) + monthOffset;
+    const startMonth = String((index % 12) + 1).padStart(2, "0");
+    return `${Math.floor(index / 12)}-${startMonth}-01`;
+  }
+
+  private percent(value: number, total: number): number {
+    return total > 0 ? (value / total) * 100 : 0;
+  }
+}
+
+// Singleton instance
+export const cohortService = new CohortService();
@@ -0,0 +1,139 @@
+// Currency conversion
+// Converts monetary values between ISO 4217 currencies using a local exchange-rate table, so revenue
+// of properties with different currencies can be summed. No live FX service is used: the bundled table
+// (exchange-rates.json) can be replaced with EXCHANGE_RATES_FILE, and totals are reported in REPORTING_CURRENCY.
+
+import { readFileSync } from "node:fs";
+import { env } from "~/env.js";
+import { logger } from "~/lib/logger";
+import type { MonetaryValue } from "~/types/analytics";
+import bundledRates from "./exchange-rates.json";
+
+export interface ExchangeRateTable {
+  // Currency the rates are quoted against
+  base: string;
+  // Date the rates were taken (YYYY-MM-DD)
+  date: string;
+  // Units of each currency per one unit of the base currency
+  rates: Record<string, number>;
+}
+
+export interface CurrencyConverterOptions {
+  // Defaults to the table at EXCHANGE_RATES_FILE, or the bundled table
+  table?: ExchangeRateTable;
+  // Defaults to REPORTING_CURRENCY
+  reportingCurrency?: string;
+}
+
+export class CurrencyConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CurrencyConversionError";
+  }
+}
+
+export const DEFAULT_REPORTING_CURRENCY = "USD";
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Whether a value is a three-letter ISO 4217 currency code
+ */
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === "string" && CURRENCY_CODE.test(value);
+}
+
+/**
+ * Validate a parsed exchange-rate table
+ */
+export function parseExchangeRates(raw: unknown): ExchangeRateTable {
+  const table = raw as Partial<ExchangeRateTable> | null;
+  if (!table || typeof table !== "object" || !isCurrencyCode(table.base)) {
+    throw new CurrencyConversionError("Exchange-rate table needs a three-letter base currency");
+  }
+  if (!table.rates || typeof table.rates !== "object") {
+    throw new CurrencyConversionError("Exchange-rate table needs a rates object");
+  }
+
+  const invalid = Object.entries(table.rates).filter(
+    ([code, rate]) => !isCurrencyCode(code) || typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0,
+  );
+  if (invalid.length > 0) {
+    throw new CurrencyConversionError(`Invalid exchange rates: ${invalid.map(([code]) => code).join(", ")}`);
+  }
+
+  return { base: table.base, date: typeof table.date === "string" ? table.date : "", rates: table.rates };
+}
+
+export class CurrencyConverter {
+  private table: ExchangeRateTable | null;
+  private readonly reportingCurrency: string | undefined;
+
+  constructor(options: CurrencyConverterOptions = {}) {
+    this.table = options.table ?? null;
+    this.reportingCurrency = options.reportingCurrency;
+  }
+
+  /**
+   * Currency that cross-property totals are reported in
+   */
+  getReportingCurrency(): string {
+    return this.reportingCurrency ?? env.REPORTING_CURRENCY ?? DEFAULT_REPORTING_CURRENCY;
+  }
+
+  /**
+   * The exchange-rate table in use, loaded on first use
+   */
+  getRateTable(): ExchangeRateTable {
+    this.table ??= this.loadRateTable();
+    return this.table;
+  }
+
+  canConvert(from: string, to: string = this.getReportingCurrency()): boolean {
+    return from === to || (this.getRate(from) !== undefined && this.getRate(to) !== undefined);
+  }
+
+  /**
+   * Convert an amount between currencies. Throws CurrencyConversionError for currencies without a rate.
+   */
+  convert(amount: number, from: string, to: string = this.getReportingCurrency()): number {
+    if (from === to) return amount;
+
+    const fromRate = this.getRate(from);
+    const toRate = this.getRate(to);
+    if (fromRate === undefined || toRate === undefined) {
+      throw new CurrencyConversionError(`No exchange rate for ${fromRate === undefined ? from : to}`);
+    }
+    return (amount / fromRate) * toRate;
+  }
+
+  /**
+   * Convert an amount into the reporting currency, keeping its currency code with it
+   */
+  toReportingCurrency(amount: number, currencyCode: string): MonetaryValue {
+    const reportingCurrency = this.getReportingCurrency();
+    return { amount: this.convert(amount, currencyCode, reportingCurrency), currencyCode: reportingCurrency };
+  }
+
+  // Private helper methods
+
+  private getRate(currencyCode: string): number | undefined {
+    const table = this.getRateTable();
+    return currencyCode === table.base ? 1 : table.rates[currencyCode];
+  }
+
+  private loadRateTable(): ExchangeRateTable {
+    const filePath = env.EXCHANGE_RATES_FILE;
+    if (filePath) {
+      try {
+        return parseExchangeRates(JSON.parse(readFileSync(filePath, "utf8")));
+      } catch (error) {
+        logger.warn(`[currency] Using bundled exchange rates, ${filePath} is unreadable:`, error);
+      }
+    }
+    return parseExchangeRates(bundledRates);
+  }
+}
+
+// Singleton instance
+export const currencyConverter = new CurrencyConverter();
@@ -0,0 +1,171 @@
+// Date range resolution
+// Validates GA date values (YYYY-MM-DD, today, yesterday, NdaysAgo), converts relative keywords
+// to concrete dates in a property's time zone and derives comparison ranges
+
+import type { DateRange } from "~/types/chat";
+
+export type CompareMode = "previous_period" | "previous_year" | "custom";
+
+export const COMPARE_MODES: CompareMode[] = ["previous_period", "previous_year", "custom"];
+
+// GA resolves relative dates in the property's time zone; UTC is used when it is unknown
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export const DEFAULT_DATE_RANGE: DateRange = { startDate: "7daysAgo", endDate: "today" };
+
+export class DateRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DateRangeError";
+  }
+}
+
+export interface CompareRangeOptions {
+  timeZone?: string;
+  // Required for mode "custom"
+  customRange?: Partial<DateRange>;
+  now?: Date;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAYS_AGO = /^(\d+)daysAgo$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Previous year shifted by whole weeks so weekdays line up
+const DAYS_PER_ALIGNED_YEAR = 364;
+
+/**
+ * Whether a value is a date GA accepts in a date range
+ */
+export function isValidDateValue(value: string): boolean {
+  if (value === "today" || value === "yesterday" || DAYS_AGO.test(value)) return true;
+  return ISO_DATE.test(value) && parseIsoDate(value) !== null;
+}
+
+export function isCompareMode(value: unknown): value is CompareMode {
+  return typeof value === "string" && (COMPARE_MODES as string[]).includes(value);
+}
+
+/**
+ * Build a validated date range from optional request values, keeping relative keywords as-is.
+ * Missing values fall back to `fallback`; invalid values or a start after the end throw DateRangeError.
+ */
+export function parseDateRange(
+  startDate: string | null | undefined,
+  endDate: string | null | undefined,
+  fallback: DateRange = DEFAULT_DATE_RANGE,
+): DateRange {
+  const range = {
+    startDate: startDate ?? fallback.startDate,
+    endDate: endDate ?? fallback.endDate,
+  };
+
+  for (const value of [range.startDate, range.endDate]) {
+    if (!isValidDateValue(value)) {
+      throw new DateRangeError(`Invalid date "${value}". Use YYYY-MM-DD or relative dates like "today", "yesterday" or "7daysAgo"`);
+    }
+  }
+
+  const resolved = resolveDateRange(range);
+  if (resolved.startDate > resolved.endDate) {
+    throw new DateRangeError(`startDate ${range.startDate} is after endDate ${range.endDate}`);
+  }
+
+  return range;
+}
+
+/**
+ * Today's calendar date (YYYY-MM-DD) in a time zone
+ */
+export function getToday(timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string {
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(now);
+  } catch {
+    throw new DateRangeError(`Unknown time zone "${timeZone}"`);
+  }
+}
+
+/**
+ * Convert a GA date value to a concrete YYYY-MM-DD date in the given time zone
+ */
+export function resolveDate(value: string, timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): string {
+  if (ISO_DATE.test(value)) {
+    if (!parseIsoDate(value)) throw new DateRangeError(`Invalid date "${value}"`);
+    return value;
+  }
+
+  const today = getToday(timeZone, now);
+  if (value === "today") return today;
+  if (value === "yesterday") return addDays(today, -1);
+
+  const daysAgo = DAYS_AGO.exec(value);
+  if (daysAgo?.[1]) return addDays(today, -Number(daysAgo[1]));
+
+  throw new DateRangeError(`Invalid date "${value}"`);
+}
+
+export function resolveDateRange(range: DateRange, timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): DateRange {
+  return {
+    startDate: resolveDate(range.startDate, timeZone, now),
+    endDate: resolveDate(range.endDate, timeZone, now),
+  };
+}
+
+/**
+ * Resolve the range to compare against: the equally long period right before it, the same
+ * weekdays one year earlier (52 weeks back), or an explicit custom range
+ */
+export function resolveCompareRange(
+  range: DateRange,
+  mode: CompareMode,
+  options: CompareRangeOptions = {},
+): DateRange {
+  const { timeZone = DEFAULT_TIME_ZONE, now = new Date() } = options;
+
+  if (mode === "custom") {
+    const { startDate, endDate } = options.customRange ?? {};
+    if (!startDate || !endDate) {
+      throw new DateRangeError("A custom comparison needs compareStartDate and compareEndDate");
+    }
+    return resolveDateRange(parseDateRange(startDate, endDate), timeZone, now);
+  }
+
+  const current = resolveDateRange(range, timeZone, now);
+  if (mode === "previous_year") {
+    return {
+      startDate: addDays(current.startDate, -DAYS_PER_ALIGNED_YEAR),
+      endDate: addDays(current.endDate, -DAYS_PER_ALIGNED_YEAR),
+    };
+  }
+
+  const length = getRangeLengthDays(current);
+  const endDate = addDays(current.startDate, -1);
+  return { startDate: addDays(endDate, -(length - 1)), endDate };
+}
+
+/**
+ * Number of days in a concrete range, both ends included
+ */
+export function getRangeLengthDays(range: DateRange): number {
+  const start = parseIsoDate(range.startDate);
+  const end = parseIsoDate(range.endDate);
+  if (!start || !end) throw new DateRangeError(`Range ${range.startDate} to ${range.endDate} is not resolved`);
+  return Math.max(1, Math.round((end.getTime() - start.getTime()) / MS_PER_DAY) + 1);
+}
+
+// Calendar arithmetic runs on UTC midnights so DST shifts never move a date
+
+function parseIsoDate(value: string): Date | null {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) return null;
+  return date;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of calendar days
+ */
+export function addDays(isoDate: string, days: number): string {
+  const date = parseIsoDate(isoDate);
+  if (!date) throw new DateRangeError(`Invalid date "${isoDate}"`);
+  return new Date(date.getTime() + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
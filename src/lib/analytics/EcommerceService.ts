@@ -0,0 +1,151 @@
+// Ecommerce reporting service
+// Fetches purchase revenue, transactions and item-level reports for a property and derives
+// the ecommerce conversion rate (transactions per session) and average order value.
+
+import { googleAnalyticsService } from "~/lib/google-analytics";
+import { currencyConverter } from "./CurrencyConverter";
+import type { FilterExpression } from "./FilterExpression";
+import type {
+  AnalyticsData,
+  EcommerceDailyPoint,
+  EcommerceItem,
+  EcommerceReportData,
+  EcommerceSummary,
+} from "~/types/analytics";
+import type { DateRange } from "~/types/chat";
+
+// Event-scoped metrics summed per day; sessions is the conversion rate denominator
+export const ECOMMERCE_METRICS = ["purchaseRevenue", "transactions", "itemsPurchased", "sessions"];
+
+// Item-scoped metrics. GA does not combine these with event-scoped metrics, so items are a separate report.
+export const ITEM_METRICS = ["itemRevenue", "itemsPurchased", "itemsViewed"];
+
+export const DEFAULT_ITEM_LIMIT = 50;
+
+export interface EcommerceOptions {
+  itemLimit?: number;
+  dimensionFilter?: FilterExpression;
+  // The property's currency; amounts are labelled with it, or converted when targetCurrency differs
+  currencyCode?: string;
+  targetCurrency?: string;
+}
+
+export class EcommerceService {
+  /**
+   * Revenue summary, daily revenue and top items of a property, fetched in one batch
+   */
+  async getEcommerce(
+    accessToken: string,
+    propertyId: string,
+    dateRange: DateRange,
+    options: EcommerceOptions = {},
+  ): Promise<EcommerceReportData> {
+    const [daily, items] = await googleAnalyticsService.batchRunReports(accessToken, propertyId, [
+      {
+        ...dateRange,
+        dimensions: ["date"],
+        metrics: ECOMMERCE_METRICS,
+        dimensionFilter: options.dimensionFilter,
+        orderBys: [{ dimension: { dimensionName: "date" } }],
+      },
+      {
+        ...dateRange,
+        dimensions: ["itemName", "itemCategory"],
+        metrics: ITEM_METRICS,
+        dimensionFilter: options.dimensionFilter,
+        orderBys: [{ metric: { metricName: "itemRevenue" }, desc: true }],
+        limit: options.itemLimit ?? DEFAULT_ITEM_LIMIT,
+      },
+    ]);
+
+    const report: EcommerceReportData = {
+      summary: this.getSummary(daily) ?? this.buildSummary(0, 0, 0, 0),
+      daily: this.getDailyPoints(daily),
+      items: this.getItems(items),
+      itemCount: items?.rowCount ?? 0,
+      currencyCode: options.currencyCode,
+    };
+
+    const { currencyCode, targetCurrency } = options;
+    return currencyCode && targetCurrency && targetCurrency !== currencyCode
+      ? this.convertReport(report, currencyCode, targetCurrency)
+      : report;
+  }
+
+  /**
+   * Sum the ecommerce metrics of a report's rows, by header name. Returns null when the report
+   * has no purchaseRevenue or transactions metric.
+   */
+  getSummary(data: AnalyticsData | undefined): EcommerceSummary | null {
+    if (!data) return null;
+    const names = data.metricHeaders.map((h) => h.name);
+    if (!names.includes("purchaseRevenue") && !names.includes("transactions")) return null;
+
+    const sum = (name: string) => {
+      const index = names.indexOf(name);
+      if (index < 0) return 0;
+      return data.rows.reduce((total, row) => total + (Number(row.metricValues[index]?.value) || 0), 0);
+    };
+    return this.buildSummary(sum("purchaseRevenue"), sum("transactions"), sum("itemsPurchased"), sum("sessions"));
+  }
+
+  /**
+   * Derive conversion rate and average order value from the summed totals
+   */
+  buildSummary(purchaseRevenue: number, transactions: number, itemsPurchased: number, sessions: number): EcommerceSummary {
+    return {
+      purchaseRevenue,
+      transactions,
+      itemsPurchased,
+      sessions,
+      conversionRate: sessions > 0 ? (transactions / sessions) * 100 : 0,
+      averageOrderValue: transactions > 0 ? purchaseRevenue / transactions : 0,
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Convert every amount of a report. Throws CurrencyConversionError when either currency has no rate.
+   */
+  private convertReport(report: EcommerceReportData, from: string, to: string): EcommerceReportData {
+    const convert = (amount: number) => currencyConverter.convert(amount, from, to);
+    const { summary } = report;
+    return {
+      ...report,
+      summary: this.buildSummary(convert(summary.purchaseRevenue), summary.transactions, summary.itemsPurchased, summary.sessions),
+      daily: report.daily.map((point) => ({ ...point, purchaseRevenue: convert(point.purchaseRevenue) })),
+      items: report.items.map((item) => ({ ...item, itemRevenue: convert(item.itemRevenue) })),
+      currencyCode: to,
+      convertedFrom: { currencyCode: from, exchangeRateDate: currencyConverter.getRateTable().date },
+    };
+  }
+
+  private getDailyPoints(data: AnalyticsData | undefined): EcommerceDailyPoint[] {
+    if (!data) return [];
+    const revenueIndex = data.metricHeaders.findIndex((h) => h.name === "purchaseRevenue");
+    const transactionsIndex = data.metricHeaders.findIndex((h) => h.name === "transactions");
+    return data.rows.map((row) => ({
+      date: row.dimensionValues[0]?.value ?? "",
+      purchaseRevenue: Number(row.metricValues[revenueIndex]?.value ?? 0),
+      transactions: Number(row.metricValues[transactionsIndex]?.value ?? 0),
+    }));
+  }
+
+  private getItems(data: AnalyticsData | undefined): EcommerceItem[] {
+    if (!data) return [];
+    const [revenueIndex, purchasedIndex, viewedIndex] = ITEM_METRICS.map((name) =>
+      data.metricHeaders.findIndex((h) => h.name === name),
+    );
+    return data.rows.map((row) => ({
+      itemName: row.dimensionValues[0]?.value ?? "",
+      itemCategory: row.dimensionValues[1]?.value ?? "",
+      itemRevenue: Number(row.metricValues[revenueIndex ?? -1]?.value ?? 0),
+      itemsPurchased: Number(row.metricValues[purchasedIndex ?? -1]?.value ?? 0),
+      itemsViewed: Number(row.metricValues[viewedIndex ?? -1]?.value ?? 0),
+    }));
+  }
+}
+
+// Singleton instance
+export const ecommerceService = new EcommerceService();
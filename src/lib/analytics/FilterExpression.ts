@@ -0,0 +1,357 @@
+// GA4 filter expressions
+// Typed builder for Data API FilterExpression objects, validation against known GA4 field names,
+// and a compact query-string encoding used by /api/analytics/properties/[id]/data
+
+import {
+  GA4_DIMENSION_NAMES,
+  GA4_METRIC_NAMES,
+  type GA4DimensionName,
+  type GA4MetricName,
+} from "~/types/analytics";
+import { ADDITIONAL_METRIC_NAMES } from "./MetricDictionary";
+
+export type StringMatchType =
+  | "EXACT"
+  | "BEGINS_WITH"
+  | "ENDS_WITH"
+  | "CONTAINS"
+  | "FULL_REGEXP"
+  | "PARTIAL_REGEXP";
+
+export type NumericOperation =
+  | "EQUAL"
+  | "LESS_THAN"
+  | "LESS_THAN_OR_EQUAL"
+  | "GREATER_THAN"
+  | "GREATER_THAN_OR_EQUAL";
+
+export interface NumericValue {
+  int64Value?: string;
+  doubleValue?: number;
+}
+
+export interface Filter {
+  fieldName: string;
+  stringFilter?: { matchType?: StringMatchType; value: string; caseSensitive?: boolean };
+  inListFilter?: { values: string[]; caseSensitive?: boolean };
+  numericFilter?: { operation: NumericOperation; value: NumericValue };
+  betweenFilter?: { fromValue: NumericValue; toValue: NumericValue };
+}
+
+export type FilterExpression =
+  | { andGroup: { expressions: FilterExpression[] } }
+  | { orGroup: { expressions: FilterExpression[] } }
+  | { notExpression: FilterExpression }
+  | { filter: Filter };
+
+// Dimension/metric filter targets; custom definitions are accepted by scope prefix
+export type CustomFieldName = `customEvent:${string}` | `customUser:${string}` | `customItem:${string}`;
+export type DimensionField = GA4DimensionName | CustomFieldName;
+export type MetricField = GA4MetricName | CustomFieldName;
+export type FilterKind = "dimension" | "metric";
+
+export class FilterValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FilterValidationError";
+  }
+}
+
+const DIMENSION_NAMES = new Set<string>(GA4_DIMENSION_NAMES);
+// Includes the metrics the app itself requests (revenue, key events) that the GA4 list does not name
+const METRIC_NAMES = new Set<string>([...GA4_METRIC_NAMES, ...ADDITIONAL_METRIC_NAMES]);
+const CUSTOM_FIELD_PATTERN = /^custom(Event|User|Item):[A-Za-z0-9_]+$/;
+// Per-event counts of key events (and their older name, conversions), e.g. keyEvents:purchase
+const KEY_EVENT_METRIC_PATTERN = /^(keyEvents|conversions):[A-Za-z0-9_]+$/;
+
+function toNumericValue(value: number): NumericValue {
+  return Number.isInteger(value) ? { int64Value: String(value) } : { doubleValue: value };
+}
+
+/**
+ * Builders for FilterExpression objects
+ */
+export const filters = {
+  and(...expressions: FilterExpression[]): FilterExpression {
+    return { andGroup: { expressions } };
+  },
+
+  or(...expressions: FilterExpression[]): FilterExpression {
+    return { orGroup: { expressions } };
+  },
+
+  not(expression: FilterExpression): FilterExpression {
+    return { notExpression: expression };
+  },
+
+  string(
+    fieldName: DimensionField,
+    value: string,
+    options: { matchType?: StringMatchType; caseSensitive?: boolean } = {},
+  ): FilterExpression {
+    return {
+      filter: {
+        fieldName,
+        stringFilter: { value, matchType: options.matchType ?? "EXACT", caseSensitive: options.caseSensitive },
+      },
+    };
+  },
+
+  inList(fieldName: DimensionField, values: string[], caseSensitive?: boolean): FilterExpression {
+    return { filter: { fieldName, inListFilter: { values, caseSensitive } } };
+  },
+
+  numeric(fieldName: MetricField, operation: NumericOperation, value: number): FilterExpression {
+    return { filter: { fieldName, numericFilter: { operation, value: toNumericValue(value) } } };
+  },
+
+  between(fieldName: MetricField, from: number, to: number): FilterExpression {
+    return {
+      filter: { fieldName, betweenFilter: { fromValue: toNumericValue(from), toValue: toNumericValue(to) } },
+    };
+  },
+};
+
+/**
+ * Check that a field name is a known GA4 dimension/metric (or a custom definition or per-event key event metric)
+ */
+export function isKnownField(fieldName: string, kind: FilterKind): boolean {
+  if (CUSTOM_FIELD_PATTERN.test(fieldName)) return true;
+  if (kind === "metric" && KEY_EVENT_METRIC_PATTERN.test(fieldName)) return true;
+  return kind === "dimension" ? DIMENSION_NAMES.has(fieldName) : METRIC_NAMES.has(fieldName);
+}
+
+/**
+ * Validate the structure and field names of a filter expression.
+ * Metric filters only allow numeric/between filters, as required by the Data API.
+ * Throws FilterValidationError on the first problem found.
+ */
+export function validateFilterExpression(
+  expression: FilterExpression,
+  kind: FilterKind,
+  isValidField: (fieldName: string, kind: FilterKind) => boolean = isKnownField,
+): FilterExpression {
+  const visit = (expr: FilterExpression, path: string) => {
+    if ("andGroup" in expr || "orGroup" in expr) {
+      const group = "andGroup" in expr ? expr.andGroup : expr.orGroup;
+      if (!Array.isArray(group?.expressions) || group.expressions.length === 0) {
+        throw new FilterValidationError(`${path}: filter group must contain at least one expression`);
+      }
+      group.expressions.forEach((child, i) => visit(child, `${path}.expressions[${i}]`));
+      return;
+    }
+    if ("notExpression" in expr) {
+      visit(expr.notExpression, `${path}.notExpression`);
+      return;
+    }
+    if (!("filter" in expr) || !expr.filter) {
+      throw new FilterValidationError(`${path}: expected andGroup, orGroup, notExpression or filter`);
+    }
+
+    const f = expr.filter;
+    if (!isValidField(f.fieldName, kind)) {
+      throw new FilterValidationError(`${path}: unknown ${kind} "${f.fieldName}"`);
+    }
+
+    const kinds = [f.stringFilter, f.inListFilter, f.numericFilter, f.betweenFilter].filter(Boolean);
+    if (kinds.length !== 1) {
+      throw new FilterValidationError(`${path}: filter on "${f.fieldName}" must have exactly one condition`);
+    }
+    if (kind === "metric" && (f.stringFilter || f.inListFilter)) {
+      throw new FilterValidationError(`${path}: metric "${f.fieldName}" only supports numeric comparisons`);
+    }
+    if (f.inListFilter && f.inListFilter.values.length === 0) {
+      throw new FilterValidationError(`${path}: in-list filter on "${f.fieldName}" has no values`);
+    }
+  };
+
+  visit(expression, kind === "dimension" ? "dimensionFilter" : "metricFilter");
+  return expression;
+}
+
+// Query-string encoding
+//
+// Conditions use GA Core Reporting style operators and are combined with ";" (AND) and "," (OR),
+// where OR binds tighter than AND:  country==Germany,country==France;sessions>100
+//
+//   ==  exact / numeric equal     !=  not exact
+//   =@  contains                  !@  does not contain
+//   =^  begins with               =$  ends with
+//   =~  full regexp               !~  does not match regexp
+//   =in=a|b|c  in list            =between=10..100
+//   >  >=  <  <=  numeric comparisons
+//
+// Literal ",", ";", "|" and "\" inside values are escaped with a backslash.
+
+const OPERATORS = ["=between=", "=in=", "==", "!=", "=@", "!@", "=^", "=$", "=~", "!~", ">=", "<=", ">", "<"] as const;
+type Operator = (typeof OPERATORS)[number];
+
+const STRING_OPERATORS: Partial<Record<Operator, { matchType: StringMatchType; negate: boolean }>> = {
+  "!=": { matchType: "EXACT", negate: true },
+  "=@": { matchType: "CONTAINS", negate: false },
+  "!@": { matchType: "CONTAINS", negate: true },
+  "=^": { matchType: "BEGINS_WITH", negate: false },
+  "=$": { matchType: "ENDS_WITH", negate: false },
+  "=~": { matchType: "FULL_REGEXP", negate: false },
+  "!~": { matchType: "FULL_REGEXP", negate: true },
+};
+
+const NUMERIC_OPERATORS: Partial<Record<Operator, NumericOperation>> = {
+  ">": "GREATER_THAN",
+  ">=": "GREATER_THAN_OR_EQUAL",
+  "<": "LESS_THAN",
+  "<=": "LESS_THAN_OR_EQUAL",
+};
+
+function splitUnescaped(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]!;
+    if (ch === "\\" && i + 1 < input.length) {
+      current += ch + input[i + 1]!;
+      i++;
+    } else if (ch === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\(.)/g, "$1");
+}
+
+function escapeValue(value: string): string {
+  return value.replace(/[\\,;|]/g, (ch) => `\\${ch}`);
+}
+
+function parseNumber(value: string, condition: string): number {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n)) {
+    throw new FilterValidationError(`Expected a number in "${condition}"`);
+  }
+  return n;
+}
+
+function parseCondition(condition: string, kind: FilterKind): FilterExpression {
+  let match: { field: string; operator: Operator; value: string } | undefined;
+  for (let i = 1; i < condition.length && !match; i++) {
+    const operator = OPERATORS.find((op) => condition.startsWith(op, i));
+    if (operator) {
+      match = { field: condition.slice(0, i), operator, value: condition.slice(i + operator.length) };
+    }
+  }
+  if (!match) {
+    throw new FilterValidationError(`Invalid filter condition "${condition}"`);
+  }
+
+  const { field, operator, value } = match;
+  // Field names are validated afterwards by validateFilterExpression
+  const fieldName = field as DimensionField & MetricField;
+
+  if (operator === "=in=") {
+    return filters.inList(fieldName, splitUnescaped(value, "|").map(unescapeValue));
+  }
+  if (operator === "=between=") {
+    const [from, to, ...rest] = value.split("..");
+    if (from === undefined || to === undefined || rest.length > 0) {
+      throw new FilterValidationError(`Expected "from..to" in "${condition}"`);
+    }
+    return filters.between(fieldName, parseNumber(from, condition), parseNumber(to, condition));
+  }
+
+  const numericOperation = NUMERIC_OPERATORS[operator];
+  if (numericOperation) {
+    return filters.numeric(fieldName, numericOperation, parseNumber(value, condition));
+  }
+  if (operator === "==") {
+    return kind === "metric"
+      ? filters.numeric(fieldName, "EQUAL", parseNumber(value, condition))
+      : filters.string(fieldName, unescapeValue(value));
+  }
+
+  const stringOperator = STRING_OPERATORS[operator]!;
+  const expr = filters.string(fieldName, unescapeValue(value), { matchType: stringOperator.matchType });
+  return stringOperator.negate ? filters.not(expr) : expr;
+}
+
+/**
+ * Parse a query-string filter into a validated FilterExpression
+ */
+export function parseFilterQuery(
+  query: string,
+  kind: FilterKind,
+  isValidField?: (fieldName: string, kind: FilterKind) => boolean,
+): FilterExpression {
+  if (query.trim() === "") {
+    throw new FilterValidationError("Filter is empty");
+  }
+
+  const andParts = splitUnescaped(query, ";").map((andPart) => {
+    const orParts = splitUnescaped(andPart, ",").map((c) => parseCondition(c.trim(), kind));
+    return orParts.length === 1 ? orParts[0]! : filters.or(...orParts);
+  });
+  const expression = andParts.length === 1 ? andParts[0]! : filters.and(...andParts);
+
+  return validateFilterExpression(expression, kind, isValidField);
+}
+
+function formatNumber(value: NumericValue): string {
+  return value.int64Value ?? String(value.doubleValue ?? 0);
+}
+
+function encodeCondition(expr: FilterExpression): string {
+  let negate = false;
+  if ("notExpression" in expr) {
+    negate = true;
+    expr = expr.notExpression;
+  }
+  if (!("filter" in expr)) {
+    throw new FilterValidationError("Only AND-of-OR groups of conditions can be encoded as a query string");
+  }
+
+  const f = expr.filter;
+  const unsupported = () => new FilterValidationError(`Cannot encode negated condition on "${f.fieldName}"`);
+
+  if (f.stringFilter) {
+    const matchType = f.stringFilter.matchType ?? "EXACT";
+    const entry = matchType === "EXACT"
+      ? [negate ? "!=" : "=="]
+      : Object.entries(STRING_OPERATORS)
+          .filter(([, v]) => v.matchType === matchType && v.negate === negate)
+          .map(([op]) => op);
+    if (!entry[0]) throw unsupported();
+    return `${f.fieldName}${entry[0]}${escapeValue(f.stringFilter.value)}`;
+  }
+  if (negate) throw unsupported();
+  if (f.inListFilter) {
+    return `${f.fieldName}=in=${f.inListFilter.values.map(escapeValue).join("|")}`;
+  }
+  if (f.numericFilter) {
+    const op = f.numericFilter.operation === "EQUAL"
+      ? "=="
+      : Object.entries(NUMERIC_OPERATORS).find(([, v]) => v === f.numericFilter!.operation)?.[0];
+    return `${f.fieldName}${op}${formatNumber(f.numericFilter.value)}`;
+  }
+  if (f.betweenFilter) {
+    return `${f.fieldName}=between=${formatNumber(f.betweenFilter.fromValue)}..${formatNumber(f.betweenFilter.toValue)}`;
+  }
+  throw new FilterValidationError(`Filter on "${f.fieldName}" has no condition`);
+}
+
+/**
+ * Encode a FilterExpression for use in a query string (inverse of parseFilterQuery).
+ * Supports a condition, an OR group of conditions, or an AND group of those.
+ */
+export function encodeFilterQuery(expression: FilterExpression): string {
+  const encodeOr = (expr: FilterExpression) =>
+    "orGroup" in expr ? expr.orGroup.expressions.map(encodeCondition).join(",") : encodeCondition(expr);
+  return "andGroup" in expression
+    ? expression.andGroup.expressions.map(encodeOr).join(";")
+    : encodeOr(expression);
+}
@@ -0,0 +1,74 @@
+// Forecasting service
+// Fetches a property's daily history of the forecast metrics and projects each forward with the
+// Holt-Winters model in Forecasting, optionally comparing the projected totals with targets.
+
+import { googleAnalyticsService } from "~/lib/google-analytics";
+import { buildDailySeries } from "./AnomalyDetection";
+import type { FilterExpression } from "./FilterExpression";
+import {
+  DEFAULT_FORECAST_HORIZON,
+  FORECAST_METRICS,
+  ForecastError,
+  evaluateTarget,
+  forecastSeries,
+} from "./Forecasting";
+import type { PropertyForecast } from "~/types/analytics";
+
+export const DEFAULT_HISTORY_DAYS = 90;
+export const MAX_HISTORY_DAYS = 365;
+
+export interface PropertyForecastOptions {
+  metrics?: string[];
+  // Days to forecast after the last day of history
+  horizon?: number;
+  // Days of history to fit on, ending yesterday (today is still incomplete)
+  historyDays?: number;
+  // Prediction interval coverage, see FORECAST_LEVELS
+  level?: number;
+  // Targets for the projected total of a metric over the horizon
+  targets?: Record<string, number>;
+  dimensionFilter?: FilterExpression;
+  currencyCode?: string;
+}
+
+export class ForecastService {
+  /**
+   * Forecast of each metric of a property from one daily report. Throws ForecastError when the
+   * property has too little history.
+   */
+  async getForecast(
+    accessToken: string,
+    propertyId: string,
+    options: PropertyForecastOptions = {},
+  ): Promise<PropertyForecast> {
+    const metrics = options.metrics ?? FORECAST_METRICS;
+    const horizon = options.horizon ?? DEFAULT_FORECAST_HORIZON;
+    const historyDays = options.historyDays ?? DEFAULT_HISTORY_DAYS;
+
+    const data = await googleAnalyticsService.runReport(accessToken, propertyId, {
+      startDate: `${historyDays}daysAgo`,
+      endDate: "yesterday",
+      dimensions: ["date"],
+      metrics,
+      dimensionFilter: options.dimensionFilter,
+      orderBys: [{ dimension: { dimensionName: "date" } }],
+    });
+
+    const series = metrics.map((metric) => ({ metric, points: buildDailySeries(data, metric) }));
+    // Every metric comes from the same daily rows, so their forecasts start on the same day
+    const history = series[0]?.points ?? [];
+    const historyEndDate = history[history.length - 1]?.date;
+    if (!historyEndDate) throw new ForecastError("The property has no daily data to forecast from");
+
+    const forecasts = series.map(({ metric, points }) => {
+      const forecast = forecastSeries(metric, points, horizon, { level: options.level });
+      const target = options.targets?.[metric];
+      return target === undefined ? forecast : { ...forecast, target: evaluateTarget(forecast, target) };
+    });
+
+    return { propertyId, historyEndDate, horizon, forecasts, currencyCode: options.currencyCode };
+  }
+}
+
+// Singleton instance
+export const forecastService = new ForecastService();
@@ -0,0 +1,231 @@
+// Forecasting
+// Projects daily metric series forward with additive Holt-Winters exponential smoothing: a level, a damped
+// trend and a weekly seasonal component, each updated day by day. Smoothing parameters are picked by grid
+// search on one-step-ahead errors. Prediction intervals come from the innovations state space form of the
+// model, so they widen with the horizon. Series shorter than two weeks get no seasonal component.
+
+import type { ForecastPoint, ForecastTargetStatus, MetricForecast } from "~/types/analytics";
+import type { DailyPoint } from "./AnomalyDetection";
+import { addDays } from "./DateRangeResolver";
+
+// Metrics projected unless others are requested: traffic and revenue
+export const FORECAST_METRICS = ["sessions", "activeUsers", "purchaseRevenue"];
+
+export const DEFAULT_FORECAST_HORIZON = 30;
+export const MAX_FORECAST_HORIZON = 90;
+
+// Fewer days than this cannot be forecast
+export const MIN_FORECAST_HISTORY = 7;
+
+// Supported prediction interval coverages and their normal quantiles
+export const FORECAST_LEVELS: Record<string, number> = { "0.8": 1.2816, "0.9": 1.6449, "0.95": 1.96, "0.99": 2.5758 };
+
+export const DEFAULT_FORECAST_LEVEL = 0.95;
+
+export class ForecastError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ForecastError";
+  }
+}
+
+export interface ForecastOptions {
+  // Prediction interval coverage, one of FORECAST_LEVELS
+  level?: number;
+}
+
+interface HoltWintersParameters {
+  alpha: number;
+  beta: number;
+  // Zero without a seasonal component
+  gamma: number;
+  phi: number;
+}
+
+// Fitted state after the last day of history
+interface HoltWintersFit {
+  parameters: HoltWintersParameters;
+  level: number;
+  trend: number;
+  // Seasonal effects indexed by day offset from the start of history, modulo the period; empty without seasonality
+  seasonals: number[];
+  // Mean squared one-step-ahead error
+  variance: number;
+}
+
+const SEASON_LENGTH = 7;
+
+// Trend damping: a trend fades out over the horizon instead of running on indefinitely
+const DAMPING = 0.98;
+
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+/**
+ * Forecast the `horizon` days after a daily series (sorted by date, without gaps). Values and interval
+ * bounds are clamped at zero. Throws ForecastError for series shorter than MIN_FORECAST_HISTORY days.
+ */
+export function forecastSeries(
+  metric: string,
+  history: DailyPoint[],
+  horizon: number,
+  options: ForecastOptions = {},
+): MetricForecast {
+  const level = options.level ?? DEFAULT_FORECAST_LEVEL;
+  const z = FORECAST_LEVELS[String(level)];
+  if (z === undefined) throw new ForecastError(`Unsupported prediction interval level ${level}`);
+  if (!Number.isInteger(horizon) || horizon < 1 || horizon > MAX_FORECAST_HORIZON) {
+    throw new ForecastError(`Forecast horizon must be a whole number of days between 1 and ${MAX_FORECAST_HORIZON}`);
+  }
+  const last = history[history.length - 1];
+  if (!last || history.length < MIN_FORECAST_HISTORY) {
+    throw new ForecastError(`At least ${MIN_FORECAST_HISTORY} days of history are needed to forecast ${metric}`);
+  }
+
+  const values = history.map((point) => point.value);
+  const seasonal = values.length >= 2 * SEASON_LENGTH;
+  const fit = fitHoltWinters(values, seasonal);
+  const weights = getErrorWeights(fit.parameters, seasonal, horizon);
+
+  const points: ForecastPoint[] = [];
+  let cumulativeWeight = 0;
+  for (let h = 1; h <= horizon; h++) {
+    cumulativeWeight += (weights[h - 1] ?? 0) ** 2;
+    const value = projectValue(fit, values.length, h);
+    const margin = z * Math.sqrt(fit.variance * cumulativeWeight);
+    points.push({
+      date: addDays(last.date, h),
+      value: Math.max(0, value),
+      lower: Math.max(0, value - margin),
+      upper: Math.max(0, value + margin),
+    });
+  }
+
+  // Errors of successive days are correlated; each innovation carries into every later day of the total
+  let totalVariance = 0;
+  for (let k = 1; k <= horizon; k++) {
+    let carried = 0;
+    for (let i = 0; i <= horizon - k; i++) carried += weights[i] ?? 0;
+    totalVariance += fit.variance * carried ** 2;
+  }
+  const total = points.reduce((sum, point) => sum + point.value, 0);
+  const totalMargin = z * Math.sqrt(totalVariance);
+
+  return {
+    metric,
+    historyPoints: values.length,
+    seasonal,
+    level,
+    points,
+    total,
+    totalLower: Math.max(0, total - totalMargin),
+    totalUpper: total + totalMargin,
+  };
+}
+
+/**
+ * Compare a forecast's projected total over its horizon with a target for that total
+ */
+export function evaluateTarget(forecast: MetricForecast, target: number): ForecastTargetStatus {
+  return {
+    target,
+    projected: forecast.total,
+    lower: forecast.totalLower,
+    upper: forecast.totalUpper,
+    status: forecast.total >= target ? "on_track" : "off_track",
+    confident: target < forecast.totalLower || target > forecast.totalUpper,
+  };
+}
+
+/**
+ * Parse targets given as "metric:value" pairs separated by commas, e.g. "sessions:12000,purchaseRevenue:5000"
+ */
+export function parseForecastTargets(value: string | null | undefined): Record<string, number> {
+  if (!value) return {};
+  const targets: Record<string, number> = {};
+  value.split(",").forEach((pair) => {
+    const [metric, raw] = pair.split(":").map((part) => part.trim());
+    const target = Number(raw);
+    if (!metric || !raw || !Number.isFinite(target) || target < 0) {
+      throw new ForecastError(`Invalid forecast target "${pair}"; expected metric:value with a non-negative value`);
+    }
+    targets[metric] = target;
+  });
+  return targets;
+}
+
+// Private helpers
+
+// Additive Holt-Winters (damped trend, weekly seasonality when `seasonal`) with the parameters of least
+// mean squared one-step-ahead error
+function fitHoltWinters(values: number[], seasonal: boolean): HoltWintersFit {
+  const candidates = ALPHAS.flatMap((alpha) => BETAS.flatMap((beta) =>
+    (seasonal ? GAMMAS : [0]).map((gamma) => ({ alpha, beta, gamma, phi: DAMPING })),
+  ));
+  return candidates
+    .map((parameters) => runHoltWinters(values, parameters, seasonal))
+    .reduce((best, fit) => (fit.variance < best.variance ? fit : best));
+}
+
+function runHoltWinters(values: number[], parameters: HoltWintersParameters, seasonal: boolean): HoltWintersFit {
+  const { alpha, beta, gamma, phi } = parameters;
+  const m = SEASON_LENGTH;
+
+  // Start from the first week's mean and the change to the second week; seasonals from the first week
+  let level: number;
+  let trend: number;
+  let seasonals: number[] = [];
+  if (seasonal) {
+    const firstWeek = mean(values.slice(0, m));
+    level = firstWeek;
+    trend = (mean(values.slice(m, 2 * m)) - firstWeek) / m;
+    seasonals = values.slice(0, m).map((value) => value - firstWeek);
+  } else {
+    level = values[0] ?? 0;
+    trend = (values[1] ?? level) - level;
+  }
+
+  // The first week (or day) defines the starting state, so it is not scored
+  const scoredFrom = seasonal ? m : 1;
+  let squaredErrors = 0;
+  values.forEach((value, t) => {
+    const season = seasonal ? (seasonals[t % m] ?? 0) : 0;
+    const predicted = level + phi * trend + season;
+    if (t >= scoredFrom) squaredErrors += (value - predicted) ** 2;
+
+    const previousLevel = level;
+    level = alpha * (value - season) + (1 - alpha) * (previousLevel + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    if (seasonal) seasonals[t % m] = gamma * (value - level) + (1 - gamma) * season;
+  });
+
+  const scored = Math.max(1, values.length - scoredFrom);
+  return { parameters, level, trend, seasonals, variance: squaredErrors / scored };
+}
+
+// Point forecast h days after the last of n days of history
+function projectValue(fit: HoltWintersFit, n: number, h: number): number {
+  let dampedSteps = 0;
+  for (let i = 1; i <= h; i++) dampedSteps += fit.parameters.phi ** i;
+  const season = fit.seasonals.length > 0 ? (fit.seasonals[(n + h - 1) % SEASON_LENGTH] ?? 0) : 0;
+  return fit.level + dampedSteps * fit.trend + season;
+}
+
+// How much of a one-day error carries j days ahead, for j = 0 .. horizon - 1 (the c_j of the state space
+// form; the classic seasonal update corresponds to a state space gamma of gamma * (1 - alpha))
+function getErrorWeights(parameters: HoltWintersParameters, seasonal: boolean, horizon: number): number[] {
+  const { alpha, beta, gamma, phi } = parameters;
+  const weights = [1];
+  let dampedSteps = 0;
+  for (let j = 1; j < horizon; j++) {
+    dampedSteps += phi ** j;
+    const seasonalCarry = seasonal && j % SEASON_LENGTH === 0 ? gamma * (1 - alpha) : 0;
+    weights.push(alpha * (1 + beta * dampedSteps) + seasonalCarry);
+  }
+  return weights;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
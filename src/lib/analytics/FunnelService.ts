@@ -0,0 +1,152 @@
+// Funnel analysis service
+// Runs GA4 funnel reports and derives step conversion and drop-off rates. When the funnel report is
+// unavailable (alpha API disabled for the project, unsupported property) it falls back to per-event
+// user counts from a regular report.
+
+import { googleAnalyticsService, type ReportError } from "~/lib/google-analytics";
+import { logger } from "~/lib/logger";
+import { filters, type FilterExpression } from "./FilterExpression";
+import type { AnalyticsData, FunnelDefinition, FunnelReportData, FunnelSource } from "~/types/analytics";
+import type { DateRange } from "~/types/chat";
+
+// GA4 funnel explorations support at most this many steps
+export const MAX_FUNNEL_STEPS = 10;
+
+// Statuses of a funnel report the event count fallback is used for: bad request for the property (400),
+// alpha API not enabled for the project (403), endpoint not found (404) or not implemented (501)
+const FUNNEL_UNAVAILABLE_STATUSES = new Set([400, 403, 404, 501]);
+
+export const DEFAULT_PURCHASE_FUNNEL: FunnelDefinition = {
+  name: "Purchase funnel",
+  steps: [
+    { name: "Session start", eventName: "session_start" },
+    { name: "View item", eventName: "view_item" },
+    { name: "Add to cart", eventName: "add_to_cart" },
+    { name: "Purchase", eventName: "purchase" },
+  ],
+};
+
+export interface FunnelOptions {
+  dimensionFilter?: FilterExpression;
+}
+
+export class FunnelService {
+  // GA names funnel table rows "1. Step name"
+  private readonly STEP_ROW_PATTERN = /^(\d+)\.\s/;
+
+  /**
+   * Run a funnel for a property, falling back to event counts if GA's funnel report is unavailable.
+   * Other errors, such as expired tokens (401) or exhausted quota (429), are rethrown.
+   */
+  async getFunnel(
+    accessToken: string,
+    propertyId: string,
+    funnel: FunnelDefinition,
+    dateRange: DateRange,
+    options: FunnelOptions = {},
+  ): Promise<FunnelReportData> {
+    try {
+      const table = await googleAnalyticsService.runFunnelReport(accessToken, propertyId, {
+        ...dateRange,
+        funnel,
+        dimensionFilter: options.dimensionFilter,
+      });
+      return this.buildReport(funnel, this.getStepUsersFromTable(funnel, table), "ga4");
+    } catch (error) {
+      if (!this.isFunnelUnavailable(error)) throw error;
+      logger.warn(`[funnel] Falling back to event counts for property ${propertyId}:`, error);
+      const stepUsers = await this.getStepUsersFromEventCounts(accessToken, propertyId, funnel, dateRange, options);
+      return this.buildReport(funnel, stepUsers, "event_counts");
+    }
+  }
+
+  /**
+   * Derive conversion and drop-off rates from the users reaching each step
+   */
+  buildReport(funnel: FunnelDefinition, stepUsers: number[], source: FunnelSource): FunnelReportData {
+    const firstUsers = stepUsers[0] ?? 0;
+    const steps = funnel.steps.map((step, i) => {
+      const activeUsers = stepUsers[i] ?? 0;
+      const previousUsers = i === 0 ? activeUsers : (stepUsers[i - 1] ?? 0);
+      const dropOff = i === 0 ? 0 : Math.max(0, previousUsers - activeUsers);
+      return {
+        ...step,
+        activeUsers,
+        conversionRate: this.percent(activeUsers, firstUsers),
+        stepConversionRate: i === 0 ? 100 : this.percent(activeUsers, previousUsers),
+        dropOff,
+        dropOffRate: this.percent(dropOff, previousUsers),
+      };
+    });
+
+    return {
+      funnel,
+      steps,
+      overallConversionRate: this.percent(steps[steps.length - 1]?.activeUsers ?? 0, firstUsers),
+      source,
+    };
+  }
+
+  // Private helper methods
+
+  private isFunnelUnavailable(error: unknown): boolean {
+    const status = (error as Partial<ReportError> | undefined)?.status;
+    return status !== undefined && FUNNEL_UNAVAILABLE_STATUSES.has(status);
+  }
+
+  private getStepUsersFromTable(funnel: FunnelDefinition, table: AnalyticsData): number[] {
+    const usersIndex = table.metricHeaders.findIndex((h) => h.name === "activeUsers");
+    if (usersIndex < 0) {
+      throw new Error("Funnel report returned no activeUsers metric");
+    }
+
+    const usersByStep = new Map<number, number>();
+    for (const row of table.rows) {
+      const match = this.STEP_ROW_PATTERN.exec(row.dimensionValues[0]?.value ?? "");
+      if (match?.[1]) {
+        usersByStep.set(Number(match[1]) - 1, Number(row.metricValues[usersIndex]?.value ?? 0));
+      }
+    }
+    return funnel.steps.map((_, i) => usersByStep.get(i) ?? 0);
+  }
+
+  /**
+   * Approximate a funnel from the users that triggered each step's event in the date range, counted
+   * as activeUsers like GA's funnel table. Event counts are not sequential, so in a closed funnel each
+   * step is capped at the step before it.
+   */
+  private async getStepUsersFromEventCounts(
+    accessToken: string,
+    propertyId: string,
+    funnel: FunnelDefinition,
+    dateRange: DateRange,
+    options: FunnelOptions,
+  ): Promise<number[]> {
+    const eventFilter = filters.inList("eventName", Array.from(new Set(funnel.steps.map((s) => s.eventName))));
+    const report = await googleAnalyticsService.runReport(accessToken, propertyId, {
+      ...dateRange,
+      dimensions: ["eventName"],
+      metrics: ["activeUsers"],
+      dimensionFilter: options.dimensionFilter ? filters.and(eventFilter, options.dimensionFilter) : eventFilter,
+    });
+
+    const usersByEvent = new Map(
+      report.rows.map((row) => [row.dimensionValues[0]?.value ?? "", Number(row.metricValues[0]?.value ?? 0)]),
+    );
+
+    let previousUsers = Number.POSITIVE_INFINITY;
+    return funnel.steps.map((step) => {
+      const users = usersByEvent.get(step.eventName) ?? 0;
+      const stepUsers = funnel.isOpenFunnel ? users : Math.min(users, previousUsers);
+      previousUsers = stepUsers;
+      return stepUsers;
+    });
+  }
+
+  private percent(value: number, total: number): number {
+    return total > 0 ? (value / total) * 100 : 0;
+  }
+}
+
+// Singleton instance
+export const funnelService = new FunnelService();
@@ -0,0 +1,278 @@
+// Metric dictionary
+// Display metadata for every GA4 metric: label, value type, unit, which direction is good, how values
+// are formatted, the words users call it by and a short description. Tables, charts, CSV headers and
+// the natural-language query processor read labels and formats from here. How metrics combine across
+// properties lives in the metric registry.
+
+import { GA4_METRIC_NAMES, type GA4MetricName } from "~/types/analytics";
+
+export type MetricValueType = "integer" | "float" | "percent" | "seconds" | "currency";
+
+// Whether a rise is good news
+export type MetricDirection = "higherIsBetter" | "lowerIsBetter" | "neutral";
+
+export type MetricFormat = "number" | "decimal" | "percent" | "duration" | "currency";
+
+// Accent colours of the table and summary cards
+export type MetricColor = "green" | "blue" | "indigo" | "teal" | "orange" | "purple";
+
+export interface MetricInfo {
+  name: string;
+  label: string;
+  type: MetricValueType;
+  // What one unit of the value counts, e.g. "users", "sessions", "%", "s"
+  unit: string;
+  direction: MetricDirection;
+  format: MetricFormat;
+  // Lower-case words and phrases users refer to the metric by; empty keeps it out of query matching
+  synonyms: string[];
+  description: string;
+  color?: MetricColor;
+}
+
+// Metrics the app requests that the GA4 metric list does not name
+export const ADDITIONAL_METRIC_NAMES = [
+  "engagedSessions",
+  "keyEvents",
+  "sessionKeyEventRate",
+  "userKeyEventRate",
+  "purchaseRevenue",
+  "totalRevenue",
+  "totalPurchasers",
+  "purchaserRate",
+  "averagePurchaseRevenue",
+  "averageRevenuePerUser",
+] as const;
+
+export type DictionaryMetricName = GA4MetricName | (typeof ADDITIONAL_METRIC_NAMES)[number];
+
+// Metadata that naming alone cannot give; everything else is inferred by `inferMetricInfo`
+const METRIC_OVERRIDES: Partial<Record<DictionaryMetricName, Partial<Omit<MetricInfo, "name">>>> = {
+  activeUsers: {
+    label: "Active Users",
+    synonyms: ["users", "user", "visitors", "visitor", "people", "audience", "active users"],
+    description: "Distinct users who engaged with the site or app",
+    color: "blue",
+  },
+  newUsers: {
+    label: "New Users",
+    synonyms: ["new users", "new visitors", "first time users", "new people"],
+    description: "Users who visited for the first time",
+    color: "indigo",
+  },
+  totalUsers: {
+    label: "Total Users",
+    synonyms: ["total users"],
+    description: "Distinct users who logged any event",
+  },
+  returningUsers: {
+    label: "Returning Users",
+    synonyms: ["returning users", "repeat users", "return visitors", "loyal users"],
+    description: "Users who had visited before",
+  },
+  sessions: {
+    label: "Sessions",
+    synonyms: ["sessions", "session", "visits", "visit"],
+    description: "Sessions started on the site or app",
+    color: "green",
+  },
+  engagedSessions: {
+    label: "Engaged Sessions",
+    synonyms: ["engaged sessions"],
+    description: "Sessions longer than 10 seconds, with a key event or with two or more page views",
+  },
+  averageSessionDuration: {
+    label: "Avg. Session Duration",
+    synonyms: ["session duration", "time on site", "session time", "duration", "time spent"],
+    description: "Average length of a session",
+    color: "purple",
+  },
+  bounceRate: {
+    label: "Bounce Rate",
+    synonyms: ["bounce rate", "bounce", "bounces", "bounce %"],
+    description: "Share of sessions that were not engaged",
+    color: "orange",
+  },
+  engagementRate: {
+    label: "Engagement Rate",
+    synonyms: ["engagement", "engagement rate", "engaged users", "engagement %"],
+    description: "Share of sessions that were engaged",
+  },
+  screenPageViews: {
+    label: "Pageviews",
+    synonyms: ["pageviews", "page views", "views", "page view", "screens"],
+    description: "Pages and app screens viewed, repeated views included",
+    color: "teal",
+  },
+  // Universal Analytics names; GA4 reports these as screenPageViews
+  pageViews: { synonyms: [], description: "Universal Analytics page views; GA4 reports screenPageViews" },
+  uniquePageviews: { synonyms: [], description: "Universal Analytics unique page views" },
+  conversions: {
+    label: "Conversions",
+    synonyms: ["conversions", "conversion", "goals", "goal", "converts"],
+    description: "Conversion events triggered",
+  },
+  keyEvents: {
+    label: "Key Events",
+    synonyms: ["key events", "key event"],
+    description: "Key events triggered",
+  },
+  conversionRate: {
+    label: "Conversion Rate",
+    synonyms: ["conversion rate"],
+    description: "Transactions per 100 sessions",
+  },
+  transactions: {
+    label: "Transactions",
+    synonyms: ["transactions", "transaction", "orders", "purchases"],
+    description: "Completed purchases",
+  },
+  purchaseRevenue: {
+    label: "Revenue",
+    synonyms: ["revenue", "sales", "money", "earnings", "income"],
+    description: "Revenue from purchases, excluding refunds",
+  },
+  totalRevenue: {
+    label: "Total Revenue",
+    synonyms: ["total revenue"],
+    description: "Revenue from purchases, subscriptions and ads",
+  },
+  averageOrderValue: {
+    label: "Avg. Order Value",
+    synonyms: ["average order value", "order value", "aov", "basket size"],
+    description: "Revenue per transaction",
+  },
+  itemRevenue: {
+    label: "Item Revenue",
+    description: "Revenue from items, excluding tax and shipping",
+  },
+  errorRate: { description: "Share of sessions with an error" },
+  pageLoadTime: { description: "Time for pages to load" },
+  serverResponseTime: { description: "Time for the server to respond" },
+};
+
+// Base metrics whose rise is bad news, so their per-user and per-session variants are too
+const LOWER_IS_BETTER = /^(bounceRate|errors|errorRate|appCrashes|appUninstalls|pageLoadTime|serverResponseTime)/;
+
+// Names in the GA4 list that describe rather than measure (audience names and IDs)
+const NON_NUMERIC = /^audience(Name|Id|Description)$/;
+
+/**
+ * Split a metric API name into words: "screenPageViewsPerSession" -> "Screen Page Views Per Session",
+ * "customEvent:custom_metric_1" -> "Custom Metric 1"
+ */
+export function humanizeMetricName(name: string): string {
+  const readable = name.includes(":") ? (name.split(":").pop() ?? name) : name;
+  return readable
+    .replace(/_/g, " ")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .trim();
+}
+
+/**
+ * Metadata implied by a metric's name, used for metrics without overrides and for custom metrics
+ */
+export function inferMetricInfo(name: string): MetricInfo {
+  const label = humanizeMetricName(name);
+  const perMatch = /Per(User|Session)$/.exec(name);
+  const direction: MetricDirection = NON_NUMERIC.test(name) || name.startsWith("customEvent:")
+    ? "neutral"
+    : LOWER_IS_BETTER.test(name) ? "lowerIsBetter" : "higherIsBetter";
+  const base = { name, label, direction, synonyms: [label.toLowerCase()] };
+
+  if (NON_NUMERIC.test(name)) {
+    return { ...base, type: "integer", unit: "", format: "number", description: `${label} of the audience; not a measure` };
+  }
+  if (perMatch) {
+    const per = perMatch[1] === "User" ? "user" : "session";
+    const baseLabel = humanizeMetricName(name.slice(0, -perMatch[0].length));
+    return { ...base, type: "float", unit: `per ${per}`, format: "decimal", description: `${baseLabel} per ${per}` };
+  }
+  if (name.endsWith("Rate")) {
+    return { ...base, type: "percent", unit: "%", format: "percent", description: `${label} as a percentage` };
+  }
+  if (/(Duration|Time)$/.test(name)) {
+    return { ...base, type: "seconds", unit: "s", format: "duration", description: `${label} in seconds` };
+  }
+  if (/(Revenue|Value)$/.test(name) || /^(revenue|averageRevenuePerUser)$/.test(name)) {
+    return { ...base, type: "currency", unit: "currency", format: "currency", description: `${label} in the property's currency` };
+  }
+  if (name.startsWith("average")) {
+    return { ...base, type: "float", unit: "", format: "decimal", description: label };
+  }
+  return { ...base, type: "integer", unit: label.toLowerCase(), format: "number", description: `Count of ${label.toLowerCase()}` };
+}
+
+export const METRIC_DICTIONARY = Object.fromEntries(
+  [...GA4_METRIC_NAMES, ...ADDITIONAL_METRIC_NAMES].map((name) => [
+    name,
+    { ...inferMetricInfo(name), ...METRIC_OVERRIDES[name] },
+  ]),
+) as Record<DictionaryMetricName, MetricInfo>;
+
+/**
+ * Metadata of a metric; names outside the dictionary (custom metrics, key events) are inferred
+ */
+export function getMetricInfo(name: string): MetricInfo {
+  return (METRIC_DICTIONARY as Partial<Record<string, MetricInfo>>)[name] ?? inferMetricInfo(name);
+}
+
+/**
+ * Display label, e.g. "Avg. Session Duration"
+ */
+export function getMetricLabel(name: string): string {
+  return getMetricInfo(name).label;
+}
+
+/**
+ * CSV column header: the label with the unit of non-count values, e.g. "Bounce Rate (%)"
+ */
+export function getMetricCsvHeader(name: string): string {
+  const { label, format, unit } = getMetricInfo(name);
+  return format === "percent" || format === "duration" ? `${label} (${unit})` : label;
+}
+
+/**
+ * Seconds as "45s", "3m 20s" or "1h 5m"
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.round(seconds % 60);
+  if (minutes < 60) return remainingSeconds > 0 ? `${minutes}m ${remainingSeconds}s` : `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+}
+
+/**
+ * Format a value for display. Monetary metrics are formatted in `currencyCode`.
+ */
+export function formatMetricValue(name: string, value: number, currencyCode = "USD"): string {
+  return formatValueAs(getMetricInfo(name).format, value, currencyCode);
+}
+
+/**
+ * Format a value in a given format, e.g. for calculated metrics that are not in the dictionary
+ */
+export function formatValueAs(format: MetricFormat, value: number, currencyCode = "USD"): string {
+  switch (format) {
+    case "percent": return `${value.toFixed(1)}%`;
+    case "duration": return formatDuration(value);
+    case "currency": return value.toLocaleString(undefined, { style: "currency", currency: currencyCode });
+    case "decimal": return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    default: return value.toLocaleString();
+  }
+}
+
+/**
+ * Synonyms of every metric that has any, for matching metrics named in free text
+ */
+export function getMetricSynonymEntries(): [string, string[]][] {
+  return Object.values(METRIC_DICTIONARY)
+    .filter((info) => info.synonyms.length > 0)
+    .map((info) => [info.name, info.synonyms]);
+}
@@ -0,0 +1,166 @@
+// Metric registry
+// Declares how each metric combines across properties or report rows. Counts are summed, rates and
+// averages are weighted by the sessions or users they were measured over, and derived ratios are
+// recomputed from their summed parts, so a small property cannot skew a portfolio rate.
+
+export type MetricAggregation = "sum" | "sessionWeighted" | "userWeighted" | "ratio";
+
+export interface MetricDefinition {
+  aggregation: MetricAggregation;
+  // For "ratio" metrics: numerator / denominator × scale
+  numerator?: string;
+  denominator?: string;
+  scale?: number;
+}
+
+// Metric values of one property or report row, by metric name
+export type MetricSample = Record<string, number>;
+
+// Weights of weighted means; the first metric present in a sample is used
+const AGGREGATION_WEIGHTS: Partial<Record<MetricAggregation, string[]>> = {
+  sessionWeighted: ["sessions"],
+  userWeighted: ["activeUsers", "totalUsers"],
+};
+
+export const METRIC_REGISTRY: Record<string, MetricDefinition> = {
+  // Counts
+  activeUsers: { aggregation: "sum" },
+  totalUsers: { aggregation: "sum" },
+  newUsers: { aggregation: "sum" },
+  sessions: { aggregation: "sum" },
+  engagedSessions: { aggregation: "sum" },
+  screenPageViews: { aggregation: "sum" },
+  eventCount: { aggregation: "sum" },
+  keyEvents: { aggregation: "sum" },
+  conversions: { aggregation: "sum" },
+  userEngagementDuration: { aggregation: "sum" },
+  purchaseRevenue: { aggregation: "sum" },
+  transactionRevenue: { aggregation: "sum" },
+  totalRevenue: { aggregation: "sum" },
+  transactions: { aggregation: "sum" },
+  itemsPurchased: { aggregation: "sum" },
+  itemsViewed: { aggregation: "sum" },
+  itemRevenue: { aggregation: "sum" },
+  totalPurchasers: { aggregation: "sum" },
+
+  // Rates and averages measured per session
+  bounceRate: { aggregation: "sessionWeighted" },
+  engagementRate: { aggregation: "sessionWeighted" },
+  averageSessionDuration: { aggregation: "sessionWeighted" },
+  sessionKeyEventRate: { aggregation: "sessionWeighted" },
+
+  // Rates measured per user
+  userKeyEventRate: { aggregation: "userWeighted" },
+  purchaserRate: { aggregation: "userWeighted" },
+
+  // Ratios recomputed from their summed parts
+  screenPageViewsPerSession: { aggregation: "ratio", numerator: "screenPageViews", denominator: "sessions" },
+  screenPageViewsPerUser: { aggregation: "ratio", numerator: "screenPageViews", denominator: "activeUsers" },
+  sessionsPerUser: { aggregation: "ratio", numerator: "sessions", denominator: "activeUsers" },
+  eventsPerSession: { aggregation: "ratio", numerator: "eventCount", denominator: "sessions" },
+  eventCountPerUser: { aggregation: "ratio", numerator: "eventCount", denominator: "activeUsers" },
+  averagePurchaseRevenue: { aggregation: "ratio", numerator: "purchaseRevenue", denominator: "totalPurchasers" },
+  averageRevenuePerUser: { aggregation: "ratio", numerator: "totalRevenue", denominator: "activeUsers" },
+  // Derived ecommerce metrics: transactions per 100 sessions and revenue per transaction
+  conversionRate: { aggregation: "ratio", numerator: "transactions", denominator: "sessions", scale: 100 },
+  averageOrderValue: { aggregation: "ratio", numerator: "purchaseRevenue", denominator: "transactions" },
+};
+
+/**
+ * How a metric aggregates. Unregistered metrics are inferred from GA naming:
+ * "...PerUser" is user-weighted, "...Rate", "...PerSession" and "average..." are session-weighted,
+ * anything else is a count.
+ */
+export function getMetricDefinition(name: string): MetricDefinition {
+  const registered = METRIC_REGISTRY[name];
+  if (registered) return registered;
+  if (name.endsWith("PerUser")) return { aggregation: "userWeighted" };
+  if (name.endsWith("Rate") || name.endsWith("PerSession") || name.startsWith("average")) {
+    return { aggregation: "sessionWeighted" };
+  }
+  return { aggregation: "sum" };
+}
+
+/**
+ * Metrics a weighted rate or average is weighted by, in order of preference; empty for counts and ratios
+ */
+export function getWeightMetrics(name: string): string[] {
+  return AGGREGATION_WEIGHTS[getMetricDefinition(name).aggregation] ?? [];
+}
+
+/**
+ * Build a sample from a GA report row (or totals row) by header name
+ */
+export function toMetricSample(
+  metricHeaders: { name: string }[],
+  metricValues: { value?: string | null }[] | undefined,
+): MetricSample {
+  const sample: MetricSample = {};
+  metricHeaders.forEach((header, index) => {
+    const raw = metricValues?.[index]?.value;
+    const value = Number(raw);
+    if (raw !== undefined && raw !== null && raw !== "" && Number.isFinite(value)) sample[header.name] = value;
+  });
+  return sample;
+}
+
+/**
+ * Combine a metric across samples according to its aggregation (the registered one unless
+ * `definition` is given). Weighted means fall back to a plain mean when a sample has no weight;
+ * ratios fall back to weighting the metric's own values by the denominator when a sample lacks
+ * one of the parts. Returns undefined when no sample has the metric.
+ */
+export function aggregateMetric(
+  name: string,
+  samples: MetricSample[],
+  definition: MetricDefinition = getMetricDefinition(name),
+): number | undefined {
+  if (definition.aggregation === "ratio" && definition.numerator && definition.denominator) {
+    const { numerator, denominator, scale = 1 } = definition;
+    // Samples without the metric or its numerator do not take part
+    const relevant = samples.filter((s) => s[name] !== undefined || s[numerator] !== undefined);
+    const withParts = relevant.filter((s) => s[numerator] !== undefined && s[denominator] !== undefined);
+    if (withParts.length > 0 && withParts.length === relevant.length) {
+      const denominatorTotal = sum(withParts.map((s) => s[denominator] ?? 0));
+      return denominatorTotal > 0 ? (sum(withParts.map((s) => s[numerator] ?? 0)) / denominatorTotal) * scale : 0;
+    }
+    return weightedMean(name, relevant, [denominator]);
+  }
+
+  if (definition.aggregation === "sum") {
+    const values = samples.map((s) => s[name]).filter((v): v is number => v !== undefined);
+    return values.length > 0 ? sum(values) : undefined;
+  }
+
+  return weightedMean(name, samples, AGGREGATION_WEIGHTS[definition.aggregation] ?? []);
+}
+
+/**
+ * Aggregate several metrics at once, leaving out metrics no sample has
+ */
+export function aggregateMetricValues(names: string[], samples: MetricSample[]): MetricSample {
+  const result: MetricSample = {};
+  for (const name of names) {
+    const value = aggregateMetric(name, samples);
+    if (value !== undefined) result[name] = value;
+  }
+  return result;
+}
+
+// Private helpers
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function weightedMean(name: string, samples: MetricSample[], weightNames: string[]): number | undefined {
+  const withValue = samples.filter((s) => s[name] !== undefined);
+  if (withValue.length === 0) return undefined;
+
+  const weights = withValue.map((s) => weightNames.map((w) => s[w]).find((w) => w !== undefined));
+  const totalWeight = sum(weights.map((w) => w ?? 0));
+  if (weights.every((w) => w !== undefined) && totalWeight > 0) {
+    return sum(withValue.map((s, i) => (s[name] ?? 0) * (weights[i] ?? 0))) / totalWeight;
+  }
+  return sum(withValue.map((s) => s[name] ?? 0)) / withValue.length;
+}
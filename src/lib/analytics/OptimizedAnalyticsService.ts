@@ -3,7 +3,9 @@
 import { googleAnalyticsService } from "~/lib/google-analytics";
 import { logger } from "~/lib/logger";
 import { propertyFilterService } from "./PropertyFilterService";
-import type { AnalyticsProperty, AnalyticsData } from "~/types/analytics";
+import { createAnalyticsCache, type AnalyticsCacheStats } from "./AnalyticsCache";
+import { quotaTracker } from "./QuotaTracker";
+import type { AnalyticsProperty, AnalyticsData, PropertyQuotaSnapshot } from "~/types/analytics";
 import type { DateRange } from "~/types/chat";
 import type { FilterCriteria } from "./PropertyFilterService";
 
@@ -43,11 +45,20 @@ export interface BatchFetchResult {
   totalFetchTime: number;
   cacheHits: number;
   cacheMisses: number;
+  // Remaining GA4 quota of the fetched properties, as reported with their latest reports
+  quota: PropertyQuotaSnapshot[];
+  // Total time spent waiting on the quota token bucket
+  throttledMs: number;
 }
 
 export class OptimizedAnalyticsService {
-  private cache = new Map<string, { data: AnalyticsData; timestamp: number; organicUsers: number }>();
   private readonly DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private cache = createAnalyticsCache<{ data: AnalyticsData; organicUsers: number }>({
+    namespace: "optimized-analytics",
+    ttlMs: this.DEFAULT_CACHE_TTL,
+    staleTtlMs: this.DEFAULT_CACHE_TTL, // Keep entries for 2x TTL
+    maxEntries: 500,
+  });
   private readonly DEFAULT_CONCURRENCY = 3;
   private readonly DEFAULT_TIMEOUT = 15000; // 15 seconds
   private readonly HIGH_PERFORMER_THRESHOLD = 1000; // Minimum organic users for high performer
@@ -139,6 +150,7 @@ export class OptimizedAnalyticsService {
     const failed: Array<{ propertyId: string; error: string }> = [];
     let cacheHits = 0;
     let cacheMisses = 0;
+    let throttledMs = 0;
 
     // Process in batches
     for (let i = 0; i < properties.length; i += concurrency) {
@@ -153,6 +165,7 @@ export class OptimizedAnalyticsService {
             options
           );
           
+          throttledMs += result.throttledMs;
           if (result.fromCache) {
             cacheHits++;
           } else {
@@ -190,7 +203,11 @@ export class OptimizedAnalyticsService {
       failed,
       totalFetchTime: 0, // Will be set by caller
       cacheHits,
-      cacheMisses
+      cacheMisses,
+      quota: properties
+        .map(property => quotaTracker.getSnapshot(property.propertyId))
+        .filter((snapshot): snapshot is PropertyQuotaSnapshot => snapshot !== null),
+      throttledMs
     };
   }
 
@@ -202,32 +219,7 @@ export class OptimizedAnalyticsService {
     property: AnalyticsProperty,
     dateRange: DateRange,
     options: OptimizedFetchOptions
-  ): Promise<{ data: PropertyPerformanceData; fromCache: boolean }> {
-    const cacheKey = `${property.propertyId}_${dateRange.startDate}_${dateRange.endDate}`;
-    const cacheTimeout = options.cacheTimeout || this.DEFAULT_CACHE_TTL;
-    
-    // Check cache first
-    if (options.useCache !== false) {
-      const cached = this.cache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < cacheTimeout) {
-        return {
-          data: {
-            propertyId: property.propertyId,
-            displayName: property.displayName,
-            data: cached.data,
-            fetchTime: 0,
-            organicUsers: cached.organicUsers,
-            organicSessions: this.extractOrganicSessions(cached.data),
-            isHighPerformer: cached.organicUsers >= this.HIGH_PERFORMER_THRESHOLD
-          },
-          fromCache: true
-        };
-      }
-    }
-
-    // Fetch fresh data
-    const fetchStart = Date.now();
-    
+  ): Promise<{ data: PropertyPerformanceData; fromCache: boolean; throttledMs: number }> {
     // Use optimized metrics for organic traffic
     const organicMetrics = options.customMetrics || [
       "activeUsers",
@@ -237,39 +229,41 @@ export class OptimizedAnalyticsService {
       "averageSessionDuration"
     ];
 
-    const data = await googleAnalyticsService.getAnalyticsData(
-      accessToken,
-      property.propertyId,
-      dateRange.startDate,
-      dateRange.endDate,
-      organicMetrics
-    );
-
-    const fetchTime = Date.now() - fetchStart;
-    const organicUsers = this.extractOrganicUsers(data);
-    const organicSessions = this.extractOrganicSessions(data);
-
-    // Cache the result
-    this.cache.set(cacheKey, {
-      data,
-      timestamp: Date.now(),
-      organicUsers
-    });
+    const cacheKey = `${property.propertyId}_${dateRange.startDate}_${dateRange.endDate}_${organicMetrics.join(",")}`;
+    const fetchStart = Date.now();
+    let throttledMs = 0;
 
-    // Clean old cache entries
-    this.cleanCache();
+    const { value, fromCache } = await this.cache.getOrLoad(
+      cacheKey,
+      async () => {
+        const data = await googleAnalyticsService.getAnalyticsData(
+          accessToken,
+          property.propertyId,
+          dateRange.startDate,
+          dateRange.endDate,
+          organicMetrics
+        );
+        throttledMs = data.throttledMs ?? 0;
+        return { data, organicUsers: this.extractOrganicUsers(data) };
+      },
+      {
+        forceRefresh: options.useCache === false,
+        ttlMs: options.cacheTimeout,
+        tags: [property.propertyId],
+      }
+    );
 
     const result: PropertyPerformanceData = {
       propertyId: property.propertyId,
       displayName: property.displayName,
-      data,
-      fetchTime,
-      organicUsers,
-      organicSessions,
-      isHighPerformer: organicUsers >= this.HIGH_PERFORMER_THRESHOLD
+      data: value.data,
+      fetchTime: fromCache ? 0 : Date.now() - fetchStart,
+      organicUsers: value.organicUsers,
+      organicSessions: this.extractOrganicSessions(value.data),
+      isHighPerformer: value.organicUsers >= this.HIGH_PERFORMER_THRESHOLD
     };
 
-    return { data: result, fromCache: false };
+    return { data: result, fromCache, throttledMs };
   }
 
   /**
@@ -298,38 +292,11 @@ export class OptimizedAnalyticsService {
     return parseInt(total.metricValues[1]?.value || "0");
   }
 
-  /**
-   * Clean old cache entries
-   */
-  private cleanCache(): void {
-    const now = Date.now();
-    const maxAge = this.DEFAULT_CACHE_TTL * 2; // Keep entries for 2x TTL
-    
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > maxAge) {
-        this.cache.delete(key);
-      }
-    }
-  }
-
   /**
    * Get cache statistics
    */
-  getCacheStats(): {
-    size: number;
-    oldestEntry: number | null;
-    newestEntry: number | null;
-    hitRate: number;
-  } {
-    const entries = Array.from(this.cache.values());
-    const timestamps = entries.map(entry => entry.timestamp);
-    
-    return {
-      size: this.cache.size,
-      oldestEntry: timestamps.length > 0 ? Math.min(...timestamps) : null,
-      newestEntry: timestamps.length > 0 ? Math.max(...timestamps) : null,
-      hitRate: 0 // Would need to track hits/misses for accurate calculation
-    };
+  getCacheStats(): AnalyticsCacheStats {
+    return this.cache.getStats();
   }
 
   /**
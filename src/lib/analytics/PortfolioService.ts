@@ -0,0 +1,130 @@
+// Portfolio trend service
+// Sums daily metrics across properties. Each property reports days in its own time zone, so by default
+// days are merged by calendar date with a warning when the zones differ. With a reporting time zone,
+// properties in other zones are fetched by hour and their hours moved onto the reporting zone's days.
+
+import { googleAnalyticsService } from "~/lib/google-analytics";
+import { addDays } from "./DateRangeResolver";
+import { convertDateHour, describeMixedTimeZones, getMixedTimeZones } from "./TimeZoneAlignment";
+import type { FilterExpression } from "./FilterExpression";
+import type {
+  AnalyticsData,
+  PortfolioPropertySeries,
+  PortfolioTrendData,
+  PortfolioTrendPoint,
+} from "~/types/analytics";
+import type { DateRange } from "~/types/chat";
+
+// Metrics that can be summed across hours and properties. User counts are left out:
+// a user active in several hours would be counted once per hour.
+export const PORTFOLIO_METRICS = ["sessions", "newUsers", "screenPageViews"];
+
+export const MAX_PORTFOLIO_PROPERTIES = 25;
+
+// Time zone offsets differ by up to 26 hours, so hourly rows are fetched two days either side of the range
+const ALIGNMENT_MARGIN_DAYS = 2;
+
+export interface PortfolioSeriesOptions {
+  metrics?: string[];
+  // Time zone the days are aligned to; null or missing keeps the property's own calendar
+  reportingTimeZone?: string | null;
+  dimensionFilter?: FilterExpression;
+}
+
+export class PortfolioService {
+  /**
+   * Daily series of one property for a concrete (YYYY-MM-DD) range. The range is read in the
+   * reporting time zone when one is given and differs from the property's.
+   */
+  async getPropertySeries(
+    accessToken: string,
+    propertyId: string,
+    timeZone: string,
+    range: DateRange,
+    options: PortfolioSeriesOptions = {},
+  ): Promise<PortfolioPropertySeries> {
+    const metrics = options.metrics ?? PORTFOLIO_METRICS;
+    const reportingTimeZone = options.reportingTimeZone ?? null;
+
+    if (reportingTimeZone === null || reportingTimeZone === timeZone) {
+      const data = await googleAnalyticsService.runReport(accessToken, propertyId, {
+        ...range,
+        dimensions: ["date"],
+        metrics,
+        dimensionFilter: options.dimensionFilter,
+      });
+      return { propertyId, timeZone, aligned: false, points: this.toPoints(data, metrics, (date) => date) };
+    }
+
+    const data = await googleAnalyticsService.runReport(accessToken, propertyId, {
+      startDate: addDays(range.startDate, -ALIGNMENT_MARGIN_DAYS),
+      endDate: addDays(range.endDate, ALIGNMENT_MARGIN_DAYS),
+      dimensions: ["dateHour"],
+      metrics,
+      dimensionFilter: options.dimensionFilter,
+    });
+    const points = this.toPoints(data, metrics, (dateHour) =>
+      convertDateHour(dateHour, timeZone, reportingTimeZone).slice(0, 8),
+    ).filter((point) => point.date >= range.startDate && point.date <= range.endDate);
+    return { propertyId, timeZone, aligned: true, points };
+  }
+
+  /**
+   * Sum property series by date. Without a reporting time zone, properties in different
+   * zones are still merged by calendar date and the result carries a warning.
+   */
+  mergeSeries(
+    series: PortfolioPropertySeries[],
+    metrics: string[],
+    reportingTimeZone: string | null,
+    failedPropertyIds: string[] = [],
+  ): PortfolioTrendData {
+    const byDate = new Map<string, PortfolioTrendPoint>();
+    for (const { points } of series) {
+      for (const point of points) {
+        const merged = byDate.get(point.date) ?? { date: point.date, values: Object.fromEntries(metrics.map((m) => [m, 0])) };
+        for (const metric of metrics) {
+          merged.values[metric] = (merged.values[metric] ?? 0) + (point.values[metric] ?? 0);
+        }
+        byDate.set(point.date, merged);
+      }
+    }
+
+    const mixedTimeZones = reportingTimeZone === null ? getMixedTimeZones(series.map((s) => s.timeZone)) : [];
+    return {
+      metrics,
+      points: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      reportingTimeZone,
+      properties: series.map(({ propertyId, timeZone, aligned }) => ({ propertyId, timeZone, aligned })),
+      failedPropertyIds,
+      mixedTimeZones,
+      warning: mixedTimeZones.length > 0 ? describeMixedTimeZones(mixedTimeZones) : undefined,
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Sum a report's rows per day. `toDay` maps the first dimension value to a YYYYMMDD day.
+   */
+  private toPoints(data: AnalyticsData, metrics: string[], toDay: (value: string) => string): PortfolioTrendPoint[] {
+    const indexes = metrics.map((name) => data.metricHeaders.findIndex((h) => h.name === name));
+    const byDay = new Map<string, Record<string, number>>();
+
+    for (const row of data.rows) {
+      const day = toDay(row.dimensionValues[0]?.value ?? "");
+      const values = byDay.get(day) ?? Object.fromEntries(metrics.map((m) => [m, 0]));
+      metrics.forEach((metric, i) => {
+        values[metric] = (values[metric] ?? 0) + (Number(row.metricValues[indexes[i] ?? -1]?.value) || 0);
+      });
+      byDay.set(day, values);
+    }
+
+    return Array.from(byDay.entries())
+      .map(([day, values]) => ({ date: `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6, 8)}`, values }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+// Singleton instance
+export const portfolioService = new PortfolioService();
@@ -0,0 +1,103 @@
+// Property Data Cache
+// Server-side cache for /api/analytics/properties/[id]/data responses, scoped per authenticated user
+
+import { env } from "~/env.js";
+import { createAnalyticsCache, type AnalyticsCache, type AnalyticsCacheStats } from "./AnalyticsCache";
+
+// Minimal identity shape taken from the NextAuth session
+interface CacheIdentity {
+  user?: {
+    id?: string | null;
+    email?: string | null;
+  };
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+export class PropertyDataCache {
+  private cache: AnalyticsCache<unknown>;
+
+  constructor(ttlSeconds: number = env.PROPERTY_DATA_CACHE_TTL_SECONDS ?? DEFAULT_TTL_SECONDS) {
+    this.cache = createAnalyticsCache<unknown>({
+      namespace: "property-data",
+      ttlMs: ttlSeconds * 1000,
+      maxEntries: 1000,
+    });
+  }
+
+  /**
+   * Get a cached payload for the given user scope and property, if still fresh
+   */
+  get<T>(scope: string, propertyId: string, key: string): T | undefined {
+    return this.cache.get(this.generateCacheKey(scope, propertyId, key)) as T | undefined;
+  }
+
+  /**
+   * Store a payload for the given user scope and property
+   */
+  set(scope: string, propertyId: string, key: string, data: unknown): void {
+    this.cache.set(this.generateCacheKey(scope, propertyId, key), data, {
+      tags: [scope, this.propertyTag(scope, propertyId)],
+    });
+  }
+
+  /**
+   * Remove all entries of a user for a single property. Returns the number of entries removed.
+   */
+  invalidateProperty(scope: string, propertyId: string): number {
+    return this.cache.invalidateTag(this.propertyTag(scope, propertyId));
+  }
+
+  /**
+   * Remove all entries of a user. Returns the number of entries removed.
+   */
+  invalidateScope(scope: string): number {
+    return this.cache.invalidateTag(scope);
+  }
+
+  /**
+   * Configured time-to-live in milliseconds
+   */
+  getTtlMs(): number {
+    return this.cache.getTtlMs();
+  }
+
+  getCacheStats(): AnalyticsCacheStats {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Clear the whole cache
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  // Private helper methods
+
+  private generateCacheKey(scope: string, propertyId: string, key: string): string {
+    return `${scope}|${propertyId}|${key}`;
+  }
+
+  private propertyTag(scope: string, propertyId: string): string {
+    return `${scope}|property:${propertyId}`;
+  }
+}
+
+/**
+ * Resolve the cache scope for an authenticated session.
+ * Returns null when the session carries no stable identity, in which case callers must bypass the cache.
+ */
+export function getCacheScope(session: CacheIdentity | null | undefined): string | null {
+  const id = session?.user?.id ?? session?.user?.email;
+  return id ? `user:${id}` : null;
+}
+
+// Keep a single instance across hot reloads in development
+const globalForCache = globalThis as unknown as {
+  __ga_property_data_cache__?: PropertyDataCache;
+};
+
+export const propertyDataCache = globalForCache.__ga_property_data_cache__ ?? new PropertyDataCache();
+
+if (env.NODE_ENV !== "production") globalForCache.__ga_property_data_cache__ = propertyDataCache;
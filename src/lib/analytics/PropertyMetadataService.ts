@@ -0,0 +1,261 @@
+// Property metadata service
+// Caches per-property GA4 metadata (standard + custom dimensions/metrics, key events) and validates field names against it.
+// Also checks dimension/metric combinations with the Data API checkCompatibility call and caches
+// property settings (time zone, currency) from the Admin API.
+
+import { googleAnalyticsService, type CompatibilityRequest } from "~/lib/google-analytics";
+import { logger } from "~/lib/logger";
+import { createAnalyticsCache } from "./AnalyticsCache";
+import { DEFAULT_TIME_ZONE } from "./DateRangeResolver";
+import { isKnownField, type FilterKind } from "./FilterExpression";
+import type {
+  CompatibilityField,
+  CompatibilityResult,
+  IncompatibleField,
+  MetadataField,
+  PropertyDetails,
+  PropertyMetadata,
+} from "~/types/analytics";
+
+export class PropertyMetadataService {
+  // Custom definitions change rarely; serve stale metadata for another day while it refreshes
+  private readonly CACHE_TTL = 24 * 60 * 60 * 1000;
+  private readonly STALE_TTL = 24 * 60 * 60 * 1000;
+  // Alternatives suggested per incompatible field
+  private readonly MAX_SUGGESTIONS = 5;
+
+  private cache = createAnalyticsCache<PropertyMetadata>({
+    namespace: "property-metadata",
+    ttlMs: this.CACHE_TTL,
+    staleTtlMs: this.STALE_TTL,
+    maxEntries: 500,
+  });
+
+  // Compatibility depends only on the property's fields, so results are cached as long as metadata
+  private compatibilityCache = createAnalyticsCache<CompatibilityResult>({
+    namespace: "property-compatibility",
+    ttlMs: this.CACHE_TTL,
+    staleTtlMs: this.STALE_TTL,
+    maxEntries: 2000,
+  });
+
+  private detailsCache = createAnalyticsCache<PropertyDetails>({
+    namespace: "property-details",
+    ttlMs: this.CACHE_TTL,
+    staleTtlMs: this.STALE_TTL,
+    maxEntries: 500,
+  });
+
+  /**
+   * Get metadata for a property. Entries are cached per user scope; a null scope bypasses the cache.
+   */
+  async getMetadata(
+    accessToken: string,
+    propertyId: string,
+    scope: string | null,
+    forceRefresh = false,
+  ): Promise<PropertyMetadata> {
+    if (!scope) {
+      return googleAnalyticsService.getMetadata(accessToken, propertyId);
+    }
+
+    const { value } = await this.cache.getOrLoad(
+      `${scope}|${propertyId}`,
+      () => googleAnalyticsService.getMetadata(accessToken, propertyId),
+      { forceRefresh, tags: [scope, propertyId] },
+    );
+    return value;
+  }
+
+  /**
+   * Like getMetadata, but returns null instead of throwing so callers can fall back to static validation
+   */
+  async tryGetMetadata(accessToken: string, propertyId: string, scope: string | null): Promise<PropertyMetadata | null> {
+    try {
+      return await this.getMetadata(accessToken, propertyId, scope);
+    } catch (error) {
+      logger.warn(`[metadata] Falling back to static field list for property ${propertyId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Build a field validator for FilterExpression validation. Without metadata the static GA4 lists are used.
+   */
+  createFieldValidator(metadata: PropertyMetadata | null): (fieldName: string, kind: FilterKind) => boolean {
+    if (!metadata) return isKnownField;
+
+    const dimensions = this.toNameSet(metadata.dimensions);
+    const metrics = this.toNameSet(metadata.metrics);
+    return (fieldName, kind) => (kind === "dimension" ? dimensions : metrics).has(fieldName);
+  }
+
+  /**
+   * Return the names that are not valid dimensions/metrics for the property
+   */
+  findUnknownFields(metadata: PropertyMetadata | null, names: string[], kind: FilterKind): string[] {
+    const isValid = this.createFieldValidator(metadata);
+    return names.filter((name) => !isValid(name, kind));
+  }
+
+  /**
+   * Custom metrics and key events of a property (the fields missing from the static GA4 lists)
+   */
+  getCustomMetrics(metadata: PropertyMetadata): MetadataField[] {
+    return metadata.metrics.filter((m) => m.customDefinition || m.keyEvent);
+  }
+
+  getCustomDimensions(metadata: PropertyMetadata): MetadataField[] {
+    return metadata.dimensions.filter((d) => d.customDefinition);
+  }
+
+  /**
+   * Check a dimension/metric combination. Results are cached per user scope and combination; a null scope bypasses the cache.
+   */
+  async getCompatibility(
+    accessToken: string,
+    propertyId: string,
+    scope: string | null,
+    request: CompatibilityRequest,
+  ): Promise<CompatibilityResult> {
+    if (!scope) {
+      return googleAnalyticsService.checkCompatibility(accessToken, propertyId, request);
+    }
+
+    const { value } = await this.compatibilityCache.getOrLoad(
+      `${scope}|${propertyId}|${this.getCompatibilityKey(request)}`,
+      () => googleAnalyticsService.checkCompatibility(accessToken, propertyId, request),
+      { tags: [scope, propertyId] },
+    );
+    return value;
+  }
+
+  /**
+   * Return the requested fields that cannot be queried together, with compatible alternatives.
+   * If the check itself fails the combination is assumed valid and GA reports any error when the report runs.
+   */
+  async findIncompatibleFields(
+    accessToken: string,
+    propertyId: string,
+    scope: string | null,
+    request: CompatibilityRequest,
+  ): Promise<IncompatibleField[]> {
+    let result: CompatibilityResult;
+    try {
+      result = await this.getCompatibility(accessToken, propertyId, scope, request);
+    } catch (error) {
+      logger.warn(`[metadata] Skipping compatibility check for property ${propertyId}:`, error);
+      return [];
+    }
+
+    const requested = new Set([...request.dimensions, ...request.metrics]);
+    return [
+      ...this.collectIncompatible(result.dimensions, request.dimensions, requested, "dimension"),
+      ...this.collectIncompatible(result.metrics, request.metrics, requested, "metric"),
+    ];
+  }
+
+  /**
+   * Get property settings (time zone, currency, ...). Cached per user scope; a null scope bypasses the cache.
+   */
+  async getPropertyDetails(accessToken: string, propertyId: string, scope: string | null): Promise<PropertyDetails> {
+    if (!scope) {
+      return googleAnalyticsService.getPropertyDetails(accessToken, propertyId);
+    }
+
+    const { value } = await this.detailsCache.getOrLoad(
+      `${scope}|${propertyId}`,
+      () => googleAnalyticsService.getPropertyDetails(accessToken, propertyId),
+      { tags: [scope, propertyId] },
+    );
+    return value;
+  }
+
+  /**
+   * The property's reporting time zone; throws when it cannot be loaded
+   */
+  async getTimeZone(accessToken: string, propertyId: string, scope: string | null): Promise<string> {
+    const details = await this.getPropertyDetails(accessToken, propertyId, scope);
+    if (details.timeZone === "") {
+      throw new Error(`Property ${propertyId} has no reporting time zone`);
+    }
+    return details.timeZone;
+  }
+
+  /**
+   * The property's reporting time zone, or UTC when it cannot be loaded
+   */
+  async tryGetTimeZone(accessToken: string, propertyId: string, scope: string | null): Promise<string> {
+    try {
+      return await this.getTimeZone(accessToken, propertyId, scope);
+    } catch (error) {
+      logger.warn(`[metadata] Falling back to ${DEFAULT_TIME_ZONE} for property ${propertyId}:`, error);
+      return DEFAULT_TIME_ZONE;
+    }
+  }
+
+  /**
+   * The property's currency (ISO 4217), or null when it cannot be loaded
+   */
+  async tryGetCurrencyCode(accessToken: string, propertyId: string, scope: string | null): Promise<string | null> {
+    try {
+      const details = await this.getPropertyDetails(accessToken, propertyId, scope);
+      return details.currencyCode === "" ? null : details.currencyCode;
+    } catch (error) {
+      logger.warn(`[metadata] Currency of property ${propertyId} is unknown:`, error);
+      return null;
+    }
+  }
+
+  clearCache(propertyId?: string): number {
+    const caches = [this.cache, this.compatibilityCache, this.detailsCache];
+    if (propertyId) {
+      return caches.reduce((sum, cache) => sum + cache.invalidateTag(propertyId), 0);
+    }
+    const size = caches.reduce((sum, cache) => sum + cache.getStats().size, 0);
+    caches.forEach((cache) => cache.clear());
+    return size;
+  }
+
+  // Private helper methods
+
+  private toNameSet(fields: MetadataField[]): Set<string> {
+    const names = new Set<string>();
+    for (const field of fields) {
+      names.add(field.apiName);
+      field.deprecatedApiNames.forEach((name) => names.add(name));
+    }
+    return names;
+  }
+
+  private collectIncompatible(
+    fields: CompatibilityField[],
+    names: string[],
+    requested: Set<string>,
+    kind: IncompatibleField["kind"],
+  ): IncompatibleField[] {
+    const byName = new Map(fields.map((f) => [f.apiName, f]));
+    return names.flatMap((name) => {
+      const field = byName.get(name);
+      if (field?.compatibility !== "INCOMPATIBLE") return [];
+
+      const suggestions = fields
+        .filter((f) => f.compatibility === "COMPATIBLE" && f.category === field.category && !requested.has(f.apiName))
+        .slice(0, this.MAX_SUGGESTIONS)
+        .map((f) => f.apiName);
+      return [{ apiName: name, kind, suggestions }];
+    });
+  }
+
+  private getCompatibilityKey(request: CompatibilityRequest): string {
+    return JSON.stringify([
+      [...request.dimensions].sort(),
+      [...request.metrics].sort(),
+      request.dimensionFilter ?? null,
+      request.metricFilter ?? null,
+    ]);
+  }
+}
+
+// Singleton instance
+export const propertyMetadataService = new PropertyMetadataService();
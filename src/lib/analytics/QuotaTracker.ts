@@ -0,0 +1,174 @@
+// GA4 property quota tracker
+// Records the property quota returned with every report and keeps a token bucket per property and
+// quota category, so report calls (GoogleAnalyticsService.fetchReport acquires before each one) slow
+// down before the hourly token quota runs out instead of failing with 429s
+
+import { logger } from "~/lib/logger";
+import type { PropertyQuota, PropertyQuotaSnapshot, QuotaCategory } from "~/types/analytics";
+
+interface QuotaBucket {
+  propertyId: string;
+  category: QuotaCategory;
+  quota: PropertyQuota;
+  // Hourly tokens believed available at `updatedAt` (reported remaining minus local reservations)
+  tokens: number;
+  capacity: number;
+  // Moving average of tokens consumed per report
+  averageCost: number;
+  updatedAt: number;
+  exhaustedUntil: number;
+}
+
+export class QuotaTracker {
+  // Hourly token quota of a standard GA4 property; raised when GA reports a larger window (Analytics 360)
+  private readonly DEFAULT_HOURLY_TOKENS = 40000;
+  private readonly DEFAULT_REPORT_COST = 10;
+  private readonly HOUR_MS = 60 * 60 * 1000;
+  // Below this share of the hourly quota, reports are paced to the refill rate
+  private readonly SLOWDOWN_RATIO = 0.25;
+  private readonly MAX_DELAY_MS = 60 * 1000;
+  // Back-off after a 429, matching the retryAfter ErrorHandlingService reports for rate limits
+  private readonly EXHAUSTED_BACKOFF_MS = 60 * 1000;
+  private readonly COST_SMOOTHING = 0.2;
+
+  private buckets = new Map<string, QuotaBucket>();
+
+  /**
+   * Record the quota GA returned with a report for a property
+   */
+  record(propertyId: string, quota: PropertyQuota, category: QuotaCategory = "core"): void {
+    const bucket = this.getOrCreateBucket(propertyId, category);
+    const hourly = quota.tokensPerHour;
+
+    bucket.quota = quota;
+    bucket.updatedAt = Date.now();
+
+    if (hourly) {
+      bucket.capacity = Math.max(bucket.capacity, hourly.consumed + hourly.remaining);
+      bucket.tokens = hourly.remaining;
+      if (hourly.consumed > 0) {
+        bucket.averageCost += (hourly.consumed - bucket.averageCost) * this.COST_SMOOTHING;
+      }
+      if (hourly.remaining > 0) bucket.exhaustedUntil = 0;
+    }
+  }
+
+  /**
+   * Record that GA rejected a request for a property with RESOURCE_EXHAUSTED (429)
+   */
+  markExhausted(propertyId: string, category: QuotaCategory = "core"): void {
+    const bucket = this.getOrCreateBucket(propertyId, category);
+    const now = Date.now();
+    bucket.tokens = 0;
+    bucket.updatedAt = now;
+    bucket.exhaustedUntil = now + this.EXHAUSTED_BACKOFF_MS;
+    logger.warn(`[quota] Property ${propertyId} ${category} quota exhausted, backing off for ${this.EXHAUSTED_BACKOFF_MS}ms`);
+  }
+
+  /**
+   * Reserve tokens for one report, waiting first when the property is low on quota.
+   * Properties without recorded quota pass straight through. Returns the applied delay.
+   */
+  async acquire(propertyId: string, category: QuotaCategory = "core"): Promise<number> {
+    const bucket = this.buckets.get(this.getBucketKey(propertyId, category));
+    if (!bucket) return 0;
+
+    const now = Date.now();
+    // Reserve up front so concurrent callers in the same batch see each other's cost
+    bucket.tokens = this.getAvailableTokens(bucket, now) - bucket.averageCost;
+    bucket.updatedAt = now;
+
+    const delay = this.getDelay(bucket, now);
+    if (delay > 0) {
+      logger.debug(`[quota] Throttling property ${propertyId} (${category}) for ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    return Math.round(delay);
+  }
+
+  /**
+   * Current quota state for a property, or null when no report has been recorded yet
+   */
+  getSnapshot(propertyId: string, category: QuotaCategory = "core"): PropertyQuotaSnapshot | null {
+    const bucket = this.buckets.get(this.getBucketKey(propertyId, category));
+    return bucket ? this.toSnapshot(bucket) : null;
+  }
+
+  getAllSnapshots(): PropertyQuotaSnapshot[] {
+    return Array.from(this.buckets.values()).map(bucket => this.toSnapshot(bucket));
+  }
+
+  clear(propertyId?: string): void {
+    if (propertyId) {
+      for (const [key, bucket] of this.buckets) {
+        if (bucket.propertyId === propertyId) this.buckets.delete(key);
+      }
+    } else {
+      this.buckets.clear();
+    }
+  }
+
+  // Private helper methods
+
+  private getBucketKey(propertyId: string, category: QuotaCategory): string {
+    return `${propertyId}:${category}`;
+  }
+
+  private toSnapshot(bucket: QuotaBucket): PropertyQuotaSnapshot {
+    const now = Date.now();
+    const available = this.getAvailableTokens(bucket, now);
+    return {
+      propertyId: bucket.propertyId,
+      category: bucket.category,
+      quota: bucket.quota,
+      updatedAt: new Date(bucket.updatedAt).toISOString(),
+      availableHourlyTokens: Math.max(0, Math.floor(available)),
+      hourlyCapacity: bucket.capacity,
+      throttleDelayMs: Math.round(this.getDelay({ ...bucket, tokens: available - bucket.averageCost, updatedAt: now }, now)),
+      exhausted: bucket.exhaustedUntil > now || bucket.quota.tokensPerDay?.remaining === 0,
+    };
+  }
+
+  private getOrCreateBucket(propertyId: string, category: QuotaCategory): QuotaBucket {
+    const key = this.getBucketKey(propertyId, category);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        propertyId,
+        category,
+        quota: {},
+        tokens: this.DEFAULT_HOURLY_TOKENS,
+        capacity: this.DEFAULT_HOURLY_TOKENS,
+        averageCost: this.DEFAULT_REPORT_COST,
+        updatedAt: Date.now(),
+        exhaustedUntil: 0,
+      };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  // Hourly tokens refill continuously at capacity per hour
+  private getAvailableTokens(bucket: QuotaBucket, now: number): number {
+    const refill = ((now - bucket.updatedAt) / this.HOUR_MS) * bucket.capacity;
+    return Math.min(bucket.capacity, bucket.tokens + refill);
+  }
+
+  // Below the slowdown threshold the delay grows from 0 up to the time the hourly window needs to
+  // refill one report's cost when the bucket is empty, capped at MAX_DELAY_MS
+  private getDelay(bucket: QuotaBucket, now: number): number {
+    if (bucket.exhaustedUntil > now) {
+      return Math.min(bucket.exhaustedUntil - now, this.MAX_DELAY_MS);
+    }
+
+    const threshold = bucket.capacity * this.SLOWDOWN_RATIO;
+    if (bucket.tokens >= threshold) return 0;
+
+    const pressure = (threshold - bucket.tokens) / threshold;
+    const refillPerMs = bucket.capacity / this.HOUR_MS;
+    return Math.min((bucket.averageCost / refillPerMs) * pressure, this.MAX_DELAY_MS);
+  }
+}
+
+// Singleton instance
+export const quotaTracker = new QuotaTracker();
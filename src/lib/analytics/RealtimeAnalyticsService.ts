@@ -0,0 +1,55 @@
+// Realtime analytics service
+// Builds live snapshots (active users in the last 30 minutes) from the GA4 Realtime API
+
+import { googleAnalyticsService } from "~/lib/google-analytics";
+import type { AnalyticsData, RealtimeBreakdownItem, RealtimeSnapshot } from "~/types/analytics";
+
+export class RealtimeAnalyticsService {
+  private readonly TOP_N = 10;
+  private readonly METRIC = "activeUsers";
+
+  /**
+   * Fetch the current active users with country, device and page breakdowns
+   */
+  async getSnapshot(accessToken: string, propertyId: string): Promise<RealtimeSnapshot> {
+    const metrics = [this.METRIC];
+    const [totals, countries, devices, pages] = await Promise.all([
+      googleAnalyticsService.runRealtimeReport(accessToken, propertyId, { dimensions: [], metrics }),
+      googleAnalyticsService.runRealtimeReport(accessToken, propertyId, { dimensions: ["country"], metrics, limit: this.TOP_N }),
+      googleAnalyticsService.runRealtimeReport(accessToken, propertyId, { dimensions: ["deviceCategory"], metrics, limit: this.TOP_N }),
+      googleAnalyticsService.runRealtimeReport(accessToken, propertyId, { dimensions: ["unifiedScreenName"], metrics, limit: this.TOP_N }),
+    ]);
+
+    return {
+      propertyId,
+      timestamp: new Date().toISOString(),
+      activeUsers: this.parseValue(totals.rows[0]?.metricValues[0]?.value),
+      byCountry: this.toBreakdown(countries),
+      byDevice: this.toBreakdown(devices),
+      byPage: this.toBreakdown(pages),
+    };
+  }
+
+  // Private helper methods
+
+  private toBreakdown(data: AnalyticsData): RealtimeBreakdownItem[] {
+    return data.rows
+      .map((row) => {
+        const name = row.dimensionValues[0]?.value ?? "";
+        return {
+          name: name === "" ? "(not set)" : name,
+          activeUsers: this.parseValue(row.metricValues[0]?.value),
+        };
+      })
+      .sort((a, b) => b.activeUsers - a.activeUsers)
+      .slice(0, this.TOP_N);
+  }
+
+  private parseValue(value: string | undefined): number {
+    const n = Number(value ?? 0);
+    return Number.isFinite(n) ? n : 0;
+  }
+}
+
+// Singleton instance
+export const realtimeAnalyticsService = new RealtimeAnalyticsService();
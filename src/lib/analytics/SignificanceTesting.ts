@@ -0,0 +1,290 @@
+// Significance testing
+// Tests whether a metric's change between two periods is more than noise. Counts (sessions, users) get a
+// Poisson test: given the combined total, the current period's share follows a binomial distribution. Day to
+// day variation beyond Poisson, including weekday swings, widens that test. Rates (bounce, engagement) get a
+// two-proportion (binomial) test over the sessions or users they were measured on. Averages, durations and
+// revenue get a bootstrap of their daily values. Significance labels come from the p-value, not the size of
+// the change, so a jump from 10 to 13 sessions is "low".
+
+import type { AnalyticsData, ChangeSignificance, SignificanceTest } from "~/types/analytics";
+import { getMetricInfo } from "./MetricDictionary";
+import {
+  aggregateMetric,
+  getMetricDefinition,
+  getWeightMetrics,
+  toMetricSample,
+  type MetricSample,
+} from "./MetricRegistry";
+
+// One period of a metric
+export interface PeriodObservation {
+  // Total of a count, or the period's rate or average
+  value: number;
+  // Sessions or users a rate was measured on
+  trials?: number;
+  // Daily values of the period, in date order
+  daily?: number[];
+  // Days in the period; days of counts missing from `daily` had none
+  days?: number;
+}
+
+export interface BootstrapOptions {
+  iterations?: number;
+  // Resampling is seeded so the same data always gets the same p-value
+  seed?: number;
+}
+
+// p-value thresholds of the "high" and "medium" labels
+export const HIGH_SIGNIFICANCE_P = 0.01;
+export const MEDIUM_SIGNIFICANCE_P = 0.05;
+
+// Fewer daily values than this per period are not bootstrapped or used to estimate dispersion
+export const MIN_DAILY_VALUES = 3;
+
+const DEFAULT_BOOTSTRAP: Required<BootstrapOptions> = { iterations: 2000, seed: 0x5eed };
+
+const TEST_NAMES: Record<SignificanceTest, string> = {
+  poisson: "Poisson test",
+  binomial: "two-proportion test",
+  bootstrap: "bootstrap test",
+};
+
+// Larger totals use the normal approximation of the binomial
+const MAX_EXACT_TRIALS = 1000;
+
+/**
+ * Significance label of a p-value
+ */
+export function toSignificance(pValue: number): ChangeSignificance["significance"] {
+  return pValue < HIGH_SIGNIFICANCE_P ? "high" : pValue < MEDIUM_SIGNIFICANCE_P ? "medium" : "low";
+}
+
+/**
+ * Test a metric's change from `previous` to `current` with the test that suits it: Poisson for counts,
+ * binomial for rates with known trials and a bootstrap of daily values for everything else. Comparisons
+ * without the data their test needs are reported with `insufficientData`, a p-value of 1 and "low".
+ */
+export function testChange(metric: string, current: PeriodObservation, previous: PeriodObservation): ChangeSignificance {
+  const type = getMetricInfo(metric).type;
+  const isCount = getMetricDefinition(metric).aggregation === "sum";
+  const currentDaily = isCount ? padDaily(current) : (current.daily ?? []);
+  const previousDaily = isCount ? padDaily(previous) : (previous.daily ?? []);
+
+  if (isCount && type === "integer") {
+    const dispersion = currentDaily.length >= MIN_DAILY_VALUES && previousDaily.length >= MIN_DAILY_VALUES
+      ? estimateDispersion(currentDaily, previousDaily)
+      : 1;
+    const exposures = current.days && previous.days
+      ? { currentExposure: current.days, previousExposure: previous.days }
+      : {};
+    return result("poisson", poissonTest(current.value, previous.value, { ...exposures, dispersion }));
+  }
+
+  if (type === "percent" && getWeightMetrics(metric).length > 0) {
+    if (!current.trials || !previous.trials) return insufficient("binomial");
+    // GA reports rates as fractions (0.45 for 45%)
+    return result("binomial", proportionTest(current.value, current.trials, previous.value, previous.trials));
+  }
+
+  if (currentDaily.length < MIN_DAILY_VALUES || previousDaily.length < MIN_DAILY_VALUES) return insufficient("bootstrap");
+  return result("bootstrap", bootstrapTest(currentDaily, previousDaily));
+}
+
+/**
+ * Observation of a metric from a period's aggregated metrics (as `aggregateMetricValues` returns them).
+ * Rates take their trials from the metric they are weighted by. Undefined when the period lacks the metric.
+ */
+export function observePeriod(
+  metric: string,
+  sample: MetricSample,
+  daily?: number[],
+  days?: number,
+): PeriodObservation | undefined {
+  const value = sample[metric];
+  if (value === undefined) return undefined;
+  const trials = getWeightMetrics(metric).map((name) => sample[name]).find((weight) => weight !== undefined);
+  return { value, trials, daily, days };
+}
+
+/**
+ * A metric's values per day across reports with a date dimension, in date order; rows of the same day
+ * (other dimensions, other properties) are combined as the metric registry declares. Empty without dates.
+ */
+export function getDailyValues(reports: AnalyticsData[], metric: string): number[] {
+  const samplesByDate = new Map<string, MetricSample[]>();
+  reports.forEach((data) => {
+    const dateIndex = data.dimensionHeaders.findIndex((header) => header.name === "date");
+    if (dateIndex < 0) return;
+    data.rows.forEach((row) => {
+      const date = row.dimensionValues[dateIndex]?.value;
+      if (!date) return;
+      samplesByDate.set(date, [...(samplesByDate.get(date) ?? []), toMetricSample(data.metricHeaders, row.metricValues)]);
+    });
+  });
+
+  return Array.from(samplesByDate.keys())
+    .sort()
+    .map((date) => aggregateMetric(metric, samplesByDate.get(date) ?? []))
+    .filter((value): value is number => value !== undefined);
+}
+
+/**
+ * Two-sided p-value of a change between two counts. Given their sum, the current count is binomial with
+ * the current period's share of the exposure (days); the test is exact for moderate sums. A dispersion
+ * above 1 (see estimateDispersion) scales the variance, as in a quasi-Poisson model.
+ */
+export function poissonTest(
+  current: number,
+  previous: number,
+  options: { currentExposure?: number; previousExposure?: number; dispersion?: number } = {},
+): number {
+  const { currentExposure = 1, previousExposure = 1, dispersion = 1 } = options;
+  const x = Math.max(0, Math.round(current));
+  const n = x + Math.max(0, Math.round(previous));
+  if (n === 0) return 1;
+
+  const share = currentExposure / (currentExposure + previousExposure);
+  if (n <= MAX_EXACT_TRIALS && dispersion <= 1) return exactBinomialTest(x, n, share);
+
+  const sd = Math.sqrt(n * share * (1 - share) * Math.max(1, dispersion));
+  // Continuity correction
+  const z = Math.max(0, Math.abs(x - n * share) - 0.5) / sd;
+  return twoSidedNormalP(z);
+}
+
+/**
+ * Variance of daily counts relative to their mean (1 for Poisson counts), pooled over periods
+ * and never below 1
+ */
+export function estimateDispersion(...periods: number[][]): number {
+  let chiSquare = 0;
+  let degreesOfFreedom = 0;
+  periods.forEach((values) => {
+    const m = mean(values);
+    if (values.length < 2 || m <= 0) return;
+    chiSquare += values.reduce((sum, value) => sum + (value - m) ** 2, 0) / m;
+    degreesOfFreedom += values.length - 1;
+  });
+  return degreesOfFreedom > 0 ? Math.max(1, chiSquare / degreesOfFreedom) : 1;
+}
+
+/**
+ * Two-sided p-value of a difference between two proportions (0..1) measured on `currentTrials`
+ * and `previousTrials` sessions or users, by the pooled two-proportion z-test
+ */
+export function proportionTest(
+  currentRate: number,
+  currentTrials: number,
+  previousRate: number,
+  previousTrials: number,
+): number {
+  if (currentTrials <= 0 || previousTrials <= 0) return 1;
+  const pooled = (currentRate * currentTrials + previousRate * previousTrials) / (currentTrials + previousTrials);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / currentTrials + 1 / previousTrials));
+  if (!(se > 0)) return currentRate === previousRate ? 1 : 0;
+  return twoSidedNormalP(Math.abs(currentRate - previousRate) / se);
+}
+
+/**
+ * Two-sided p-value of a difference between the means of two sets of daily values. Both sets are shifted
+ * to their pooled mean, so resampling them with replacement shows how large a difference chance alone
+ * produces.
+ */
+export function bootstrapTest(current: number[], previous: number[], options: BootstrapOptions = {}): number {
+  const { iterations, seed } = { ...DEFAULT_BOOTSTRAP, ...options };
+  if (current.length === 0 || previous.length === 0) return 1;
+
+  const observed = Math.abs(mean(current) - mean(previous));
+  const pooled = mean([...current, ...previous]);
+  const currentNull = current.map((value) => value - mean(current) + pooled);
+  const previousNull = previous.map((value) => value - mean(previous) + pooled);
+
+  const random = mulberry32(seed);
+  // Mean of as many values drawn with replacement
+  const resampleMean = (values: number[]) =>
+    values.reduce((sum) => sum + (values[Math.floor(random() * values.length)] ?? 0), 0) / values.length;
+
+  // Resampled differences equal to the observed one up to rounding count as extreme
+  const tolerance = 1e-9 * Math.max(1, Math.abs(pooled));
+  let extreme = 0;
+  for (let i = 0; i < iterations; i++) {
+    if (Math.abs(resampleMean(currentNull) - resampleMean(previousNull)) >= observed - tolerance) extreme++;
+  }
+  return (extreme + 1) / (iterations + 1);
+}
+
+/**
+ * Short description of a change's significance for prompts, e.g. "low significance, p = 0.68, Poisson test"
+ */
+export function describeSignificance(
+  result: Pick<ChangeSignificance, "significance"> & Partial<ChangeSignificance>,
+): string {
+  if (!result.test || result.pValue === undefined) return `${result.significance} significance`;
+  if (result.insufficientData) return `significance unknown, too little data for a ${TEST_NAMES[result.test]}`;
+  const p = result.pValue < 0.001 ? "p < 0.001" : `p = ${result.pValue.toFixed(result.pValue < 0.01 ? 3 : 2)}`;
+  return `${result.significance} significance, ${p}, ${TEST_NAMES[result.test]}`;
+}
+
+// Private helpers
+
+function result(test: SignificanceTest, pValue: number): ChangeSignificance {
+  return { test, pValue, significance: toSignificance(pValue) };
+}
+
+function insufficient(test: SignificanceTest): ChangeSignificance {
+  return { test, pValue: 1, significance: "low", insufficientData: true };
+}
+
+// Daily values of a count with the period's missing days as zeros (only when there are daily values at all)
+function padDaily(observation: PeriodObservation): number[] {
+  const daily = observation.daily ?? [];
+  const missing = (observation.days ?? 0) - daily.length;
+  return daily.length > 0 && missing > 0 ? [...daily, ...new Array<number>(missing).fill(0)] : daily;
+}
+
+// Sum of the probabilities of every outcome no more likely than the observed one
+function exactBinomialTest(x: number, n: number, p: number): number {
+  if (p <= 0 || p >= 1) return (p <= 0 ? x === 0 : x === n) ? 1 : 0;
+  const logFactorials = [0];
+  for (let k = 1; k <= n; k++) logFactorials.push((logFactorials[k - 1] ?? 0) + Math.log(k));
+  const logPmf = (k: number) =>
+    (logFactorials[n] ?? 0) - (logFactorials[k] ?? 0) - (logFactorials[n - k] ?? 0) + k * Math.log(p) + (n - k) * Math.log(1 - p);
+
+  const observed = logPmf(x);
+  let total = 0;
+  for (let k = 0; k <= n; k++) {
+    const value = logPmf(k);
+    // Relative tolerance so outcomes as likely as the observed one are not lost to rounding
+    if (value <= observed + 1e-7) total += Math.exp(value);
+  }
+  return Math.min(1, total);
+}
+
+function twoSidedNormalP(z: number): number {
+  return Math.min(1, erfc(Math.abs(z) / Math.SQRT2));
+}
+
+// Complementary error function (Numerical Recipes' Chebyshev fit, relative error below 1.2e-7)
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+}
+
+// Small seeded PRNG returning values in [0, 1)
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
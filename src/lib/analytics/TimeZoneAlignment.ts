@@ -0,0 +1,98 @@
+// Time zone alignment
+// GA reports `date` and `dateHour` in each property's own time zone, so daily rows of properties in
+// different zones cover different instants. These helpers detect mixed time zones and move hourly
+// rows onto the calendar of a reporting time zone before they are summed across properties.
+
+const DATE_HOUR = /^(\d{4})(\d{2})(\d{2})(\d{2})$/;
+
+// Intl formatters are slow to build and reused for every row
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock parts of an instant in a time zone
+function getWallTime(timeZone: string, instant: number): Record<"year" | "month" | "day" | "hour" | "minute", string> {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(new Date(instant)).map((part) => [part.type, part.value]),
+  );
+  return {
+    year: parts.year ?? "",
+    month: parts.month ?? "",
+    day: parts.day ?? "",
+    hour: parts.hour ?? "",
+    minute: parts.minute ?? "",
+  };
+}
+
+/**
+ * Whether a value is an IANA time zone the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds (positive east of UTC)
+ */
+export function getTimeZoneOffset(timeZone: string, instant: number): number {
+  const wall = getWallTime(timeZone, instant);
+  const asUtc = Date.UTC(Number(wall.year), Number(wall.month) - 1, Number(wall.day), Number(wall.hour), Number(wall.minute));
+  return asUtc - Math.floor(instant / 60000) * 60000;
+}
+
+/**
+ * Move a GA `dateHour` (YYYYMMDDHH, wall time in `fromTimeZone`) to the wall time of the same instant
+ * in `toTimeZone`. Zones with half-hour offsets land on the hour their start falls in.
+ */
+export function convertDateHour(dateHour: string, fromTimeZone: string, toTimeZone: string): string {
+  const match = DATE_HOUR.exec(dateHour);
+  if (!match) throw new Error(`Invalid dateHour "${dateHour}"`);
+  if (fromTimeZone === toTimeZone) return dateHour;
+
+  const [, year, month, day, hour] = match;
+  const wallAsUtc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour));
+  // The offset is taken twice so hours next to a DST change use the offset in force at that hour
+  let instant = wallAsUtc - getTimeZoneOffset(fromTimeZone, wallAsUtc);
+  instant = wallAsUtc - getTimeZoneOffset(fromTimeZone, instant);
+
+  const wall = getWallTime(toTimeZone, instant);
+  return `${wall.year}${wall.month}${wall.day}${wall.hour}`;
+}
+
+/**
+ * Distinct time zones of merged properties, or an empty list when they share one.
+ * Missing time zones are ignored.
+ */
+export function getMixedTimeZones(timeZones: Array<string | null | undefined>): string[] {
+  const distinct = Array.from(new Set(timeZones.filter((tz): tz is string => !!tz))).sort();
+  return distinct.length > 1 ? distinct : [];
+}
+
+/**
+ * Warning shown when daily figures of properties in different time zones are merged on their own calendars
+ */
+export function describeMixedTimeZones(timeZones: string[]): string {
+  return `These properties report dates in ${timeZones.length} time zones (${timeZones.join(", ")}), ` +
+    "so each merged day covers a different 24 hours per property. Choose a reporting time zone to align them.";
+}
@@ -0,0 +1,67 @@
+// Unit tests for AnalyticsCache
+
+import { AnalyticsCache, MemoryCacheBackend } from '../AnalyticsCache';
+
+describe('AnalyticsCache', () => {
+  let cache: AnalyticsCache<string>;
+
+  beforeEach(() => {
+    cache = new AnalyticsCache<string>(
+      { namespace: 'test', ttlMs: 1000, staleTtlMs: 1000, maxEntries: 2 },
+      new MemoryCacheBackend<string>()
+    );
+  });
+
+  describe('get/set', () => {
+    it('should track hits and misses', () => {
+      cache.set('a', 'value-a');
+
+      expect(cache.get('a')).toBe('value-a');
+      expect(cache.get('missing')).toBeUndefined();
+
+      const stats = cache.getStats();
+      expect(stats.hits).toBe(1);
+      expect(stats.misses).toBe(1);
+      expect(stats.hitRate).toBe(0.5);
+    });
+
+    it('should evict the least recently used entry', () => {
+      cache.set('a', 'value-a');
+      cache.set('b', 'value-b');
+      cache.get('a');
+      cache.set('c', 'value-c');
+
+      expect(cache.peek('b')).toBeUndefined();
+      expect(cache.peek('a')?.value).toBe('value-a');
+      expect(cache.getStats().evictions).toBe(1);
+    });
+  });
+
+  describe('getOrLoad', () => {
+    it('should serve stale values and refresh in the background', async () => {
+      jest.useFakeTimers();
+      cache.set('a', 'old');
+      jest.advanceTimersByTime(1500);
+
+      const loader = jest.fn().mockResolvedValue('new');
+      const result = await cache.getOrLoad('a', loader);
+
+      expect(result).toEqual({ value: 'old', fromCache: true, stale: true });
+      expect(loader).toHaveBeenCalledTimes(1);
+      await Promise.resolve();
+      expect(cache.peek('a')?.value).toBe('new');
+      jest.useRealTimers();
+    });
+  });
+
+  describe('invalidateTag', () => {
+    it('should remove only tagged entries', () => {
+      cache.set('a', 'value-a', { tags: ['prop1'] });
+      cache.set('b', 'value-b', { tags: ['prop2'] });
+
+      expect(cache.invalidateTag('prop1')).toBe(1);
+      expect(cache.peek('a')).toBeUndefined();
+      expect(cache.peek('b')).toBeDefined();
+    });
+  });
+});
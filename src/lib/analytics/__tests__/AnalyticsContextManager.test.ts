@@ -1,6 +1,7 @@
 // Unit tests for AnalyticsContextManager
 
 import { AnalyticsContextManager } from '../AnalyticsContextManager';
+import { CurrencyConverter } from '../CurrencyConverter';
 import type { AnalyticsProperty, AnalyticsData } from '~/types/analytics';
 
 describe('AnalyticsContextManager', () => {
@@ -64,9 +65,135 @@ describe('AnalyticsContextManager', () => {
       );
       
       expect(context.properties).toHaveLength(1);
-      expect(context.properties[0].propertyId).toBe('prop1');
+      expect(context.properties[0]?.propertyId).toBe('prop1');
       expect(context.dateRange).toEqual(dateRange);
       expect(context.aggregatedData.totalUsers).toBe(100);
     });
   });
+
+  describe('aggregateMetrics', () => {
+    it('should compute conversion rate and order value from transactions', () => {
+      const data = mockAnalyticsData.prop1!;
+      const aggregated = contextManager.aggregateMetrics({
+        prop1: {
+          ...data,
+          metricHeaders: [
+            ...data.metricHeaders,
+            { name: 'purchaseRevenue', type: 'TYPE_CURRENCY' },
+            { name: 'transactions', type: 'TYPE_INTEGER' }
+          ],
+          totals: [{ dimensionValues: [], metricValues: [{ value: '100' }, { value: '150' }, { value: '600' }, { value: '3' }] }]
+        }
+      }, { prop1: 'USD' });
+
+      expect(aggregated.totalRevenue).toBe(600);
+      expect(aggregated.totalTransactions).toBe(3);
+      expect(aggregated.conversionRate).toBe(2);
+      expect(aggregated.averageOrderValue).toBe(200);
+    });
+
+    it('should convert revenue to the reporting currency', () => {
+      const manager = new AnalyticsContextManager(new CurrencyConverter({
+        table: { base: 'USD', date: '2024-06-28', rates: { EUR: 0.5 } },
+        reportingCurrency: 'USD'
+      }));
+      const revenueData = (revenue: string): AnalyticsData => ({
+        ...mockAnalyticsData.prop1!,
+        metricHeaders: [{ name: 'purchaseRevenue', type: 'TYPE_CURRENCY' }, { name: 'transactions', type: 'TYPE_INTEGER' }],
+        totals: [{ dimensionValues: [], metricValues: [{ value: revenue }, { value: '1' }] }]
+      });
+
+      const aggregated = manager.aggregateMetrics(
+        { prop1: revenueData('100'), prop2: revenueData('100'), prop3: revenueData('100'), prop4: revenueData('100') },
+        { prop1: 'USD', prop2: 'EUR', prop3: 'XYZ' }
+      );
+
+      expect(aggregated.totalRevenue).toBe(300);
+      expect(aggregated.currencyCode).toBe('USD');
+      expect(aggregated.averageOrderValue).toBe(150);
+      // Revenue in a currency without a rate or in an unknown currency is left out
+      expect(aggregated.revenueExcludedPropertyIds).toEqual(['prop3', 'prop4']);
+    });
+
+    it('should list mixed time zones of the merged properties', () => {
+      const aggregated = contextManager.aggregateMetrics(
+        { prop1: { ...mockAnalyticsData.prop1!, timeZone: 'Europe/Berlin' }, prop2: mockAnalyticsData.prop1! },
+        {},
+        { prop2: 'America/New_York' }
+      );
+
+      expect(aggregated.mixedTimeZones).toEqual(['America/New_York', 'Europe/Berlin']);
+    });
+
+    it('should weight bounce rate and session duration by sessions', () => {
+      const engagementData = (sessions: string, bounceRate: string, duration: string): AnalyticsData => ({
+        ...mockAnalyticsData.prop1!,
+        metricHeaders: [
+          { name: 'sessions', type: 'TYPE_INTEGER' },
+          { name: 'bounceRate', type: 'TYPE_FLOAT' },
+          { name: 'averageSessionDuration', type: 'TYPE_SECONDS' }
+        ],
+        totals: [{ dimensionValues: [], metricValues: [{ value: sessions }, { value: bounceRate }, { value: duration }] }]
+      });
+
+      const aggregated = contextManager.aggregateMetrics({
+        large: engagementData('900', '40', '100'),
+        small: engagementData('100', '90', '10')
+      });
+
+      expect(aggregated.totalSessions).toBe(1000);
+      expect(aggregated.averageBounceRate).toBeCloseTo(45);
+      expect(aggregated.averageSessionDuration).toBeCloseTo(91);
+    });
+
+    it('should leave ecommerce metrics undefined without transactions', () => {
+      const aggregated = contextManager.aggregateMetrics(mockAnalyticsData);
+
+      expect(aggregated.conversionRate).toBeUndefined();
+      expect(aggregated.averageOrderValue).toBeUndefined();
+    });
+  });
+
+  describe('calculateTrends', () => {
+    const period = (users: string, sessions: string): Record<string, AnalyticsData> => ({
+      prop1: {
+        ...mockAnalyticsData.prop1!,
+        rows: [],
+        totals: [{ dimensionValues: [], metricValues: [{ value: users }, { value: sessions }] }]
+      }
+    });
+
+    it('should rate changes by a significance test rather than their size', () => {
+      const trends = contextManager.calculateTrends(period('8', '13'), period('7', '10'));
+      const sessions = trends.find(trend => trend.metric === 'Sessions');
+
+      expect(sessions).toMatchObject({ direction: 'up', significance: 'low', test: 'poisson' });
+      expect(sessions!.changePercent).toBeCloseTo(30);
+      expect(sessions!.pValue).toBeGreaterThan(0.5);
+
+      const large = contextManager.calculateTrends(period('800', '1300'), period('700', '1000'));
+      expect(large.find(trend => trend.metric === 'Sessions')).toMatchObject({ significance: 'high', test: 'poisson' });
+    });
+
+    it('should compare with the comparison range of the reports when building context', () => {
+      const data = period('800', '1300').prop1!;
+      const context = contextManager.buildContext(
+        mockProperties,
+        {
+          prop1: {
+            ...data,
+            series: {
+              current: { dateRange: { name: 'current', startDate: '2023-01-08', endDate: '2023-01-14' }, rows: [], totals: data.totals },
+              previous: { dateRange: { name: 'previous', startDate: '2023-01-01', endDate: '2023-01-07' }, rows: [], totals: period('700', '1000').prop1!.totals }
+            }
+          }
+        },
+        { startDate: '2023-01-08', endDate: '2023-01-14' },
+        'How did sessions change?'
+      );
+
+      expect(context.trends.map(trend => trend.metric)).toEqual(['Users', 'Sessions']);
+      expect(context.trends[1]).toMatchObject({ direction: 'up', significance: 'high', test: 'poisson' });
+    });
+  });
 });
\ No newline at end of file
@@ -2,6 +2,7 @@
 
 import { AnalyticsQueryProcessor } from '../AnalyticsQueryProcessor';
 import type { AnalyticsContext, ProcessedQuery } from '~/types/chat';
+import type { MetadataField } from '~/types/analytics';
 
 describe('AnalyticsQueryProcessor', () => {
   let processor: AnalyticsQueryProcessor;
@@ -38,7 +39,7 @@ describe('AnalyticsQueryProcessor', () => {
       const result = await processor.processQuery(query, mockContext, []);
       
       expect(result.intent).toBe('performance_overview');
-      expect(result.entities.metrics).toContain('users');
+      expect(result.entities.metrics).toContain('activeUsers');
       expect(result.entities.metrics).toContain('sessions');
     });
 
@@ -56,4 +57,37 @@ describe('AnalyticsQueryProcessor', () => {
       expect(result.entities.brands).toContain('Test Brand 1');
     });
   });
+
+  describe('setPropertyMetadata', () => {
+    it('should recognise custom metrics, key events and custom dimensions', () => {
+      const field = (apiName: string, uiName: string, overrides: Partial<MetadataField> = {}): MetadataField => ({
+        apiName,
+        uiName,
+        description: '',
+        category: 'Custom',
+        customDefinition: true,
+        keyEvent: false,
+        deprecatedApiNames: [],
+        ...overrides
+      });
+
+      processor.setPropertyMetadata([
+        {
+          propertyId: 'test-property-1',
+          dimensions: [field('customEvent:plan_type', 'Plan type')],
+          metrics: [
+            field('customEvent:video_seconds', 'Video seconds'),
+            field('keyEvents:sign_up', 'Key events (sign_up)', { customDefinition: false, keyEvent: true })
+          ],
+          fetchedAt: '2024-01-01T00:00:00.000Z'
+        }
+      ]);
+
+      const entities = processor.extractEntities('How many sign ups and video seconds per plan type?');
+
+      expect(entities.metrics).toContain('keyEvents:sign_up');
+      expect(entities.metrics).toContain('customEvent:video_seconds');
+      expect(entities.dimensions).toContain('customEvent:plan_type');
+    });
+  });
 });
\ No newline at end of file
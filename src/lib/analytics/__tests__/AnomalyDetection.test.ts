@@ -0,0 +1,136 @@
+// Unit tests for AnomalyDetection
+
+import { buildDailySeries, describeAnomaly, detectAnomalies, detectMetricAnomalies, type DailyPoint } from '../AnomalyDetection';
+import type { AnalyticsData } from '~/types/analytics';
+
+// Six weeks from Monday 2024-01-01: weekdays around 1000, weekends around 400, with a little noise
+function weeklySeries(days = 42): DailyPoint[] {
+  const noise = [12, -8, 5, -15, 9, -3, 7];
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(2024, 0, 1 + i));
+    const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+    return { date: date.toISOString().slice(0, 10), value: (weekend ? 400 : 1000) + (noise[(i * 3) % 7] ?? 0) };
+  });
+}
+
+function report(rows: Array<[string, number, number]>): AnalyticsData {
+  return {
+    dimensionHeaders: [{ name: 'date' }],
+    metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }, { name: 'bounceRate', type: 'TYPE_FLOAT' }],
+    rows: rows.map(([date, sessions, bounceRate]) => ({
+      dimensionValues: [{ value: date }],
+      metricValues: [{ value: String(sessions) }, { value: String(bounceRate) }],
+    })),
+    totals: [],
+    maximums: [],
+    minimums: [],
+    rowCount: rows.length,
+  };
+}
+
+describe('AnomalyDetection', () => {
+  describe('detectAnomalies', () => {
+    it('should not flag regular weekend dips', () => {
+      const result = detectAnomalies(weeklySeries());
+
+      expect(result.seasonal).toBe(true);
+      expect(result.anomalies).toEqual([]);
+    });
+
+    it('should flag spikes and drops with their expected range', () => {
+      const points = weeklySeries();
+      points[17] = { date: points[17]!.date, value: 2500 }; // Thursday
+      points[27] = { date: points[27]!.date, value: 50 }; // Sunday
+
+      const { anomalies } = detectAnomalies(points);
+
+      expect(anomalies.map((a) => [a.date, a.direction])).toEqual([
+        ['2024-01-18', 'spike'],
+        ['2024-01-28', 'drop'],
+      ]);
+      const [spike, drop] = anomalies;
+      expect(spike!.expected).toBeGreaterThan(900);
+      expect(spike!.expected).toBeLessThan(1100);
+      expect(spike!.upper).toBeLessThan(2500);
+      expect(spike!.severity).toBe('high');
+      // Sundays are expected around 400, not the weekday level
+      expect(drop!.expected).toBeLessThan(500);
+      expect(drop!.lower).toBeGreaterThan(50);
+      expect(drop!.score).toBeLessThan(-3.5);
+    });
+
+    it('should skip series shorter than minPoints', () => {
+      const points = weeklySeries(10).map((p, i) => ({ ...p, value: 500 + (i % 3) * 10 }));
+      points[5] = { date: points[5]!.date, value: 10000 };
+
+      expect(detectAnomalies(points).anomalies).toEqual([]);
+      expect(detectAnomalies(points, { minPoints: 7 }).anomalies.map((a) => a.date)).toEqual([points[5]!.date]);
+    });
+
+    it('should handle flat series with a single outlier', () => {
+      const points = weeklySeries().map((p) => ({ ...p, value: 100 }));
+      points[15] = { date: points[15]!.date, value: 300 };
+
+      expect(detectAnomalies(points).anomalies.map((a) => a.date)).toEqual([points[15]!.date]);
+      expect(detectAnomalies(points.map((p) => ({ ...p, value: 100 }))).anomalies).toEqual([]);
+    });
+  });
+
+  describe('buildDailySeries', () => {
+    it('should combine rows per day and fill missing days of counts with zero', () => {
+      const data = report([
+        ['20240101', 100, 40],
+        ['20240101', 300, 60],
+        ['20240103', 50, 50],
+      ]);
+
+      expect(buildDailySeries(data, 'sessions')).toEqual([
+        { date: '2024-01-01', value: 400 },
+        { date: '2024-01-02', value: 0 },
+        { date: '2024-01-03', value: 50 },
+      ]);
+      // Bounce rate is weighted by sessions and missing days are left out
+      expect(buildDailySeries(data, 'bounceRate')).toEqual([
+        { date: '2024-01-01', value: 55 },
+        { date: '2024-01-03', value: 50 },
+      ]);
+    });
+
+    it('should return nothing without a date dimension or the metric', () => {
+      const data = report([['20240101', 100, 40]]);
+
+      expect(buildDailySeries({ ...data, dimensionHeaders: [{ name: 'country' }] }, 'sessions')).toEqual([]);
+      expect(buildDailySeries(data, 'activeUsers')).toEqual([]);
+    });
+  });
+
+  describe('detectMetricAnomalies', () => {
+    it('should report each metric the data has', () => {
+      const rows = weeklySeries().map((p): [string, number, number] => [p.date.replace(/-/g, ''), p.value, 50]);
+      rows[20] = [rows[20]![0], 5000, 50];
+
+      const reports = detectMetricAnomalies(report(rows), ['sessions', 'activeUsers']);
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0]).toMatchObject({ metric: 'sessions', pointsAnalyzed: 42, seasonal: true });
+      expect(reports[0]!.anomalies.map((a) => a.date)).toEqual(['2024-01-21']);
+    });
+  });
+
+  describe('describeAnomaly', () => {
+    it('should describe the value and expected range with the metric label', () => {
+      const text = describeAnomaly('sessions', {
+        date: '2024-03-05',
+        value: 2400,
+        expected: 1250.4,
+        lower: 1000.2,
+        upper: 1500.7,
+        score: 8,
+        direction: 'spike',
+        severity: 'high',
+      });
+
+      expect(text).toBe(`Sessions on 2024-03-05: ${(2400).toLocaleString()}, expected ${(1000).toLocaleString()}–${(1501).toLocaleString()} (spike)`);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+// Unit tests for CalculatedMetrics
+
+import {
+  CALCULATED_METRIC_PRESETS,
+  CalculatedMetricError,
+  MAX_REPORT_METRICS,
+  aggregateCalculatedMetric,
+  addCalculatedValues,
+  compileCalculatedMetric,
+  getRequiredMetrics,
+  parseCalculatedMetricDefinitions,
+  toOrganicSample,
+} from '../CalculatedMetrics';
+import type { CalculatedMetricDefinition } from '~/types/analytics';
+
+const define = (expression: string, overrides: Partial<CalculatedMetricDefinition> = {}): CalculatedMetricDefinition => ({
+  id: 'test',
+  label: 'Test',
+  expression,
+  format: 'decimal',
+  aggregation: 'recompute',
+  ...overrides,
+});
+
+describe('CalculatedMetrics', () => {
+  describe('compileCalculatedMetric', () => {
+    it('should evaluate arithmetic with precedence and parentheses', () => {
+      const metric = compileCalculatedMetric(define('(newUsers + 10) / activeUsers * 100 - -1'));
+
+      expect(metric.name).toBe('calc:test');
+      expect(metric.baseMetrics).toEqual(['newUsers', 'activeUsers']);
+      expect(metric.evaluate({ newUsers: 40, activeUsers: 200 })).toBeCloseTo(26);
+    });
+
+    it('should return undefined for missing metrics and division by zero', () => {
+      const metric = compileCalculatedMetric(define('screenPageViews / sessions'));
+
+      expect(metric.evaluate({ screenPageViews: 10 })).toBeUndefined();
+      expect(metric.evaluate({ screenPageViews: 10, sessions: 0 })).toBeUndefined();
+      expect(metric.evaluate({ screenPageViews: 10, sessions: 4 })).toBe(2.5);
+    });
+
+    it('should read organic parts from organic() keys', () => {
+      const metric = compileCalculatedMetric(define('organic(sessions) / sessions * 100'));
+
+      expect(metric.baseMetrics).toEqual(['sessions']);
+      expect(metric.organicMetrics).toEqual(['sessions']);
+      expect(metric.evaluate({ sessions: 200, ...toOrganicSample({ sessions: 50 }) })).toBe(25);
+    });
+
+    it('should accept custom metric names', () => {
+      const metric = compileCalculatedMetric(define('customEvent:video_seconds / sessions'));
+
+      expect(metric.baseMetrics).toEqual(['customEvent:video_seconds', 'sessions']);
+    });
+
+    it.each([
+      ['', 'Expression is empty'],
+      ['sessions +', 'Expression ends unexpectedly'],
+      ['(sessions', 'Expected ")"'],
+      ['sessions; drop', 'Unexpected ";"'],
+      ['Math.max(sessions)', 'Unexpected "."'],
+      ['max(sessions)', 'Unknown function "max"'],
+      ['organic(2)', 'organic() takes a metric name'],
+      ['calc:other * 2', 'cannot use other calculated metrics'],
+      ['1 + 2', 'uses no metrics'],
+      ['constructor / sessions', '"constructor" is not a metric name'],
+      ['organic(__proto__)', '"__proto__" is not a metric name'],
+    ])('should reject %p', (expression: string, message: string) => {
+      expect(() => compileCalculatedMetric(define(expression))).toThrow(CalculatedMetricError);
+      expect(() => compileCalculatedMetric(define(expression))).toThrow(message);
+    });
+
+    it('should compile every preset', () => {
+      CALCULATED_METRIC_PRESETS.forEach((preset) => {
+        expect(() => compileCalculatedMetric(preset)).not.toThrow();
+      });
+    });
+  });
+
+  describe('parseCalculatedMetricDefinitions', () => {
+    it('should fill in defaults and trim labels', () => {
+      expect(parseCalculatedMetricDefinitions([{ id: 'pps', label: '  Pages  ', expression: 'screenPageViews / sessions' }])).toEqual([
+        { id: 'pps', label: 'Pages', expression: 'screenPageViews / sessions', format: 'decimal', aggregation: 'recompute' },
+      ]);
+      expect(parseCalculatedMetricDefinitions(undefined)).toEqual([]);
+    });
+
+    it('should reject invalid and duplicate ids, bad expressions and too many definitions', () => {
+      expect(() => parseCalculatedMetricDefinitions('x')).toThrow(CalculatedMetricError);
+      expect(() => parseCalculatedMetricDefinitions([{ id: '1bad', expression: 'sessions' }])).toThrow('Invalid calculated metric id');
+      expect(() => parseCalculatedMetricDefinitions([
+        { id: 'a', expression: 'sessions' },
+        { id: 'a', expression: 'newUsers' },
+      ])).toThrow('Duplicate calculated metric id');
+      expect(() => parseCalculatedMetricDefinitions([{ id: 'a', expression: 'eval("1")' }])).toThrow(CalculatedMetricError);
+      expect(() => parseCalculatedMetricDefinitions(
+        Array.from({ length: 11 }, (_, i) => ({ id: `m${i}`, expression: 'sessions' })),
+      )).toThrow('At most 10');
+    });
+  });
+
+  describe('getRequiredMetrics', () => {
+    it('should append base metrics after the given ones within the report limit', () => {
+      const metrics = [
+        compileCalculatedMetric(define('organic(sessions) / sessions')),
+        compileCalculatedMetric(define('purchaseRevenue / activeUsers', { id: 'rpu' })),
+      ];
+
+      expect(getRequiredMetrics(metrics, ['activeUsers'])).toEqual({
+        metrics: ['activeUsers', 'sessions', 'purchaseRevenue'],
+        organicMetrics: ['sessions'],
+      });
+      const many = Array.from({ length: 12 }, (_, i) => `metric${i}`);
+      expect(getRequiredMetrics(metrics, many).metrics).toHaveLength(MAX_REPORT_METRICS);
+    });
+  });
+
+  describe('aggregateCalculatedMetric', () => {
+    const samples = [
+      { screenPageViews: 900, sessions: 300, activeUsers: 200 },
+      { screenPageViews: 10, sessions: 10, activeUsers: 10 },
+    ];
+
+    it('should recompute from combined base metrics', () => {
+      const metric = compileCalculatedMetric(define('screenPageViews / sessions'));
+
+      // (900 + 10) / (300 + 10), not the mean of 3 and 1
+      expect(aggregateCalculatedMetric(metric, samples)).toBeCloseTo(910 / 310);
+    });
+
+    it('should combine per-sample values by the chosen rule', () => {
+      const summed = compileCalculatedMetric(define('screenPageViews / sessions', { aggregation: 'sum' }));
+      const weighted = compileCalculatedMetric(define('screenPageViews / sessions', { aggregation: 'userWeighted' }));
+
+      expect(aggregateCalculatedMetric(summed, samples)).toBe(4);
+      expect(aggregateCalculatedMetric(weighted, samples)).toBeCloseTo((3 * 200 + 1 * 10) / 210);
+    });
+
+    it('should add organic totals as a separate sample', () => {
+      const metric = compileCalculatedMetric(define('organic(sessions) / sessions * 100'));
+
+      expect(aggregateCalculatedMetric(metric, [...samples, toOrganicSample({ sessions: 155 })])).toBe(50);
+    });
+  });
+
+  describe('addCalculatedValues', () => {
+    it('should add values under calculated names and skip those that cannot be computed', () => {
+      const metrics = [
+        compileCalculatedMetric(define('screenPageViews / sessions', { id: 'pps' })),
+        compileCalculatedMetric(define('purchaseRevenue / transactions', { id: 'aov' })),
+      ];
+
+      expect(addCalculatedValues({ screenPageViews: 20, sessions: 10 }, metrics)).toEqual({
+        screenPageViews: 20,
+        sessions: 10,
+        'calc:pps': 2,
+      });
+    });
+  });
+});
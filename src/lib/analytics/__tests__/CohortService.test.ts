@@ -0,0 +1,83 @@
+// Unit tests for CohortService
+
+import { CohortService } from '../CohortService';
+import { googleAnalyticsService } from '~/lib/google-analytics';
+import type { AnalyticsData } from '~/types/analytics';
+
+// Mock the dependencies
+jest.mock('~/lib/google-analytics');
+
+const cohortTable = (rows: [string, string, string, string][]): AnalyticsData => ({
+  dimensionHeaders: [{ name: 'cohort' }, { name: 'cohortNthWeek' }],
+  metricHeaders: [
+    { name: 'cohortActiveUsers', type: 'TYPE_INTEGER' },
+    { name: 'cohortTotalUsers', type: 'TYPE_INTEGER' },
+  ],
+  rows: rows.map(([cohort, period, active, total]) => ({
+    dimensionValues: [{ value: cohort }, { value: period }],
+    metricValues: [{ value: active }, { value: total }],
+  })),
+  totals: [],
+  maximums: [],
+  minimums: [],
+  rowCount: rows.length,
+});
+
+describe('CohortService', () => {
+  let service: CohortService;
+
+  beforeEach(() => {
+    service = new CohortService();
+    (googleAnalyticsService.runCohortReport as jest.Mock).mockReset();
+  });
+
+  describe('buildCohorts', () => {
+    it('should build completed Sunday-to-Saturday weeks, oldest first', () => {
+      // 2024-03-13 is a Wednesday
+      const cohorts = service.buildCohorts('weekly', 2, '2024-03-13');
+
+      expect(cohorts).toEqual([
+        { name: '2024-02-25', startDate: '2024-02-25', endDate: '2024-03-02' },
+        { name: '2024-03-03', startDate: '2024-03-03', endDate: '2024-03-09' },
+      ]);
+    });
+
+    it('should build completed calendar months across a year boundary', () => {
+      const cohorts = service.buildCohorts('monthly', 3, '2024-02-10');
+
+      expect(cohorts.map((c) => [c.startDate, c.endDate])).toEqual([
+        ['2023-11-01', '2023-11-30'],
+        ['2023-12-01', '2023-12-31'],
+        ['2024-01-01', '2024-01-31'],
+      ]);
+    });
+
+    it('should reject counts above the maximum', () => {
+      expect(() => service.buildCohorts('weekly', 13, '2024-03-13')).toThrow('between 1 and 12');
+    });
+  });
+
+  describe('getRetention', () => {
+    it('should build a retention triangle from the cohort report', async () => {
+      (googleAnalyticsService.runCohortReport as jest.Mock).mockResolvedValue(cohortTable([
+        ['2024-02-25', '0000', '200', '200'],
+        ['2024-02-25', '0001', '50', '200'],
+        ['2024-03-03', '0000', '100', '100'],
+      ]));
+
+      const result = await service.getRetention('token', 'prop1', 'weekly', {
+        cohortCount: 2,
+        now: new Date('2024-03-13T12:00:00Z'),
+      });
+
+      expect(googleAnalyticsService.runCohortReport).toHaveBeenCalledWith('token', 'prop1', expect.objectContaining({
+        granularity: 'weekly',
+        endOffset: 1,
+      }));
+      expect(result.periods).toBe(1);
+      expect(result.cohorts[0]).toMatchObject({ users: 200, retention: [100, 25] });
+      expect(result.cohorts[1]).toMatchObject({ users: 100, activeUsers: [100, null], retention: [100, null] });
+      expect(result.averageRetention).toEqual([100, 25]);
+    });
+  });
+});
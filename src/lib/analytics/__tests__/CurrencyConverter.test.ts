@@ -0,0 +1,35 @@
+// Unit tests for CurrencyConverter
+
+import { CurrencyConverter, CurrencyConversionError, parseExchangeRates } from '../CurrencyConverter';
+
+describe('CurrencyConverter', () => {
+  const table = { base: 'USD', date: '2024-06-28', rates: { EUR: 0.8, GBP: 0.5 } };
+  let converter: CurrencyConverter;
+
+  beforeEach(() => {
+    converter = new CurrencyConverter({ table, reportingCurrency: 'EUR' });
+  });
+
+  describe('convert', () => {
+    it('should convert through the base currency', () => {
+      expect(converter.convert(100, 'USD', 'EUR')).toBeCloseTo(80);
+      expect(converter.convert(50, 'GBP', 'EUR')).toBeCloseTo(80);
+    });
+
+    it('should default to the reporting currency', () => {
+      expect(converter.toReportingCurrency(10, 'USD')).toEqual({ amount: 8, currencyCode: 'EUR' });
+    });
+
+    it('should throw for currencies without a rate', () => {
+      expect(converter.canConvert('JPY')).toBe(false);
+      expect(() => converter.convert(1, 'JPY', 'EUR')).toThrow(CurrencyConversionError);
+    });
+  });
+
+  describe('parseExchangeRates', () => {
+    it('should reject invalid rates', () => {
+      expect(() => parseExchangeRates({ base: 'USD', rates: { EUR: 0 } })).toThrow('Invalid exchange rates: EUR');
+      expect(() => parseExchangeRates({ rates: {} })).toThrow(CurrencyConversionError);
+    });
+  });
+});
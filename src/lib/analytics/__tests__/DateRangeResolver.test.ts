@@ -0,0 +1,65 @@
+// Unit tests for DateRangeResolver
+
+import {
+  parseDateRange,
+  resolveDate,
+  resolveCompareRange,
+  DateRangeError,
+} from '../DateRangeResolver';
+
+describe('DateRangeResolver', () => {
+  // 2024-03-10 02:30 UTC is still 2024-03-09 in Los Angeles
+  const now = new Date('2024-03-10T02:30:00Z');
+
+  describe('resolveDate', () => {
+    it('should resolve relative keywords in the property time zone', () => {
+      expect(resolveDate('today', 'UTC', now)).toBe('2024-03-10');
+      expect(resolveDate('today', 'America/Los_Angeles', now)).toBe('2024-03-09');
+      expect(resolveDate('yesterday', 'America/Los_Angeles', now)).toBe('2024-03-08');
+      expect(resolveDate('30daysAgo', 'UTC', now)).toBe('2024-02-09');
+      expect(resolveDate('2024-01-31', 'UTC', now)).toBe('2024-01-31');
+    });
+
+    it('should reject invalid dates and time zones', () => {
+      expect(() => resolveDate('2024-02-30', 'UTC', now)).toThrow(DateRangeError);
+      expect(() => resolveDate('lastWeek', 'UTC', now)).toThrow(DateRangeError);
+      expect(() => resolveDate('today', 'Mars/Olympus', now)).toThrow(DateRangeError);
+    });
+  });
+
+  describe('parseDateRange', () => {
+    it('should apply defaults and reject reversed ranges', () => {
+      expect(parseDateRange(undefined, null)).toEqual({ startDate: '7daysAgo', endDate: 'today' });
+      expect(() => parseDateRange('today', '7daysAgo')).toThrow(DateRangeError);
+    });
+  });
+
+  describe('resolveCompareRange', () => {
+    it('should compare relative ranges against the preceding period instead of themselves', () => {
+      const range = { startDate: '30daysAgo', endDate: 'today' };
+
+      expect(resolveCompareRange(range, 'previous_period', { timeZone: 'UTC', now })).toEqual({
+        startDate: '2024-01-09',
+        endDate: '2024-02-08',
+      });
+    });
+
+    it('should align the previous year on weekdays', () => {
+      const range = { startDate: '2024-03-04', endDate: '2024-03-10' }; // Monday to Sunday
+      const previous = resolveCompareRange(range, 'previous_year', { now });
+
+      expect(previous).toEqual({ startDate: '2023-03-06', endDate: '2023-03-12' });
+      expect(new Date(`${previous.startDate}T00:00:00Z`).getUTCDay()).toBe(1);
+    });
+
+    it('should require both ends of a custom range', () => {
+      const range = { startDate: '2024-03-01', endDate: '2024-03-10' };
+
+      expect(resolveCompareRange(range, 'custom', {
+        now,
+        customRange: { startDate: '2023-12-01', endDate: '2023-12-10' },
+      })).toEqual({ startDate: '2023-12-01', endDate: '2023-12-10' });
+      expect(() => resolveCompareRange(range, 'custom', { now, customRange: { startDate: '2023-12-01' } })).toThrow(DateRangeError);
+    });
+  });
+});
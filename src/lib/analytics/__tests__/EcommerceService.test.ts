@@ -0,0 +1,71 @@
+// Unit tests for EcommerceService
+
+import { EcommerceService } from '../EcommerceService';
+import { googleAnalyticsService } from '~/lib/google-analytics';
+import type { AnalyticsData } from '~/types/analytics';
+
+// Mock the dependencies
+jest.mock('~/lib/google-analytics');
+
+const report = (dimensions: string[], metrics: string[], rows: string[][]): AnalyticsData => ({
+  dimensionHeaders: dimensions.map((name) => ({ name })),
+  metricHeaders: metrics.map((name) => ({ name, type: 'TYPE_INTEGER' })),
+  rows: rows.map((values) => ({
+    dimensionValues: values.slice(0, dimensions.length).map((value) => ({ value })),
+    metricValues: values.slice(dimensions.length).map((value) => ({ value })),
+  })),
+  totals: [],
+  maximums: [],
+  minimums: [],
+  rowCount: rows.length,
+});
+
+describe('EcommerceService', () => {
+  let service: EcommerceService;
+
+  beforeEach(() => {
+    service = new EcommerceService();
+    (googleAnalyticsService.batchRunReports as jest.Mock).mockReset();
+  });
+
+  describe('getEcommerce', () => {
+    it('should summarize daily revenue and map items', async () => {
+      (googleAnalyticsService.batchRunReports as jest.Mock).mockResolvedValue([
+        report(['date'], ['purchaseRevenue', 'transactions', 'itemsPurchased', 'sessions'], [
+          ['20240301', '300', '2', '5', '100'],
+          ['20240302', '500', '3', '7', '150'],
+        ]),
+        report(['itemName', 'itemCategory'], ['itemRevenue', 'itemsPurchased', 'itemsViewed'], [
+          ['T-shirt', 'Apparel', '450', '9', '120'],
+        ]),
+      ]);
+
+      const result = await service.getEcommerce('token', 'prop1', { startDate: '2024-03-01', endDate: '2024-03-02' });
+
+      expect(result.summary).toEqual({
+        purchaseRevenue: 800,
+        transactions: 5,
+        itemsPurchased: 12,
+        sessions: 250,
+        conversionRate: 2,
+        averageOrderValue: 160,
+      });
+      expect(result.daily[1]).toEqual({ date: '20240302', purchaseRevenue: 500, transactions: 3 });
+      expect(result.items).toEqual([
+        { itemName: 'T-shirt', itemCategory: 'Apparel', itemRevenue: 450, itemsPurchased: 9, itemsViewed: 120 },
+      ]);
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should return null for reports without ecommerce metrics', () => {
+      expect(service.getSummary(report(['date'], ['sessions'], [['20240301', '10']]))).toBeNull();
+    });
+
+    it('should report zero rates without sessions or transactions', () => {
+      const summary = service.getSummary(report(['date'], ['purchaseRevenue', 'transactions'], [['20240301', '0', '0']]));
+
+      expect(summary).toMatchObject({ conversionRate: 0, averageOrderValue: 0 });
+    });
+  });
+});
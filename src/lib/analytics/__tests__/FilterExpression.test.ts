@@ -0,0 +1,61 @@
+// Unit tests for FilterExpression
+
+import {
+  filters,
+  parseFilterQuery,
+  encodeFilterQuery,
+  validateFilterExpression,
+  FilterValidationError,
+} from '../FilterExpression';
+
+describe('FilterExpression', () => {
+  describe('parseFilterQuery', () => {
+    it('should parse OR groups inside AND groups', () => {
+      const expr = parseFilterQuery('country==Germany,country==France;deviceCategory!=desktop', 'dimension');
+
+      expect(expr).toEqual(
+        filters.and(
+          filters.or(filters.string('country', 'Germany'), filters.string('country', 'France')),
+          filters.not(filters.string('deviceCategory', 'desktop')),
+        )
+      );
+    });
+
+    it('should parse numeric, between and in-list conditions', () => {
+      expect(parseFilterQuery('sessions>=100', 'metric')).toEqual(filters.numeric('sessions', 'GREATER_THAN_OR_EQUAL', 100));
+      expect(parseFilterQuery('bounceRate=between=0.2..0.5', 'metric')).toEqual(filters.between('bounceRate', 0.2, 0.5));
+      expect(parseFilterQuery('deviceCategory=in=mobile|tablet', 'dimension')).toEqual(
+        filters.inList('deviceCategory', ['mobile', 'tablet'])
+      );
+    });
+
+    it('should keep escaped separators inside values', () => {
+      const expr = parseFilterQuery('pageTitle=@Shoes\\, Bags', 'dimension');
+      expect(expr).toEqual(filters.string('pageTitle', 'Shoes, Bags', { matchType: 'CONTAINS' }));
+    });
+
+    it('should reject unknown fields and string conditions on metrics', () => {
+      expect(() => parseFilterQuery('notAField==1', 'dimension')).toThrow(FilterValidationError);
+      expect(() => parseFilterQuery('sessions=@10', 'metric')).toThrow(FilterValidationError);
+      expect(() => parseFilterQuery('sessions>abc', 'metric')).toThrow(FilterValidationError);
+    });
+  });
+
+  describe('encodeFilterQuery', () => {
+    it('should round-trip through parseFilterQuery', () => {
+      const expr = filters.and(
+        filters.inList('sessionDefaultChannelGroup', ['Organic Search', 'Direct']),
+        filters.or(filters.string('country', 'Germany'), filters.string('city', 'Berlin', { matchType: 'BEGINS_WITH' })),
+      );
+
+      expect(parseFilterQuery(encodeFilterQuery(expr), 'dimension')).toEqual(expr);
+    });
+  });
+
+  describe('validateFilterExpression', () => {
+    it('should accept custom definitions and reject empty groups', () => {
+      expect(() => validateFilterExpression(filters.string('customEvent:plan_type', 'pro'), 'dimension')).not.toThrow();
+      expect(() => validateFilterExpression(filters.and(), 'dimension')).toThrow(FilterValidationError);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+// Unit tests for ForecastService
+
+import { ForecastService } from '../ForecastService';
+import { ForecastError } from '../Forecasting';
+import { googleAnalyticsService } from '~/lib/google-analytics';
+import type { AnalyticsData } from '~/types/analytics';
+
+// Mock the dependencies
+jest.mock('~/lib/google-analytics');
+
+// Four weeks of daily sessions and revenue from 2024-03-01
+const dailyReport = (days: number): AnalyticsData => ({
+  dimensionHeaders: [{ name: 'date' }],
+  metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }, { name: 'purchaseRevenue', type: 'TYPE_CURRENCY' }],
+  rows: Array.from({ length: days }, (_, i) => ({
+    dimensionValues: [{ value: `202403${String(i + 1).padStart(2, '0')}` }],
+    metricValues: [{ value: String(100 + (i % 7) * 10) }, { value: String(50 + (i % 3)) }],
+  })),
+  totals: [],
+  maximums: [],
+  minimums: [],
+  rowCount: days,
+});
+
+describe('ForecastService', () => {
+  let service: ForecastService;
+
+  beforeEach(() => {
+    service = new ForecastService();
+    (googleAnalyticsService.runReport as jest.Mock).mockReset();
+  });
+
+  describe('getForecast', () => {
+    it('should request daily history up to yesterday and forecast each metric', async () => {
+      (googleAnalyticsService.runReport as jest.Mock).mockResolvedValue(dailyReport(28));
+
+      const result = await service.getForecast('token', 'prop1', {
+        metrics: ['sessions', 'purchaseRevenue'],
+        horizon: 7,
+        historyDays: 28,
+        targets: { sessions: 1 },
+        currencyCode: 'EUR',
+      });
+
+      expect(googleAnalyticsService.runReport).toHaveBeenCalledWith('token', 'prop1', expect.objectContaining({
+        startDate: '28daysAgo',
+        endDate: 'yesterday',
+        dimensions: ['date'],
+        metrics: ['sessions', 'purchaseRevenue'],
+      }));
+      expect(result).toMatchObject({ propertyId: 'prop1', historyEndDate: '2024-03-28', horizon: 7, currencyCode: 'EUR' });
+      expect(result.forecasts.map((f) => f.metric)).toEqual(['sessions', 'purchaseRevenue']);
+      expect(result.forecasts[0]!.points[0]!.date).toBe('2024-03-29');
+      expect(result.forecasts[0]!.target).toMatchObject({ target: 1, status: 'on_track' });
+      expect(result.forecasts[1]!.target).toBeUndefined();
+    });
+
+    it('should fail without enough history', async () => {
+      (googleAnalyticsService.runReport as jest.Mock).mockResolvedValue(dailyReport(0));
+
+      await expect(service.getForecast('token', 'prop1')).rejects.toThrow(ForecastError);
+    });
+  });
+});
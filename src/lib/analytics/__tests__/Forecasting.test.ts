@@ -0,0 +1,106 @@
+// Unit tests for Forecasting
+
+import { ForecastError, evaluateTarget, forecastSeries, parseForecastTargets } from '../Forecasting';
+import type { DailyPoint } from '../AnomalyDetection';
+
+// Eight weeks from Monday 2024-01-01: weekdays around 1000, weekends around 400, growing by 2 a day
+function weeklySeries(days = 56): DailyPoint[] {
+  const noise = [12, -8, 5, -15, 9, -3, 7, 0, 4, -6, 11];
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(2024, 0, 1 + i));
+    const weekend = date.getUTCDay() === 0 || date.getUTCDay() === 6;
+    return { date: date.toISOString().slice(0, 10), value: (weekend ? 400 : 1000) + 2 * i + (noise[i % 11] ?? 0) };
+  });
+}
+
+describe('Forecasting', () => {
+  describe('forecastSeries', () => {
+    it('should continue the weekly pattern after the last day of history', () => {
+      const forecast = forecastSeries('sessions', weeklySeries(), 14);
+
+      expect(forecast).toMatchObject({ metric: 'sessions', historyPoints: 56, seasonal: true, level: 0.95 });
+      expect(forecast.points).toHaveLength(14);
+      expect(forecast.points[0]!.date).toBe('2024-02-26');
+      // Monday 2024-02-26 and Saturday 2024-03-02
+      expect(forecast.points[0]!.value).toBeGreaterThan(1050);
+      expect(forecast.points[0]!.value).toBeLessThan(1200);
+      expect(forecast.points[5]!.value).toBeGreaterThan(450);
+      expect(forecast.points[5]!.value).toBeLessThan(600);
+    });
+
+    it('should widen prediction intervals with the horizon and bracket the total', () => {
+      const forecast = forecastSeries('sessions', weeklySeries(), 30);
+      const width = (i: number) => forecast.points[i]!.upper - forecast.points[i]!.lower;
+
+      forecast.points.forEach((point) => {
+        expect(point.lower).toBeLessThanOrEqual(point.value);
+        expect(point.upper).toBeGreaterThanOrEqual(point.value);
+      });
+      expect(width(29)).toBeGreaterThan(width(0));
+      expect(forecast.total).toBeCloseTo(forecast.points.reduce((sum, point) => sum + point.value, 0));
+      expect(forecast.totalLower).toBeLessThan(forecast.total);
+      expect(forecast.totalUpper).toBeGreaterThan(forecast.total);
+      // Narrower coverage, narrower interval
+      const narrow = forecastSeries('sessions', weeklySeries(), 30, { level: 0.8 });
+      expect(narrow.totalUpper - narrow.totalLower).toBeLessThan(forecast.totalUpper - forecast.totalLower);
+    });
+
+    it('should fit without seasonality on less than two weeks of history', () => {
+      const forecast = forecastSeries('sessions', weeklySeries(10), 5);
+
+      expect(forecast.seasonal).toBe(false);
+      expect(forecast.points).toHaveLength(5);
+    });
+
+    it('should not go below zero', () => {
+      const declining = weeklySeries(21).map((point, i) => ({ ...point, value: Math.max(0, 200 - 10 * i) }));
+
+      const forecast = forecastSeries('sessions', declining, 30);
+
+      forecast.points.forEach((point) => expect(point.lower).toBeGreaterThanOrEqual(0));
+      expect(forecast.totalLower).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should reject short history, bad horizons and unsupported levels', () => {
+      expect(() => forecastSeries('sessions', weeklySeries(5), 7)).toThrow(ForecastError);
+      expect(() => forecastSeries('sessions', weeklySeries(), 0)).toThrow('between 1 and 90');
+      expect(() => forecastSeries('sessions', weeklySeries(), 91)).toThrow(ForecastError);
+      expect(() => forecastSeries('sessions', weeklySeries(), 7, { level: 0.5 })).toThrow('Unsupported prediction interval level');
+    });
+  });
+
+  describe('evaluateTarget', () => {
+    const forecast = forecastSeries('sessions', weeklySeries(), 14);
+
+    it('should be on track when the projected total reaches the target', () => {
+      expect(evaluateTarget(forecast, forecast.totalLower / 2)).toMatchObject({ status: 'on_track', confident: true });
+      expect(evaluateTarget(forecast, forecast.total * 2)).toMatchObject({ status: 'off_track', confident: true });
+    });
+
+    it('should not be confident when the target is within the interval', () => {
+      const status = evaluateTarget(forecast, forecast.total + 1);
+
+      expect(status).toEqual({
+        target: forecast.total + 1,
+        projected: forecast.total,
+        lower: forecast.totalLower,
+        upper: forecast.totalUpper,
+        status: 'off_track',
+        confident: false,
+      });
+    });
+  });
+
+  describe('parseForecastTargets', () => {
+    it('should parse metric:value pairs', () => {
+      expect(parseForecastTargets('sessions:12000, purchaseRevenue:5000.5')).toEqual({ sessions: 12000, purchaseRevenue: 5000.5 });
+      expect(parseForecastTargets(null)).toEqual({});
+    });
+
+    it('should reject malformed and negative targets', () => {
+      expect(() => parseForecastTargets('sessions')).toThrow(ForecastError);
+      expect(() => parseForecastTargets('sessions:-5')).toThrow(ForecastError);
+      expect(() => parseForecastTargets('sessions:lots')).toThrow(ForecastError);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// Unit tests for FunnelService
+
+import { FunnelService, DEFAULT_PURCHASE_FUNNEL } from '../FunnelService';
+import { googleAnalyticsService } from '~/lib/google-analytics';
+import type { AnalyticsData } from '~/types/analytics';
+
+// Mock the dependencies
+jest.mock('~/lib/google-analytics');
+
+const report = (metricNames: string[], rows: [string, ...string[]][]): AnalyticsData => ({
+  dimensionHeaders: [{ name: 'funnelStepName' }],
+  metricHeaders: metricNames.map((name) => ({ name, type: 'TYPE_INTEGER' })),
+  rows: rows.map(([dimension, ...metrics]) => ({
+    dimensionValues: [{ value: dimension }],
+    metricValues: metrics.map((value) => ({ value })),
+  })),
+  totals: [],
+  maximums: [],
+  minimums: [],
+  rowCount: rows.length,
+});
+
+describe('FunnelService', () => {
+  let service: FunnelService;
+  const dateRange = { startDate: '2024-03-01', endDate: '2024-03-31' };
+
+  beforeEach(() => {
+    service = new FunnelService();
+    (googleAnalyticsService.runFunnelReport as jest.Mock).mockReset();
+    (googleAnalyticsService.runReport as jest.Mock).mockReset();
+  });
+
+  describe('getFunnel', () => {
+    it('should read step users from the GA funnel table', async () => {
+      (googleAnalyticsService.runFunnelReport as jest.Mock).mockResolvedValue(report(
+        ['activeUsers', 'funnelStepCompletionRate'],
+        [['1. Session start', '1000', '0.4'], ['2. View item', '400', '0.5'], ['3. Add to cart', '200', '0.25'], ['4. Purchase', '50', '0']],
+      ));
+
+      const result = await service.getFunnel('token', 'prop1', DEFAULT_PURCHASE_FUNNEL, dateRange);
+
+      expect(result.source).toBe('ga4');
+      expect(result.steps.map((s) => s.activeUsers)).toEqual([1000, 400, 200, 50]);
+      expect(result.steps[2]).toMatchObject({ conversionRate: 20, stepConversionRate: 50, dropOff: 200, dropOffRate: 50 });
+      expect(result.overallConversionRate).toBe(5);
+      expect(googleAnalyticsService.runReport).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to event counts capped by the previous step', async () => {
+      (googleAnalyticsService.runFunnelReport as jest.Mock).mockRejectedValue(
+        Object.assign(new Error('alpha API disabled'), { status: 403 }),
+      );
+      (googleAnalyticsService.runReport as jest.Mock).mockResolvedValue(report(
+        ['activeUsers'],
+        [['session_start', '1000'], ['view_item', '300'], ['add_to_cart', '350'], ['purchase', '40']],
+      ));
+
+      const result = await service.getFunnel('token', 'prop1', DEFAULT_PURCHASE_FUNNEL, dateRange);
+
+      expect(result.source).toBe('event_counts');
+      expect(result.steps.map((s) => s.activeUsers)).toEqual([1000, 300, 300, 40]);
+      expect(result.steps[2]?.dropOff).toBe(0);
+      expect(googleAnalyticsService.runReport).toHaveBeenCalledWith('token', 'prop1', expect.objectContaining({
+        metrics: ['activeUsers'],
+      }));
+    });
+
+    it('should rethrow auth and quota errors instead of falling back', async () => {
+      for (const status of [401, 429]) {
+        const error = Object.assign(new Error(`status ${status}`), { status });
+        (googleAnalyticsService.runFunnelReport as jest.Mock).mockRejectedValue(error);
+
+        await expect(service.getFunnel('token', 'prop1', DEFAULT_PURCHASE_FUNNEL, dateRange)).rejects.toBe(error);
+      }
+      expect(googleAnalyticsService.runReport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildReport', () => {
+    it('should report zero rates for an empty funnel', () => {
+      const result = service.buildReport(DEFAULT_PURCHASE_FUNNEL, [0, 0, 0, 0], 'ga4');
+
+      expect(result.overallConversionRate).toBe(0);
+      expect(result.steps.every((s) => s.conversionRate === 0 && s.dropOffRate === 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+// Unit tests for MetricDictionary
+
+import { GA4_METRIC_NAMES } from '~/types/analytics';
+import {
+  METRIC_DICTIONARY,
+  formatMetricValue,
+  getMetricCsvHeader,
+  getMetricInfo,
+  getMetricSynonymEntries,
+} from '../MetricDictionary';
+
+describe('MetricDictionary', () => {
+  it('should cover every GA4 metric', () => {
+    GA4_METRIC_NAMES.forEach((name) => {
+      expect(METRIC_DICTIONARY[name]).toBeDefined();
+      expect(METRIC_DICTIONARY[name].label.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('should infer metadata from metric names', () => {
+    expect(getMetricInfo('screenPageViewsPerSession')).toMatchObject({
+      label: 'Screen Page Views Per Session',
+      format: 'decimal',
+      unit: 'per session',
+    });
+    expect(getMetricInfo('errorsPerUser').direction).toBe('lowerIsBetter');
+    expect(getMetricInfo('customEvent:video_seconds')).toMatchObject({ label: 'Video Seconds', direction: 'neutral' });
+  });
+
+  it('should format values by their format', () => {
+    expect(formatMetricValue('bounceRate', 42.345)).toBe('42.3%');
+    expect(formatMetricValue('averageSessionDuration', 200)).toBe('3m 20s');
+    expect(formatMetricValue('purchaseRevenue', 12.5, 'USD')).toContain('12.50');
+  });
+
+  it('should add units to CSV headers of rates and durations', () => {
+    expect(getMetricCsvHeader('bounceRate')).toBe('Bounce Rate (%)');
+    expect(getMetricCsvHeader('averageSessionDuration')).toBe('Avg. Session Duration (s)');
+    expect(getMetricCsvHeader('sessions')).toBe('Sessions');
+  });
+
+  it('should list synonyms for query matching and leave out Universal Analytics names', () => {
+    const entries = new Map(getMetricSynonymEntries());
+
+    expect(entries.get('activeUsers')).toContain('visitors');
+    expect(entries.has('pageViews')).toBe(false);
+  });
+});
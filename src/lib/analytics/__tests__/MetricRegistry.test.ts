@@ -0,0 +1,62 @@
+// Unit tests for MetricRegistry
+
+import { aggregateMetric, aggregateMetricValues, getMetricDefinition, toMetricSample } from '../MetricRegistry';
+
+describe('MetricRegistry', () => {
+  describe('getMetricDefinition', () => {
+    it('should return registered definitions', () => {
+      expect(getMetricDefinition('sessions').aggregation).toBe('sum');
+      expect(getMetricDefinition('bounceRate').aggregation).toBe('sessionWeighted');
+      expect(getMetricDefinition('conversionRate')).toMatchObject({ aggregation: 'ratio', numerator: 'transactions', denominator: 'sessions' });
+    });
+
+    it('should infer unregistered metrics from their names', () => {
+      expect(getMetricDefinition('customEventRate').aggregation).toBe('sessionWeighted');
+      expect(getMetricDefinition('averageEngagementTime').aggregation).toBe('sessionWeighted');
+      expect(getMetricDefinition('revenuePerUser').aggregation).toBe('userWeighted');
+      expect(getMetricDefinition('addToCarts').aggregation).toBe('sum');
+    });
+  });
+
+  describe('aggregateMetric', () => {
+    it('should sum counts and weight rates by sessions', () => {
+      const samples = [
+        { sessions: 900, bounceRate: 40 },
+        { sessions: 100, bounceRate: 90 },
+      ];
+
+      expect(aggregateMetric('sessions', samples)).toBe(1000);
+      expect(aggregateMetric('bounceRate', samples)).toBeCloseTo(45);
+    });
+
+    it('should recompute ratios from their summed parts', () => {
+      const samples = [
+        { sessions: 100, transactions: 1, purchaseRevenue: 50 },
+        { sessions: 300, transactions: 3, purchaseRevenue: 350 },
+      ];
+
+      expect(aggregateMetric('conversionRate', samples)).toBeCloseTo(1);
+      expect(aggregateMetric('averageOrderValue', samples)).toBeCloseTo(100);
+    });
+
+    it('should fall back to a plain mean when a sample has no weight', () => {
+      expect(aggregateMetric('bounceRate', [{ bounceRate: 40 }, { sessions: 10, bounceRate: 60 }])).toBe(50);
+    });
+
+    it('should return undefined when no sample has the metric', () => {
+      expect(aggregateMetric('bounceRate', [{ sessions: 10 }])).toBeUndefined();
+      expect(aggregateMetricValues(['sessions', 'bounceRate'], [{ sessions: 10 }])).toEqual({ sessions: 10 });
+    });
+  });
+
+  describe('toMetricSample', () => {
+    it('should map values by header name and skip non-numeric values', () => {
+      const sample = toMetricSample(
+        [{ name: 'sessions' }, { name: 'bounceRate' }, { name: 'newUsers' }],
+        [{ value: '12' }, { value: '0.5' }, { value: null }],
+      );
+
+      expect(sample).toEqual({ sessions: 12, bounceRate: 0.5 });
+    });
+  });
+});
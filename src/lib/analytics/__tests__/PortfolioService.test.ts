@@ -0,0 +1,95 @@
+// Unit tests for PortfolioService
+
+import { PortfolioService } from '../PortfolioService';
+import { googleAnalyticsService } from '~/lib/google-analytics';
+import type { AnalyticsData } from '~/types/analytics';
+
+// Mock the dependencies
+jest.mock('~/lib/google-analytics');
+
+const report = (dimension: string, rows: [string, string][]): AnalyticsData => ({
+  dimensionHeaders: [{ name: dimension }],
+  metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+  rows: rows.map(([day, sessions]) => ({
+    dimensionValues: [{ value: day }],
+    metricValues: [{ value: sessions }],
+  })),
+  totals: [],
+  maximums: [],
+  minimums: [],
+  rowCount: rows.length,
+});
+
+describe('PortfolioService', () => {
+  let service: PortfolioService;
+  const range = { startDate: '2024-06-28', endDate: '2024-06-29' };
+
+  beforeEach(() => {
+    service = new PortfolioService();
+    (googleAnalyticsService.runReport as jest.Mock).mockReset();
+  });
+
+  describe('getPropertySeries', () => {
+    it('should report days on the property calendar without a reporting time zone', async () => {
+      (googleAnalyticsService.runReport as jest.Mock).mockResolvedValue(report('date', [['20240628', '10']]));
+
+      const series = await service.getPropertySeries('token', 'prop1', 'America/New_York', range, { metrics: ['sessions'] });
+
+      expect(series).toEqual({
+        propertyId: 'prop1',
+        timeZone: 'America/New_York',
+        aligned: false,
+        points: [{ date: '2024-06-28', values: { sessions: 10 } }],
+      });
+      expect((googleAnalyticsService.runReport as jest.Mock).mock.calls[0][2]).toMatchObject({ ...range, dimensions: ['date'] });
+    });
+
+    it('should move hourly rows onto the reporting time zone calendar', async () => {
+      (googleAnalyticsService.runReport as jest.Mock).mockResolvedValue(report('dateHour', [
+        ['2024062719', '1'], // 23:00 UTC on the 27th, before the range
+        ['2024062720', '2'], // 00:00 UTC on the 28th
+        ['2024062819', '3'], // 23:00 UTC on the 28th
+        ['2024062820', '4'], // 00:00 UTC on the 29th
+      ]));
+
+      const series = await service.getPropertySeries('token', 'prop1', 'America/New_York', range, {
+        metrics: ['sessions'],
+        reportingTimeZone: 'UTC',
+      });
+
+      expect(series.aligned).toBe(true);
+      expect(series.points).toEqual([
+        { date: '2024-06-28', values: { sessions: 5 } },
+        { date: '2024-06-29', values: { sessions: 4 } },
+      ]);
+      expect((googleAnalyticsService.runReport as jest.Mock).mock.calls[0][2]).toMatchObject({
+        startDate: '2024-06-26',
+        endDate: '2024-07-01',
+        dimensions: ['dateHour'],
+      });
+    });
+  });
+
+  describe('mergeSeries', () => {
+    const series = [
+      { propertyId: 'prop1', timeZone: 'America/New_York', aligned: false, points: [{ date: '2024-06-28', values: { sessions: 10 } }] },
+      { propertyId: 'prop2', timeZone: 'Europe/Berlin', aligned: false, points: [{ date: '2024-06-28', values: { sessions: 5 } }] },
+    ];
+
+    it('should sum days and warn about mixed time zones', () => {
+      const merged = service.mergeSeries(series, ['sessions'], null);
+
+      expect(merged.points).toEqual([{ date: '2024-06-28', values: { sessions: 15 } }]);
+      expect(merged.mixedTimeZones).toEqual(['America/New_York', 'Europe/Berlin']);
+      expect(merged.warning).toContain('America/New_York, Europe/Berlin');
+    });
+
+    it('should not warn once days are aligned to a reporting time zone', () => {
+      const merged = service.mergeSeries(series, ['sessions'], 'UTC', ['prop3']);
+
+      expect(merged.mixedTimeZones).toEqual([]);
+      expect(merged.warning).toBeUndefined();
+      expect(merged.failedPropertyIds).toEqual(['prop3']);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+// Unit tests for PropertyMetadataService
+
+import { PropertyMetadataService } from '../PropertyMetadataService';
+import { googleAnalyticsService } from '~/lib/google-analytics';
+import type { CompatibilityResult } from '~/types/analytics';
+
+// Mock the dependencies
+jest.mock('~/lib/google-analytics');
+
+describe('PropertyMetadataService', () => {
+  let service: PropertyMetadataService;
+
+  const compatibility: CompatibilityResult = {
+    propertyId: 'prop1',
+    dimensions: [
+      { apiName: 'date', uiName: 'Date', category: 'Time', compatibility: 'COMPATIBLE' },
+      { apiName: 'itemName', uiName: 'Item name', category: 'Ecommerce', compatibility: 'INCOMPATIBLE' },
+    ],
+    metrics: [
+      { apiName: 'sessions', uiName: 'Sessions', category: 'Session', compatibility: 'COMPATIBLE' },
+      { apiName: 'itemRevenue', uiName: 'Item revenue', category: 'Ecommerce', compatibility: 'INCOMPATIBLE' },
+      { apiName: 'purchaseRevenue', uiName: 'Purchase revenue', category: 'Ecommerce', compatibility: 'COMPATIBLE' },
+      { apiName: 'itemsViewed', uiName: 'Items viewed', category: 'Ecommerce', compatibility: 'INCOMPATIBLE' },
+    ],
+  };
+
+  beforeEach(() => {
+    service = new PropertyMetadataService();
+    (googleAnalyticsService.checkCompatibility as jest.Mock).mockReset();
+    (googleAnalyticsService.checkCompatibility as jest.Mock).mockResolvedValue(compatibility);
+  });
+
+  describe('findIncompatibleFields', () => {
+    it('should list requested incompatible fields with compatible alternatives from the same category', async () => {
+      const result = await service.findIncompatibleFields('token', 'prop1', 'user-1', {
+        dimensions: ['date'],
+        metrics: ['sessions', 'itemRevenue'],
+      });
+
+      expect(result).toEqual([{ apiName: 'itemRevenue', kind: 'metric', suggestions: ['purchaseRevenue'] }]);
+    });
+
+    it('should cache results per combination regardless of field order', async () => {
+      await service.findIncompatibleFields('token', 'prop1', 'user-1', { dimensions: ['date'], metrics: ['sessions', 'itemRevenue'] });
+      await service.findIncompatibleFields('token', 'prop1', 'user-1', { dimensions: ['date'], metrics: ['itemRevenue', 'sessions'] });
+
+      expect(googleAnalyticsService.checkCompatibility).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat a failed check as compatible', async () => {
+      (googleAnalyticsService.checkCompatibility as jest.Mock).mockRejectedValue(new Error('quota exceeded'));
+
+      const result = await service.findIncompatibleFields('token', 'prop1', 'user-1', { dimensions: ['date'], metrics: ['sessions'] });
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('findUnknownFields', () => {
+    it('should accept the metrics the app requests when metadata is unavailable', async () => {
+      (googleAnalyticsService.getMetadata as jest.Mock).mockRejectedValue(new Error('metadata unavailable'));
+      const metadata = await service.tryGetMetadata('token', 'prop1', 'user-1');
+
+      expect(metadata).toBeNull();
+      expect(service.findUnknownFields(
+        metadata,
+        ['sessions', 'purchaseRevenue', 'totalRevenue', 'keyEvents', 'keyEvents:purchase', 'conversions:sign_up', 'customEvent:score'],
+        'metric'
+      )).toEqual([]);
+      expect(service.findUnknownFields(metadata, ['notAMetric', 'keyEvents:'], 'metric')).toEqual(['notAMetric', 'keyEvents:']);
+      expect(service.findUnknownFields(metadata, ['keyEvents:purchase'], 'dimension')).toEqual(['keyEvents:purchase']);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+// Unit tests for QuotaTracker
+
+import { QuotaTracker } from '../QuotaTracker';
+
+describe('QuotaTracker', () => {
+  let tracker: QuotaTracker;
+
+  beforeEach(() => {
+    tracker = new QuotaTracker();
+  });
+
+  describe('acquire', () => {
+    it('should not delay properties without recorded quota or with plenty left', async () => {
+      expect(await tracker.acquire('prop1')).toBe(0);
+
+      tracker.record('prop1', { tokensPerHour: { consumed: 10, remaining: 30000 } });
+      expect(await tracker.acquire('prop1')).toBe(0);
+    });
+
+    it('should slow down as the hourly quota runs low', async () => {
+      jest.useFakeTimers();
+      tracker.record('prop1', { tokensPerHour: { consumed: 10, remaining: 2000 } });
+
+      const pending = tracker.acquire('prop1');
+      await jest.runAllTimersAsync();
+      const delay = await pending;
+
+      expect(delay).toBeGreaterThan(0);
+      expect(tracker.getSnapshot('prop1')?.throttleDelayMs).toBeGreaterThan(0);
+      jest.useRealTimers();
+    });
+  });
+
+  describe('markExhausted', () => {
+    it('should flag the property and back off', () => {
+      tracker.markExhausted('prop1');
+
+      const snapshot = tracker.getSnapshot('prop1');
+      expect(snapshot?.exhausted).toBe(true);
+      expect(snapshot?.availableHourlyTokens).toBe(0);
+      expect(snapshot?.throttleDelayMs).toBeGreaterThan(0);
+    });
+
+    it('should keep the quota categories of a property apart', async () => {
+      tracker.markExhausted('prop1', 'realtime');
+
+      expect(tracker.getSnapshot('prop1', 'realtime')?.exhausted).toBe(true);
+      expect(tracker.getSnapshot('prop1')).toBeNull();
+      expect(await tracker.acquire('prop1')).toBe(0);
+    });
+  });
+
+  describe('getSnapshot', () => {
+    it('should refill hourly tokens over time and raise capacity for larger quotas', () => {
+      jest.useFakeTimers();
+      tracker.record('prop1', { tokensPerHour: { consumed: 100, remaining: 399900 } });
+      expect(tracker.getSnapshot('prop1')?.hourlyCapacity).toBe(400000);
+
+      tracker.record('prop2', { tokensPerHour: { consumed: 10, remaining: 0 } });
+      jest.advanceTimersByTime(30 * 60 * 1000);
+      expect(tracker.getSnapshot('prop2')?.availableHourlyTokens).toBe(20000);
+      jest.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,182 @@
+// Unit tests for SignificanceTesting
+
+import {
+  bootstrapTest,
+  describeSignificance,
+  estimateDispersion,
+  getDailyValues,
+  observePeriod,
+  poissonTest,
+  proportionTest,
+  testChange,
+  toSignificance,
+} from '../SignificanceTesting';
+import type { AnalyticsData } from '~/types/analytics';
+
+function report(rows: Array<[string, string, number, number]>): AnalyticsData {
+  return {
+    dimensionHeaders: [{ name: 'date' }, { name: 'country' }],
+    metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }, { name: 'bounceRate', type: 'TYPE_FLOAT' }],
+    rows: rows.map(([date, country, sessions, bounceRate]) => ({
+      dimensionValues: [{ value: date }, { value: country }],
+      metricValues: [{ value: String(sessions) }, { value: String(bounceRate) }],
+    })),
+    totals: [],
+    maximums: [],
+    minimums: [],
+    rowCount: rows.length,
+  };
+}
+
+describe('SignificanceTesting', () => {
+  describe('poissonTest', () => {
+    it('should not find small counts significant', () => {
+      // 10 -> 13 sessions is a 30% jump, but well within chance
+      expect(poissonTest(13, 10)).toBeCloseTo(0.678, 2);
+      expect(poissonTest(0, 0)).toBe(1);
+    });
+
+    it('should find the same relative change in large counts significant', () => {
+      expect(poissonTest(1300, 1000)).toBeLessThan(1e-6);
+      expect(poissonTest(500, 450)).toBeCloseTo(0.112, 2);
+    });
+
+    it('should account for periods of different length', () => {
+      // Twice the days, twice the sessions: no change per day
+      expect(poissonTest(200, 100, { currentExposure: 14, previousExposure: 7 })).toBeGreaterThan(0.9);
+      expect(poissonTest(200, 100)).toBeLessThan(1e-6);
+    });
+
+    it('should be less certain of overdispersed counts', () => {
+      expect(poissonTest(5300, 5000, { dispersion: 1 })).toBeLessThan(0.01);
+      expect(poissonTest(5300, 5000, { dispersion: 30 })).toBeGreaterThan(0.5);
+    });
+  });
+
+  describe('estimateDispersion', () => {
+    it('should be about 1 for steady counts and larger for volatile ones', () => {
+      expect(estimateDispersion([100, 100, 100], [90, 90, 90])).toBe(1);
+      expect(estimateDispersion([1000, 400, 1000, 400], [900, 500, 900, 500])).toBeGreaterThan(50);
+    });
+  });
+
+  describe('proportionTest', () => {
+    it('should weigh a rate change by the sessions it was measured on', () => {
+      expect(proportionTest(0.45, 10000, 0.47, 10000)).toBeLessThan(0.01);
+      expect(proportionTest(0.45, 100, 0.47, 100)).toBeGreaterThan(0.5);
+      expect(proportionTest(0.5, 0, 0.4, 100)).toBe(1);
+    });
+  });
+
+  describe('bootstrapTest', () => {
+    const current = [100, 110, 105, 98, 120, 101, 99];
+
+    it('should separate shifted means from similar ones', () => {
+      expect(bootstrapTest(current, [80, 85, 90, 82, 79, 88, 84])).toBeLessThan(0.01);
+      expect(bootstrapTest(current, [101, 108, 104, 99, 118, 103, 98])).toBeGreaterThan(0.5);
+    });
+
+    it('should return the same p-value for the same seed', () => {
+      const previous = [95, 102, 99, 97, 110, 96, 94];
+
+      expect(bootstrapTest(current, previous)).toBe(bootstrapTest(current, previous));
+      expect(bootstrapTest(current, previous, { seed: 7 })).toBe(bootstrapTest(current, previous, { seed: 7 }));
+    });
+  });
+
+  describe('testChange', () => {
+    it('should pick the test that suits the metric', () => {
+      expect(testChange('sessions', { value: 13 }, { value: 10 })).toEqual({
+        test: 'poisson',
+        pValue: poissonTest(13, 10),
+        significance: 'low',
+      });
+      expect(testChange('bounceRate', { value: 0.45, trials: 10000 }, { value: 0.47, trials: 10000 })).toMatchObject({
+        test: 'binomial',
+        significance: 'high',
+      });
+      // Rates are fractions: 45% vs 47% over 100 sessions each is noise
+      expect(testChange('bounceRate', { value: 0.45, trials: 100 }, { value: 0.47, trials: 100 })).toMatchObject({
+        test: 'binomial',
+        pValue: proportionTest(0.45, 100, 0.47, 100),
+        significance: 'low',
+      });
+      expect(testChange(
+        'averageSessionDuration',
+        { value: 105, daily: [100, 110, 105, 98, 120, 101, 99] },
+        { value: 84, daily: [80, 85, 90, 82, 79, 88, 84] },
+      )).toMatchObject({ test: 'bootstrap', significance: 'high' });
+    });
+
+    it('should use day to day variation of counts', () => {
+      const weekly = (level: number) => Array.from({ length: 28 }, (_, i) => (i % 7 >= 5 ? level * 0.4 : level));
+      const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+      const current = weekly(1040);
+      const previous = weekly(1000);
+
+      // A 4% change is significant for Poisson counts, not for counts swinging this much by weekday
+      expect(poissonTest(sum(current), sum(previous))).toBeLessThan(0.01);
+      expect(testChange(
+        'sessions',
+        { value: sum(current), daily: current, days: 28 },
+        { value: sum(previous), daily: previous, days: 28 },
+      ).significance).toBe('low');
+    });
+
+    it('should report comparisons without the data their test needs', () => {
+      expect(testChange('bounceRate', { value: 0.45 }, { value: 0.47 })).toEqual({
+        test: 'binomial',
+        pValue: 1,
+        significance: 'low',
+        insufficientData: true,
+      });
+      expect(testChange('purchaseRevenue', { value: 150, daily: [100, 50] }, { value: 1, daily: [1] })).toMatchObject({
+        test: 'bootstrap',
+        insufficientData: true,
+      });
+    });
+  });
+
+  describe('observePeriod', () => {
+    it('should take the trials of a rate from its weight metric', () => {
+      expect(observePeriod('bounceRate', { bounceRate: 0.4, sessions: 500 }, [0.4, 0.41])).toEqual({
+        value: 0.4,
+        trials: 500,
+        daily: [0.4, 0.41],
+        days: undefined,
+      });
+      expect(observePeriod('sessions', { sessions: 500 })?.trials).toBeUndefined();
+      expect(observePeriod('engagementRate', { sessions: 500 })).toBeUndefined();
+    });
+  });
+
+  describe('getDailyValues', () => {
+    it('should combine rows of the same day in date order', () => {
+      const data = report([
+        ['20240102', 'US', 300, 50],
+        ['20240101', 'US', 100, 40],
+        ['20240101', 'DE', 300, 60],
+      ]);
+
+      expect(getDailyValues([data], 'sessions')).toEqual([400, 300]);
+      expect(getDailyValues([data], 'bounceRate')).toEqual([55, 50]);
+      expect(getDailyValues([data, data], 'sessions')).toEqual([800, 600]);
+      expect(getDailyValues([{ ...data, dimensionHeaders: [{ name: 'country' }] }], 'sessions')).toEqual([]);
+    });
+  });
+
+  describe('describeSignificance', () => {
+    it('should describe the p-value and test', () => {
+      expect(toSignificance(0.004)).toBe('high');
+      expect(toSignificance(0.03)).toBe('medium');
+      expect(toSignificance(0.2)).toBe('low');
+      expect(describeSignificance({ test: 'poisson', pValue: 0.6776, significance: 'low' }))
+        .toBe('low significance, p = 0.68, Poisson test');
+      expect(describeSignificance({ test: 'binomial', pValue: 0.0001, significance: 'high' }))
+        .toBe('high significance, p < 0.001, two-proportion test');
+      expect(describeSignificance({ test: 'bootstrap', pValue: 1, significance: 'low', insufficientData: true }))
+        .toBe('significance unknown, too little data for a bootstrap test');
+      expect(describeSignificance({ significance: 'medium' })).toBe('medium significance');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+// Unit tests for TimeZoneAlignment
+
+import {
+  convertDateHour,
+  describeMixedTimeZones,
+  getMixedTimeZones,
+  getTimeZoneOffset,
+  isValidTimeZone,
+} from '../TimeZoneAlignment';
+
+describe('TimeZoneAlignment', () => {
+  describe('convertDateHour', () => {
+    it('should move an hour to the same instant in another time zone', () => {
+      // 23:00 in New York (EDT, UTC-4) is 03:00 the next day in UTC
+      expect(convertDateHour('2024062823', 'America/New_York', 'UTC')).toBe('2024062903');
+      expect(convertDateHour('2024062903', 'UTC', 'Asia/Tokyo')).toBe('2024062912');
+    });
+
+    it('should use the offset in force on each side of a DST change', () => {
+      expect(convertDateHour('2024031001', 'America/New_York', 'UTC')).toBe('2024031006');
+      expect(convertDateHour('2024031003', 'America/New_York', 'UTC')).toBe('2024031007');
+    });
+
+    it('should keep the hour when both time zones are the same', () => {
+      expect(convertDateHour('2024062823', 'Europe/Berlin', 'Europe/Berlin')).toBe('2024062823');
+    });
+
+    it('should reject values that are not a dateHour', () => {
+      expect(() => convertDateHour('20240628', 'UTC', 'Asia/Tokyo')).toThrow('Invalid dateHour');
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('should report half-hour offsets', () => {
+      expect(getTimeZoneOffset('Asia/Kolkata', Date.UTC(2024, 5, 28))).toBe(5.5 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('getMixedTimeZones', () => {
+    it('should list distinct time zones only when they differ', () => {
+      expect(getMixedTimeZones(['UTC', 'UTC', undefined, ''])).toEqual([]);
+      expect(getMixedTimeZones(['Europe/Berlin', 'America/New_York', 'Europe/Berlin'])).toEqual(['America/New_York', 'Europe/Berlin']);
+    });
+
+    it('should name the time zones in the warning', () => {
+      expect(describeMixedTimeZones(['America/New_York', 'UTC'])).toContain('2 time zones (America/New_York, UTC)');
+    });
+  });
+
+  it('should validate time zone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
@@ -32,9 +32,9 @@ export function validateQueryProcessor(): boolean {
   // Test 2: Entity extraction
   console.log('Test 2: Entity Extraction');
   const entityTests = [
-    { query: 'How many users and sessions?', expectedMetrics: ['users', 'sessions'] },
+    { query: 'How many users and sessions?', expectedMetrics: ['activeUsers', 'sessions'] },
     { query: 'Show me bounce rate', expectedMetrics: ['bounceRate'] },
-    { query: 'Revenue and conversions', expectedMetrics: ['revenue', 'conversions'] },
+    { query: 'Revenue and conversions', expectedMetrics: ['purchaseRevenue', 'conversions'] },
     { query: 'Last week data', expectedTimeRefs: ['last_week'] },
     { query: 'Brand A vs Brand B', expectedComparison: 'vs' }
   ];
@@ -2,10 +2,186 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import { createHash } from "node:crypto";
 import { google } from "googleapis";
 import { env } from "../env.js";
 // Avoid importing googleapis types (not available). Use `any` for type positions to preserve runtime behavior.
-import type { AnalyticsAccount, AnalyticsProperty, PropertyDetails, AnalyticsData } from "../types/analytics";
+import type {
+  AnalyticsAccount,
+  AnalyticsProperty,
+  PropertyDetails,
+  AnalyticsData,
+  MetadataField,
+  PropertyMetadata,
+  CompatibilityField,
+  CompatibilityResult,
+  NamedDateRange,
+  AnalyticsRow,
+  PivotReportData,
+  PivotTableRow,
+  FunnelDefinition,
+  CohortGranularity,
+  PropertyQuota,
+  QuotaStatus,
+  QuotaCategory,
+} from "../types/analytics";
+import { CURRENT_DATE_RANGE } from "../types/analytics";
+import type { FilterExpression } from "./analytics/FilterExpression";
+import { quotaTracker } from "./analytics/QuotaTracker";
+
+/**
+ * A single GA4 report request, as accepted by runReport and batchRunReports
+ */
+export interface ReportRequest {
+  startDate: string;
+  endDate: string;
+  dimensions: string[];
+  metrics: string[];
+  dimensionFilter?: FilterExpression;
+  metricFilter?: FilterExpression;
+  // Extra ranges reported in the same request, e.g. a comparison period. The startDate/endDate range is
+  // named CURRENT_DATE_RANGE; results are split per range into AnalyticsData.series
+  compareDateRanges?: NamedDateRange[];
+  // An explicit limit returns a single page of at most `limit` rows; without it all rows are paginated
+  limit?: number;
+  offset?: number;
+  // Ceiling for auto-pagination, defaults to ANALYTICS_REPORT_MAX_ROWS
+  maxRows?: number;
+  orderBys?: any[];
+}
+
+/**
+ * A GA4 realtime report request. Without minuteRanges GA reports the last 30 minutes.
+ */
+export interface RealtimeReportRequest {
+  dimensions: string[];
+  metrics: string[];
+  dimensionFilter?: FilterExpression;
+  metricFilter?: FilterExpression;
+  limit?: number;
+  minuteRanges?: { name?: string; startMinutesAgo?: number; endMinutesAgo?: number }[];
+}
+
+/**
+ * One pivot of a pivot report: the dimensions it groups by and how many of their combinations to keep
+ */
+export interface PivotDefinition {
+  fieldNames: string[];
+  limit: number;
+  offset?: number;
+  // Order the pivot's combinations by this metric, descending (GA orders by dimension values otherwise)
+  orderByMetric?: string;
+  // Adds a total per combination of the other pivots
+  includeTotals?: boolean;
+}
+
+/**
+ * A GA4 pivot report request. The first pivot becomes the table rows, the others are combined into columns.
+ */
+export interface PivotReportRequest {
+  startDate: string;
+  endDate: string;
+  metrics: string[];
+  pivots: PivotDefinition[];
+  dimensionFilter?: FilterExpression;
+  metricFilter?: FilterExpression;
+}
+
+/**
+ * A GA4 funnel report request (Data API v1alpha runFunnelReport)
+ */
+export interface FunnelReportRequest {
+  startDate: string;
+  endDate: string;
+  funnel: FunnelDefinition;
+  dimensionFilter?: FilterExpression;
+}
+
+/**
+ * A GA4 cohort report request. Cohorts group users by first session date; activity is reported
+ * per week or month since each cohort's start, up to endOffset periods.
+ */
+export interface CohortReportRequest {
+  cohorts: NamedDateRange[];
+  granularity: CohortGranularity;
+  endOffset: number;
+  // Defaults to cohortActiveUsers and cohortTotalUsers
+  metrics?: string[];
+  dimensionFilter?: FilterExpression;
+}
+
+/**
+ * The dimension/metric combination checked by checkCompatibility
+ */
+export type CompatibilityRequest = Pick<ReportRequest, "dimensions" | "metrics" | "dimensionFilter" | "metricFilter">;
+
+// Dimensions returned by getAnalyticsData, as expected by the charts component
+export const ANALYTICS_DATA_DIMENSIONS = ["date", "country", "deviceCategory"];
+
+// Metrics getAnalyticsData requests unless given others
+export const ANALYTICS_DATA_METRICS = [
+  "activeUsers",
+  "newUsers",
+  "sessions",
+  "screenPageViews",
+  "bounceRate",
+  "averageSessionDuration",
+  // Ecommerce totals; zero for properties without purchase events
+  "purchaseRevenue",
+  "transactions",
+];
+
+// GA4 accepts at most this many reports in one batchRunReports call
+export const MAX_BATCH_REPORTS = 5;
+
+// GA4 accepts at most this many date ranges in one report
+export const MAX_DATE_RANGES = 4;
+
+// GA4 limits the product of all pivot limits in one pivot report
+export const MAX_PIVOT_CELLS = 100000;
+
+// GA4 cohort report period dimension per granularity
+const COHORT_PERIOD_DIMENSIONS: Record<CohortGranularity, string> = {
+  weekly: "cohortNthWeek",
+  monthly: "cohortNthMonth",
+};
+
+// runFunnelReport is only available in the v1alpha Data API, which the googleapis client does not cover
+const FUNNEL_REPORT_ENDPOINT = "https://analyticsdata.googleapis.com/v1alpha";
+
+// Dimension value GA uses for the aggregate rows of a pivot with includeTotals
+const PIVOT_TOTAL_VALUE = "RESERVED_TOTAL";
+
+// Dimension GA adds to rows of multi-range reports, holding the range name
+const DATE_RANGE_DIMENSION = "dateRange";
+
+// Rows requested per runReport page when auto-paginating (GA4 allows up to 250,000)
+const REPORT_PAGE_SIZE = 100000;
+
+// Default ceiling for auto-paginated reports
+const DEFAULT_REPORT_MAX_ROWS = 250000;
+
+// Maximum page size accepted by accountSummaries.list
+const ACCOUNT_SUMMARIES_PAGE_SIZE = 200;
+
+/**
+ * A failed GA report call, with the HTTP status GA answered with when there was a response
+ */
+export class ReportError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "ReportError";
+  }
+}
+
+// GA Data API report endpoints used by the service
+type ReportMethod = "single" | "batch" | "realtime" | "pivot" | "funnel";
+
+// Raw GA response body of a report call and the time it waited on the quota token bucket
+interface ReportResponse {
+  data: any;
+  throttledMs: number;
+}
 
 /**
  * Google Analytics Service Implementation
@@ -15,6 +191,8 @@ export class GoogleAnalyticsServiceImpl {
   private analyticsAdmin;
   private analyticsData;
   private auth: any;
+  // Pending runReport calls keyed on caller identity + normalized request, so identical concurrent requests share one GA call
+  private inFlightReports = new Map<string, Promise<ReportResponse>>();
 
   constructor() {
     this.analyticsAdmin = google.analyticsadmin("v1beta");
@@ -105,35 +283,40 @@ export class GoogleAnalyticsServiceImpl {
   }
 
   /**
-   * Get all properties for the user's accounts
+   * Get all properties for the user's accounts.
+   * Uses accountSummaries.list, which returns every account with its properties in one paginated call.
+   * Summaries do not carry timeZone/currencyCode/timestamps; use getPropertyDetails when those are needed.
    */
   async getProperties(accessToken: string): Promise<AnalyticsProperty[]> {
     try {
-      const accounts = await this.getAccounts(accessToken);
-  const properties: AnalyticsProperty[] = [];
+      const properties: AnalyticsProperty[] = [];
+      let pageToken: string | undefined;
 
-      for (const account of accounts) {
-        const response = await this.analyticsAdmin.properties.list({
+      do {
+        const response = await this.analyticsAdmin.accountSummaries.list({
           auth: this.getAuth(accessToken),
-          filter: `parent:${account.name}`,
+          pageSize: ACCOUNT_SUMMARIES_PAGE_SIZE,
+          pageToken,
         });
 
-        if (response.data.properties) {
-          properties.push(
-            ...response.data.properties.map((property: any) => ({
-              name: property.name ?? "",
-              propertyId: property.name?.split("/").pop() ?? "",
+        for (const summary of response.data.accountSummaries ?? []) {
+          for (const property of summary.propertySummaries ?? []) {
+            properties.push({
+              name: property.property ?? "",
+              propertyId: property.property?.split("/").pop() ?? "",
               displayName: property.displayName ?? "",
               propertyType: property.propertyType ?? "",
-              createTime: property.createTime ?? "",
-              updateTime: property.updateTime ?? "",
-              parent: property.parent ?? "",
-              timeZone: property.timeZone ?? "",
-              currencyCode: property.currencyCode ?? "",
-            })),
-          );
+              createTime: "",
+              updateTime: "",
+              parent: property.parent ?? summary.account ?? "",
+              accountDisplayName: summary.displayName ?? "",
+            });
+          }
         }
-      }
+
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+
       return properties;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -177,58 +360,90 @@ export class GoogleAnalyticsServiceImpl {
   }
 
   /**
-   * Generic GA4 runReport wrapper for flexible queries
+   * Get the dimensions and metrics available to a property, including custom definitions and key events
    */
-  async runReport(
+  async getMetadata(accessToken: string, propertyId: string): Promise<PropertyMetadata> {
+    try {
+      const response = await this.analyticsData.properties.getMetadata({
+        auth: this.getAuth(accessToken),
+        name: `properties/${propertyId}/metadata`,
+      }, { timeout: 30000 });
+
+      const d: any = response.data ?? {};
+      const mapField = (f: any): MetadataField => ({
+        apiName: f.apiName ?? "",
+        uiName: f.uiName ?? f.apiName ?? "",
+        description: f.description ?? "",
+        category: f.category ?? "",
+        customDefinition: f.customDefinition ?? false,
+        keyEvent: /^(keyEvents|conversions):/.test(f.apiName ?? ""),
+        deprecatedApiNames: f.deprecatedApiNames ?? [],
+        type: f.type ?? undefined,
+      });
+
+      return {
+        propertyId,
+        dimensions: (d.dimensions ?? []).map(mapField),
+        metrics: (d.metrics ?? []).map(mapField),
+        fetchedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to fetch metadata for property ${propertyId}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Check whether a dimension/metric combination can be queried together.
+   * GA returns every field of the property, marked compatible or incompatible with the request.
+   */
+  async checkCompatibility(
     accessToken: string,
     propertyId: string,
-    params: {
-      startDate: string;
-      endDate: string;
-      dimensions: string[];
-      metrics: string[];
-  dimensionFilter?: any;
-  limit?: number;
-  orderBys?: any[];
-    },
-  ): Promise<AnalyticsData> {
+    params: CompatibilityRequest,
+  ): Promise<CompatibilityResult> {
     try {
-      const propertyName = `properties/${propertyId}`;
-      const response = await this.analyticsData.properties.runReport({
+      const response = await this.analyticsData.properties.checkCompatibility({
         auth: this.getAuth(accessToken),
-        property: propertyName,
+        property: `properties/${propertyId}`,
         requestBody: {
-          dateRanges: [{ startDate: params.startDate, endDate: params.endDate }],
           dimensions: params.dimensions.map((name) => ({ name })),
           metrics: params.metrics.map((name) => ({ name })),
           dimensionFilter: params.dimensionFilter,
-          limit: params.limit !== undefined ? String(params.limit) : undefined,
-          orderBys: params.orderBys,
+          metricFilter: params.metricFilter,
         },
       }, { timeout: 30000 });
 
-      const d: any = response.data as any;
+      const d: any = response.data ?? {};
+      const mapField = (metadata: any, compatibility: any): CompatibilityField => ({
+        apiName: metadata?.apiName ?? "",
+        uiName: metadata?.uiName ?? metadata?.apiName ?? "",
+        category: metadata?.category ?? "",
+        compatibility: compatibility === "INCOMPATIBLE" ? "INCOMPATIBLE" : "COMPATIBLE",
+      });
+
       return {
-        dimensionHeaders: (d.dimensionHeaders ?? []).map((h: any) => ({ name: h.name ?? "" })),
-        metricHeaders: (d.metricHeaders ?? []).map((h: any) => ({ name: h.name ?? "", type: h.type ?? "" })),
-        rows: (d.rows ?? []).map((row: any) => ({
-          dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-          metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-        })),
-        totals: (d.totals ?? []).map((row: any) => ({
-          dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-          metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-        })),
-        maximums: (d.maximums ?? []).map((row: any) => ({
-          dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-          metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-        })),
-        minimums: (d.minimums ?? []).map((row: any) => ({
-          dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-          metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-        })),
-        rowCount: d.rowCount ?? 0,
+        propertyId,
+        dimensions: (d.dimensionCompatibilities ?? []).map((c: any) => mapField(c.dimensionMetadata, c.compatibility)),
+        metrics: (d.metricCompatibilities ?? []).map((c: any) => mapField(c.metricMetadata, c.compatibility)),
       };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to check compatibility for property ${propertyId}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Generic GA4 runReport wrapper for flexible queries
+   */
+  async runReport(
+    accessToken: string,
+    propertyId: string,
+    params: ReportRequest,
+  ): Promise<AnalyticsData> {
+    try {
+      const { data: d, throttledMs } = await this.executeRunReport(accessToken, propertyId, this.toRequestBody(this.withPageLimit(params)));
+      return await this.paginateReport(accessToken, propertyId, params, this.mapReportResponse(d), throttledMs);
     } catch (error: any) {
       if (error.code === 'ECONNABORTED') {
         throw new Error(`Request timed out for property ${propertyId}.`);
@@ -260,62 +475,22 @@ export class GoogleAnalyticsServiceImpl {
     startDate = "7daysAgo",
     endDate = "today",
     customMetrics?: string[],
-  dimensionFilter?: any,
+    dimensionFilter?: FilterExpression,
   ): Promise<AnalyticsData> {
     try {
-      const propertyName = `properties/${propertyId}`;
-      // Default metrics
-      const defaultMetrics = [
-        "activeUsers",
-        "newUsers",
-        "sessions",
-        "screenPageViews",
-        "bounceRate",
-        "averageSessionDuration",
-      ];
-      const metrics = (customMetrics && customMetrics.length > 0
-        ? customMetrics
-        : defaultMetrics
-      ).map((name) => ({ name }));
-
-      const response = await this.analyticsData.properties.runReport({
-        auth: this.getAuth(accessToken),
-        property: propertyName,
-        requestBody: {
-          dateRanges: [{ startDate, endDate }],
-          // Include dimensions expected by the charts component: date, country, deviceCategory
-          dimensions: [{ name: "date" }, { name: "country" }, { name: "deviceCategory" }],
-          metrics,
-          // Optional dimension filter (e.g., Organic only)
-          dimensionFilter,
-        },
-      }, {
-        timeout: 30000, // 30 seconds
-      });
-
-      // Map the response to AnalyticsData type
-      const d = response.data;
-      return {
-        dimensionHeaders: (d.dimensionHeaders ?? []).map((h: any) => ({ name: h.name ?? "" })),
-        metricHeaders: (d.metricHeaders ?? []).map((h: any) => ({ name: h.name ?? "", type: h.type ?? "" })),
-        rows: (d.rows ?? []).map((row: any) => ({
-          dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-          metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-        })),
-        totals: (d.totals ?? []).map((row: any) => ({
-          dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-          metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-        })),
-        maximums: (d.maximums ?? []).map((row: any) => ({
-          dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-          metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-        })),
-        minimums: (d.minimums ?? []).map((row: any) => ({
-          dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-          metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
-        })),
-        rowCount: d.rowCount ?? 0,
+      const params: ReportRequest = {
+        startDate,
+        endDate,
+        // Include dimensions expected by the charts component: date, country, deviceCategory
+        dimensions: ANALYTICS_DATA_DIMENSIONS,
+        metrics: customMetrics && customMetrics.length > 0 ? customMetrics : ANALYTICS_DATA_METRICS,
+        // Optional dimension filter (e.g., Organic only)
+        dimensionFilter,
       };
+      const { data: d, throttledMs } = await this.executeRunReport(accessToken, propertyId, this.toRequestBody(this.withPageLimit(params)));
+
+      // Map the response to AnalyticsData type, fetching any remaining pages
+      return await this.paginateReport(accessToken, propertyId, params, this.mapReportResponse(d), throttledMs);
     } catch (error: any) {
       if (error.code === 'ECONNABORTED') {
         throw new Error(`Request timed out for property ${propertyId}.`);
@@ -337,6 +512,546 @@ export class GoogleAnalyticsServiceImpl {
       throw new Error(`Failed to fetch analytics data for property ${propertyId}: ${errorMessage}`);
     }
   }
+
+  /**
+   * Run several reports for one property, returning one AnalyticsData per request in the same order.
+   * GA4 accepts at most MAX_BATCH_REPORTS per call; larger lists are split into several batches.
+   */
+  async batchRunReports(
+    accessToken: string,
+    propertyId: string,
+    requests: ReportRequest[],
+  ): Promise<AnalyticsData[]> {
+    if (requests.length === 0) return [];
+
+    try {
+      const chunks: ReportRequest[][] = [];
+      for (let i = 0; i < requests.length; i += MAX_BATCH_REPORTS) {
+        chunks.push(requests.slice(i, i + MAX_BATCH_REPORTS));
+      }
+
+      const responses = await Promise.all(
+        chunks.map((chunk) =>
+          this.executeRunReport(accessToken, propertyId, {
+            requests: chunk.map((r) => this.toRequestBody(this.withPageLimit(r))),
+          }, "batch"),
+        ),
+      );
+
+      // Every report of a batch waited as long as the batch call
+      const firstPages = responses.flatMap(({ data: d, throttledMs }, chunkIndex) => {
+        const reports: any[] = d.reports ?? [];
+        return (chunks[chunkIndex] ?? []).map((_, i) => ({ first: this.mapReportResponse(reports[i] ?? {}), throttledMs }));
+      });
+
+      // Reports with more rows than the first page are completed with follow-up runReport calls
+      return await Promise.all(
+        firstPages.map(({ first, throttledMs }, i) =>
+          this.paginateReport(accessToken, propertyId, requests[i]!, first, throttledMs)),
+      );
+    } catch (error: any) {
+      if (error.code === 'ECONNABORTED') {
+        throw new Error(`Request timed out for property ${propertyId}.`);
+      }
+      try {
+        const data = error?.response?.data;
+        console.error('[GA4 batchRunReports] Failed:', {
+          propertyId,
+          reports: requests.length,
+          status: error?.response?.status,
+          statusText: error?.response?.statusText,
+          errorMessage: error?.message,
+          apiError: data?.error ?? data,
+        });
+      } catch {}
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`GA4 batchRunReports failed for property ${propertyId}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Run a GA4 pivot report and normalize it into a rows × columns table
+   */
+  async runPivotReport(
+    accessToken: string,
+    propertyId: string,
+    params: PivotReportRequest,
+  ): Promise<PivotReportData> {
+    if (params.pivots.length === 0) {
+      throw new Error("A pivot report needs at least one pivot");
+    }
+    const cells = params.pivots.reduce((product, pivot) => product * pivot.limit, 1);
+    if (cells > MAX_PIVOT_CELLS) {
+      throw new Error(`Pivot limits multiply to ${cells}, GA4 allows at most ${MAX_PIVOT_CELLS}`);
+    }
+
+    try {
+      const { data: d } = await this.executeRunReport(accessToken, propertyId, {
+        dateRanges: [{ startDate: params.startDate, endDate: params.endDate }],
+        // Every pivot field must also be listed as a report dimension
+        dimensions: Array.from(new Set(params.pivots.flatMap((p) => p.fieldNames))).map((name) => ({ name })),
+        metrics: params.metrics.map((name) => ({ name })),
+        dimensionFilter: params.dimensionFilter,
+        metricFilter: params.metricFilter,
+        pivots: params.pivots.map((pivot) => ({
+          fieldNames: pivot.fieldNames,
+          limit: String(pivot.limit),
+          offset: pivot.offset ? String(pivot.offset) : undefined,
+          orderBys: pivot.orderByMetric ? [{ metric: { metricName: pivot.orderByMetric }, desc: true }] : undefined,
+          metricAggregations: pivot.includeTotals ? ["TOTAL"] : undefined,
+        })),
+        returnPropertyQuota: true,
+      }, "pivot");
+      return this.mapPivotResponse(params, d);
+    } catch (error: any) {
+      if (error.code === 'ECONNABORTED') {
+        throw new Error(`Request timed out for property ${propertyId}.`);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`GA4 runPivotReport failed for property ${propertyId}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Run a GA4 funnel report. Returns GA's funnel table: one row per step ("1. Step name")
+   * with activeUsers, completion and abandonment metrics.
+   */
+  async runFunnelReport(
+    accessToken: string,
+    propertyId: string,
+    params: FunnelReportRequest,
+  ): Promise<AnalyticsData> {
+    try {
+      const { data: d } = await this.executeRunReport(accessToken, propertyId, {
+        dateRanges: [{ startDate: params.startDate, endDate: params.endDate }],
+        funnel: {
+          isOpenFunnel: params.funnel.isOpenFunnel ?? false,
+          steps: params.funnel.steps.map((step) => ({
+            name: step.name,
+            filterExpression: { funnelEventFilter: { eventName: step.eventName } },
+          })),
+        },
+        dimensionFilter: params.dimensionFilter,
+        returnPropertyQuota: true,
+      }, "funnel");
+      return this.mapReportResponse(d.funnelTable ?? {});
+    } catch (error: any) {
+      if (error.code === 'ECONNABORTED') {
+        throw new Error(`Request timed out for property ${propertyId}.`);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const status: number | undefined = error?.response?.status ?? (typeof error?.code === "number" ? error.code : undefined);
+      throw new ReportError(`GA4 runFunnelReport failed for property ${propertyId}: ${errorMessage}`, status);
+    }
+  }
+
+  /**
+   * Run a GA4 cohort report. Rows hold the cohort name and period offset ("0000", "0001", ...)
+   * as dimensions, in that order, followed by the requested metrics.
+   */
+  async runCohortReport(
+    accessToken: string,
+    propertyId: string,
+    params: CohortReportRequest,
+  ): Promise<AnalyticsData> {
+    if (params.cohorts.length === 0) {
+      throw new Error("A cohort report needs at least one cohort");
+    }
+
+    try {
+      const { data: d } = await this.executeRunReport(accessToken, propertyId, {
+        // Cohort reports take their date ranges from the cohorts, not from dateRanges
+        dimensions: [{ name: "cohort" }, { name: COHORT_PERIOD_DIMENSIONS[params.granularity] }],
+        metrics: (params.metrics ?? ["cohortActiveUsers", "cohortTotalUsers"]).map((name) => ({ name })),
+        dimensionFilter: params.dimensionFilter,
+        cohortSpec: {
+          cohorts: params.cohorts.map((cohort) => ({
+            name: cohort.name,
+            dimension: "firstSessionDate",
+            dateRange: { startDate: cohort.startDate, endDate: cohort.endDate },
+          })),
+          cohortsRange: {
+            granularity: params.granularity === "weekly" ? "WEEKLY" : "MONTHLY",
+            startOffset: 0,
+            endOffset: params.endOffset,
+          },
+        },
+        returnPropertyQuota: true,
+      });
+      return this.mapReportResponse(d);
+    } catch (error: any) {
+      if (error.code === 'ECONNABORTED') {
+        throw new Error(`Request timed out for property ${propertyId}.`);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`GA4 runCohortReport failed for property ${propertyId}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Run a GA4 realtime report (events from the last 30 minutes by default)
+   */
+  async runRealtimeReport(
+    accessToken: string,
+    propertyId: string,
+    params: RealtimeReportRequest,
+  ): Promise<AnalyticsData> {
+    try {
+      const { data: d } = await this.executeRunReport(accessToken, propertyId, {
+        dimensions: params.dimensions.map((name) => ({ name })),
+        metrics: params.metrics.map((name) => ({ name })),
+        dimensionFilter: params.dimensionFilter,
+        metricFilter: params.metricFilter,
+        limit: params.limit !== undefined ? String(params.limit) : undefined,
+        minuteRanges: params.minuteRanges,
+        returnPropertyQuota: true,
+      }, "realtime");
+      return this.mapReportResponse(d);
+    } catch (error: any) {
+      if (error.code === 'ECONNABORTED') {
+        throw new Error(`Request timed out for property ${propertyId}.`);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`GA4 runRealtimeReport failed for property ${propertyId}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Number of GA report calls currently in flight
+   */
+  getInFlightReportCount(): number {
+    return this.inFlightReports.size;
+  }
+
+  /**
+   * Execute a raw GA4 runReport request, coalescing identical concurrent requests.
+   * Callers receive the shared raw response body and map it themselves, so no result objects are shared.
+   */
+  private executeRunReport(
+    accessToken: string,
+    propertyId: string,
+    requestBody: any,
+    method: ReportMethod = "single",
+  ): Promise<ReportResponse> {
+    const key = `${method}|${this.getReportRequestKey(accessToken, propertyId, requestBody)}`;
+    const pending = this.inFlightReports.get(key);
+    if (pending) return pending;
+
+    const request = this.fetchReport(accessToken, propertyId, requestBody, method).finally(() => {
+      this.inFlightReports.delete(key);
+    });
+
+    this.inFlightReports.set(key, request);
+    return request;
+  }
+
+  private async fetchReport(
+    accessToken: string,
+    propertyId: string,
+    requestBody: any,
+    method: ReportMethod,
+  ): Promise<ReportResponse> {
+    const properties = this.analyticsData.properties;
+    const call = method === "batch"
+      ? properties.batchRunReports
+      : method === "realtime"
+        ? properties.runRealtimeReport
+        : method === "pivot"
+          ? properties.runPivotReport
+          : properties.runReport;
+
+    // Every report call waits while its property is low on hourly quota of the report's category (see QuotaTracker)
+    const quotaCategory: QuotaCategory = method === "realtime" || method === "funnel" ? method : "core";
+    const throttledMs = await quotaTracker.acquire(propertyId, quotaCategory);
+
+    let response: any;
+    try {
+      response = method === "funnel"
+        ? await this.getAuth(accessToken).request({
+          url: `${FUNNEL_REPORT_ENDPOINT}/properties/${propertyId}:runFunnelReport`,
+          method: "POST",
+          data: requestBody,
+          timeout: 30000,
+        })
+        : await call.call(properties, {
+          auth: this.getAuth(accessToken),
+          property: `properties/${propertyId}`,
+          requestBody,
+        }, {
+          timeout: 30000, // 30 seconds
+        });
+    } catch (error: any) {
+      if (error?.response?.status === 429 || error?.code === 429) {
+        quotaTracker.markExhausted(propertyId, quotaCategory);
+      }
+      throw error;
+    }
+
+    const d: any = response.data ?? {};
+    // Batch responses carry the quota on each report; the last one reflects the state after the whole batch
+    const rawQuotas: any[] = method === "batch"
+      ? (d.reports ?? []).map((r: any) => r.propertyQuota)
+      : [d.propertyQuota];
+    const rawQuota = rawQuotas.filter(Boolean).pop();
+    if (rawQuota) {
+      quotaTracker.record(propertyId, this.mapPropertyQuota(rawQuota), quotaCategory);
+    }
+    return { data: d, throttledMs };
+  }
+
+  /**
+   * Map the raw GA4 propertyQuota object, keeping only the quota windows GA reported
+   */
+  private mapPropertyQuota(q: any): PropertyQuota {
+    const mapStatus = (status: any): QuotaStatus | undefined =>
+      status ? { consumed: Number(status.consumed ?? 0), remaining: Number(status.remaining ?? 0) } : undefined;
+    return {
+      tokensPerDay: mapStatus(q.tokensPerDay),
+      tokensPerHour: mapStatus(q.tokensPerHour),
+      tokensPerProjectPerHour: mapStatus(q.tokensPerProjectPerHour),
+      concurrentRequests: mapStatus(q.concurrentRequests),
+      serverErrorsPerProjectPerHour: mapStatus(q.serverErrorsPerProjectPerHour),
+      potentiallyThresholdedRequestsPerHour: mapStatus(q.potentiallyThresholdedRequestsPerHour),
+    };
+  }
+
+  /**
+   * Convert a ReportRequest into the GA4 request body
+   */
+  private toRequestBody(params: ReportRequest): any {
+    return {
+      dateRanges: this.getDateRanges(params),
+      dimensions: params.dimensions.map((name) => ({ name })),
+      metrics: params.metrics.map((name) => ({ name })),
+      dimensionFilter: params.dimensionFilter,
+      metricFilter: params.metricFilter,
+      limit: params.limit !== undefined ? String(params.limit) : undefined,
+      offset: params.offset ? String(params.offset) : undefined,
+      orderBys: params.orderBys,
+      returnPropertyQuota: true,
+    };
+  }
+
+  /**
+   * Use the auto-pagination page size for the first page when the caller set no explicit limit
+   */
+  private withPageLimit(params: ReportRequest): ReportRequest {
+    if (params.limit !== undefined) return params;
+    return { ...params, limit: Math.min(REPORT_PAGE_SIZE, this.getMaxRows(params)) };
+  }
+
+  /**
+   * Date ranges of a request. Single-range requests stay unnamed; with comparison ranges every range gets a name.
+   */
+  private getDateRanges(params: ReportRequest): any[] {
+    const compare = params.compareDateRanges ?? [];
+    if (compare.length === 0) {
+      return [{ startDate: params.startDate, endDate: params.endDate }];
+    }
+    if (compare.length + 1 > MAX_DATE_RANGES) {
+      throw new Error(`GA4 reports accept at most ${MAX_DATE_RANGES} date ranges, got ${compare.length + 1}`);
+    }
+    return [
+      { name: CURRENT_DATE_RANGE, startDate: params.startDate, endDate: params.endDate },
+      ...compare.map(({ name, startDate, endDate }) => ({ name, startDate, endDate })),
+    ];
+  }
+
+  /**
+   * Split a multi-range report into per-range series using the dateRange dimension.
+   * The top-level rows/totals keep the current range with the dateRange dimension removed.
+   */
+  private splitDateRangeSeries(params: ReportRequest, data: AnalyticsData): AnalyticsData {
+    const compare = params.compareDateRanges ?? [];
+    const rangeIndex = data.dimensionHeaders.findIndex((h) => h.name === DATE_RANGE_DIMENSION);
+    if (compare.length === 0 || rangeIndex < 0) return data;
+
+    const ranges: NamedDateRange[] = [
+      { name: CURRENT_DATE_RANGE, startDate: params.startDate, endDate: params.endDate },
+      ...compare,
+    ];
+    const rowsFor = (rows: AnalyticsRow[], name: string): AnalyticsRow[] =>
+      rows
+        .filter((row) => row.dimensionValues[rangeIndex]?.value === name)
+        .map((row) => ({ ...row, dimensionValues: row.dimensionValues.filter((_, i) => i !== rangeIndex) }));
+
+    const series = Object.fromEntries(
+      ranges.map((range) => [range.name, { dateRange: range, rows: rowsFor(data.rows, range.name), totals: rowsFor(data.totals, range.name) }]),
+    );
+    const current = series[CURRENT_DATE_RANGE]!;
+
+    return {
+      ...data,
+      dimensionHeaders: data.dimensionHeaders.filter((_, i) => i !== rangeIndex),
+      rows: current.rows,
+      totals: current.totals,
+      maximums: rowsFor(data.maximums, CURRENT_DATE_RANGE),
+      minimums: rowsFor(data.minimums, CURRENT_DATE_RANGE),
+      series,
+    };
+  }
+
+  /**
+   * Fetch the remaining pages of a report (offset/limit) until rowCount or the max-rows ceiling is reached,
+   * then split multi-range reports into series. Requests with an explicit limit are not paginated.
+   */
+  private async paginateReport(
+    accessToken: string,
+    propertyId: string,
+    params: ReportRequest,
+    first: AnalyticsData,
+    throttledMs = 0,
+  ): Promise<AnalyticsData> {
+    const startOffset = params.offset ?? 0;
+    const total = Math.max(0, first.rowCount - startOffset);
+    // An explicit limit is a single page: rows past it are reported as truncated, not fetched
+    if (params.limit !== undefined) {
+      return this.splitDateRangeSeries(params, { ...first, truncated: first.rows.length < total, throttledMs });
+    }
+
+    const maxRows = this.getMaxRows(params);
+    const rows = [...first.rows];
+
+    while (rows.length < total && rows.length < maxRows) {
+      const response = await this.executeRunReport(accessToken, propertyId, this.toRequestBody({
+        ...params,
+        limit: Math.min(REPORT_PAGE_SIZE, maxRows - rows.length),
+        offset: startOffset + rows.length,
+      }));
+      throttledMs += response.throttledMs;
+      const page = this.mapReportResponse(response.data);
+      if (page.rows.length === 0) break;
+      rows.push(...page.rows);
+    }
+
+    return this.splitDateRangeSeries(params, { ...first, rows, truncated: rows.length < total, throttledMs });
+  }
+
+  private getMaxRows(params: ReportRequest): number {
+    return params.maxRows ?? env.ANALYTICS_REPORT_MAX_ROWS ?? DEFAULT_REPORT_MAX_ROWS;
+  }
+
+  /**
+   * Map a raw GA4 report response to the AnalyticsData type
+   */
+  private mapReportResponse(d: any): AnalyticsData {
+    const mapRow = (row: any) => ({
+      dimensionValues: (row.dimensionValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
+      metricValues: (row.metricValues ?? []).map((v: any) => ({ value: v.value ?? "" })),
+    });
+    return {
+      dimensionHeaders: (d.dimensionHeaders ?? []).map((h: any) => ({ name: h.name ?? "" })),
+      metricHeaders: (d.metricHeaders ?? []).map((h: any) => ({ name: h.name ?? "", type: h.type ?? "" })),
+      rows: (d.rows ?? []).map(mapRow),
+      totals: (d.totals ?? []).map(mapRow),
+      maximums: (d.maximums ?? []).map(mapRow),
+      minimums: (d.minimums ?? []).map(mapRow),
+      rowCount: d.rowCount ?? 0,
+    };
+  }
+
+  /**
+   * Map a raw GA4 pivot response to a rows × columns table.
+   * Response rows are flat dimension combinations; rows holding RESERVED_TOTAL are the totals of a pivot.
+   */
+  private mapPivotResponse(params: PivotReportRequest, d: any): PivotReportData {
+    const [rowPivot, ...columnPivots] = params.pivots;
+    const rowDimensions = rowPivot?.fieldNames ?? [];
+    const columnDimensions = columnPivots.flatMap((p) => p.fieldNames);
+    const dimensionNames: string[] = (d.dimensionHeaders ?? []).map((h: any) => h.name ?? "");
+    const metricHeaders: { name: string; type: string }[] = (d.metricHeaders ?? []).map((h: any) => ({ name: h.name ?? "", type: h.type ?? "" }));
+    const pivotHeaders: any[] = d.pivotHeaders ?? [];
+    const valuesOf = (items: any): string[] => ((items ?? []) as { value?: string }[]).map((v) => v.value ?? "");
+
+    // Combinations of one pivot, in GA order, without the aggregate header
+    const pivotKeys = (index: number): string[][] =>
+      ((pivotHeaders[index]?.pivotDimensionHeaders ?? []) as { dimensionValues?: unknown }[])
+        .map((h) => valuesOf(h.dimensionValues))
+        .filter((key) => !key.includes(PIVOT_TOTAL_VALUE));
+
+    // Column keys are the cartesian product of the column pivots' combinations
+    const columns = columnPivots.reduce<string[][]>(
+      (keys, _, i) => keys.flatMap((prefix) => pivotKeys(i + 1).map((key) => [...prefix, ...key])),
+      [[]],
+    );
+    const rowKeys = pivotKeys(0);
+
+    const keyOf = (values: string[]) => JSON.stringify(values);
+    const rowIndex = new Map(rowKeys.map((key, i) => [keyOf(key), i]));
+    const columnIndex = new Map(columns.map((key, i) => [keyOf(key), i]));
+    const emptyCell = () => metricHeaders.map((): number | null => null);
+
+    const rows: PivotTableRow[] = rowKeys.map((key) => ({ key, cells: columns.map(emptyCell), totals: emptyCell() }));
+    const columnTotals = columns.map(emptyCell);
+    let grandTotals = emptyCell();
+
+    for (const row of (d.rows ?? []) as { dimensionValues?: unknown; metricValues?: unknown }[]) {
+      const dimensionValues = valuesOf(row.dimensionValues);
+      const metricValues = valuesOf(row.metricValues);
+      const valuesFor = (names: string[]) => names.map((name) => dimensionValues[dimensionNames.indexOf(name)] ?? "");
+      const rowKey = valuesFor(rowDimensions);
+      const columnKey = valuesFor(columnDimensions);
+      const values = metricHeaders.map((_, i) => {
+        const n = Number(metricValues[i]);
+        return metricValues[i] !== undefined && Number.isFinite(n) ? n : null;
+      });
+      const isRowTotal = rowKey.includes(PIVOT_TOTAL_VALUE);
+      const isColumnTotal = columnKey.includes(PIVOT_TOTAL_VALUE);
+
+      if (isRowTotal && isColumnTotal) {
+        grandTotals = values;
+      } else if (isRowTotal) {
+        const c = columnIndex.get(keyOf(columnKey));
+        if (c !== undefined) columnTotals[c] = values;
+      } else {
+        const target = rows[rowIndex.get(keyOf(rowKey)) ?? -1];
+        if (!target) continue;
+        if (isColumnTotal) {
+          target.totals = values;
+        } else {
+          const c = columnIndex.get(keyOf(columnKey));
+          if (c !== undefined) target.cells[c] = values;
+        }
+      }
+    }
+
+    return {
+      rowDimensions,
+      columnDimensions,
+      metricHeaders,
+      columns,
+      rows,
+      columnTotals,
+      grandTotals,
+      rowCount: pivotHeaders[0]?.rowCount ?? rows.length,
+    };
+  }
+
+  /**
+   * Build the coalescing key. The token is hashed so different users never share a response.
+   */
+  private getReportRequestKey(accessToken: string, propertyId: string, requestBody: any): string {
+    const identity = createHash("sha256").update(accessToken ?? "").digest("hex");
+    return `${identity}|${propertyId}|${stableStringify(requestBody)}`;
+  }
+}
+
+/**
+ * JSON serialization with sorted object keys and undefined fields dropped, so equivalent requests produce the same key.
+ * Array order is kept because dimension and metric order shapes the response.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
 }
 
 // Export singleton instance
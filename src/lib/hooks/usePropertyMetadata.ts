@@ -0,0 +1,43 @@
+// React hook for GA4 property metadata (custom dimensions/metrics and key events)
+
+import useSWR from "swr";
+import type { PropertyMetadata } from "~/types/analytics";
+
+interface PropertyMetadataResponse {
+  propertyId: string;
+  metadata: PropertyMetadata;
+  timestamp: string;
+}
+
+// Metadata is cached server-side for a day; no need to refetch within a session
+const METADATA_DEDUPING_INTERVAL_MS = 60 * 60 * 1000;
+
+const fetchMetadata = async (propertyIds: string[]): Promise<PropertyMetadata[]> => {
+  const results = await Promise.allSettled(
+    propertyIds.map(async (id) => {
+      const res = await fetch(`/api/analytics/properties/${id}/metadata`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+      const json = (await res.json()) as PropertyMetadataResponse;
+      return json.metadata;
+    }),
+  );
+  // A property we cannot read metadata for simply contributes no custom fields
+  return results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+};
+
+export function usePropertyMetadata(propertyIds: string[]) {
+  const key = propertyIds.length > 0 ? ["property-metadata", ...propertyIds].join("|") : null;
+
+  const { data, error, isLoading } = useSWR<PropertyMetadata[], Error>(
+    key,
+    () => fetchMetadata(propertyIds),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      errorRetryCount: 0,
+      dedupingInterval: METADATA_DEDUPING_INTERVAL_MS,
+    },
+  );
+
+  return { metadata: data ?? [], error, isLoading };
+}
@@ -0,0 +1,75 @@
+// React hook for the GA4 realtime (last 30 minutes) stream
+
+import { useEffect, useState } from "react";
+import type { RealtimeSnapshot } from "~/types/analytics";
+
+interface RealtimeErrorEvent {
+  propertyId: string;
+  message: string;
+  timestamp: string;
+}
+
+interface RealtimeState {
+  connected: boolean;
+  snapshot: RealtimeSnapshot | null;
+  error: string | null;
+}
+
+interface UseRealtimeAnalyticsOptions {
+  enabled?: boolean;
+  intervalSeconds?: number;
+}
+
+export function useRealtimeAnalytics(
+  propertyId: string | undefined,
+  options: UseRealtimeAnalyticsOptions = {},
+) {
+  const { enabled = true, intervalSeconds = 30 } = options;
+
+  const [state, setState] = useState<RealtimeState>({
+    connected: false,
+    snapshot: null,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!enabled || !propertyId) {
+      setState({ connected: false, snapshot: null, error: null });
+      return;
+    }
+
+    const params = new URLSearchParams({ propertyId, interval: String(intervalSeconds) });
+    // EventSource reconnects on its own after network errors
+    const eventSource = new EventSource(`/api/analytics/realtime?${params.toString()}`);
+
+    setState({ connected: false, snapshot: null, error: null });
+
+    eventSource.addEventListener("connected", () => {
+      setState(prev => ({ ...prev, connected: true, error: null }));
+    });
+
+    eventSource.addEventListener("realtime", (event) => {
+      const snapshot = JSON.parse((event as MessageEvent<string>).data) as RealtimeSnapshot;
+      setState({ connected: true, snapshot, error: null });
+    });
+
+    eventSource.addEventListener("realtimeError", (event) => {
+      const data = JSON.parse((event as MessageEvent<string>).data) as RealtimeErrorEvent;
+      setState(prev => ({ ...prev, error: data.message }));
+    });
+
+    eventSource.onerror = () => {
+      setState(prev => ({
+        ...prev,
+        connected: false,
+        error: "Connection to realtime stream lost, retrying...",
+      }));
+    };
+
+    return () => {
+      eventSource.close();
+    };
+  }, [propertyId, enabled, intervalSeconds]);
+
+  return state;
+}
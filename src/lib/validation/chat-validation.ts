@@ -8,9 +8,11 @@ import type {
   MetricSummary, 
   AggregatedMetrics, 
   TrendAnalysis, 
+  AnomalyInsight, 
   ComparisonData, 
   DataReference
 } from "~/types/chat";
+import { parseDateRange, DateRangeError } from "~/lib/analytics/DateRangeResolver";
 
 // Simple validation utility (Zod-like interface without external dependency)
 class ValidationError extends Error {
@@ -32,16 +34,13 @@ export function validateDateRange(dateRange: unknown): DateRange {
     throw new ValidationError('Date range must have string startDate and endDate');
   }
   
-  // Basic date format validation (YYYY-MM-DD or relative dates)
-  const datePattern = /^\d{4}-\d{2}-\d{2}$|^\d+daysAgo$|^today$|^yesterday$/;
-  if (!datePattern.test(dr.startDate) || !datePattern.test(dr.endDate)) {
-    throw new ValidationError('Invalid date format. Use YYYY-MM-DD or relative dates like "7daysAgo"');
+  // Date format (YYYY-MM-DD or relative dates) and ordering are checked by the shared resolver
+  try {
+    return parseDateRange(dr.startDate, dr.endDate);
+  } catch (error) {
+    if (error instanceof DateRangeError) throw new ValidationError(error.message);
+    throw error;
   }
-  
-  return {
-    startDate: dr.startDate,
-    endDate: dr.endDate
-  };
 }
 
 // Chat Message Validation
@@ -102,9 +101,14 @@ export function validatePropertySummary(summary: unknown): PropertySummary {
     throw new ValidationError('Property summary must have a trends object');
   }
   
+  if (ps.currencyCode !== undefined && typeof ps.currencyCode !== 'string') {
+    throw new ValidationError('Property summary currencyCode must be a string if provided');
+  }
+  
   return {
     propertyId: ps.propertyId,
     displayName: ps.displayName,
+    currencyCode: ps.currencyCode,
     metrics: ps.metrics as Record<string, number>,
     trends: ps.trends as Record<string, 'up' | 'down' | 'stable'>
   };
@@ -168,10 +172,32 @@ export function validateAggregatedMetrics(metrics: unknown): AggregatedMetrics {
     throw new ValidationError('Aggregated metrics totalRevenue must be a valid number if provided');
   }
   
+  if (am.totalTransactions !== undefined && (typeof am.totalTransactions !== 'number' || isNaN(am.totalTransactions))) {
+    throw new ValidationError('Aggregated metrics totalTransactions must be a valid number if provided');
+  }
+  
   if (am.conversionRate !== undefined && (typeof am.conversionRate !== 'number' || isNaN(am.conversionRate))) {
     throw new ValidationError('Aggregated metrics conversionRate must be a valid number if provided');
   }
   
+  if (am.averageOrderValue !== undefined && (typeof am.averageOrderValue !== 'number' || isNaN(am.averageOrderValue))) {
+    throw new ValidationError('Aggregated metrics averageOrderValue must be a valid number if provided');
+  }
+  
+  if (am.currencyCode !== undefined && (typeof am.currencyCode !== 'string' || !/^[A-Z]{3}$/.test(am.currencyCode))) {
+    throw new ValidationError('Aggregated metrics currencyCode must be a three-letter currency code if provided');
+  }
+  
+  if (am.revenueExcludedPropertyIds !== undefined &&
+      (!Array.isArray(am.revenueExcludedPropertyIds) || !am.revenueExcludedPropertyIds.every(id => typeof id === 'string'))) {
+    throw new ValidationError('Aggregated metrics revenueExcludedPropertyIds must be an array of strings if provided');
+  }
+  
+  if (am.mixedTimeZones !== undefined &&
+      (!Array.isArray(am.mixedTimeZones) || !am.mixedTimeZones.every(tz => typeof tz === 'string'))) {
+    throw new ValidationError('Aggregated metrics mixedTimeZones must be an array of strings if provided');
+  }
+  
   return {
     totalUsers: am.totalUsers as number,
     totalSessions: am.totalSessions as number,
@@ -179,7 +205,12 @@ export function validateAggregatedMetrics(metrics: unknown): AggregatedMetrics {
     averageBounceRate: am.averageBounceRate as number,
     averageSessionDuration: am.averageSessionDuration as number,
     totalRevenue: am.totalRevenue as number | undefined,
-    conversionRate: am.conversionRate as number | undefined
+    totalTransactions: am.totalTransactions,
+    conversionRate: am.conversionRate,
+    averageOrderValue: am.averageOrderValue,
+    currencyCode: am.currencyCode,
+    revenueExcludedPropertyIds: am.revenueExcludedPropertyIds,
+    mixedTimeZones: am.mixedTimeZones
   };
 }
 
@@ -216,7 +247,8 @@ export function validateAnalyticsContext(context: unknown): AnalyticsContext {
     metrics: ac.metrics as MetricSummary[],
     aggregatedData,
     trends: ac.trends as TrendAnalysis[],
-    comparisons: ac.comparisons as ComparisonData[]
+    comparisons: ac.comparisons as ComparisonData[],
+    anomalies: Array.isArray(ac.anomalies) ? ac.anomalies as AnomalyInsight[] : undefined
   };
 }
 
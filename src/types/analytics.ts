@@ -16,11 +16,15 @@ export interface AnalyticsProperty {
   createTime: string;
   updateTime: string;
   parent: string;
-  timeZone: string;
-  currencyCode: string;
+  // Property settings; account summaries do not include them, property details do
+  timeZone?: string;
+  currencyCode?: string;
+  accountDisplayName?: string;
 }
 
 export interface PropertyDetails extends AnalyticsProperty {
+  timeZone: string;
+  currencyCode: string;
   industryCategory: string;
   serviceLevel: string;
   dataRetentionSettings: {
@@ -93,6 +97,29 @@ export interface AnalyticsRow {
   metricValues: { value: string }[];
 }
 
+// A monetary amount with its ISO 4217 currency code
+export interface MonetaryValue {
+  amount: number;
+  currencyCode: string;
+}
+
+// A date range reported under a name (GA4 dateRanges[].name)
+export interface NamedDateRange {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+// Name of the primary (startDate/endDate) range in multi-range reports
+export const CURRENT_DATE_RANGE = "current";
+
+// Rows of one named date range of a multi-range report
+export interface AnalyticsSeries {
+  dateRange: NamedDateRange;
+  rows: AnalyticsRow[];
+  totals: AnalyticsRow[];
+}
+
 export interface AnalyticsData {
   dimensionHeaders: { name: string }[];
   metricHeaders: { name: string; type: string }[];
@@ -101,6 +128,291 @@ export interface AnalyticsData {
   maximums: AnalyticsRow[];
   minimums: AnalyticsRow[];
   rowCount: number;
+  // True when rows were cut off at the request limit or the report max-rows ceiling (rowCount is the full total)
+  truncated?: boolean;
+  // Per-range rows keyed by range name when the report covered several date ranges.
+  // `rows`/`totals` then hold the primary ("current") range only.
+  series?: Record<string, AnalyticsSeries>;
+  // IANA time zone of the `date`/`dateHour` values (the property's reporting time zone), when known
+  timeZone?: string;
+  // Time the report calls waited on the property's quota token bucket (see QuotaTracker)
+  throttledMs?: number;
+}
+
+// One row of a pivot table: a combination of the row dimensions and its cells per column
+export interface PivotTableRow {
+  key: string[];
+  // cells[columnIndex][metricIndex]; null where GA returned no value for the combination
+  cells: (number | null)[][];
+  // Per-metric total across all columns (GA TOTAL aggregation), null when not requested
+  totals: (number | null)[];
+}
+
+// Normalized runPivotReport result: the first pivot forms the rows, the remaining pivots the columns
+export interface PivotReportData {
+  rowDimensions: string[];
+  columnDimensions: string[];
+  metricHeaders: { name: string; type: string }[];
+  // Column keys in GA order, one value per column dimension ([[]] when there is a single pivot)
+  columns: string[][];
+  rows: PivotTableRow[];
+  // columnTotals[columnIndex][metricIndex] across all rows
+  columnTotals: (number | null)[][];
+  grandTotals: (number | null)[];
+  // Row combinations GA found before the row pivot limit was applied
+  rowCount: number;
+}
+
+// One step of a funnel, matched on an event name (e.g. add_to_cart)
+export interface FunnelStep {
+  name: string;
+  eventName: string;
+}
+
+export interface FunnelDefinition {
+  name: string;
+  steps: FunnelStep[];
+  // Open funnels count users entering at any step; closed funnels require the previous steps
+  isOpenFunnel?: boolean;
+}
+
+export interface FunnelStepResult extends FunnelStep {
+  activeUsers: number;
+  // Percentage of the first step's users that reached this step
+  conversionRate: number;
+  // Percentage of the previous step's users that reached this step (100 for the first step)
+  stepConversionRate: number;
+  // Users lost between the previous step and this one
+  dropOff: number;
+  dropOffRate: number;
+}
+
+// "ga4" when GA computed the funnel, "event_counts" for the local approximation from per-event user counts
+export type FunnelSource = "ga4" | "event_counts";
+
+export interface FunnelReportData {
+  funnel: FunnelDefinition;
+  steps: FunnelStepResult[];
+  // Percentage of the first step's users that completed the last step
+  overallConversionRate: number;
+  source: FunnelSource;
+}
+
+export interface EcommerceSummary {
+  purchaseRevenue: number;
+  transactions: number;
+  itemsPurchased: number;
+  sessions: number;
+  // Transactions per 100 sessions
+  conversionRate: number;
+  // Average order value: revenue per transaction
+  averageOrderValue: number;
+}
+
+export interface EcommerceDailyPoint {
+  // GA date, YYYYMMDD
+  date: string;
+  purchaseRevenue: number;
+  transactions: number;
+}
+
+export interface EcommerceItem {
+  itemName: string;
+  itemCategory: string;
+  itemRevenue: number;
+  itemsPurchased: number;
+  itemsViewed: number;
+}
+
+export interface EcommerceReportData {
+  summary: EcommerceSummary;
+  daily: EcommerceDailyPoint[];
+  // Items ordered by revenue, descending
+  items: EcommerceItem[];
+  itemCount: number;
+  // Currency of all amounts (ISO 4217), when the property's currency is known
+  currencyCode?: string;
+  // Set when amounts were converted from the property's currency: its code and the rate table date
+  convertedFrom?: { currencyCode: string; exchangeRateDate: string };
+}
+
+export type CohortGranularity = "weekly" | "monthly";
+
+export interface CohortRetentionRow {
+  // Cohort name, e.g. "2024-03-03" (first day of the week or month)
+  name: string;
+  startDate: string;
+  endDate: string;
+  // Users whose first session falls in the cohort's date range
+  users: number;
+  // Active users and retention (% of the cohort's users) per period since the first session;
+  // null for periods that have not completed yet
+  activeUsers: (number | null)[];
+  retention: (number | null)[];
+}
+
+export interface CohortReportData {
+  granularity: CohortGranularity;
+  // Number of periods reported after the first one (the oldest cohort has periods 0..periods)
+  periods: number;
+  cohorts: CohortRetentionRow[];
+  // Retention per period across all cohorts that reached it, weighted by cohort size
+  averageRetention: (number | null)[];
+}
+
+// Daily metric values of a portfolio trend (date is YYYY-MM-DD)
+export interface PortfolioTrendPoint {
+  date: string;
+  values: Record<string, number>;
+}
+
+export interface PortfolioPropertySeries {
+  propertyId: string;
+  timeZone: string;
+  // True when hourly rows were moved onto the reporting time zone's calendar
+  aligned: boolean;
+  points: PortfolioTrendPoint[];
+}
+
+// Daily metrics summed across properties
+export interface PortfolioTrendData {
+  metrics: string[];
+  points: PortfolioTrendPoint[];
+  // Time zone of the dates; null when each property's days are in its own time zone
+  reportingTimeZone: string | null;
+  properties: Omit<PortfolioPropertySeries, "points">[];
+  failedPropertyIds: string[];
+  // Distinct time zones merged on their own calendars, with a warning; empty when days line up
+  mixedTimeZones: string[];
+  warning?: string;
+}
+
+// How a calculated metric combines across properties or rows. "recompute" evaluates the expression on the
+// combined base metrics (right for ratios such as pages per session); the others combine per-sample values.
+export type CalculatedMetricAggregation = "recompute" | "sum" | "sessionWeighted" | "userWeighted";
+
+// User-defined metric computed from base metrics, e.g. "screenPageViews / sessions"
+export interface CalculatedMetricDefinition {
+  // Letters, digits and underscores; the metric is selected as "calc:<id>"
+  id: string;
+  label: string;
+  expression: string;
+  format: "number" | "decimal" | "percent" | "duration" | "currency";
+  aggregation: CalculatedMetricAggregation;
+}
+
+// A day whose value falls outside the range expected from the series' weekday pattern and local level
+export interface MetricAnomaly {
+  // YYYY-MM-DD
+  date: string;
+  value: number;
+  expected: number;
+  lower: number;
+  upper: number;
+  // Robust z-score: distance from the expected value in scaled median absolute deviations
+  score: number;
+  direction: "spike" | "drop";
+  severity: "medium" | "high";
+}
+
+export interface MetricAnomalyReport {
+  metric: string;
+  // Days in the series, missing days of count metrics included as zero
+  pointsAnalyzed: number;
+  // Whether day-of-week effects were estimated (needs two weeks of data)
+  seasonal: boolean;
+  anomalies: MetricAnomaly[];
+}
+
+// How a period-over-period change was tested: counts with a Poisson test, rates with a two-proportion
+// (binomial) test and averages such as durations by bootstrapping their daily values
+export type SignificanceTest = "poisson" | "binomial" | "bootstrap";
+
+export interface ChangeSignificance {
+  test: SignificanceTest;
+  // Two-sided p-value of the change under "nothing changed"; 1 when there was too little data to test
+  pValue: number;
+  // high: p < 0.01, medium: p < 0.05, low: anything else (likely noise)
+  significance: "high" | "medium" | "low";
+  insufficientData?: boolean;
+}
+
+// One metric of a channel in the data route's channel breakdown; prev, deltas and significance only with a comparison
+export interface ChannelMetricChange {
+  current: number;
+  prev?: number;
+  delta?: number;
+  deltaPct?: number;
+  significance?: ChangeSignificance;
+}
+
+export interface ChannelBreakdownRow {
+  channel: string;
+  metrics: Record<string, ChannelMetricChange>;
+}
+
+// Response of the property data route (/api/analytics/properties/[id]/data)
+export interface PropertyDataResponse {
+  propertyId: string;
+  data: AnalyticsData;
+  // Currency of monetary metrics, when the report has any
+  currencyCode?: string | null;
+  // Total purchase revenue in the reporting currency; null when the report has none or it cannot be converted
+  reportingRevenue?: MonetaryValue | null;
+  dateRange: { startDate: string; endDate: string };
+  timestamp: string;
+  channelBreakdown?: ChannelBreakdownRow[];
+  // Organic Search totals of the metrics requested with `organicMetrics`
+  organicTotals?: Record<string, number>;
+  compare?: string;
+  groupBy?: string;
+  metrics: string[];
+  organicOnly: boolean;
+}
+
+// One forecast day with its prediction interval (date is YYYY-MM-DD)
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+// Projected total of a metric over the forecast horizon against a target for that total
+export interface ForecastTargetStatus {
+  target: number;
+  projected: number;
+  lower: number;
+  upper: number;
+  // On track when the projected total reaches the target
+  status: "on_track" | "off_track";
+  // Whether the target lies outside the prediction interval of the total, i.e. the status is unlikely to change
+  confident: boolean;
+}
+
+export interface MetricForecast {
+  metric: string;
+  // Days of history the model was fitted on
+  historyPoints: number;
+  // Whether a weekly seasonal component was fitted (needs two weeks of history)
+  seasonal: boolean;
+  // Coverage of the prediction intervals, e.g. 0.95
+  level: number;
+  points: ForecastPoint[];
+  total: number;
+  totalLower: number;
+  totalUpper: number;
+  target?: ForecastTargetStatus;
+}
+
+export interface PropertyForecast {
+  propertyId: string;
+  // Last day of history; the forecast starts the day after
+  historyEndDate: string;
+  horizon: number;
+  forecasts: MetricForecast[];
+  // Currency of purchaseRevenue, when known
+  currencyCode?: string;
 }
 
 export interface PropertyAnalyticsData {
@@ -113,6 +425,106 @@ export interface PropertyAnalyticsData {
   };
 }
 
+// Per-property dimension/metric metadata from the Data API getMetadata call
+export interface MetadataField {
+  apiName: string;
+  uiName: string;
+  description: string;
+  category: string;
+  customDefinition: boolean;
+  // Metrics backed by a key event (keyEvents:* / conversions:*)
+  keyEvent: boolean;
+  deprecatedApiNames: string[];
+  // Metric value type, e.g. TYPE_INTEGER or TYPE_CURRENCY (metrics only)
+  type?: string;
+}
+
+export interface PropertyMetadata {
+  propertyId: string;
+  dimensions: MetadataField[];
+  metrics: MetadataField[];
+  fetchedAt: string;
+}
+
+// Result of the Data API checkCompatibility call: every field of the property, marked
+// compatible or not with the requested dimension/metric combination
+export type FieldCompatibility = "COMPATIBLE" | "INCOMPATIBLE";
+
+export interface CompatibilityField {
+  apiName: string;
+  uiName: string;
+  category: string;
+  compatibility: FieldCompatibility;
+}
+
+export interface CompatibilityResult {
+  propertyId: string;
+  dimensions: CompatibilityField[];
+  metrics: CompatibilityField[];
+}
+
+// A requested field that cannot be combined with the rest of the request
+export interface IncompatibleField {
+  apiName: string;
+  kind: "dimension" | "metric";
+  // Compatible fields from the same category that could be used instead
+  suggestions: string[];
+}
+
+// 400 response body returned when a requested combination is incompatible
+export interface CompatibilityApiError extends ApiError {
+  incompatibleFields: IncompatibleField[];
+}
+
+// GA4 property quota returned with each report (returnPropertyQuota). `consumed` is what the
+// request used, `remaining` is what is left in the window after it.
+export interface QuotaStatus {
+  consumed: number;
+  remaining: number;
+}
+
+export interface PropertyQuota {
+  tokensPerDay?: QuotaStatus;
+  tokensPerHour?: QuotaStatus;
+  tokensPerProjectPerHour?: QuotaStatus;
+  concurrentRequests?: QuotaStatus;
+  serverErrorsPerProjectPerHour?: QuotaStatus;
+  potentiallyThresholdedRequestsPerHour?: QuotaStatus;
+}
+
+// GA4 quota a report is metered against: runReport, batch and pivot reports share the core quota,
+// realtime and funnel reports have quotas of their own
+export type QuotaCategory = "core" | "realtime" | "funnel";
+
+// Quota state tracked per property and quota category by QuotaTracker
+export interface PropertyQuotaSnapshot {
+  propertyId: string;
+  category: QuotaCategory;
+  quota: PropertyQuota;
+  updatedAt: string;
+  // Estimated hourly tokens available now (last reported remaining plus refill since)
+  availableHourlyTokens: number;
+  hourlyCapacity: number;
+  // Delay the token bucket would apply before the next report for this property
+  throttleDelayMs: number;
+  exhausted: boolean;
+}
+
+// Realtime (last 30 minutes) snapshot pushed by /api/analytics/realtime
+export interface RealtimeBreakdownItem {
+  name: string;
+  activeUsers: number;
+}
+
+export interface RealtimeSnapshot {
+  propertyId: string;
+  timestamp: string;
+  activeUsers: number;
+  byCountry: RealtimeBreakdownItem[];
+  byDevice: RealtimeBreakdownItem[];
+  byPage: RealtimeBreakdownItem[];
+}
+
 // Service Interface
 export interface GoogleAnalyticsService {
   getAccounts(accessToken: string): Promise<AnalyticsAccount[]>;
@@ -133,493 +545,500 @@ export interface GoogleAnalyticsService {
 }
 
 // GA4 Metrics - Comprehensive list of all available metrics
-export type GA4MetricName =
+export const GA4_METRIC_NAMES = [
   // User Metrics
-  | "activeUsers"
-  | "newUsers"
-  | "totalUsers"
-  | "returningUsers"
-  | "userEngagementDuration"
-  | "userEngagementDurationPerSession"
-  | "userEngagementDurationPerUser"
-  | "userEngagementRate"
-  | "userEngagementRatePerSession"
-  | "userEngagementRatePerUser"
+  "activeUsers",
+  "newUsers",
+  "totalUsers",
+  "returningUsers",
+  "userEngagementDuration",
+  "userEngagementDurationPerSession",
+  "userEngagementDurationPerUser",
+  "userEngagementRate",
+  "userEngagementRatePerSession",
+  "userEngagementRatePerUser",
 
   // Session Metrics
-  | "sessions"
-  | "sessionsPerUser"
-  | "averageSessionDuration"
-  | "bounceRate"
-  | "sessionEngagementRate"
-  | "sessionConversionRate"
+  "sessions",
+  "sessionsPerUser",
+  "averageSessionDuration",
+  "bounceRate",
+  "sessionEngagementRate",
+  "sessionConversionRate",
 
   // Page/Screen Metrics
-  | "screenPageViews"
-  | "screenPageViewsPerSession"
-  | "screenPageViewsPerUser"
-  | "uniquePageviews"
-  | "uniquePageviewsPerSession"
-  | "uniquePageviewsPerUser"
-  | "pageViews"
-  | "pageViewsPerSession"
-  | "pageViewsPerUser"
+  "screenPageViews",
+  "screenPageViewsPerSession",
+  "screenPageViewsPerUser",
+  "uniquePageviews",
+  "uniquePageviewsPerSession",
+  "uniquePageviewsPerUser",
+  "pageViews",
+  "pageViewsPerSession",
+  "pageViewsPerUser",
 
   // Event Metrics
-  | "eventCount"
-  | "eventCountPerSession"
-  | "eventCountPerUser"
-  | "uniqueEvents"
-  | "uniqueEventsPerSession"
-  | "uniqueEventsPerUser"
+  "eventCount",
+  "eventCountPerSession",
+  "eventCountPerUser",
+  "uniqueEvents",
+  "uniqueEventsPerSession",
+  "uniqueEventsPerUser",
 
   // E-commerce Metrics
-  | "transactions"
-  | "transactionsPerSession"
-  | "transactionsPerUser"
-  | "transactionRevenue"
-  | "transactionRevenuePerSession"
-  | "transactionRevenuePerUser"
-  | "averageOrderValue"
-  | "itemsViewed"
-  | "itemsViewedPerSession"
-  | "itemsViewedPerUser"
-  | "itemsPurchased"
-  | "itemsPurchasedPerSession"
-  | "itemsPurchasedPerUser"
-  | "itemRevenue"
-  | "itemRevenuePerSession"
-  | "itemRevenuePerUser"
-  | "itemViewEvents"
-  | "itemViewEventsPerSession"
-  | "itemViewEventsPerUser"
-  | "itemPurchaseEvents"
-  | "itemPurchaseEventsPerSession"
-  | "itemPurchaseEventsPerUser"
+  "transactions",
+  "transactionsPerSession",
+  "transactionsPerUser",
+  "transactionRevenue",
+  "transactionRevenuePerSession",
+  "transactionRevenuePerUser",
+  "averageOrderValue",
+  "itemsViewed",
+  "itemsViewedPerSession",
+  "itemsViewedPerUser",
+  "itemsPurchased",
+  "itemsPurchasedPerSession",
+  "itemsPurchasedPerUser",
+  "itemRevenue",
+  "itemRevenuePerSession",
+  "itemRevenuePerUser",
+  "itemViewEvents",
+  "itemViewEventsPerSession",
+  "itemViewEventsPerUser",
+  "itemPurchaseEvents",
+  "itemPurchaseEventsPerSession",
+  "itemPurchaseEventsPerUser",
 
   // Conversion Metrics
-  | "conversions"
-  | "conversionsPerSession"
-  | "conversionsPerUser"
-  | "conversionRate"
-  | "conversionRatePerSession"
-  | "conversionRatePerUser"
-  | "conversionValue"
-  | "conversionValuePerSession"
-  | "conversionValuePerUser"
+  "conversions",
+  "conversionsPerSession",
+  "conversionsPerUser",
+  "conversionRate",
+  "conversionRatePerSession",
+  "conversionRatePerUser",
+  "conversionValue",
+  "conversionValuePerSession",
+  "conversionValuePerUser",
 
   // Engagement Metrics
-  | "engagementRate"
-  | "engagementRatePerSession"
-  | "engagementRatePerUser"
-  | "engagementTime"
-  | "engagementTimePerSession"
-  | "engagementTimePerUser"
+  "engagementRate",
+  "engagementRatePerSession",
+  "engagementRatePerUser",
+  "engagementTime",
+  "engagementTimePerSession",
+  "engagementTimePerUser",
 
   // Traffic Source Metrics
-  | "sessionsPerUserBySessionSource"
-  | "sessionsPerUserBySessionMedium"
-  | "sessionsPerUserBySessionCampaign"
-  | "sessionsPerUserBySessionSourceMedium"
-  | "sessionsPerUserBySessionCampaignSource"
-  | "sessionsPerUserBySessionCampaignMedium"
-  | "sessionsPerUserBySessionCampaignSourceMedium"
+  "sessionsPerUserBySessionSource",
+  "sessionsPerUserBySessionMedium",
+  "sessionsPerUserBySessionCampaign",
+  "sessionsPerUserBySessionSourceMedium",
+  "sessionsPerUserBySessionCampaignSource",
+  "sessionsPerUserBySessionCampaignMedium",
+  "sessionsPerUserBySessionCampaignSourceMedium",
 
   // Geographic Metrics
-  | "sessionsPerUserByCountry"
-  | "sessionsPerUserByRegion"
-  | "sessionsPerUserByCity"
+  "sessionsPerUserByCountry",
+  "sessionsPerUserByRegion",
+  "sessionsPerUserByCity",
 
   // Device Metrics
-  | "sessionsPerUserByDeviceCategory"
-  | "sessionsPerUserByBrowser"
-  | "sessionsPerUserByOperatingSystem"
-  | "sessionsPerUserByDeviceModel"
+  "sessionsPerUserByDeviceCategory",
+  "sessionsPerUserByBrowser",
+  "sessionsPerUserByOperatingSystem",
+  "sessionsPerUserByDeviceModel",
 
   // Content Metrics
-  | "sessionsPerUserByPagePath"
-  | "sessionsPerUserByPageTitle"
-  | "sessionsPerUserByPagePathPlusQueryString"
-  | "sessionsPerUserByPagePathLevel1"
-  | "sessionsPerUserByPagePathLevel2"
-  | "sessionsPerUserByPagePathLevel3"
-  | "sessionsPerUserByPagePathLevel4"
+  "sessionsPerUserByPagePath",
+  "sessionsPerUserByPageTitle",
+  "sessionsPerUserByPagePathPlusQueryString",
+  "sessionsPerUserByPagePathLevel1",
+  "sessionsPerUserByPagePathLevel2",
+  "sessionsPerUserByPagePathLevel3",
+  "sessionsPerUserByPagePathLevel4",
 
   // Custom Metrics (if configured)
-  | "customEvent:custom_metric_1"
-  | "customEvent:custom_metric_2"
-  | "customEvent:custom_metric_3"
-  | "customEvent:custom_metric_4"
-  | "customEvent:custom_metric_5"
+  "customEvent:custom_metric_1",
+  "customEvent:custom_metric_2",
+  "customEvent:custom_metric_3",
+  "customEvent:custom_metric_4",
+  "customEvent:custom_metric_5",
 
   // Audience Metrics
-  | "audienceName"
-  | "audienceId"
-  | "audienceDescription"
-  | "audienceMembershipDuration"
-  | "audienceActiveUsers"
-  | "audienceNewUsers"
-  | "audienceReturningUsers"
+  "audienceName",
+  "audienceId",
+  "audienceDescription",
+  "audienceMembershipDuration",
+  "audienceActiveUsers",
+  "audienceNewUsers",
+  "audienceReturningUsers",
 
   // Cohort Metrics
-  | "cohortActiveUsers"
-  | "cohortTotalUsers"
-  | "cohortRetentionRate"
-  | "cohortReturningUsers"
-  | "cohortNewUsers"
+  "cohortActiveUsers",
+  "cohortTotalUsers",
+  "cohortRetentionRate",
+  "cohortReturningUsers",
+  "cohortNewUsers",
 
   // Lifetime Value Metrics
-  | "lifetimeValue"
-  | "lifetimeValuePerUser"
-  | "lifetimeValuePerSession"
+  "lifetimeValue",
+  "lifetimeValuePerUser",
+  "lifetimeValuePerSession",
 
   // Search Metrics
-  | "searchSessions"
-  | "searchSessionsPerUser"
-  | "searchUniques"
-  | "searchUniquesPerUser"
-  | "searchResultViews"
-  | "searchResultViewsPerUser"
-  | "searchResultViewsPerSession"
+  "searchSessions",
+  "searchSessionsPerUser",
+  "searchUniques",
+  "searchUniquesPerUser",
+  "searchResultViews",
+  "searchResultViewsPerUser",
+  "searchResultViewsPerSession",
 
   // App Metrics (for mobile apps)
-  | "appInstalls"
-  | "appInstallsPerUser"
-  | "appUninstalls"
-  | "appUninstallsPerUser"
-  | "appCrashes"
-  | "appCrashesPerUser"
-  | "appSessions"
-  | "appSessionsPerUser"
+  "appInstalls",
+  "appInstallsPerUser",
+  "appUninstalls",
+  "appUninstallsPerUser",
+  "appCrashes",
+  "appCrashesPerUser",
+  "appSessions",
+  "appSessionsPerUser",
 
   // Video Metrics (if video tracking is enabled)
-  | "videoViews"
-  | "videoViewsPerUser"
-  | "videoViewsPerSession"
-  | "videoEngagementRate"
-  | "videoAverageWatchTime"
-  | "videoWatchTime"
+  "videoViews",
+  "videoViewsPerUser",
+  "videoViewsPerSession",
+  "videoEngagementRate",
+  "videoAverageWatchTime",
+  "videoWatchTime",
 
   // Social Metrics
-  | "socialInteractions"
-  | "socialInteractionsPerUser"
-  | "socialInteractionsPerSession"
-  | "socialShares"
-  | "socialSharesPerUser"
-  | "socialSharesPerSession"
+  "socialInteractions",
+  "socialInteractionsPerUser",
+  "socialInteractionsPerSession",
+  "socialShares",
+  "socialSharesPerUser",
+  "socialSharesPerSession",
 
   // Form Metrics
-  | "formSubmissions"
-  | "formSubmissionsPerUser"
-  | "formSubmissionsPerSession"
-  | "formViews"
-  | "formViewsPerUser"
-  | "formViewsPerSession"
-  | "formConversionRate"
+  "formSubmissions",
+  "formSubmissionsPerUser",
+  "formSubmissionsPerSession",
+  "formViews",
+  "formViewsPerUser",
+  "formViewsPerSession",
+  "formConversionRate",
 
   // Scroll Metrics
-  | "scrollDepth"
-  | "scrollDepthPerUser"
-  | "scrollDepthPerSession"
+  "scrollDepth",
+  "scrollDepthPerUser",
+  "scrollDepthPerSession",
 
   // Click Metrics
-  | "clicks"
-  | "clicksPerUser"
-  | "clicksPerSession"
-  | "clickThroughRate"
+  "clicks",
+  "clicksPerUser",
+  "clicksPerSession",
+  "clickThroughRate",
 
   // Impression Metrics
-  | "impressions"
-  | "impressionsPerUser"
-  | "impressionsPerSession"
+  "impressions",
+  "impressionsPerUser",
+  "impressionsPerSession",
 
   // Error Metrics
-  | "errors"
-  | "errorsPerUser"
-  | "errorsPerSession"
-  | "errorRate"
+  "errors",
+  "errorsPerUser",
+  "errorsPerSession",
+  "errorRate",
 
   // Performance Metrics
-  | "pageLoadTime"
-  | "pageLoadTimePerUser"
-  | "pageLoadTimePerSession"
-  | "serverResponseTime"
-  | "serverResponseTimePerUser"
-  | "serverResponseTimePerSession"
+  "pageLoadTime",
+  "pageLoadTimePerUser",
+  "pageLoadTimePerSession",
+  "serverResponseTime",
+  "serverResponseTimePerUser",
+  "serverResponseTimePerSession",
 
   // Custom Dimensions (if configured)
-  | "customEvent:custom_dimension_1"
-  | "customEvent:custom_dimension_2"
-  | "customEvent:custom_dimension_3"
-  | "customEvent:custom_dimension_4"
-  | "customEvent:custom_dimension_5";
+  "customEvent:custom_dimension_1",
+  "customEvent:custom_dimension_2",
+  "customEvent:custom_dimension_3",
+  "customEvent:custom_dimension_4",
+  "customEvent:custom_dimension_5",
+] as const;
+
+export type GA4MetricName = (typeof GA4_METRIC_NAMES)[number];
 
 // GA4 Dimensions - Comprehensive list of all available dimensions
-export type GA4DimensionName =
+export const GA4_DIMENSION_NAMES = [
   // Time Dimensions
-  | "date"
-  | "dateHour"
-  | "dateHourMinute"
-  | "dateMinute"
-  | "dateWeek"
-  | "dateMonth"
-  | "dateQuarter"
-  | "dateYear"
-  | "dateHourMinuteSecond"
-  | "dateMinuteSecond"
-  | "dateSecond"
+  "date",
+  "dateHour",
+  "dateHourMinute",
+  "dateMinute",
+  "dateWeek",
+  "dateMonth",
+  "dateQuarter",
+  "dateYear",
+  "dateHourMinuteSecond",
+  "dateMinuteSecond",
+  "dateSecond",
 
   // User Dimensions
-  | "userId"
-  | "userPseudoId"
-  | "userFirstTouchChannel"
-  | "userFirstTouchSource"
-  | "userFirstTouchMedium"
-  | "userFirstTouchCampaign"
-  | "userFirstTouchAdContent"
-  | "userFirstTouchKeyword"
-  | "userFirstTouchPlacement"
-  | "userFirstTouchSite"
-  | "userFirstTouchCreative"
-  | "userFirstTouchAdGroup"
-  | "userFirstTouchAdNetwork"
-  | "userFirstTouchAdNetworkType"
-  | "userFirstTouchAdNetworkPlacement"
-  | "userFirstTouchAdNetworkCreative"
-  | "userFirstTouchAdNetworkAdGroup"
-  | "userFirstTouchAdNetworkCampaign"
-  | "userFirstTouchAdNetworkSite"
+  "userId",
+  "userPseudoId",
+  "userFirstTouchChannel",
+  "userFirstTouchSource",
+  "userFirstTouchMedium",
+  "userFirstTouchCampaign",
+  "userFirstTouchAdContent",
+  "userFirstTouchKeyword",
+  "userFirstTouchPlacement",
+  "userFirstTouchSite",
+  "userFirstTouchCreative",
+  "userFirstTouchAdGroup",
+  "userFirstTouchAdNetwork",
+  "userFirstTouchAdNetworkType",
+  "userFirstTouchAdNetworkPlacement",
+  "userFirstTouchAdNetworkCreative",
+  "userFirstTouchAdNetworkAdGroup",
+  "userFirstTouchAdNetworkCampaign",
+  "userFirstTouchAdNetworkSite",
 
   // Session Dimensions
-  | "sessionId"
-  | "sessionDefaultChannelGroup"
-  | "sessionDefaultChannelGrouping"
-  | "sessionSource"
-  | "sessionMedium"
-  | "sessionCampaign"
-  | "sessionCampaignId"
-  | "sessionCampaignAdContent"
-  | "sessionCampaignKeyword"
-  | "sessionCampaignPlacement"
-  | "sessionCampaignSite"
-  | "sessionCampaignCreative"
-  | "sessionCampaignAdGroup"
-  | "sessionCampaignAdNetwork"
-  | "sessionCampaignAdNetworkType"
-  | "sessionCampaignAdNetworkPlacement"
-  | "sessionCampaignAdNetworkCreative"
-  | "sessionCampaignAdNetworkAdGroup"
-  | "sessionCampaignAdNetworkCampaign"
-  | "sessionCampaignAdNetworkSite"
+  "sessionId",
+  "sessionDefaultChannelGroup",
+  "sessionDefaultChannelGrouping",
+  "sessionSource",
+  "sessionMedium",
+  "sessionSourceMedium",
+  "sessionCampaign",
+  "sessionCampaignId",
+  "sessionCampaignAdContent",
+  "sessionCampaignKeyword",
+  "sessionCampaignPlacement",
+  "sessionCampaignSite",
+  "sessionCampaignCreative",
+  "sessionCampaignAdGroup",
+  "sessionCampaignAdNetwork",
+  "sessionCampaignAdNetworkType",
+  "sessionCampaignAdNetworkPlacement",
+  "sessionCampaignAdNetworkCreative",
+  "sessionCampaignAdNetworkAdGroup",
+  "sessionCampaignAdNetworkCampaign",
+  "sessionCampaignAdNetworkSite",
 
   // Geographic Dimensions
-  | "country"
-  | "region"
-  | "city"
-  | "continent"
-  | "subContinent"
-  | "metro"
-  | "cityId"
-  | "regionId"
-  | "countryId"
-  | "continentId"
-  | "subContinentId"
-  | "metroId"
+  "country",
+  "region",
+  "city",
+  "continent",
+  "subContinent",
+  "metro",
+  "cityId",
+  "regionId",
+  "countryId",
+  "continentId",
+  "subContinentId",
+  "metroId",
 
   // Device Dimensions
-  | "deviceCategory"
-  | "deviceBrand"
-  | "deviceModel"
-  | "deviceOperatingSystem"
-  | "deviceOperatingSystemVersion"
-  | "deviceVendor"
-  | "deviceScreenResolution"
-  | "deviceScreenColors"
-  | "deviceScreenSize"
-  | "deviceScreenWidth"
-  | "deviceScreenHeight"
-  | "deviceScreenDensity"
-  | "deviceScreenDensityBucket"
-  | "deviceScreenDensityBucketId"
-  | "deviceScreenDensityBucketName"
-  | "deviceScreenDensityBucketDescription"
-  | "deviceScreenDensityBucketExample"
-  | "deviceScreenDensityBucketExampleId"
-  | "deviceScreenDensityBucketExampleName"
-  | "deviceScreenDensityBucketExampleDescription"
+  "deviceCategory",
+  "deviceBrand",
+  "deviceModel",
+  "deviceOperatingSystem",
+  "deviceOperatingSystemVersion",
+  "deviceVendor",
+  "deviceScreenResolution",
+  "deviceScreenColors",
+  "deviceScreenSize",
+  "deviceScreenWidth",
+  "deviceScreenHeight",
+  "deviceScreenDensity",
+  "deviceScreenDensityBucket",
+  "deviceScreenDensityBucketId",
+  "deviceScreenDensityBucketName",
+  "deviceScreenDensityBucketDescription",
+  "deviceScreenDensityBucketExample",
+  "deviceScreenDensityBucketExampleId",
+  "deviceScreenDensityBucketExampleName",
+  "deviceScreenDensityBucketExampleDescription",
 
   // Browser Dimensions
-  | "browser"
-  | "browserVersion"
-  | "browserEngine"
-  | "browserEngineVersion"
+  "browser",
+  "browserVersion",
+  "browserEngine",
+  "browserEngineVersion",
 
   // Platform Dimensions
-  | "platform"
-  | "platformVersion"
-  | "platformDeviceCategory"
+  "platform",
+  "platformVersion",
+  "platformDeviceCategory",
 
   // Content Dimensions
-  | "pagePath"
-  | "pageTitle"
-  | "pagePathPlusQueryString"
-  | "pagePathLevel1"
-  | "pagePathLevel2"
-  | "pagePathLevel3"
-  | "pagePathLevel4"
-  | "pageReferrer"
-  | "pageReferrerCategory"
-  | "pageReferrerSource"
-  | "pageReferrerMedium"
-  | "pageReferrerCampaign"
-  | "pageReferrerCampaignId"
-  | "pageReferrerCampaignAdContent"
-  | "pageReferrerCampaignKeyword"
-  | "pageReferrerCampaignPlacement"
-  | "pageReferrerCampaignSite"
-  | "pageReferrerCampaignCreative"
-  | "pageReferrerCampaignAdGroup"
-  | "pageReferrerCampaignAdNetwork"
-  | "pageReferrerCampaignAdNetworkType"
-  | "pageReferrerCampaignAdNetworkPlacement"
-  | "pageReferrerCampaignAdNetworkCreative"
-  | "pageReferrerCampaignAdNetworkAdGroup"
-  | "pageReferrerCampaignAdNetworkCampaign"
-  | "pageReferrerCampaignAdNetworkSite"
+  "pagePath",
+  "pageTitle",
+  "pagePathPlusQueryString",
+  "pagePathLevel1",
+  "pagePathLevel2",
+  "pagePathLevel3",
+  "pagePathLevel4",
+  "pageReferrer",
+  "pageReferrerCategory",
+  "pageReferrerSource",
+  "pageReferrerMedium",
+  "pageReferrerCampaign",
+  "pageReferrerCampaignId",
+  "pageReferrerCampaignAdContent",
+  "pageReferrerCampaignKeyword",
+  "pageReferrerCampaignPlacement",
+  "pageReferrerCampaignSite",
+  "pageReferrerCampaignCreative",
+  "pageReferrerCampaignAdGroup",
+  "pageReferrerCampaignAdNetwork",
+  "pageReferrerCampaignAdNetworkType",
+  "pageReferrerCampaignAdNetworkPlacement",
+  "pageReferrerCampaignAdNetworkCreative",
+  "pageReferrerCampaignAdNetworkAdGroup",
+  "pageReferrerCampaignAdNetworkCampaign",
+  "pageReferrerCampaignAdNetworkSite",
 
   // Event Dimensions
-  | "eventName"
-  | "eventCount"
-  | "eventValue"
-  | "eventValueInUsd"
-  | "eventValueInCurrency"
-  | "eventCurrency"
-  | "eventBundleSequenceId"
-  | "eventServerTimestampOffset"
-  | "eventTimestampMicros"
-  | "eventTimestamp"
-  | "eventDate"
-  | "eventDateHour"
-  | "eventDateHourMinute"
-  | "eventDateMinute"
-  | "eventDateWeek"
-  | "eventDateMonth"
-  | "eventDateQuarter"
-  | "eventDateYear"
-  | "eventDateHourMinuteSecond"
-  | "eventDateMinuteSecond"
-  | "eventDateSecond"
+  "eventName",
+  "eventCount",
+  "eventValue",
+  "eventValueInUsd",
+  "eventValueInCurrency",
+  "eventCurrency",
+  "eventBundleSequenceId",
+  "eventServerTimestampOffset",
+  "eventTimestampMicros",
+  "eventTimestamp",
+  "eventDate",
+  "eventDateHour",
+  "eventDateHourMinute",
+  "eventDateMinute",
+  "eventDateWeek",
+  "eventDateMonth",
+  "eventDateQuarter",
+  "eventDateYear",
+  "eventDateHourMinuteSecond",
+  "eventDateMinuteSecond",
+  "eventDateSecond",
 
   // E-commerce Dimensions
-  | "transactionId"
-  | "transactionRevenue"
-  | "transactionRevenueInUsd"
-  | "transactionRevenueInCurrency"
-  | "transactionCurrency"
-  | "transactionTax"
-  | "transactionTaxInUsd"
-  | "transactionTaxInCurrency"
-  | "transactionShipping"
-  | "transactionShippingInUsd"
-  | "transactionShippingInCurrency"
-  | "transactionCouponCode"
-  | "transactionCouponCodeId"
-  | "transactionCouponCodeName"
-  | "transactionCouponCodeDescription"
-  | "transactionCouponCodeExample"
-  | "transactionCouponCodeExampleId"
-  | "transactionCouponCodeExampleName"
-  | "transactionCouponCodeExampleDescription"
-  | "transactionAffiliation"
-  | "transactionAffiliationId"
-  | "transactionAffiliationName"
-  | "transactionAffiliationDescription"
-  | "transactionAffiliationExample"
-  | "transactionAffiliationExampleId"
-  | "transactionAffiliationExampleName"
-  | "transactionAffiliationExampleDescription"
+  "transactionId",
+  "transactionRevenue",
+  "transactionRevenueInUsd",
+  "transactionRevenueInCurrency",
+  "transactionCurrency",
+  "transactionTax",
+  "transactionTaxInUsd",
+  "transactionTaxInCurrency",
+  "transactionShipping",
+  "transactionShippingInUsd",
+  "transactionShippingInCurrency",
+  "transactionCouponCode",
+  "transactionCouponCodeId",
+  "transactionCouponCodeName",
+  "transactionCouponCodeDescription",
+  "transactionCouponCodeExample",
+  "transactionCouponCodeExampleId",
+  "transactionCouponCodeExampleName",
+  "transactionCouponCodeExampleDescription",
+  "transactionAffiliation",
+  "transactionAffiliationId",
+  "transactionAffiliationName",
+  "transactionAffiliationDescription",
+  "transactionAffiliationExample",
+  "transactionAffiliationExampleId",
+  "transactionAffiliationExampleName",
+  "transactionAffiliationExampleDescription",
 
   // Item Dimensions
-  | "itemId"
-  | "itemName"
-  | "itemCategory"
-  | "itemCategory2"
-  | "itemCategory3"
-  | "itemCategory4"
-  | "itemCategory5"
-  | "itemVariant"
-  | "itemBrand"
-  | "itemCouponCode"
-  | "itemAffiliation"
-  | "itemListId"
-  | "itemListName"
-  | "itemListIndex"
-  | "itemPromotionId"
-  | "itemPromotionName"
-  | "itemCreativeSlot"
-  | "itemCreativeName"
-  | "itemLocationId"
-  | "itemLocationName"
-  | "itemDiscount"
-  | "itemDiscountInUsd"
-  | "itemDiscountInCurrency"
-  | "itemRevenue"
-  | "itemRevenueInUsd"
-  | "itemRevenueInCurrency"
-  | "itemQuantity"
-  | "itemCurrency"
-  | "itemPrice"
-  | "itemPriceInUsd"
-  | "itemPriceInCurrency"
+  "itemId",
+  "itemName",
+  "itemCategory",
+  "itemCategory2",
+  "itemCategory3",
+  "itemCategory4",
+  "itemCategory5",
+  "itemVariant",
+  "itemBrand",
+  "itemCouponCode",
+  "itemAffiliation",
+  "itemListId",
+  "itemListName",
+  "itemListIndex",
+  "itemPromotionId",
+  "itemPromotionName",
+  "itemCreativeSlot",
+  "itemCreativeName",
+  "itemLocationId",
+  "itemLocationName",
+  "itemDiscount",
+  "itemDiscountInUsd",
+  "itemDiscountInCurrency",
+  "itemRevenue",
+  "itemRevenueInUsd",
+  "itemRevenueInCurrency",
+  "itemQuantity",
+  "itemCurrency",
+  "itemPrice",
+  "itemPriceInUsd",
+  "itemPriceInCurrency",
 
   // Custom Dimensions (if configured)
-  | "customEvent:custom_dimension_1"
-  | "customEvent:custom_dimension_2"
-  | "customEvent:custom_dimension_3"
-  | "customEvent:custom_dimension_4"
-  | "customEvent:custom_dimension_5"
-  | "customEvent:custom_dimension_6"
-  | "customEvent:custom_dimension_7"
-  | "customEvent:custom_dimension_8"
-  | "customEvent:custom_dimension_9"
-  | "customEvent:custom_dimension_10"
-  | "customEvent:custom_dimension_11"
-  | "customEvent:custom_dimension_12"
-  | "customEvent:custom_dimension_13"
-  | "customEvent:custom_dimension_14"
-  | "customEvent:custom_dimension_15"
-  | "customEvent:custom_dimension_16"
-  | "customEvent:custom_dimension_17"
-  | "customEvent:custom_dimension_18"
-  | "customEvent:custom_dimension_19"
-  | "customEvent:custom_dimension_20"
-  | "customEvent:custom_dimension_21"
-  | "customEvent:custom_dimension_22"
-  | "customEvent:custom_dimension_23"
-  | "customEvent:custom_dimension_24"
-  | "customEvent:custom_dimension_25"
-  | "customEvent:custom_dimension_26"
-  | "customEvent:custom_dimension_27"
-  | "customEvent:custom_dimension_28"
-  | "customEvent:custom_dimension_29"
-  | "customEvent:custom_dimension_30"
-  | "customEvent:custom_dimension_31"
-  | "customEvent:custom_dimension_32"
-  | "customEvent:custom_dimension_33"
-  | "customEvent:custom_dimension_34"
-  | "customEvent:custom_dimension_35"
-  | "customEvent:custom_dimension_36"
-  | "customEvent:custom_dimension_37"
-  | "customEvent:custom_dimension_38"
-  | "customEvent:custom_dimension_39"
-  | "customEvent:custom_dimension_40"
-  | "customEvent:custom_dimension_41"
-  | "customEvent:custom_dimension_42"
-  | "customEvent:custom_dimension_43"
-  | "customEvent:custom_dimension_44"
-  | "customEvent:custom_dimension_45"
-  | "customEvent:custom_dimension_46"
-  | "customEvent:custom_dimension_47"
-  | "customEvent:custom_dimension_48"
-  | "customEvent:custom_dimension_49"
-  | "customEvent:custom_dimension_50";
+  "customEvent:custom_dimension_1",
+  "customEvent:custom_dimension_2",
+  "customEvent:custom_dimension_3",
+  "customEvent:custom_dimension_4",
+  "customEvent:custom_dimension_5",
+  "customEvent:custom_dimension_6",
+  "customEvent:custom_dimension_7",
+  "customEvent:custom_dimension_8",
+  "customEvent:custom_dimension_9",
+  "customEvent:custom_dimension_10",
+  "customEvent:custom_dimension_11",
+  "customEvent:custom_dimension_12",
+  "customEvent:custom_dimension_13",
+  "customEvent:custom_dimension_14",
+  "customEvent:custom_dimension_15",
+  "customEvent:custom_dimension_16",
+  "customEvent:custom_dimension_17",
+  "customEvent:custom_dimension_18",
+  "customEvent:custom_dimension_19",
+  "customEvent:custom_dimension_20",
+  "customEvent:custom_dimension_21",
+  "customEvent:custom_dimension_22",
+  "customEvent:custom_dimension_23",
+  "customEvent:custom_dimension_24",
+  "customEvent:custom_dimension_25",
+  "customEvent:custom_dimension_26",
+  "customEvent:custom_dimension_27",
+  "customEvent:custom_dimension_28",
+  "customEvent:custom_dimension_29",
+  "customEvent:custom_dimension_30",
+  "customEvent:custom_dimension_31",
+  "customEvent:custom_dimension_32",
+  "customEvent:custom_dimension_33",
+  "customEvent:custom_dimension_34",
+  "customEvent:custom_dimension_35",
+  "customEvent:custom_dimension_36",
+  "customEvent:custom_dimension_37",
+  "customEvent:custom_dimension_38",
+  "customEvent:custom_dimension_39",
+  "customEvent:custom_dimension_40",
+  "customEvent:custom_dimension_41",
+  "customEvent:custom_dimension_42",
+  "customEvent:custom_dimension_43",
+  "customEvent:custom_dimension_44",
+  "customEvent:custom_dimension_45",
+  "customEvent:custom_dimension_46",
+  "customEvent:custom_dimension_47",
+  "customEvent:custom_dimension_48",
+  "customEvent:custom_dimension_49",
+  "customEvent:custom_dimension_50",
+] as const;
+
+export type GA4DimensionName = (typeof GA4_DIMENSION_NAMES)[number];
@@ -1,6 +1,6 @@
 // Chat Interface Types for Analytics
 
-import type { AnalyticsProperty, AnalyticsData } from "./analytics";
+import type { AnalyticsProperty, AnalyticsData, MetricAnomaly, SignificanceTest } from "./analytics";
 
 // Chat Message Types
 export interface ChatMessage {
@@ -24,6 +24,8 @@ export type QueryIntent =
 export interface ExtractedEntities {
   brands: string[];
   metrics: string[];
+  // Custom dimensions matched from property metadata
+  dimensions?: string[];
   timeReferences: string[];
   comparisonType?: 'vs' | 'ranking' | 'trend';
 }
@@ -43,11 +45,15 @@ export interface AnalyticsContext {
   aggregatedData: AggregatedMetrics;
   trends: TrendAnalysis[];
   comparisons: ComparisonData[];
+  // Unusual days in the properties' daily series, strongest first
+  anomalies?: AnomalyInsight[];
 }
 
 export interface PropertySummary {
   propertyId: string;
   displayName: string;
+  // Currency of the property's monetary metrics (ISO 4217), when known
+  currencyCode?: string;
   metrics: Record<string, number>;
   trends: Record<string, TrendDirection>;
 }
@@ -67,15 +73,37 @@ export interface AggregatedMetrics {
   averageBounceRate: number;
   averageSessionDuration: number;
   totalRevenue?: number;
+  totalTransactions?: number;
+  // Transactions per 100 sessions
   conversionRate?: number;
+  averageOrderValue?: number;
+  // Currency of totalRevenue and averageOrderValue (the reporting currency)
+  currencyCode?: string;
+  // Properties whose revenue could not be converted to the reporting currency and is not in totalRevenue
+  revenueExcludedPropertyIds?: string[];
+  // Distinct time zones of the merged properties when they differ; their days cover different hours
+  mixedTimeZones?: string[];
 }
 
 export interface TrendAnalysis {
   metric: string;
   direction: TrendDirection;
   changePercent: number;
+  // From the p-value of period comparisons (see SignificanceTesting)
   significance: 'high' | 'medium' | 'low';
   description: string;
+  // How a period comparison was tested; absent for benchmark trends
+  test?: SignificanceTest;
+  pValue?: number;
+  // The comparison lacked the data its test needs, so its significance is unknown
+  insufficientData?: boolean;
+}
+
+export interface AnomalyInsight extends MetricAnomaly {
+  propertyId: string;
+  propertyName: string;
+  metric: string;
+  description: string;
 }
 
 export interface ComparisonData {
@@ -138,7 +166,9 @@ export interface ContextManager {
   ): AnalyticsContext;
 
   aggregateMetrics(
-    analyticsData: Record<string, AnalyticsData>
+    analyticsData: Record<string, AnalyticsData>,
+    currencies?: Record<string, string>,
+    timeZones?: Record<string, string>
   ): AggregatedMetrics;
 
   calculateTrends(